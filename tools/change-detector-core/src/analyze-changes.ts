@@ -0,0 +1,124 @@
+/**
+ * Convenience function combining parsing, diffing and classification.
+ */
+
+import type * as ts from 'typescript'
+import type { ApiChange, ParseOptions, DiffOptions } from './ast/types'
+import type { Policy, ClassificationResult } from './ast/rule-builder'
+import type { ReleaseType } from './types'
+import { parseModuleWithTypes as parseASTModule } from './ast/parser'
+import { diffModules as diffASTModules } from './ast/differ'
+import {
+  classifyChanges as classifyASTChangesInternal,
+  determineOverallRelease as determineOverallReleaseInternal,
+} from './ast/rule-builder'
+import { semverDefaultPolicy as defaultPolicy } from './ast/builtin-policies'
+
+/**
+ * Options for the analyzeChanges convenience function.
+ *
+ * @alpha
+ */
+export interface AnalyzeChangesOptions {
+  /** Policy to use for classification (defaults to semverDefaultPolicy) */
+  policy?: Policy
+  /** Options for parsing source code */
+  parseOptions?: ParseOptions
+  /** Options for comparing modules */
+  diffOptions?: DiffOptions
+  /** Whether to record why each change was classified (see `ClassifyOptions`) */
+  trace?: boolean
+  /**
+   * Whether to classify nested changes as well, so that they count towards
+   * the overall release type (see `ClassifyOptions.nested`)
+   */
+  nested?: boolean
+}
+
+/**
+ * Result of analyzing changes between two source files.
+ *
+ * @alpha
+ */
+export interface AnalyzeChangesResult {
+  /** All detected API changes */
+  changes: ApiChange[]
+  /**
+   * Classification results with matched rules. With `{ nested: true }`,
+   * each holds the classifications of its nested changes in `nestedChanges`
+   */
+  results: ClassificationResult[]
+  /** The overall release type (highest severity) */
+  releaseType: ReleaseType
+}
+
+/**
+ * Convenience function that combines parsing, diffing, and classification.
+ *
+ * This is the recommended entry point for change analysis. It handles the
+ * full workflow of:
+ * 1. Parsing both source files into AST analyses with TypeChecker
+ * 2. Computing structural changes between them
+ * 3. Classifying changes according to the policy
+ * 4. Determining the overall release type
+ *
+ * @param oldSource - The old (baseline) source code
+ * @param newSource - The new source code to compare
+ * @param tsModule - The TypeScript module to use for type checking
+ * @param options - Optional configuration for parsing, diffing, and policy
+ * @returns Analysis results including changes, classifications, and release type
+ *
+ * @example
+ * ```ts
+ * import * as ts from 'typescript';
+ * import { analyzeChanges } from '@api-extractor-tools/change-detector-core';
+ *
+ * const result = analyzeChanges(oldSource, newSource, ts);
+ * console.log(`Release type: ${result.releaseType}`);
+ *
+ * for (const { change, releaseType, matchedRule } of result.results) {
+ *   console.log(`[${releaseType}] ${change.explanation}`);
+ *   if (matchedRule) {
+ *     console.log(`  Rule: ${matchedRule.name}`);
+ *   }
+ * }
+ * ```
+ *
+ * @alpha
+ */
+export function analyzeChanges(
+  oldSource: string,
+  newSource: string,
+  tsModule: typeof ts,
+  options: AnalyzeChangesOptions = {},
+): AnalyzeChangesResult {
+  const {
+    policy = defaultPolicy,
+    parseOptions = {},
+    diffOptions = { includeNestedChanges: true },
+    trace = false,
+    nested = false,
+  } = options
+
+  // Parse both sources with TypeChecker
+  const oldAnalysis = parseASTModule(oldSource, tsModule, parseOptions)
+  const newAnalysis = parseASTModule(newSource, tsModule, parseOptions)
+
+  // Compute changes
+  const changes = diffASTModules(oldAnalysis, newAnalysis, diffOptions)
+
+  // Classify changes
+  const results = classifyASTChangesInternal(changes, policy, {
+    trace,
+    nested,
+  })
+
+  // Determine overall release type
+  const releaseType = determineOverallReleaseInternal(results)
+
+  return {
+    changes,
+    results,
+    releaseType,
+  }
+}
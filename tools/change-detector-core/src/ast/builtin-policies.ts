@@ -4,7 +4,9 @@
  * These policies provide semantic versioning guidance for API changes.
  */
 
-import { rule, createPolicy, type Policy } from './rule-builder'
+import type { ReleaseType } from '../types'
+import { rule, createPolicy, classifyChange, type Policy } from './rule-builder'
+import { extendPolicy } from './policy-composition'
 
 // =============================================================================
 // Semver Default Policy
@@ -14,14 +16,26 @@ import { rule, createPolicy, type Policy } from './rule-builder'
  * Standard semver policy for general API compatibility.
  *
  * Rules:
- * - Removals are always breaking (major)
+ * - Removals are always breaking (major), including removed overloads
+ * - Renames and moves into or out of namespaces are breaking (major)
  * - Required parameter additions are breaking (major)
+ * - Overload reordering is breaking (major), as it changes overload resolution
+ * - Type changes are classified by variance: widening input types and
+ *   narrowing output types is non-breaking (minor), the opposite is
+ *   breaking (major), and any widening or narrowing of invariant types
+ *   (mutable properties, type aliases) is breaking (major)
  * - Type narrowing is breaking (major)
  * - Optionality changes are breaking (major)
- * - Optional additions are non-breaking (minor)
+ * - Optional additions and new overloads are non-breaking (minor)
  * - Type widening is non-breaking (minor)
  * - Deprecations are patch-level
- * - Equivalent changes have no impact
+ * - Demoting a release tag (e.g. \@public to \@beta) is breaking (major) and
+ *   promoting one is non-breaking (minor)
+ * - Equivalent changes have no impact, including changes of declaration kind
+ *   with a structurally equivalent type (e.g. interface to type alias); lost
+ *   interface capabilities are tagged `lost-declaration-merging` and
+ *   `lost-implements` for stricter policies
+ * - Other changes of declaration kind are breaking (major)
  *
  * @alpha
  */
@@ -44,6 +58,13 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .rationale('Removing a member breaks consumers who access it')
       .returns('major'),
   )
+  .addRule(
+    rule('overload-removal')
+      .target('overload')
+      .action('removed')
+      .rationale('Removing an overload breaks callers that rely on it')
+      .returns('major'),
+  )
 
   // Renames - breaking by default
   .addRule(
@@ -53,6 +74,16 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Moves between namespaces - breaking
+  .addRule(
+    rule('move')
+      .action('moved')
+      .rationale(
+        'Moving a declaration breaks consumers who reference it by its path',
+      )
+      .returns('major'),
+  )
+
   // Parameter reordering - breaking
   .addRule(
     rule('param-reorder')
@@ -62,6 +93,17 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Overload reordering - breaking
+  .addRule(
+    rule('overload-reorder')
+      .target('overload')
+      .action('reordered')
+      .rationale(
+        'Overloads resolve in declaration order, so calls may pick a different overload',
+      )
+      .returns('major'),
+  )
+
   // Type parameter reordering - breaking
   .addRule(
     rule('type-param-reorder')
@@ -91,6 +133,56 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Variance-aware type changes. Types in input positions (parameters)
+  // are written by consumers and types in output positions (return types,
+  // readonly properties) are read by them; invariant positions are both.
+  .addRule(
+    rule('input-type-widening')
+      .aspect('type')
+      .impact('widening')
+      .hasTag('in-input-position')
+      .notTag('in-output-position')
+      .rationale('Accepting more input types keeps existing calls valid')
+      .returns('minor'),
+  )
+  .addRule(
+    rule('input-type-narrowing')
+      .aspect('type')
+      .impact('narrowing')
+      .hasTag('in-input-position')
+      .notTag('in-output-position')
+      .rationale('Accepting fewer input types rejects existing calls')
+      .returns('major'),
+  )
+  .addRule(
+    rule('output-type-widening')
+      .aspect('type')
+      .impact('widening')
+      .hasTag('in-output-position')
+      .notTag('in-input-position')
+      .rationale('Consumers may not handle the values of a wider output type')
+      .returns('major'),
+  )
+  .addRule(
+    rule('output-type-narrowing')
+      .aspect('type')
+      .impact('narrowing')
+      .hasTag('in-output-position')
+      .notTag('in-input-position')
+      .rationale('A narrower output type is still handled by consumers')
+      .returns('minor'),
+  )
+  .addRule(
+    rule('invariant-type-change')
+      .aspect('type')
+      .impact('widening', 'narrowing')
+      .hasTag('in-input-position', 'in-output-position')
+      .rationale(
+        'Types that are both read and written cannot be widened or narrowed safely',
+      )
+      .returns('major'),
+  )
+
   // Type narrowing - breaking
   .addRule(
     rule('type-narrowing')
@@ -126,6 +218,17 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Release tag demotion - breaking, consumers lose stability guarantees
+  .addRule(
+    rule('release-tag-demotion')
+      .aspect('release-tag')
+      .impact('narrowing')
+      .rationale(
+        'Demoting a release tag withdraws the API from its current consumers',
+      )
+      .returns('major'),
+  )
+
   // Readonly removal - breaking (can now be mutated)
   .addRule(
     rule('readonly-removed')
@@ -143,6 +246,17 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Const enum value changes - breaking, consumers inline the old values
+  .addRule(
+    rule('inlined-enum-value-change')
+      .aspect('enum-value')
+      .hasTag('inlined-value')
+      .rationale(
+        'Consumers compiled against a const enum keep its old values inlined',
+      )
+      .returns('major'),
+  )
+
   // Enum value changes - breaking
   .addRule(
     rule('enum-value-change')
@@ -151,6 +265,26 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Enum made const - breaking, its runtime object is gone
+  .addRule(
+    rule('enum-made-const')
+      .aspect('constness')
+      .impact('narrowing')
+      .rationale('A const enum has no runtime object to look values up in')
+      .returns('major'),
+  )
+
+  // Enum made non-const - minor, inlined values stay valid
+  .addRule(
+    rule('enum-made-non-const')
+      .aspect('constness')
+      .impact('widening')
+      .rationale(
+        'Inlined values stay valid and the enum gains a runtime object',
+      )
+      .returns('minor'),
+  )
+
   // Export addition - minor
   .addRule(
     rule('export-addition')
@@ -160,6 +294,15 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('minor'),
   )
 
+  // Overload addition - minor
+  .addRule(
+    rule('overload-addition')
+      .target('overload')
+      .action('added')
+      .rationale('Adding an overload accepts additional call forms')
+      .returns('minor'),
+  )
+
   // Optional parameter/property addition - minor
   .addRule(
     rule('optional-addition')
@@ -197,6 +340,17 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .returns('minor'),
   )
 
+  // Release tag promotion - minor, like an addition
+  .addRule(
+    rule('release-tag-promotion')
+      .aspect('release-tag')
+      .impact('widening')
+      .rationale(
+        'Promoting a release tag makes the API available to more consumers',
+      )
+      .returns('minor'),
+  )
+
   // Undeprecation - minor
   .addRule(
     rule('undeprecation')
@@ -249,8 +403,78 @@ export const semverDefaultPolicy: Policy = createPolicy(
       .rationale('Semantically equivalent types require no version bump')
       .returns('none'),
   )
+
+  // Kind changes - none if the declared type is structurally equivalent
+  .addRule(
+    rule('equivalent-kind-change')
+      .aspect('kind-changed')
+      .impact('equivalent')
+      .rationale(
+        'A structurally equivalent declaration of another kind is interchangeable for consumers',
+      )
+      .returns('none'),
+  )
+  .addRule(
+    rule('unique-symbol-kind-change')
+      .aspect('kind-changed')
+      .impact('narrowing')
+      .rationale('A unique symbol can be used wherever the symbol was')
+      .returns('minor'),
+  )
+  .addRule(
+    rule('kind-change')
+      .aspect('kind-changed')
+      .rationale(
+        'Changing the kind of a declaration changes how it can be used',
+      )
+      .returns('major'),
+  )
   .build()
 
+// =============================================================================
+// Release Tag Policy
+// =============================================================================
+
+function isBreaking(releaseType: ReleaseType): boolean {
+  return releaseType === 'major' || releaseType === 'forbidden'
+}
+
+/**
+ * Semver policy that follows API Extractor release tags.
+ *
+ * Changes to \@internal declarations have no impact (none), and changes to
+ * \@alpha and \@beta declarations are capped at minor, since their
+ * consumers expect them to change. All other changes, and non-breaking
+ * changes to \@alpha and \@beta declarations, are classified by
+ * {@link semverDefaultPolicy}.
+ *
+ * Members without a release tag have that of their container, and changes
+ * of a release tag itself are classified by the more public of the two
+ * tags: promoting an \@internal declaration to \@public is minor, while
+ * demoting a \@public one to \@internal is major.
+ *
+ * @alpha
+ */
+export const semverReleaseTagPolicy: Policy = extendPolicy(
+  semverDefaultPolicy,
+  {
+    name: 'semver-release-tags',
+    overrides: [
+      rule('internal-change')
+        .hasTag('is-internal')
+        .rationale('Internal declarations are not part of the public API')
+        .returns('none'),
+      rule('prerelease-breaking-change')
+        .hasAnyTag('is-alpha', 'is-beta')
+        .when((change) =>
+          isBreaking(classifyChange(change, semverDefaultPolicy).releaseType),
+        )
+        .rationale('Consumers of alpha and beta APIs expect breaking changes')
+        .returns('minor'),
+    ],
+  },
+)
+
 // =============================================================================
 // Read-Only (Consumer/Covariant) Policy
 // =============================================================================
@@ -263,6 +487,8 @@ export const semverDefaultPolicy: Policy = createPolicy(
  * - Type narrowing is breaking (might not handle all values)
  * - Adding members is safe (more data available)
  * - Removing members is breaking (expected data missing)
+ * - Adding overloads is safe (more call forms available), removing or
+ *   reordering them is breaking (calls may fail or resolve differently)
  *
  * @alpha
  */
@@ -270,6 +496,15 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
   'semver-read-only',
   'major',
 )
+  // Overload removal - breaking (readers call it)
+  .addRule(
+    rule('overload-removal')
+      .target('overload')
+      .action('removed')
+      .rationale('Readers may call the removed overload')
+      .returns('major'),
+  )
+
   // Removals - breaking (readers expect data)
   .addRule(
     rule('removal')
@@ -286,6 +521,14 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Moves between namespaces - breaking
+  .addRule(
+    rule('move')
+      .action('moved')
+      .rationale('Readers reference by path')
+      .returns('major'),
+  )
+
   // Parameter reordering - breaking
   .addRule(
     rule('param-reorder')
@@ -295,6 +538,15 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Overload reordering - breaking
+  .addRule(
+    rule('overload-reorder')
+      .target('overload')
+      .action('reordered')
+      .rationale('Calls of readers may resolve to a different overload')
+      .returns('major'),
+  )
+
   // Type parameter reordering - breaking
   .addRule(
     rule('type-param-reorder')
@@ -322,6 +574,15 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Overload addition - minor (readers get more call forms)
+  .addRule(
+    rule('overload-addition')
+      .target('overload')
+      .action('added')
+      .rationale('Readers can call the function in additional ways')
+      .returns('minor'),
+  )
+
   // Additions - minor (readers get more data)
   .addRule(
     rule('addition')
@@ -348,6 +609,26 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
       .returns('minor'),
   )
 
+  // Release tag changes - demotion is breaking, promotion is minor
+  .addRule(
+    rule('release-tag-demotion')
+      .aspect('release-tag')
+      .impact('narrowing')
+      .rationale(
+        'Demoting a release tag withdraws the API from its current consumers',
+      )
+      .returns('major'),
+  )
+  .addRule(
+    rule('release-tag-promotion')
+      .aspect('release-tag')
+      .impact('widening')
+      .rationale(
+        'Promoting a release tag makes the API available to more consumers',
+      )
+      .returns('minor'),
+  )
+
   // Undeprecation - minor
   .addRule(
     rule('undeprecation')
@@ -364,6 +645,22 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
       .returns('patch'),
   )
 
+  // Enum made non-const - minor
+  .addRule(
+    rule('enum-made-non-const')
+      .aspect('constness')
+      .impact('widening')
+      .returns('minor'),
+  )
+
+  // Symbol made unique - minor
+  .addRule(
+    rule('unique-symbol-kind-change')
+      .aspect('kind-changed')
+      .impact('narrowing')
+      .returns('minor'),
+  )
+
   // Default changes - patch
   .addRule(rule('default-change').aspect('default-value').returns('patch'))
 
@@ -371,6 +668,12 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
   .addRule(
     rule('type-equivalent').aspect('type').impact('equivalent').returns('none'),
   )
+  .addRule(
+    rule('equivalent-kind-change')
+      .aspect('kind-changed')
+      .impact('equivalent')
+      .returns('none'),
+  )
   .build()
 
 // =============================================================================
@@ -385,6 +688,9 @@ export const semverReadOnlyPolicy: Policy = createPolicy(
  * - Type widening is breaking (must handle new value types)
  * - Removing optional members is safe (don't need to provide)
  * - Adding required members is breaking (must provide new values)
+ * - Adding overloads is breaking (implementations must handle the new call
+ *   form), removing them is safe and reordering them has no impact, since
+ *   implementations must handle every overload in any order
  *
  * @alpha
  */
@@ -419,6 +725,15 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
       .returns('minor'),
   )
 
+  // Overload removal - minor (don't need to handle)
+  .addRule(
+    rule('overload-removal')
+      .target('overload')
+      .action('removed')
+      .rationale('Writers no longer need to handle the removed call form')
+      .returns('minor'),
+  )
+
   // Renames - breaking
   .addRule(
     rule('rename')
@@ -427,6 +742,14 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Moves between namespaces - breaking
+  .addRule(
+    rule('move')
+      .action('moved')
+      .rationale('Writers reference by path')
+      .returns('major'),
+  )
+
   // Parameter reordering - breaking
   .addRule(
     rule('param-reorder')
@@ -436,6 +759,15 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Overload reordering - none (every overload is still handled)
+  .addRule(
+    rule('overload-reorder')
+      .target('overload')
+      .action('reordered')
+      .rationale('Writers handle every overload regardless of their order')
+      .returns('none'),
+  )
+
   // Type parameter reordering - breaking
   .addRule(
     rule('type-param-reorder')
@@ -445,6 +777,15 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
       .returns('major'),
   )
 
+  // Overload addition - breaking (must handle the new call form)
+  .addRule(
+    rule('overload-addition')
+      .target('overload')
+      .action('added')
+      .rationale('Writers must handle the new call form')
+      .returns('major'),
+  )
+
   // Required additions - breaking (must now provide)
   .addRule(
     rule('required-addition')
@@ -518,6 +859,26 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
       .returns('minor'),
   )
 
+  // Release tag changes - demotion is breaking, promotion is minor
+  .addRule(
+    rule('release-tag-demotion')
+      .aspect('release-tag')
+      .impact('narrowing')
+      .rationale(
+        'Demoting a release tag withdraws the API from its current consumers',
+      )
+      .returns('major'),
+  )
+  .addRule(
+    rule('release-tag-promotion')
+      .aspect('release-tag')
+      .impact('widening')
+      .rationale(
+        'Promoting a release tag makes the API available to more consumers',
+      )
+      .returns('minor'),
+  )
+
   // Undeprecation - minor
   .addRule(
     rule('undeprecation')
@@ -534,6 +895,22 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
       .returns('patch'),
   )
 
+  // Enum made non-const - minor
+  .addRule(
+    rule('enum-made-non-const')
+      .aspect('constness')
+      .impact('widening')
+      .returns('minor'),
+  )
+
+  // Symbol made unique - minor
+  .addRule(
+    rule('unique-symbol-kind-change')
+      .aspect('kind-changed')
+      .impact('narrowing')
+      .returns('minor'),
+  )
+
   // Default changes - patch
   .addRule(rule('default-change').aspect('default-value').returns('patch'))
 
@@ -541,4 +918,10 @@ export const semverWriteOnlyPolicy: Policy = createPolicy(
   .addRule(
     rule('type-equivalent').aspect('type').impact('equivalent').returns('none'),
   )
+  .addRule(
+    rule('equivalent-kind-change')
+      .aspect('kind-changed')
+      .impact('equivalent')
+      .returns('none'),
+  )
   .build()
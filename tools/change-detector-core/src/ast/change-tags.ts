@@ -0,0 +1,19 @@
+/**
+ * Helpers for tagging API changes, shared by the differ and the policy layer.
+ */
+
+import type { ApiChange } from './types'
+
+/**
+ * Returns a copy of a nested change with the 'is-nested-change' tag added,
+ * without mutating the input change.
+ */
+export function tagNestedChange(change: ApiChange): ApiChange {
+  return {
+    ...change,
+    descriptor: {
+      ...change.descriptor,
+      tags: new Set([...change.descriptor.tags, 'is-nested-change']),
+    },
+  }
+}
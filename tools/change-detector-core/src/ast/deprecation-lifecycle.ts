@@ -0,0 +1,230 @@
+/**
+ * Deprecation lifecycle policy.
+ *
+ * Connects the deprecation of a symbol with its later removal: a symbol
+ * should be deprecated for a grace period of some releases before it is
+ * removed. The version a symbol was deprecated in is read from its
+ * `@deprecated` message, e.g. `@deprecated Since 2.1.0, use bar() instead`
+ * or `@deprecated 2.1.0: Use bar() instead`, or else from a `@since` tag
+ * next to it, e.g. `@deprecated Use bar() instead` with `@since 2.1.0`.
+ *
+ * @example
+ * ```ts
+ * const policy = createDeprecationLifecyclePolicy({
+ *   currentVersion: '3.0.0',
+ *   gracePeriod: 2,
+ *   requireDeprecation: true,
+ * })
+ * const results = classifyChanges(changes, policy)
+ * ```
+ */
+
+import type { ApiChange, ChangeTarget } from './types'
+import { rule, type Policy } from './rule-builder'
+import { extendPolicy } from './policy-composition'
+import { semverDefaultPolicy } from './builtin-policies'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for {@link createDeprecationLifecyclePolicy}.
+ *
+ * @alpha
+ */
+export interface DeprecationLifecycleOptions {
+  /** The version being released, e.g. `'3.0.0'` */
+  currentVersion: string
+
+  /**
+   * Minimum number of releases a symbol must have been deprecated in before
+   * it is removed (defaults to 1)
+   */
+  gracePeriod?: number
+
+  /**
+   * The published versions, to count the releases a symbol was deprecated
+   * in. Without them, the count is estimated from the difference between
+   * the deprecation version and the current version, e.g. 2.1 to 2.3 is
+   * two releases and 2.1 to 3.0 is one.
+   */
+  releases?: string[]
+
+  /**
+   * Whether removals must follow the lifecycle: removing a symbol that was
+   * never deprecated, or before its grace period ended, is forbidden
+   * (defaults to false, which classifies them as major like other removals,
+   * told apart only by the rule that matched)
+   */
+  requireDeprecation?: boolean
+
+  /** The policy whose rules classify all other changes (defaults to semverDefaultPolicy) */
+  base?: Policy
+}
+
+// =============================================================================
+// Versions
+// =============================================================================
+
+/** A version as its major, minor and patch components */
+type Version = [number, number, number]
+
+/**
+ * Parses a version such as `'2.1.0'`, `'v2.1'` or `'2'`, ignoring
+ * prerelease and build suffixes. Missing components are 0.
+ */
+function parseVersion(version: string): Version | undefined {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:[-+].*)?$/.exec(
+    version.trim(),
+  )
+  if (!match) {
+    return undefined
+  }
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)]
+}
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+}
+
+function parseVersionOption(name: string, version: string): Version {
+  const parsed = parseVersion(version)
+  if (!parsed) {
+    throw new Error(`Invalid ${name} '${version}': expected a version`)
+  }
+  return parsed
+}
+
+/**
+ * Counts the releases a symbol deprecated in `deprecatedSince` shipped in
+ * before `current`.
+ */
+function countDeprecatedReleases(
+  deprecatedSince: Version,
+  current: Version,
+  releases: Version[] | undefined,
+): number {
+  if (releases) {
+    return releases.filter(
+      (release) =>
+        compareVersions(release, deprecatedSince) >= 0 &&
+        compareVersions(release, current) < 0,
+    ).length
+  }
+
+  // The first differing component gives a lower bound
+  for (let i = 0; i < 3; i++) {
+    if (current[i]! !== deprecatedSince[i]!) {
+      return Math.max(0, current[i]! - deprecatedSince[i]!)
+    }
+  }
+  return 0
+}
+
+// =============================================================================
+// Policy
+// =============================================================================
+
+/** Targets that can be deprecated, and hence follow the lifecycle */
+const LIFECYCLE_TARGETS: ChangeTarget[] = [
+  'export',
+  'property',
+  'method',
+  'enum-member',
+]
+
+/**
+ * Creates a policy that classifies removals by the deprecation lifecycle of
+ * the removed symbol.
+ *
+ * Removals are classified by three rules evaluated before the base policy's:
+ *
+ * - `expired-deprecation-removal`: the symbol was deprecated for at least
+ *   the grace period (major)
+ * - `early-deprecation-removal`: the symbol was deprecated, but for fewer
+ *   releases than the grace period or in an unknown version (major, or
+ *   forbidden with `requireDeprecation`)
+ * - `undeprecated-removal`: the symbol was never deprecated (major, or
+ *   forbidden with `requireDeprecation`)
+ *
+ * Removals are breaking whether or not they follow the lifecycle, so without
+ * `requireDeprecation` all three rules return major. The results still tell
+ * them apart by `matchedRule`, whose name and rationale reports show, e.g.
+ * to warn about premature removals in a changelog.
+ *
+ * Only removals of exports, properties, methods and enum members that the
+ * base policy classifies as major are subject to the lifecycle. Removals it
+ * classifies otherwise, e.g. member removals in `semverWriteOnlyPolicy`, and
+ * removals of parameters or type parameters, which carry no deprecation of
+ * their own, keep the base classification. All other changes, including
+ * deprecations themselves, are classified by the base policy.
+ *
+ * @param options - The current version and lifecycle requirements
+ * @returns The deprecation lifecycle policy
+ * @throws If a version in the options can't be parsed
+ *
+ * @alpha
+ */
+export function createDeprecationLifecyclePolicy(
+  options: DeprecationLifecycleOptions,
+): Policy {
+  const {
+    gracePeriod = 1,
+    requireDeprecation = false,
+    base = semverDefaultPolicy,
+  } = options
+  const current = parseVersionOption('currentVersion', options.currentVersion)
+  const releases = options.releases?.map((release) =>
+    parseVersionOption('release', release),
+  )
+  const prematureRemoval = requireDeprecation ? 'forbidden' : 'major'
+
+  /** Releases the removed symbol was deprecated in, or undefined if unknown */
+  const deprecatedReleases = (change: ApiChange): number | undefined => {
+    const since = change.oldNode?.metadata?.deprecatedSince
+    const version = since !== undefined ? parseVersion(since) : undefined
+    return version && countDeprecatedReleases(version, current, releases)
+  }
+  const isDeprecated = (change: ApiChange): boolean =>
+    change.oldNode?.metadata?.deprecated === true
+  /** Whether the base policy classifies the removal as major */
+  const isMajorInBase = (change: ApiChange): boolean =>
+    (base.rules.find((baseRule) => baseRule.matches(change))?.releaseType ??
+      base.defaultReleaseType) === 'major'
+
+  return extendPolicy(base, {
+    name: 'deprecation-lifecycle',
+    overrides: [
+      rule('expired-deprecation-removal')
+        .target(...LIFECYCLE_TARGETS)
+        .action('removed')
+        .when(isMajorInBase)
+        .when((change) => {
+          const count = isDeprecated(change)
+            ? deprecatedReleases(change)
+            : undefined
+          return count !== undefined && count >= gracePeriod
+        })
+        .rationale(
+          `Removing a symbol deprecated for at least ${gracePeriod} release(s) follows the deprecation lifecycle`,
+        )
+        .returns('major'),
+      rule('early-deprecation-removal')
+        .target(...LIFECYCLE_TARGETS)
+        .action('removed')
+        .when(isMajorInBase)
+        .when(isDeprecated)
+        .rationale(
+          `Deprecated symbols must stay for ${gracePeriod} release(s) before removal`,
+        )
+        .returns(prematureRemoval),
+      rule('undeprecated-removal')
+        .target(...LIFECYCLE_TARGETS)
+        .action('removed')
+        .when(isMajorInBase)
+        .rationale('Symbols must be deprecated before they are removed')
+        .returns(prematureRemoval),
+    ],
+  })
+}
@@ -12,11 +12,34 @@ import type {
   ChangeTag,
   DiffContext,
   NodeKind,
+  VariancePolarity,
 } from '../types'
 import type { ParameterOrderAnalysis } from '../../parameter-analysis'
 import { normalizeSignature } from './rename-detection'
 import { detectParameterReordering } from './parameter-reordering'
 import { classifyTypeParameterChange } from './type-parameter-changes'
+import {
+  areNodesStructurallyEquivalent,
+  areStructurallyEquivalent,
+  getNodeType,
+  getTypeText,
+  isImplementable,
+  isInterchangeableKind,
+} from './structural-equivalence'
+import {
+  combinePolarities,
+  getChangePositions,
+  getPolarityTags,
+  getPositionSeverity,
+  getPositionTsTypes,
+  type ChangePosition,
+} from './variance'
+import {
+  acceptsCallsOf,
+  compareTypeModels,
+  compareTypes,
+  parseTypeModel,
+} from './type-reasoning'
 
 /**
  * Maps NodeKind to ChangeTarget for top-level exports.
@@ -50,7 +73,7 @@ export function nodeKindToTarget(kind: NodeKind): ChangeTarget {
  */
 export function createSimpleDescriptor(
   target: ChangeTarget,
-  action: 'added' | 'removed' | 'renamed' | 'reordered',
+  action: 'added' | 'removed' | 'renamed' | 'moved' | 'reordered',
   tags: ChangeTag[] = [],
 ): ChangeDescriptor {
   return {
@@ -64,7 +87,7 @@ export function createSimpleDescriptor(
  * Creates a ChangeDescriptor for 'modified' actions.
  * Requires aspect and impact to be specified.
  */
-function createModifiedDescriptor(
+export function createModifiedDescriptor(
   target: ChangeTarget,
   aspect: ChangeAspect,
   impact: ChangeImpact,
@@ -79,8 +102,88 @@ function createModifiedDescriptor(
   }
 }
 
+/**
+ * Checks whether a function or method node has more than one call signature.
+ */
+export function isOverloaded(node: AnalyzableNode): boolean {
+  return (node.typeInfo.callSignatures?.length ?? 0) > 1
+}
+
+/**
+ * Classifies a constant changed between the `unique symbol` type and the
+ * `symbol` type it is a subtype of. Returns undefined for other changes.
+ */
+function classifyUniqueSymbolChange(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+): ChangeImpact | undefined {
+  if (oldNode.kind === 'unique-symbol' && newNode.kind === 'variable') {
+    return newNode.typeInfo.signature === 'symbol' ? 'widening' : undefined
+  }
+  if (oldNode.kind === 'variable' && newNode.kind === 'unique-symbol') {
+    return oldNode.typeInfo.signature === 'symbol' ? 'narrowing' : undefined
+  }
+  return undefined
+}
+
+/**
+ * Classifies a change of declaration kind, e.g. an interface converted to a
+ * type alias. The change is equivalent if both declarations declare
+ * structurally equivalent types; capabilities of interfaces that the new
+ * declaration lacks are tagged. The impact of a change from or to a
+ * re-export whose declaration could not be found is undetermined.
+ */
+function classifyKindChange(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+  context?: DiffContext,
+): { descriptor: ChangeDescriptor; explanation: string } {
+  const equivalent =
+    isInterchangeableKind(oldNode, newNode) &&
+    areNodesStructurallyEquivalent(oldNode, newNode, context)
+
+  const tags: ChangeTag[] = []
+  const lost: string[] = []
+  if (oldNode.kind === 'interface' && newNode.kind !== 'interface') {
+    tags.push('lost-declaration-merging')
+    lost.push('declaration merging')
+    if (!isImplementable(newNode, context?.newSymbols, context?.checker)) {
+      tags.push('lost-implements')
+      lost.push('implements clauses')
+    }
+  }
+
+  const uniqueSymbolImpact = classifyUniqueSymbolChange(oldNode, newNode)
+  if (oldNode.kind === 'unique-symbol') {
+    tags.push('lost-unique-symbol')
+    lost.push('use as a unique property key')
+  }
+
+  const unresolved =
+    oldNode.kind === 'unresolved-export' || newNode.kind === 'unresolved-export'
+  const impact: ChangeImpact = unresolved
+    ? 'undetermined'
+    : (uniqueSymbolImpact ?? (equivalent ? 'equivalent' : 'unrelated'))
+
+  const change = `Changed '${oldNode.path}' from ${oldNode.kind} to ${newNode.kind}`
+  return {
+    descriptor: createModifiedDescriptor(
+      nodeKindToTarget(oldNode.kind),
+      'kind-changed',
+      impact,
+      tags,
+    ),
+    explanation:
+      (equivalent ? `${change} with a structurally equivalent type` : change) +
+      (lost.length > 0 ? `; no longer supports ${lost.join(' or ')}` : ''),
+  }
+}
+
 /**
  * Classifies the type of change between two nodes.
+ * Signature changes of overloaded functions and methods are left to
+ * detectOverloadChanges(), so only their modifiers and metadata are
+ * compared here. Release tag changes are left to detectReleaseTagChanges().
  * Returns a multi-dimensional ChangeDescriptor and human-readable explanation.
  *
  * @param oldNode - The old node
@@ -95,16 +198,23 @@ export function classifyChange(
   descriptor: ChangeDescriptor
   explanation: string
   parameterAnalysis?: ParameterOrderAnalysis
+  polarity?: VariancePolarity
 } {
+  if (oldNode.kind !== newNode.kind) {
+    return classifyKindChange(oldNode, newNode, context)
+  }
+
   const target = nodeKindToTarget(oldNode.kind)
+  const overloaded = isOverloaded(oldNode) || isOverloaded(newNode)
 
   // Check for parameter reordering (for functions/methods)
   // This check happens even when signatures are identical because
   // parameter reordering preserves types but changes names
   if (
-    oldNode.kind === 'function' ||
-    oldNode.kind === 'method' ||
-    oldNode.kind === 'call-signature'
+    !overloaded &&
+    (oldNode.kind === 'function' ||
+      oldNode.kind === 'method' ||
+      oldNode.kind === 'call-signature')
   ) {
     const reorderAnalysis = detectParameterReordering(oldNode, newNode)
     if (reorderAnalysis) {
@@ -117,28 +227,58 @@ export function classifyChange(
   }
 
   // Check for type parameter changes (generics)
-  const typeParamChange = classifyTypeParameterChange(oldNode, newNode)
+  const typeParamChange = overloaded
+    ? null
+    : classifyTypeParameterChange(oldNode, newNode)
   if (typeParamChange) {
     return typeParamChange
   }
 
-  // Check for enum member value changes
+  // Check for enum member value changes. Consumers of a const enum inline
+  // its values, so code compiled against the old values keeps using them
   if (
     oldNode.kind === 'enum-member' &&
     oldNode.typeInfo.signature !== newNode.typeInfo.signature
   ) {
+    const inlined = oldNode.modifiers.has('const')
+    const explanation = `Changed value of enum member '${oldNode.name}' from '${oldNode.typeInfo.signature}' to '${newNode.typeInfo.signature}'`
     return {
       descriptor: createModifiedDescriptor(
         'enum-member',
         'enum-value',
         'unrelated',
+        inlined ? ['inlined-value'] : [],
       ),
-      explanation: `Changed value of enum member '${oldNode.name}' from '${oldNode.typeInfo.signature}' to '${newNode.typeInfo.signature}'`,
+      explanation: inlined
+        ? `${explanation}; the old value is inlined in compiled consumers`
+        : explanation,
+    }
+  }
+
+  // Check for const enum changes. A const enum has no runtime object,
+  // so making an enum const removes it
+  if (oldNode.kind === 'enum') {
+    const wasConst = oldNode.modifiers.has('const')
+    const isConst = newNode.modifiers.has('const')
+    if (wasConst !== isConst) {
+      return {
+        descriptor: createModifiedDescriptor(
+          target,
+          'constness',
+          isConst ? 'narrowing' : 'widening',
+        ),
+        explanation: isConst
+          ? `Made '${oldNode.path}' a const enum; it no longer exists at runtime`
+          : `Made '${oldNode.path}' a regular enum (removed const)`,
+      }
     }
   }
 
   // Check for type changes
-  if (oldNode.typeInfo.signature !== newNode.typeInfo.signature) {
+  if (
+    !overloaded &&
+    oldNode.typeInfo.signature !== newNode.typeInfo.signature
+  ) {
     // Look up TypeScript types from symbols if context available
     const oldSymbol = context?.oldSymbols?.get(oldNode.path)
     const newSymbol = context?.newSymbols?.get(newNode.path)
@@ -146,28 +286,87 @@ export function classifyChange(
     let newTsType: ts.Type | undefined
 
     if (context && oldSymbol && newSymbol) {
-      const oldDecl = oldSymbol.getDeclarations()?.[0]
-      const newDecl = newSymbol.getDeclarations()?.[0]
-      if (oldDecl && newDecl) {
-        oldTsType = context.checker.getTypeOfSymbolAtLocation(
-          oldSymbol,
-          oldDecl,
+      oldTsType = getNodeType(oldNode, oldSymbol, context.oldChecker)
+      newTsType = getNodeType(newNode, newSymbol, context.checker)
+    }
+
+    let impact =
+      compareParameterLists(oldNode, newNode) ??
+      determineTypeImpact(
+        oldNode.typeInfo.signature,
+        newNode.typeInfo.signature,
+        context && oldTsType && newTsType
+          ? {
+              checker: context.checker,
+              oldChecker: context.oldChecker,
+              oldTsType,
+              newTsType,
+            }
+          : undefined,
+      )
+
+    // Types that only differ in how they are written, e.g. an inlined or
+    // extracted type alias, are equivalent if their structure is the same
+    if (
+      impact !== 'equivalent' &&
+      context &&
+      oldTsType &&
+      newTsType &&
+      areStructurallyEquivalent(
+        oldTsType,
+        context.oldChecker,
+        newTsType,
+        context.checker,
+      )
+    ) {
+      impact = 'equivalent'
+    }
+
+    // Judge the impact by each changed position alone when there are any,
+    // e.g. a parameter of a function rather than the whole function type,
+    // and report the position whose change is the most breaking
+    const positions = getChangePositions(oldNode, newNode)
+    let position: ChangePosition | undefined =
+      positions.length > 1
+        ? { polarity: combinePolarities(positions.map((p) => p.polarity)) }
+        : positions[0]
+    if (impact !== 'equivalent') {
+      let mostSevere: number | undefined
+      for (const candidate of positions) {
+        if (
+          candidate.oldType === undefined ||
+          candidate.newType === undefined
+        ) {
+          continue
+        }
+        const candidateImpact = determineTypeImpact(
+          candidate.oldType,
+          candidate.newType,
+          context && oldTsType && newTsType
+            ? {
+                checker: context.checker,
+                oldChecker: context.oldChecker,
+                ...getPositionTsTypes(
+                  context.checker,
+                  oldTsType,
+                  newTsType,
+                  candidate,
+                ),
+              }
+            : undefined,
         )
-        newTsType = context.checker.getTypeOfSymbolAtLocation(
-          newSymbol,
-          newDecl,
+        const severity = getPositionSeverity(
+          candidate.polarity,
+          candidateImpact,
         )
+        if (mostSevere === undefined || severity > mostSevere) {
+          mostSevere = severity
+          position = candidate
+          impact = candidateImpact
+        }
       }
     }
 
-    const impact = determineTypeImpact(
-      oldNode.typeInfo.signature,
-      newNode.typeInfo.signature,
-      context && oldTsType && newTsType
-        ? { checker: context.checker, oldTsType, newTsType }
-        : undefined,
-    )
-
     const explanation =
       impact === 'equivalent'
         ? `Type of '${oldNode.path}' changed syntax but is semantically equivalent`
@@ -178,8 +377,14 @@ export function classifyChange(
             : `Changed type of '${oldNode.path}' from '${oldNode.typeInfo.signature}' to '${newNode.typeInfo.signature}'`
 
     return {
-      descriptor: createModifiedDescriptor(target, 'type', impact),
+      descriptor: createModifiedDescriptor(
+        target,
+        'type',
+        impact,
+        position ? getPolarityTags(position.polarity) : [],
+      ),
       explanation,
+      polarity: position?.polarity,
     }
   }
 
@@ -356,12 +561,16 @@ export function classifyChange(
 /**
  * Determines the semantic impact of a type change using TypeChecker.
  * Falls back to string-based heuristics when TypeChecker info is unavailable.
+ *
+ * The old type belongs to the program of `oldChecker`, which defaults to
+ * `checker` when both types come from the same program.
  */
-function determineTypeImpact(
+export function determineTypeImpact(
   oldType: string,
   newType: string,
   context?: {
     checker: ts.TypeChecker
+    oldChecker?: ts.TypeChecker
     oldTsType?: ts.Type
     newTsType?: ts.Type
   },
@@ -377,6 +586,7 @@ function determineTypeImpact(
   if (context?.checker && context.oldTsType && context.newTsType) {
     return determineTypeImpactWithChecker(
       context.oldTsType,
+      context.oldChecker ?? context.checker,
       context.newTsType,
       context.checker,
     )
@@ -387,25 +597,32 @@ function determineTypeImpact(
 }
 
 /**
- * TypeChecker-based type variance analysis using isTypeAssignableTo.
+ * TypeChecker-based type variance analysis. Types involving conditional,
+ * mapped or template literal types are related on their models (see
+ * type-reasoning.ts); other types by their union members.
  */
 function determineTypeImpactWithChecker(
   oldType: ts.Type,
+  oldChecker: ts.TypeChecker,
   newType: ts.Type,
   checker: ts.TypeChecker,
 ): ChangeImpact {
-  // Check if types are assignable to each other
-  // Note: isTypeAssignableTo is internal to TS, but we can use type compatibility checks
-  const oldTypeStr = checker.typeToString(oldType)
+  const oldTypeStr = oldChecker.typeToString(oldType)
   const newTypeStr = checker.typeToString(newType)
 
-  if (oldTypeStr === newTypeStr) {
+  // Type aliases print as their name, so they are compared as declared
+  if (getTypeText(oldType, oldChecker) === getTypeText(newType, checker)) {
     return 'equivalent'
   }
 
+  const impact = compareTypes(oldType, oldChecker, newType, checker)
+  if (impact !== 'undetermined') {
+    return impact
+  }
+
   // For union types, check if one is a subset of the other
   if (oldType.isUnion() && newType.isUnion()) {
-    const oldMembers = oldType.types.map((t) => checker.typeToString(t))
+    const oldMembers = oldType.types.map((t) => oldChecker.typeToString(t))
     const newMembers = newType.types.map((t) => checker.typeToString(t))
 
     const oldSet = new Set(oldMembers)
@@ -437,7 +654,7 @@ function determineTypeImpactWithChecker(
 
   // Check if old is union containing new → narrowing
   if (oldType.isUnion()) {
-    const oldMembers = oldType.types.map((t) => checker.typeToString(t))
+    const oldMembers = oldType.types.map((t) => oldChecker.typeToString(t))
     if (oldMembers.includes(newTypeStr)) {
       return 'narrowing'
     }
@@ -447,6 +664,49 @@ function determineTypeImpactWithChecker(
   return 'unrelated'
 }
 
+/**
+ * Relates two versions of a function or method
+ * by the calls their parameter lists accept, comparing the parameters
+ * position by position: a signature accepting fewer calls is wider as a
+ * value, since it can't be called everywhere the old one could.
+ *
+ * Returns undefined if the parameter lists have the same shape, or the
+ * nodes don't have a single call signature each. Changes of parameter or
+ * return types alongside a changed shape make the signatures unrelated.
+ */
+function compareParameterLists(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+): ChangeImpact | undefined {
+  const oldSigs = oldNode.typeInfo.callSignatures
+  const newSigs = newNode.typeInfo.callSignatures
+  if (oldSigs?.length !== 1 || newSigs?.length !== 1) {
+    return undefined
+  }
+  const oldSig = oldSigs[0]!
+  const newSig = newSigs[0]!
+
+  const newAcceptsOld = acceptsCallsOf(newSig, oldSig)
+  const oldAcceptsNew = acceptsCallsOf(oldSig, newSig)
+  if (newAcceptsOld && oldAcceptsNew) {
+    return undefined
+  }
+
+  const typesChanged =
+    normalizeSignature(oldSig.returnType) !==
+      normalizeSignature(newSig.returnType) ||
+    oldSig.parameters.some(
+      (parameter, i) =>
+        newSig.parameters[i] !== undefined &&
+        normalizeSignature(parameter.type) !==
+          normalizeSignature(newSig.parameters[i].type),
+    )
+  if (typesChanged || (!newAcceptsOld && !oldAcceptsNew)) {
+    return 'unrelated'
+  }
+  return newAcceptsOld ? 'narrowing' : 'widening'
+}
+
 /**
  * String-based heuristics for type variance (fallback).
  */
@@ -454,6 +714,17 @@ function determineTypeImpactFromStrings(
   oldNorm: string,
   newNorm: string,
 ): ChangeImpact {
+  // Unions of literal and template literal types can be related as written
+  const hasTemplate = oldNorm.includes('`') || newNorm.includes('`')
+  const oldModel = hasTemplate ? parseTypeModel(oldNorm) : undefined
+  const newModel = hasTemplate ? parseTypeModel(newNorm) : undefined
+  if (oldModel && newModel) {
+    const impact = compareTypeModels(oldModel, newModel)
+    if (impact !== 'undetermined') {
+      return impact
+    }
+  }
+
   // Check if new type is a union that includes old type (widening)
   if (newNorm.includes('|')) {
     const newParts = newNorm.split('|').map((p) => p.trim())
@@ -13,16 +13,22 @@ import { matchNodes } from './matching'
 import { detectRenames } from './rename-detection'
 import { createSimpleDescriptor, classifyChange } from './change-classification'
 import { detectNestedChanges } from './nested-changes'
+import { detectOverloadChanges } from './overload-changes'
+import { detectMovedChanges } from './moved-changes'
+import { detectReleaseTagChanges, tagReleaseTags } from './release-tags'
+import { tagNestedChange } from '../change-tags'
 
 /**
  * Default diff options.
  */
 const DEFAULT_DIFF_OPTIONS: Required<DiffOptions> = {
   renameThreshold: 0.8,
+  moveThreshold: 0.8,
   includeNestedChanges: true,
   resolveTypeRelationships: true,
   maxNestingDepth: 10,
   detectParameterReordering: true,
+  flattenInheritedMembers: false,
 }
 
 /**
@@ -49,9 +55,12 @@ export function diffModules(
   // Create diff context with TypeChecker for semantic analysis
   const context: DiffContext = {
     checker: newAnalysis.checker,
+    oldChecker: oldAnalysis.checker,
     options: opts,
     oldSymbols: oldAnalysis.symbols,
     newSymbols: newAnalysis.symbols,
+    oldNodes: oldAnalysis.nodes,
+    newNodes: newAnalysis.nodes,
   }
 
   // Match exports (top-level comparison)
@@ -90,6 +99,7 @@ export function diffModules(
         depth: 0,
         ancestors: [],
         renameConfidence: confidence,
+        localName: newNode.localName,
       },
       explanation: `'${oldNode.name}' renamed to '${newNode.name}'`,
     })
@@ -110,6 +120,7 @@ export function diffModules(
         isNested: false,
         depth: 0,
         ancestors: [],
+        localName: oldNode.localName,
       },
       explanation: `Export '${oldNode.name}' removed`,
     })
@@ -130,6 +141,7 @@ export function diffModules(
         isNested: false,
         depth: 0,
         ancestors: [],
+        localName: newNode.localName,
       },
       explanation: `Export '${newNode.name}' added`,
     })
@@ -137,7 +149,7 @@ export function diffModules(
 
   // Process modifications
   for (const { old: oldNode, new: newNode } of matched) {
-    const { descriptor, explanation } = classifyChange(
+    const { descriptor, explanation, polarity } = classifyChange(
       oldNode,
       newNode,
       context,
@@ -170,13 +182,35 @@ export function diffModules(
           ancestors: [],
           oldType: oldNode.typeInfo.signature,
           newType: newNode.typeInfo.signature,
+          polarity,
+          localName: newNode.localName ?? oldNode.localName,
         },
         explanation,
       })
     }
+
+    // Overload and release tag changes are reported alongside their
+    // declaration so that policies can classify each on its own
+    changes.push(
+      ...detectOverloadChanges(oldNode, newNode, {
+        isNested: false,
+        depth: 0,
+        ancestors: [],
+      }),
+      ...detectReleaseTagChanges(oldNode, newNode, {
+        isNested: false,
+        depth: 0,
+        ancestors: [],
+        localName: newNode.localName ?? oldNode.localName,
+      }),
+    )
   }
 
-  return changes
+  // Detect declarations moved into or out of namespaces
+  const result = detectMovedChanges(changes, context)
+
+  tagReleaseTags(result)
+  return result
 }
 
 /**
@@ -193,19 +227,7 @@ export function flattenChanges(changes: ApiChange[]): ApiChange[] {
   const result: ApiChange[] = []
 
   function flatten(change: ApiChange, isNested = false): void {
-    if (isNested) {
-      // Create a new change with the tag added (don't mutate input)
-      const flatChange: ApiChange = {
-        ...change,
-        descriptor: {
-          ...change.descriptor,
-          tags: new Set([...change.descriptor.tags, 'is-nested-change']),
-        },
-      }
-      result.push(flatChange)
-    } else {
-      result.push(change)
-    }
+    result.push(isNested ? tagNestedChange(change) : change)
     for (const nested of change.nestedChanges) {
       flatten(nested, true)
     }
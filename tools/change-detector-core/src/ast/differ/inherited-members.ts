@@ -0,0 +1,82 @@
+/**
+ * Inherited member resolution for classes and interfaces.
+ */
+
+import type { AnalyzableNode } from '../types'
+
+/**
+ * A member of a class or interface, declared on it or inherited.
+ */
+export interface EffectiveMember {
+  /** The member, with its path under the inheriting class or interface */
+  node: AnalyzableNode
+  /** Path of the class or interface that declares the member */
+  declaredIn: string
+  /**
+   * Whether the member is inherited through a generic base, e.g.
+   * `extends Base<string>`. Its type is that of the base's declaration,
+   * since the type arguments of the `extends` clause are not applied.
+   */
+  uninstantiated: boolean
+}
+
+/**
+ * Checks whether a node can inherit members through `extends`.
+ */
+export function canInheritMembers(node: AnalyzableNode): boolean {
+  return node.kind === 'class' || node.kind === 'interface'
+}
+
+/**
+ * Collects the effective members of a class or interface: its own members
+ * plus the members inherited through its `extends` clause, recursively.
+ *
+ * Own members take precedence over inherited ones, and earlier bases over
+ * later ones. Bases are found in `nodes` by the name the `extends` clause
+ * refers to them by, e.g. `ns.Base` for a base in an exported namespace.
+ * Bases that are not found (e.g., declared outside the analyzed files, or
+ * referred to through a namespace import) contribute no members. Members of
+ * generic bases are marked `uninstantiated`.
+ *
+ * @param node - The class or interface
+ * @param nodes - All nodes of the analysis, keyed by path
+ * @returns Effective members keyed by member name
+ */
+export function getEffectiveMembers(
+  node: AnalyzableNode,
+  nodes: Map<string, AnalyzableNode>,
+): Map<string, EffectiveMember> {
+  const members = new Map<string, EffectiveMember>()
+  const visited = new Set<string>()
+
+  function collect(current: AnalyzableNode, uninstantiated: boolean): void {
+    // Guards against circular heritage in invalid declarations
+    if (visited.has(current.path)) return
+    visited.add(current.path)
+
+    for (const [name, member] of current.children) {
+      if (members.has(name)) continue
+      members.set(name, {
+        node:
+          current === node
+            ? member
+            : { ...member, path: `${node.path}.${name}`, parent: node.path },
+        declaredIn: current.path,
+        uninstantiated,
+      })
+    }
+
+    for (const baseName of current.extends ?? []) {
+      const base = nodes.get(baseName)
+      if (base && canInheritMembers(base)) {
+        collect(
+          base,
+          uninstantiated || (base.typeInfo.typeParameters?.length ?? 0) > 0,
+        )
+      }
+    }
+  }
+
+  collect(node, false)
+  return members
+}
@@ -0,0 +1,250 @@
+/**
+ * Detection of declarations moved between the top level and namespaces.
+ */
+
+import type * as ts from 'typescript'
+import type { AnalyzableNode, ApiChange, DiffContext } from '../types'
+import {
+  classifyChange,
+  createSimpleDescriptor,
+  nodeKindToTarget,
+} from './change-classification'
+import { detectNestedChanges } from './nested-changes'
+import { detectMoves } from './rename-detection'
+
+/**
+ * A removed or added declaration that may have moved, with the change that
+ * reports it. Members of removed or added namespaces have no change of
+ * their own.
+ */
+interface MoveEnd {
+  node: AnalyzableNode
+  change?: ApiChange
+}
+
+/**
+ * Collects the members of a namespace, including those of nested namespaces.
+ */
+function collectNamespaceMembers(
+  namespace: AnalyzableNode,
+  ends: MoveEnd[],
+): void {
+  for (const member of namespace.children.values()) {
+    ends.push({ node: member })
+    if (member.kind === 'namespace') {
+      collectNamespaceMembers(member, ends)
+    }
+  }
+}
+
+/**
+ * Collects removed or added declarations at the top level and in namespaces.
+ */
+function collectMoveEnds(
+  changes: ApiChange[],
+  action: 'removed' | 'added',
+  ends: MoveEnd[] = [],
+): MoveEnd[] {
+  for (const change of changes) {
+    const node = action === 'removed' ? change.oldNode : change.newNode
+    if (!node) continue
+
+    if (change.descriptor.action === action) {
+      ends.push({ node, change })
+      if (node.kind === 'namespace') {
+        collectNamespaceMembers(node, ends)
+      }
+    } else if (node.kind === 'namespace') {
+      collectMoveEnds(change.nestedChanges, action, ends)
+    }
+  }
+  return ends
+}
+
+/**
+ * Resolves the symbol of a declaration at the top level or in a namespace
+ * by following the exports of the namespaces on its path.
+ */
+function resolveSymbol(
+  path: string,
+  symbols: Map<string, ts.Symbol>,
+  checker: ts.TypeChecker,
+): ts.Symbol | undefined {
+  const [first, ...rest] = path.split('.')
+  let symbol = symbols.get(first!)
+  for (const name of rest) {
+    symbol = symbol
+      ? checker
+          .getExportsOfModule(symbol)
+          .find((member) => member.getName() === name)
+      : undefined
+  }
+  return symbol
+}
+
+/**
+ * Classifies the change of a moved declaration itself. The signatures of
+ * top-level declarations and namespace members are printed differently,
+ * so the symbols of both ends are resolved for the type checker.
+ */
+function classifyMovedDeclaration(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+  context: DiffContext,
+): ReturnType<typeof classifyChange> {
+  const oldSymbols = new Map(context.oldSymbols)
+  const newSymbols = new Map(context.newSymbols)
+  const oldSymbol = resolveSymbol(
+    oldNode.path,
+    context.oldSymbols,
+    context.oldChecker,
+  )
+  const newSymbol = resolveSymbol(
+    newNode.path,
+    context.newSymbols,
+    context.checker,
+  )
+  if (oldSymbol) oldSymbols.set(oldNode.path, oldSymbol)
+  if (newSymbol) newSymbols.set(newNode.path, newSymbol)
+  return classifyChange(oldNode, newNode, {
+    ...context,
+    oldSymbols,
+    newSymbols,
+  })
+}
+
+/**
+ * Removes the given changes from a change tree. Changes that were only
+ * reported for nested changes are dropped once none of those remain.
+ */
+function removeChanges(
+  changes: ApiChange[],
+  consumed: Set<ApiChange>,
+): ApiChange[] {
+  const result: ApiChange[] = []
+  for (const change of changes) {
+    if (consumed.has(change)) continue
+
+    const nestedChanges = removeChanges(change.nestedChanges, consumed)
+    if (nestedChanges.length !== change.nestedChanges.length) {
+      change.nestedChanges = nestedChanges
+      if (nestedChanges.length === 0) {
+        change.descriptor.tags.delete('has-nested-changes')
+        if (
+          change.descriptor.aspect === 'type' &&
+          change.descriptor.impact === 'equivalent'
+        ) {
+          continue
+        }
+      }
+    }
+    result.push(change)
+  }
+  return result
+}
+
+/**
+ * Replaces removals and additions of declarations that moved to a different
+ * path (from the top level into a namespace, out of a namespace, or between
+ * namespaces) with top-level 'moved' changes. A declaration whose own
+ * signature also changed is reported with a modification next to its move,
+ * classified as for declarations that stayed in place, so that a policy
+ * that is lenient about moves doesn't hide the change.
+ *
+ * A move is reported when at least one of its ends is reported on its own;
+ * members of a namespace that was removed or added as a whole are only
+ * reported as moved if their counterpart is reported separately.
+ *
+ * @param changes - Top-level changes, with nested changes
+ * @param context - Diff context
+ * @returns The top-level changes, with moves
+ */
+export function detectMovedChanges(
+  changes: ApiChange[],
+  context: DiffContext,
+): ApiChange[] {
+  const opts = context.options
+  const removed = collectMoveEnds(changes, 'removed')
+  const added = collectMoveEnds(changes, 'added')
+  const removedChanges = new Map(removed.map((end) => [end.node, end.change]))
+  const addedChanges = new Map(added.map((end) => [end.node, end.change]))
+
+  const moves = detectMoves(
+    removed.map((end) => end.node),
+    added.map((end) => end.node),
+    opts.moveThreshold,
+  )
+
+  const consumed = new Set<ApiChange>()
+  const movedChanges: ApiChange[] = []
+  for (const { oldNode, newNode, confidence } of moves) {
+    const removal = removedChanges.get(oldNode)
+    const addition = addedChanges.get(newNode)
+    if (!removal && !addition) continue
+    if (removal) consumed.add(removal)
+    if (addition) consumed.add(addition)
+
+    const nestedChanges = opts.includeNestedChanges
+      ? detectNestedChanges(oldNode, newNode, opts, 0, [], context)
+      : []
+
+    const descriptor = createSimpleDescriptor(
+      nodeKindToTarget(oldNode.kind),
+      'moved',
+    )
+    if (nestedChanges.length > 0) {
+      descriptor.tags.add('has-nested-changes')
+    }
+
+    movedChanges.push({
+      descriptor,
+      path: oldNode.path,
+      nodeKind: oldNode.kind,
+      oldLocation: oldNode.location,
+      newLocation: newNode.location,
+      oldNode,
+      newNode,
+      nestedChanges,
+      context: {
+        isNested: false,
+        depth: 0,
+        ancestors: [],
+        moveConfidence: confidence,
+        localName: newNode.localName,
+      },
+      explanation: `'${oldNode.path}' moved to '${newNode.path}'`,
+    })
+
+    const modification = classifyMovedDeclaration(oldNode, newNode, context)
+    if (
+      modification.descriptor.aspect !== 'type' ||
+      modification.descriptor.impact !== 'equivalent'
+    ) {
+      movedChanges.push({
+        descriptor: modification.descriptor,
+        path: oldNode.path,
+        nodeKind: oldNode.kind,
+        oldLocation: oldNode.location,
+        newLocation: newNode.location,
+        oldNode,
+        newNode,
+        nestedChanges: [],
+        context: {
+          isNested: false,
+          depth: 0,
+          ancestors: [],
+          oldType: oldNode.typeInfo.signature,
+          newType: newNode.typeInfo.signature,
+          polarity: modification.polarity,
+          localName: newNode.localName ?? oldNode.localName,
+        },
+        explanation: modification.explanation,
+      })
+    }
+  }
+
+  if (movedChanges.length === 0) {
+    return changes
+  }
+  return [...removeChanges(changes, consumed), ...movedChanges]
+}
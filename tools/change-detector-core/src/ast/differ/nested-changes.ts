@@ -5,6 +5,7 @@
 import type {
   AnalyzableNode,
   ApiChange,
+  ChangeDescriptor,
   DiffOptions,
   DiffContext,
 } from '../types'
@@ -14,6 +15,63 @@ import {
   createSimpleDescriptor,
   classifyChange,
 } from './change-classification'
+import { detectOverloadChanges } from './overload-changes'
+import { detectReleaseTagChanges } from './release-tags'
+import { canInheritMembers, getEffectiveMembers } from './inherited-members'
+
+/**
+ * Gets the members of a node to compare, keyed by name, along with the
+ * paths of the declarations they are inherited from and the names of those
+ * inherited through generic bases.
+ */
+function getMembers(
+  node: AnalyzableNode,
+  nodes: Map<string, AnalyzableNode> | undefined,
+): {
+  members: Map<string, AnalyzableNode>
+  inheritedFrom: Map<string, string>
+  uninstantiated: Set<string>
+} {
+  if (!nodes || !canInheritMembers(node)) {
+    return {
+      members: node.children,
+      inheritedFrom: new Map(),
+      uninstantiated: new Set(),
+    }
+  }
+
+  const effective = getEffectiveMembers(node, nodes)
+  const members = new Map<string, AnalyzableNode>()
+  const inheritedFrom = new Map<string, string>()
+  const uninstantiated = new Set<string>()
+  for (const [name, member] of effective) {
+    members.set(name, member.node)
+    if (member.declaredIn !== node.path) {
+      inheritedFrom.set(name, member.declaredIn)
+    }
+    if (member.uninstantiated) {
+      uninstantiated.add(name)
+    }
+  }
+  return { members, inheritedFrom, uninstantiated }
+}
+
+/**
+ * Tags a change to an inherited member with where the member comes from,
+ * and whether its type is that of a generic base's declaration.
+ */
+function markInherited(
+  descriptor: ChangeDescriptor,
+  declaredIn: string | undefined,
+  uninstantiated = false,
+): { inheritedFrom?: string } {
+  if (declaredIn === undefined) return {}
+  descriptor.tags.add('inherited-member')
+  if (uninstantiated) {
+    descriptor.tags.add('uninstantiated-member')
+  }
+  return { inheritedFrom: declaredIn }
+}
 
 /**
  * Detects changes in nested members (properties, methods, etc.).
@@ -37,20 +95,40 @@ export function detectNestedChanges(
     return []
   }
 
+  // Members of type aliases are not analyzed; a change between a type alias
+  // and another kind is judged on the whole type by classifyChange()
+  if (
+    oldNode.kind !== newNode.kind &&
+    (oldNode.kind === 'type-alias' || newNode.kind === 'type-alias')
+  ) {
+    return []
+  }
+
   const changes: ApiChange[] = []
   const newAncestors = [...ancestors, oldNode.path]
 
-  // Match children
+  // Match children, including inherited members if requested
+  const flatten = options.flattenInheritedMembers
+  const oldMembers = getMembers(
+    oldNode,
+    flatten ? context?.oldNodes : undefined,
+  )
+  const newMembers = getMembers(
+    newNode,
+    flatten ? context?.newNodes : undefined,
+  )
   const { matched, removed, added } = matchNodes(
-    oldNode.children,
-    newNode.children,
+    oldMembers.members,
+    newMembers.members,
   )
 
   // Process removed members
   for (const child of removed) {
     const target = nodeKindToTarget(child.kind)
+    const descriptor = createSimpleDescriptor(target, 'removed')
+    const declaredIn = oldMembers.inheritedFrom.get(child.name)
     changes.push({
-      descriptor: createSimpleDescriptor(target, 'removed'),
+      descriptor,
       path: child.path,
       nodeKind: child.kind,
       oldLocation: child.location,
@@ -60,16 +138,25 @@ export function detectNestedChanges(
         isNested: true,
         depth: depth + 1,
         ancestors: newAncestors,
+        ...markInherited(
+          descriptor,
+          declaredIn,
+          oldMembers.uninstantiated.has(child.name),
+        ),
       },
-      explanation: `Member '${child.name}' removed from ${oldNode.kind} '${oldNode.name}'`,
+      explanation: declaredIn
+        ? `Member '${child.name}' inherited from '${declaredIn}' removed from ${oldNode.kind} '${oldNode.name}'`
+        : `Member '${child.name}' removed from ${oldNode.kind} '${oldNode.name}'`,
     })
   }
 
   // Process added members
   for (const child of added) {
     const target = nodeKindToTarget(child.kind)
+    const descriptor = createSimpleDescriptor(target, 'added')
+    const declaredIn = newMembers.inheritedFrom.get(child.name)
     changes.push({
-      descriptor: createSimpleDescriptor(target, 'added'),
+      descriptor,
       path: child.path,
       nodeKind: child.kind,
       newLocation: child.location,
@@ -79,14 +166,21 @@ export function detectNestedChanges(
         isNested: true,
         depth: depth + 1,
         ancestors: newAncestors,
+        ...markInherited(
+          descriptor,
+          declaredIn,
+          newMembers.uninstantiated.has(child.name),
+        ),
       },
-      explanation: `Member '${child.name}' added to ${newNode.kind} '${newNode.name}'`,
+      explanation: declaredIn
+        ? `Member '${child.name}' inherited from '${declaredIn}' added to ${newNode.kind} '${newNode.name}'`
+        : `Member '${child.name}' added to ${newNode.kind} '${newNode.name}'`,
     })
   }
 
   // Process modified members
   for (const { old: oldChild, new: newChild } of matched) {
-    const { descriptor, explanation } = classifyChange(
+    const { descriptor, explanation, polarity } = classifyChange(
       oldChild,
       newChild,
       context,
@@ -94,9 +188,12 @@ export function detectNestedChanges(
     const isEquivalent =
       descriptor.aspect === 'type' && descriptor.impact === 'equivalent'
 
-    if (!isEquivalent || oldChild.children.size > 0) {
+    const hasMembers =
+      oldChild.children.size > 0 || (flatten && canInheritMembers(oldChild))
+
+    if (!isEquivalent || hasMembers) {
       const nestedChanges =
-        options.includeNestedChanges && oldChild.children.size > 0
+        options.includeNestedChanges && hasMembers
           ? detectNestedChanges(
               oldChild,
               newChild,
@@ -128,11 +225,32 @@ export function detectNestedChanges(
             ancestors: newAncestors,
             oldType: oldChild.typeInfo.signature,
             newType: newChild.typeInfo.signature,
+            polarity,
+            ...markInherited(
+              descriptor,
+              newMembers.inheritedFrom.get(newChild.name) ??
+                oldMembers.inheritedFrom.get(oldChild.name),
+              newMembers.uninstantiated.has(newChild.name) ||
+                oldMembers.uninstantiated.has(oldChild.name),
+            ),
           },
           explanation,
         })
       }
     }
+
+    changes.push(
+      ...detectOverloadChanges(oldChild, newChild, {
+        isNested: true,
+        depth: depth + 1,
+        ancestors: newAncestors,
+      }),
+      ...detectReleaseTagChanges(oldChild, newChild, {
+        isNested: true,
+        depth: depth + 1,
+        ancestors: newAncestors,
+      }),
+    )
   }
 
   return changes
@@ -0,0 +1,151 @@
+/**
+ * Overload change detection.
+ */
+
+import type {
+  AnalyzableNode,
+  ApiChange,
+  ChangeContext,
+  SignatureInfo,
+} from '../types'
+import {
+  createModifiedDescriptor,
+  createSimpleDescriptor,
+  determineTypeImpact,
+  isOverloaded,
+} from './change-classification'
+
+/**
+ * Gets the parameter shape of a signature: the normalized signature
+ * without its return type. Overloads are matched by their shape.
+ */
+function getParameterShape(sig: SignatureInfo): string {
+  const returnTypeSuffix = `: ${sig.returnType}`
+  return sig.normalized.slice(0, -returnTypeSuffix.length)
+}
+
+/**
+ * Detects added, removed and reordered overloads between two versions of
+ * a function or method, as well as return type changes of overloads that
+ * kept their parameter shape.
+ *
+ * Returns no changes unless at least one of the nodes is overloaded;
+ * signature changes of non-overloaded nodes are handled by classifyChange().
+ *
+ * @param oldNode - The old function or method
+ * @param newNode - The new function or method
+ * @param context - Nesting context of the function or method
+ */
+export function detectOverloadChanges(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+  context: Pick<ChangeContext, 'isNested' | 'depth' | 'ancestors'>,
+): ApiChange[] {
+  if (!isOverloaded(oldNode) && !isOverloaded(newNode)) {
+    return []
+  }
+
+  const oldSigs = oldNode.typeInfo.callSignatures ?? []
+  const newSigs = newNode.typeInfo.callSignatures ?? []
+  const changes: ApiChange[] = []
+
+  // Match overloads by parameter shape, in declaration order
+  const matched: Array<{ oldIndex: number; newIndex: number }> = []
+  const unmatchedNew = new Set(newSigs.keys())
+  const removed: number[] = []
+  for (let oldIndex = 0; oldIndex < oldSigs.length; oldIndex++) {
+    const shape = getParameterShape(oldSigs[oldIndex]!)
+    const newIndex = [...unmatchedNew].find(
+      (index) => getParameterShape(newSigs[index]!) === shape,
+    )
+    if (newIndex === undefined) {
+      removed.push(oldIndex)
+    } else {
+      matched.push({ oldIndex, newIndex })
+      unmatchedNew.delete(newIndex)
+    }
+  }
+
+  const baseChange = {
+    path: oldNode.path,
+    nodeKind: oldNode.kind,
+    oldNode,
+    newNode,
+    nestedChanges: [],
+  }
+
+  for (const oldIndex of removed) {
+    const sig = oldSigs[oldIndex]!
+    changes.push({
+      ...baseChange,
+      descriptor: createSimpleDescriptor('overload', 'removed'),
+      oldLocation: sig.location,
+      context: {
+        ...context,
+        oldType: sig.normalized,
+        overloadIndex: { old: oldIndex },
+      },
+      explanation: `Overload '${oldNode.name}${sig.normalized}' removed from ${oldNode.kind} '${oldNode.name}'`,
+    })
+  }
+
+  for (const newIndex of unmatchedNew) {
+    const sig = newSigs[newIndex]!
+    changes.push({
+      ...baseChange,
+      descriptor: createSimpleDescriptor('overload', 'added'),
+      newLocation: sig.location,
+      context: {
+        ...context,
+        newType: sig.normalized,
+        overloadIndex: { new: newIndex },
+      },
+      explanation: `Overload '${newNode.name}${sig.normalized}' added to ${newNode.kind} '${newNode.name}'`,
+    })
+  }
+
+  for (const { oldIndex, newIndex } of matched) {
+    const oldSig = oldSigs[oldIndex]!
+    const newSig = newSigs[newIndex]!
+    const impact = determineTypeImpact(oldSig.returnType, newSig.returnType)
+    if (impact === 'equivalent') continue
+
+    changes.push({
+      ...baseChange,
+      descriptor: createModifiedDescriptor('return-type', 'type', impact, [
+        'in-output-position',
+      ]),
+      oldLocation: oldSig.location,
+      newLocation: newSig.location,
+      context: {
+        ...context,
+        oldType: oldSig.returnType,
+        newType: newSig.returnType,
+        polarity: 'covariant',
+        overloadIndex: { old: oldIndex, new: newIndex },
+      },
+      explanation: `Changed return type of overload '${oldNode.name}${getParameterShape(oldSig)}' from '${oldSig.returnType}' to '${newSig.returnType}'`,
+    })
+  }
+
+  // Overloads are resolved in declaration order, so a change in the
+  // relative order of the kept overloads can change which one a call picks
+  const isReordered = matched.some(
+    ({ newIndex }, i) => i > 0 && newIndex < matched[i - 1]!.newIndex,
+  )
+  if (isReordered) {
+    const order = [...matched]
+      .sort((a, b) => a.newIndex - b.newIndex)
+      .map(({ oldIndex }) => getParameterShape(oldSigs[oldIndex]!))
+    changes.push({
+      ...baseChange,
+      descriptor: createSimpleDescriptor('overload', 'reordered'),
+      oldLocation: oldNode.location,
+      newLocation: newNode.location,
+      context: { ...context },
+      explanation: `Overloads of '${oldNode.name}' reordered: now resolved in the order ${order.join(', ')}`,
+    })
+  }
+
+  return changes
+}
@@ -0,0 +1,150 @@
+/**
+ * Release tags of changed declarations.
+ *
+ * Changes are tagged `is-alpha`, `is-beta` or `is-internal` after the
+ * release tag of the declaration they affect, so that policies can relax
+ * the classification of changes to APIs that are not yet public.
+ */
+
+import type {
+  AnalyzableNode,
+  ApiChange,
+  ChangeContext,
+  ChangeTag,
+  ReleaseTag,
+} from '../types'
+import {
+  createModifiedDescriptor,
+  nodeKindToTarget,
+} from './change-classification'
+
+/** Release tags from the most to the least public */
+const RELEASE_TAG_ORDER: Record<ReleaseTag, number> = {
+  public: 0,
+  beta: 1,
+  alpha: 2,
+  internal: 3,
+}
+
+const RELEASE_TAG_CHANGE_TAGS: Record<ReleaseTag, ChangeTag | undefined> = {
+  public: undefined,
+  beta: 'is-beta',
+  alpha: 'is-alpha',
+  internal: 'is-internal',
+}
+
+/**
+ * Compares the publicity of two release tags.
+ *
+ * @returns A negative number if `a` is more public than `b`, a positive
+ * number if it is less public, and 0 if they are the same
+ */
+export function compareReleaseTags(a: ReleaseTag, b: ReleaseTag): number {
+  return RELEASE_TAG_ORDER[a] - RELEASE_TAG_ORDER[b]
+}
+
+/**
+ * Detects a changed release tag between two versions of a declaration.
+ * Promoting a declaration (e.g. \@beta to \@public) widens its audience
+ * and demoting it narrows it.
+ *
+ * The release tag change is reported alongside the changes to the
+ * declaration's signature, so that a promotion doesn't hide them.
+ *
+ * @param oldNode - The old declaration
+ * @param newNode - The new declaration
+ * @param context - Nesting context of the declaration
+ */
+export function detectReleaseTagChanges(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+  context: Pick<
+    ChangeContext,
+    'isNested' | 'depth' | 'ancestors' | 'localName'
+  >,
+): ApiChange[] {
+  const oldReleaseTag = oldNode.metadata?.releaseTag ?? 'public'
+  const newReleaseTag = newNode.metadata?.releaseTag ?? 'public'
+  const releaseTagOrder = compareReleaseTags(oldReleaseTag, newReleaseTag)
+  if (releaseTagOrder === 0) {
+    return []
+  }
+
+  const promoted = releaseTagOrder > 0
+  return [
+    {
+      descriptor: createModifiedDescriptor(
+        nodeKindToTarget(oldNode.kind),
+        'release-tag',
+        promoted ? 'widening' : 'narrowing',
+      ),
+      path: oldNode.path,
+      nodeKind: oldNode.kind,
+      oldLocation: oldNode.location,
+      newLocation: newNode.location,
+      oldNode,
+      newNode,
+      nestedChanges: [],
+      context,
+      explanation: `${promoted ? 'Promoted' : 'Demoted'} '${oldNode.path}' from @${oldReleaseTag} to @${newReleaseTag}`,
+    },
+  ]
+}
+
+/**
+ * The release tag of a declaration: its own, or that of its container.
+ */
+function resolveReleaseTag(
+  node: AnalyzableNode | undefined,
+  inherited: ReleaseTag,
+): ReleaseTag {
+  return node?.metadata?.releaseTag ?? inherited
+}
+
+/**
+ * The release tag a change is classified by. Removals and modifications
+ * affect consumers of the old declaration and additions those of the new
+ * one. A changed release tag affects consumers at the more public of the
+ * two, e.g. promoting an \@internal declaration to \@public publishes it.
+ */
+function changeReleaseTag(
+  change: ApiChange,
+  oldTag: ReleaseTag,
+  newTag: ReleaseTag,
+): ReleaseTag {
+  if (change.descriptor.action === 'added') {
+    return newTag
+  }
+  if (change.descriptor.aspect === 'release-tag') {
+    return compareReleaseTags(oldTag, newTag) <= 0 ? oldTag : newTag
+  }
+  return oldTag
+}
+
+/**
+ * Tags changes with the release tag of the declaration they affect.
+ * Members without a release tag of their own inherit that of their
+ * container; top-level declarations without one are public.
+ *
+ * @param changes - The changes to tag, including their nested changes
+ * @param oldInherited - Release tag of the old container
+ * @param newInherited - Release tag of the new container
+ */
+export function tagReleaseTags(
+  changes: ApiChange[],
+  oldInherited: ReleaseTag = 'public',
+  newInherited: ReleaseTag = 'public',
+): void {
+  for (const change of changes) {
+    const oldTag = resolveReleaseTag(change.oldNode, oldInherited)
+    const newTag = resolveReleaseTag(change.newNode, newInherited)
+
+    const tag =
+      RELEASE_TAG_CHANGE_TAGS[changeReleaseTag(change, oldTag, newTag)]
+    if (tag) {
+      change.descriptor.tags.add(tag)
+    }
+
+    tagReleaseTags(change.nestedChanges, oldTag, newTag)
+  }
+}
@@ -1,11 +1,11 @@
 /**
- * Rename detection with confidence scoring.
+ * Rename and move detection with confidence scoring.
  */
 
 import type { AnalyzableNode, Modifier } from '../types'
 import { editDistance, nameSimilarity } from '../../parameter-analysis'
 
-interface RenameCandidate {
+interface MatchCandidate {
   oldNode: AnalyzableNode
   newNode: AnalyzableNode
   confidence: number
@@ -18,8 +18,8 @@ export function detectRenames(
   removed: AnalyzableNode[],
   added: AnalyzableNode[],
   threshold: number,
-): RenameCandidate[] {
-  const candidates: RenameCandidate[] = []
+): MatchCandidate[] {
+  const candidates: MatchCandidate[] = []
 
   for (const oldNode of removed) {
     for (const newNode of added) {
@@ -37,12 +37,52 @@ export function detectRenames(
     }
   }
 
+  return selectBestCandidates(candidates)
+}
+
+/**
+ * Detects probable moves among removed and added nodes: declarations that
+ * kept their name and kind but appear at a different path, e.g. a function
+ * moved into a namespace.
+ */
+export function detectMoves(
+  removed: AnalyzableNode[],
+  added: AnalyzableNode[],
+  threshold: number,
+): MatchCandidate[] {
+  const candidates: MatchCandidate[] = []
+
+  for (const oldNode of removed) {
+    for (const newNode of added) {
+      if (
+        oldNode.name !== newNode.name ||
+        oldNode.kind !== newNode.kind ||
+        oldNode.path === newNode.path
+      ) {
+        continue
+      }
+
+      const confidence = calculateMoveSimilarity(oldNode, newNode)
+
+      if (confidence >= threshold) {
+        candidates.push({ oldNode, newNode, confidence })
+      }
+    }
+  }
+
+  return selectBestCandidates(candidates)
+}
+
+/**
+ * Greedily selects the most confident candidates, using each node once.
+ */
+function selectBestCandidates(candidates: MatchCandidate[]): MatchCandidate[] {
   // Sort by confidence (highest first) and greedily match
   candidates.sort((a, b) => b.confidence - a.confidence)
 
   const usedOld = new Set<string>()
   const usedNew = new Set<string>()
-  const finalCandidates: RenameCandidate[] = []
+  const finalCandidates: MatchCandidate[] = []
 
   for (const candidate of candidates) {
     if (
@@ -103,6 +143,49 @@ function calculateRenameSimilarity(
   return score / factors
 }
 
+/**
+ * Calculates similarity between two nodes with the same name for move
+ * detection.
+ */
+function calculateMoveSimilarity(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+): number {
+  // Declaration similarity (60% weight). Call signatures or the declaration
+  // source are compared, as the signatures of top-level declarations and
+  // namespace members may be printed differently.
+  const oldSigs = oldNode.typeInfo.callSignatures
+  const newSigs = newNode.typeInfo.callSignatures
+  const signatureScore =
+    oldSigs && newSigs
+      ? calculateSignatureSimilarity(
+          oldSigs.map((sig) => sig.normalized).join('; '),
+          newSigs.map((sig) => sig.normalized).join('; '),
+        )
+      : calculateSignatureSimilarity(oldNode.typeInfo.raw, newNode.typeInfo.raw)
+
+  // Same member names (30% weight)
+  const oldChildren = new Set(oldNode.children.keys())
+  const newChildren = new Set(newNode.children.keys())
+  const union = new Set([...oldChildren, ...newChildren])
+  const childrenScore =
+    union.size === 0
+      ? 1
+      : [...oldChildren].filter((name) => newChildren.has(name)).length /
+        union.size
+
+  // Same modifiers (10% weight), ignoring those that depend on the level
+  // the declaration is at
+  const withoutLevelModifiers = (mods: Set<Modifier>) =>
+    new Set([...mods].filter((m) => m !== 'exported' && m !== 'declare'))
+  const modifierScore = calculateModifierSimilarity(
+    withoutLevelModifiers(oldNode.modifiers),
+    withoutLevelModifiers(newNode.modifiers),
+  )
+
+  return signatureScore * 0.6 + childrenScore * 0.3 + modifierScore * 0.1
+}
+
 /**
  * Calculates similarity between two type signatures.
  */
@@ -0,0 +1,370 @@
+/**
+ * Structural equivalence of types across two versions of an API.
+ *
+ * The old and new types belong to different programs, so they cannot be
+ * compared with `isTypeAssignableTo()` directly. Instead, each type is
+ * expanded into a canonical structural form using its own checker: object
+ * types declared in the analyzed files, and intersections of them, are
+ * expanded into their resolved members, independent of their names, member
+ * order and whether they are declared as interfaces, type aliases, inline
+ * or as mapped types. Types with the same structural form are mutually
+ * assignable.
+ */
+
+import type * as ts from 'typescript'
+import type { AnalyzableNode, DiffContext } from '../types'
+import { normalizeSignature } from './rename-detection'
+
+/**
+ * Maximum depth to which nested object types are expanded.
+ */
+const MAX_EXPANSION_DEPTH = 5
+
+/**
+ * Node kinds that only declare a type.
+ */
+const TYPE_KINDS = new Set(['interface', 'type-alias'])
+
+/**
+ * Node kinds that only declare a value.
+ */
+const VALUE_KINDS = new Set(['function', 'variable'])
+
+/**
+ * Checks whether an object type is declared in the analyzed files, as
+ * opposed to a lib file, whose types are compared by name.
+ */
+export function isDeclaredInAnalyzedFiles(type: ts.Type): boolean {
+  const declaration = type.getSymbol()?.getDeclarations()?.[0]
+  return (
+    declaration !== undefined && !declaration.getSourceFile().hasNoDefaultLib
+  )
+}
+
+/**
+ * Checks whether a type is a literal or type parameter, which are compared
+ * by how they are written.
+ */
+function isLiteralOrTypeParameter(type: ts.Type): boolean {
+  return type.isLiteral() || type.isTypeParameter()
+}
+
+/**
+ * Checks whether a type is a mapped type whose keys depend on a type
+ * parameter, which has no members to expand.
+ */
+function isGenericMappedType(type: ts.Type, checker: ts.TypeChecker): boolean {
+  return (
+    getMappedTypeDeclaration(type) !== undefined &&
+    checker.getPropertiesOfType(type).length === 0
+  )
+}
+
+/**
+ * Gets the declaration of a mapped type, e.g. `{ [K in Keys]: T }`.
+ */
+function getMappedTypeDeclaration(
+  type: ts.Type,
+): ts.MappedTypeNode | undefined {
+  const declaration = type.getSymbol()?.getDeclarations()?.[0]
+  return declaration !== undefined &&
+    'typeParameter' in declaration &&
+    'nameType' in declaration
+    ? (declaration as ts.MappedTypeNode)
+    : undefined
+}
+
+/**
+ * Gets whether a `readonly` or `?` modifier of a mapped type adds (`+` or
+ * no sign) or removes (`-`) the modifier, or undefined without one.
+ */
+function getMappedModifier(token: ts.Node | undefined): boolean | undefined {
+  return token === undefined ? undefined : token.getText() !== '-'
+}
+
+/**
+ * Checks whether a property is declared optional.
+ */
+export function isOptionalProperty(property: ts.Symbol): boolean {
+  const declaration = property.valueDeclaration
+  return (
+    declaration !== undefined &&
+    'questionToken' in declaration &&
+    declaration.questionToken !== undefined
+  )
+}
+
+/**
+ * Checks whether a property is declared readonly.
+ */
+export function isReadonlyProperty(property: ts.Symbol): boolean {
+  const declaration = property.valueDeclaration
+  return (
+    declaration !== undefined &&
+    'modifiers' in declaration &&
+    Array.isArray(declaration.modifiers) &&
+    (declaration.modifiers as ts.Node[]).some(
+      (modifier) => modifier.getText() === 'readonly',
+    )
+  )
+}
+
+/**
+ * Gets whether a property of a type is readonly and optional. The modifiers
+ * of a mapped type apply to all its properties, which have no declarations
+ * of their own.
+ */
+export function getPropertyModifiers(
+  type: ts.Type,
+  property: ts.Symbol,
+): { readonly: boolean; optional: boolean } {
+  const mapped = getMappedTypeDeclaration(type)
+  return {
+    readonly:
+      getMappedModifier(mapped?.readonlyToken) ?? isReadonlyProperty(property),
+    optional:
+      getMappedModifier(mapped?.questionToken) ?? isOptionalProperty(property),
+  }
+}
+
+/**
+ * Gets how a type is written. Type aliases print as their name, so the
+ * aliased type of an alias declaration is taken from its source instead.
+ */
+export function getTypeText(type: ts.Type, checker: ts.TypeChecker): string {
+  const alias = type.aliasSymbol
+  const declaration = alias?.getDeclarations()?.[0]
+  if (
+    alias &&
+    declaration &&
+    'type' in declaration &&
+    checker.getDeclaredTypeOfSymbol(alias) === type
+  ) {
+    return (declaration.type as ts.TypeNode).getText()
+  }
+  return checker.typeToString(type)
+}
+
+/**
+ * Builds the canonical structural form of a type.
+ *
+ * @param type - The type
+ * @param checker - The checker of the program the type belongs to
+ */
+export function getStructuralForm(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+): string {
+  const expanding = new Set<ts.Type>()
+
+  /**
+   * Checks whether a type is expanded into its members: object types
+   * declared in the analyzed files, and intersections of them, which are
+   * expanded like the interface extending their members would be.
+   */
+  function isExpandable(current: ts.Type): boolean {
+    if (current.isIntersection()) {
+      return current.types.every(isExpandable)
+    }
+    return (
+      !current.isUnion() &&
+      !isLiteralOrTypeParameter(current) &&
+      !isGenericMappedType(current, checker) &&
+      isDeclaredInAnalyzedFiles(current)
+    )
+  }
+
+  function formOf(current: ts.Type, depth: number): string {
+    if (
+      current.isUnion() ||
+      (current.isIntersection() && !isExpandable(current))
+    ) {
+      const members = current.types.map((member) => formOf(member, depth))
+      // Union and intersection members are unordered
+      return members.sort().join(current.isUnion() ? ' | ' : ' & ')
+    }
+
+    if (
+      !isExpandable(current) ||
+      expanding.has(current) ||
+      depth >= MAX_EXPANSION_DEPTH
+    ) {
+      return getTypeText(current, checker)
+    }
+
+    expanding.add(current)
+    const parts: string[] = []
+    for (const signature of current.getCallSignatures()) {
+      parts.push(signatureForm(signature, depth))
+    }
+    for (const signature of current.getConstructSignatures()) {
+      parts.push(`new ${signatureForm(signature, depth)}`)
+    }
+    for (const info of checker.getIndexInfosOfType(current)) {
+      parts.push(
+        `${info.isReadonly ? 'readonly ' : ''}[key: ${formOf(info.keyType, depth + 1)}]: ${formOf(info.type, depth + 1)}`,
+      )
+    }
+    const properties = [...checker.getPropertiesOfType(current)].sort((a, b) =>
+      a.getName().localeCompare(b.getName()),
+    )
+    for (const property of properties) {
+      const modifiers = getPropertyModifiers(current, property)
+      const readonly = modifiers.readonly ? 'readonly ' : ''
+      const optional = modifiers.optional ? '?' : ''
+      parts.push(
+        `${readonly}${property.getName()}${optional}: ${formOf(checker.getTypeOfSymbol(property), depth + 1)}`,
+      )
+    }
+    expanding.delete(current)
+
+    return `{ ${parts.join('; ')} }`
+  }
+
+  function signatureForm(signature: ts.Signature, depth: number): string {
+    // Generic signatures are compared as written
+    if (signature.getTypeParameters()?.length) {
+      return checker.signatureToString(signature)
+    }
+    const parameters = signature.getParameters().map((parameter, i) => {
+      const optional = isOptionalProperty(parameter) ? '?' : ''
+      return `arg${i}${optional}: ${formOf(checker.getTypeOfSymbol(parameter), depth + 1)}`
+    })
+    const returnType = formOf(signature.getReturnType(), depth + 1)
+    return `(${parameters.join(', ')}) => ${returnType}`
+  }
+
+  return formOf(type, 0)
+}
+
+/**
+ * Gets the type a node declares: the declared type for interfaces and type
+ * aliases, the type of the value otherwise.
+ */
+export function getNodeType(
+  node: AnalyzableNode,
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): ts.Type | undefined {
+  if (TYPE_KINDS.has(node.kind)) {
+    return checker.getDeclaredTypeOfSymbol(symbol)
+  }
+  const declaration = symbol.getDeclarations()?.[0]
+  return declaration
+    ? checker.getTypeOfSymbolAtLocation(symbol, declaration)
+    : undefined
+}
+
+/**
+ * Checks whether two types are structurally equivalent.
+ *
+ * @param oldType - Type from the old program
+ * @param oldChecker - Checker of the old program
+ * @param newType - Type from the new program
+ * @param newChecker - Checker of the new program
+ */
+export function areStructurallyEquivalent(
+  oldType: ts.Type,
+  oldChecker: ts.TypeChecker,
+  newType: ts.Type,
+  newChecker: ts.TypeChecker,
+): boolean {
+  return (
+    getStructuralForm(oldType, oldChecker) ===
+    getStructuralForm(newType, newChecker)
+  )
+}
+
+/**
+ * Checks whether a change between two node kinds can preserve the declared
+ * type: interfaces and type aliases both only declare a type, functions and
+ * variables both only declare a value.
+ */
+export function isInterchangeableKind(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+): boolean {
+  return (
+    (TYPE_KINDS.has(oldNode.kind) && TYPE_KINDS.has(newNode.kind)) ||
+    (VALUE_KINDS.has(oldNode.kind) && VALUE_KINDS.has(newNode.kind))
+  )
+}
+
+/**
+ * Gets the type parameters of a node as written, for comparison.
+ */
+function getTypeParameterList(node: AnalyzableNode): string {
+  return (node.typeInfo.typeParameters ?? [])
+    .map(
+      (tp) =>
+        `${tp.name}${tp.constraint ? ` extends ${tp.constraint}` : ''}${tp.default ? ` = ${tp.default}` : ''}`,
+    )
+    .join(', ')
+}
+
+/**
+ * Checks whether two nodes declare structurally equivalent types, using
+ * the checkers of the diff context. Without type information, the
+ * normalized signatures are compared instead. Generic declarations must
+ * also declare the same type parameters.
+ */
+export function areNodesStructurallyEquivalent(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+  context?: DiffContext,
+): boolean {
+  if (getTypeParameterList(oldNode) !== getTypeParameterList(newNode)) {
+    return false
+  }
+
+  const oldSymbol = context?.oldSymbols.get(oldNode.path)
+  const newSymbol = context?.newSymbols.get(newNode.path)
+  if (context && oldSymbol && newSymbol) {
+    const oldType = getNodeType(oldNode, oldSymbol, context.oldChecker)
+    const newType = getNodeType(newNode, newSymbol, context.checker)
+    if (oldType && newType) {
+      return areStructurallyEquivalent(
+        oldType,
+        context.oldChecker,
+        newType,
+        context.checker,
+      )
+    }
+  }
+  return (
+    normalizeSignature(oldNode.typeInfo.signature) ===
+    normalizeSignature(newNode.typeInfo.signature)
+  )
+}
+
+/**
+ * Checks whether a type has statically known members, so that classes can
+ * implement it: object types and intersections of object types.
+ */
+function hasStaticMembers(type: ts.Type): boolean {
+  if (type.isIntersection()) {
+    return type.types.every(hasStaticMembers)
+  }
+  // Primitive types have no symbol
+  return (
+    !type.isUnion() &&
+    !isLiteralOrTypeParameter(type) &&
+    type.getSymbol() !== undefined
+  )
+}
+
+/**
+ * Checks whether a class can implement the type a node declares. Without
+ * type information, only object type literals are considered implementable.
+ */
+export function isImplementable(
+  node: AnalyzableNode,
+  symbols: Map<string, ts.Symbol> | undefined,
+  checker: ts.TypeChecker | undefined,
+): boolean {
+  const symbol = symbols?.get(node.path)
+  const type = symbol && checker && getNodeType(node, symbol, checker)
+  return type
+    ? hasStaticMembers(type)
+    : node.typeInfo.signature.trim().startsWith('{')
+}
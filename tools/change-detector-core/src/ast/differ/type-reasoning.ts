@@ -0,0 +1,1981 @@
+/**
+ * Reasoning about the sets of values types accept, for type impact analysis.
+ *
+ * The old and new types belong to different programs, so their relation
+ * cannot be decided by either checker. Instead, each type is extracted into
+ * a checker-independent model on which the relation is decided: generic
+ * types are instantiated with representative type arguments, conditional
+ * types are evaluated, mapped types are expanded over finite key sets and
+ * template literal types are compared by the strings they accept.
+ */
+
+import type * as ts from 'typescript'
+import type { ChangeImpact } from '../types'
+import {
+  getPropertyModifiers,
+  isDeclaredInAnalyzedFiles,
+  isOptionalProperty,
+} from './structural-equivalence'
+
+/**
+ * Maximum depth to which types are extracted and related.
+ */
+const MAX_DEPTH = 8
+
+/**
+ * Maximum number of union members produced by distributing over unions.
+ */
+const MAX_DISTRIBUTION = 64
+
+/**
+ * Maximum number of instantiations tried for generic types.
+ */
+const MAX_INSTANTIATIONS = 128
+
+/**
+ * Maximum number of strings sampled from a template literal type.
+ */
+const MAX_SAMPLES = 256
+
+/**
+ * Intrinsic types that are neither top nor bottom types.
+ */
+const PRIMITIVE_TYPES = new Set([
+  'string',
+  'number',
+  'bigint',
+  'symbol',
+  'undefined',
+  'null',
+  'void',
+  'object',
+])
+
+/**
+ * Intrinsic string manipulation types.
+ */
+const STRING_MAPPINGS: Record<string, (value: string) => string> = {
+  Uppercase: (value) => value.toUpperCase(),
+  Lowercase: (value) => value.toLowerCase(),
+  Capitalize: (value) => value.charAt(0).toUpperCase() + value.slice(1),
+  Uncapitalize: (value) => value.charAt(0).toLowerCase() + value.slice(1),
+}
+
+/**
+ * A property of an object type.
+ */
+interface PropertyModel {
+  name: string
+  optional: boolean
+  readonly: boolean
+  type: TypeModel
+}
+
+/**
+ * A parameter of a call or construct signature.
+ */
+interface ParameterModel {
+  optional: boolean
+  rest: boolean
+  type: TypeModel
+}
+
+/**
+ * A call or construct signature.
+ */
+interface SignatureModel {
+  typeParameters: string[]
+  parameters: ParameterModel[]
+  returnType: TypeModel
+}
+
+/**
+ * An index signature.
+ */
+interface IndexModel {
+  keyType: TypeModel
+  type: TypeModel
+}
+
+/**
+ * A checker-independent model of a type.
+ *
+ * Types that cannot be modeled are opaque and only equal to themselves.
+ * Conditional, mapped, `keyof`, indexed access and string mapping types
+ * remain in the model while they depend on unbound type parameters.
+ */
+export type TypeModel =
+  | { kind: 'top'; name: string }
+  | { kind: 'never' }
+  | { kind: 'primitive'; name: string }
+  | { kind: 'literal'; base: 'string' | 'number' | 'boolean'; value: string }
+  | { kind: 'template'; texts: string[]; types: TypeModel[] }
+  | { kind: 'union'; types: TypeModel[] }
+  | { kind: 'intersection'; types: TypeModel[] }
+  | {
+      kind: 'object'
+      properties: PropertyModel[]
+      callSignatures: SignatureModel[]
+      constructSignatures: SignatureModel[]
+      indexes: IndexModel[]
+    }
+  | { kind: 'reference'; name: string; typeArguments: TypeModel[] }
+  | { kind: 'parameter'; name: string; constraint?: TypeModel }
+  | {
+      kind: 'conditional'
+      checkType: TypeModel
+      extendsType: TypeModel
+      trueType: TypeModel
+      falseType: TypeModel
+      distributive: boolean
+      inferParameters: string[]
+    }
+  | {
+      kind: 'mapped'
+      parameter: string
+      constraint: TypeModel
+      nameType?: TypeModel
+      template: TypeModel
+      optional?: boolean
+      readonly?: boolean
+    }
+  | { kind: 'keyof'; type: TypeModel }
+  | { kind: 'indexed'; objectType: TypeModel; indexType: TypeModel }
+  | { kind: 'string-mapping'; name: string; type: TypeModel }
+  | { kind: 'opaque'; text: string }
+
+type ObjectModel = Extract<TypeModel, { kind: 'object' }>
+type ConditionalModel = Extract<TypeModel, { kind: 'conditional' }>
+type MappedModel = Extract<TypeModel, { kind: 'mapped' }>
+
+/**
+ * The result of a relation that may be unknown.
+ */
+type Ternary = boolean | undefined
+
+/**
+ * Type parameter bindings by name.
+ */
+type Bindings = ReadonlyMap<string, TypeModel>
+
+const NEVER: TypeModel = { kind: 'never' }
+
+function primitive(name: string): TypeModel {
+  return { kind: 'primitive', name }
+}
+
+function stringLiteral(value: string): TypeModel {
+  return { kind: 'literal', base: 'string', value }
+}
+
+function emptyObject(): ObjectModel {
+  return {
+    kind: 'object',
+    properties: [],
+    callSignatures: [],
+    constructSignatures: [],
+    indexes: [],
+  }
+}
+
+/**
+ * Gets a key that is equal for equal models.
+ */
+function modelKey(model: TypeModel): string {
+  return JSON.stringify(model)
+}
+
+/**
+ * Checks whether a model is a primitive, literal or template literal type.
+ */
+function isAtom(model: TypeModel): boolean {
+  return (
+    model.kind === 'primitive' ||
+    model.kind === 'literal' ||
+    model.kind === 'template'
+  )
+}
+
+/**
+ * Checks whether a model still depends on unbound type parameters and so
+ * cannot be related to other types.
+ */
+function isUnresolved(model: TypeModel): boolean {
+  return (
+    model.kind === 'parameter' ||
+    model.kind === 'conditional' ||
+    model.kind === 'mapped' ||
+    model.kind === 'keyof' ||
+    model.kind === 'indexed' ||
+    model.kind === 'string-mapping'
+  )
+}
+
+/**
+ * Checks whether a relation holds for all items.
+ */
+function every<T>(
+  items: readonly T[],
+  test: (item: T, index: number) => Ternary,
+): Ternary {
+  let result: Ternary = true
+  for (const [index, item] of items.entries()) {
+    const itemResult = test(item, index)
+    if (itemResult === false) return false
+    if (itemResult === undefined) result = undefined
+  }
+  return result
+}
+
+/**
+ * Checks whether a relation holds for any item.
+ */
+function some<T>(items: readonly T[], test: (item: T) => Ternary): Ternary {
+  let result: Ternary = false
+  for (const item of items) {
+    const itemResult = test(item)
+    if (itemResult === true) return true
+    if (itemResult === undefined) result = undefined
+  }
+  return result
+}
+
+/**
+ * Creates a union, flattening nested unions and dropping members that are
+ * subsumed by a primitive member.
+ */
+function union(types: readonly TypeModel[]): TypeModel {
+  const members = new Map<string, TypeModel>()
+  const add = (type: TypeModel): void => {
+    if (type.kind === 'union') {
+      type.types.forEach(add)
+    } else if (type.kind !== 'never') {
+      members.set(modelKey(type), type)
+    }
+  }
+  types.forEach(add)
+
+  const values = [...members.values()]
+  const top = values.find((type) => type.kind === 'top')
+  if (top) return top
+
+  const primitives = new Set(
+    values.flatMap((type) => (type.kind === 'primitive' ? [type.name] : [])),
+  )
+  const result = [...members.entries()]
+    .filter(
+      ([, type]) =>
+        !(type.kind === 'literal' && primitives.has(type.base)) &&
+        !(type.kind === 'template' && primitives.has('string')),
+    )
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, type]) => type)
+
+  if (result.length === 0) return NEVER
+  return result.length === 1 ? result[0]! : { kind: 'union', types: result }
+}
+
+/**
+ * Combines object types into one object type with the members of all.
+ */
+function mergeObjects(objects: readonly ObjectModel[]): ObjectModel {
+  const properties = new Map<string, PropertyModel>()
+  const merged = emptyObject()
+  for (const object of objects) {
+    for (const property of object.properties) {
+      const existing = properties.get(property.name)
+      properties.set(
+        property.name,
+        existing
+          ? {
+              name: property.name,
+              optional: existing.optional && property.optional,
+              // A property of an intersection is writable if any member is
+              readonly: existing.readonly && property.readonly,
+              type: intersection([existing.type, property.type]),
+            }
+          : property,
+      )
+    }
+    merged.callSignatures.push(...object.callSignatures)
+    merged.constructSignatures.push(...object.constructSignatures)
+    merged.indexes.push(...object.indexes)
+  }
+  merged.properties = [...properties.values()].sort((a, b) =>
+    a.name.localeCompare(b.name),
+  )
+  return merged
+}
+
+/**
+ * Creates an intersection, distributing over unions, merging object types
+ * and reducing primitive and literal types.
+ */
+function intersection(types: readonly TypeModel[]): TypeModel {
+  const members = types
+    .flatMap((type) => (type.kind === 'intersection' ? type.types : [type]))
+    .filter((type) => type.kind !== 'top')
+  if (members.some((type) => type.kind === 'never')) return NEVER
+
+  const unionIndex = members.findIndex((type) => type.kind === 'union')
+  if (unionIndex >= 0) {
+    const unionMember = members[unionIndex] as Extract<
+      TypeModel,
+      { kind: 'union' }
+    >
+    if (unionMember.types.length <= MAX_DISTRIBUTION) {
+      return union(
+        unionMember.types.map((type) =>
+          intersection(members.map((m, i) => (i === unionIndex ? type : m))),
+        ),
+      )
+    }
+  }
+
+  const objects = members.filter(
+    (type): type is ObjectModel => type.kind === 'object',
+  )
+  const reduced: TypeModel[] = []
+  for (const type of members) {
+    if (type.kind === 'object') continue
+    if (!isAtom(type)) {
+      reduced.push(type)
+      continue
+    }
+    let keep = true
+    for (let i = 0; i < reduced.length; i++) {
+      const other = reduced[i]!
+      if (!isAtom(other)) continue
+      if (isAssignable(other, type) === true) {
+        keep = false
+        break
+      }
+      if (isAssignable(type, other) === true) {
+        reduced[i] = type
+        keep = false
+        break
+      }
+      // Distinct primitives and literals have no values in common
+      if (type.kind !== 'template' && other.kind !== 'template') {
+        return NEVER
+      }
+    }
+    if (keep) reduced.push(type)
+  }
+
+  if (objects.length > 0) {
+    const merged = mergeObjects(objects)
+    const isEmpty =
+      merged.properties.length === 0 &&
+      merged.callSignatures.length === 0 &&
+      merged.constructSignatures.length === 0 &&
+      merged.indexes.length === 0
+    // `{}` only removes `null` and `undefined` from primitive types
+    if (!isEmpty || !reduced.some(isAtom)) {
+      reduced.push(merged)
+    }
+  }
+
+  if (reduced.length === 0) return emptyObject()
+  return reduced.length === 1
+    ? reduced[0]!
+    : { kind: 'intersection', types: reduced }
+}
+
+/**
+ * Creates a template literal type, distributing over union holes and
+ * folding literal holes into the surrounding text.
+ */
+function template(
+  texts: readonly string[],
+  types: readonly TypeModel[],
+): TypeModel {
+  if (types.some((type) => type.kind === 'never')) return NEVER
+
+  const unionIndex = types.findIndex((type) => type.kind === 'union')
+  if (unionIndex >= 0) {
+    const size = types.reduce(
+      (product, type) =>
+        product * (type.kind === 'union' ? type.types.length : 1),
+      1,
+    )
+    if (size <= MAX_DISTRIBUTION) {
+      const unionHole = types[unionIndex] as Extract<
+        TypeModel,
+        { kind: 'union' }
+      >
+      return union(
+        unionHole.types.map((type) =>
+          template(
+            texts,
+            types.map((t, i) => (i === unionIndex ? type : t)),
+          ),
+        ),
+      )
+    }
+  }
+
+  const newTexts: string[] = []
+  const newTypes: TypeModel[] = []
+  let current = texts[0] ?? ''
+  types.forEach((type, i) => {
+    const text = texts[i + 1] ?? ''
+    if (type.kind === 'literal') {
+      current += type.value + text
+    } else if (type.kind === 'template') {
+      current += type.texts[0] ?? ''
+      type.types.forEach((inner, j) => {
+        newTexts.push(current)
+        newTypes.push(inner)
+        current = type.texts[j + 1] ?? ''
+      })
+      current += text
+    } else {
+      newTexts.push(current)
+      newTypes.push(type)
+      current = text
+    }
+  })
+  newTexts.push(current)
+
+  if (newTypes.length === 0) return stringLiteral(newTexts[0]!)
+  // `${string}` accepts every string
+  const [hole] = newTypes
+  if (
+    newTypes.length === 1 &&
+    newTexts.every((text) => text === '') &&
+    hole?.kind === 'primitive' &&
+    hole.name === 'string'
+  ) {
+    return primitive('string')
+  }
+  return { kind: 'template', texts: newTexts, types: newTypes }
+}
+
+/**
+ * Checks whether a declaration is a mapped type.
+ */
+function isMappedTypeNode(
+  declaration: ts.Declaration | undefined,
+): declaration is ts.MappedTypeNode {
+  return (
+    declaration !== undefined &&
+    'typeParameter' in declaration &&
+    'nameType' in declaration
+  )
+}
+
+/**
+ * Checks whether a type node is, or contains, a conditional, mapped or
+ * template literal type.
+ */
+function containsTypeOperator(node: ts.Node): boolean {
+  if (
+    ('checkType' in node && 'extendsType' in node) ||
+    ('head' in node && 'templateSpans' in node) ||
+    isMappedTypeNode(node as ts.Declaration)
+  ) {
+    return true
+  }
+  return (
+    node.forEachChild((child) => containsTypeOperator(child) || undefined) ??
+    false
+  )
+}
+
+/**
+ * Checks whether a type node is a reference to a named type.
+ */
+function isTypeReferenceNode(
+  node: ts.Node | undefined,
+): node is ts.TypeReferenceNode {
+  return node !== undefined && 'typeName' in node
+}
+
+/**
+ * Checks whether a symbol is a generic type alias.
+ */
+function isTypeAlias(symbol: ts.Symbol): boolean {
+  const declaration = symbol.getDeclarations()?.[0]
+  return (
+    declaration !== undefined &&
+    'type' in declaration &&
+    'typeParameters' in declaration &&
+    getTypeParameterNames(declaration).length > 0
+  )
+}
+
+/**
+ * Gets the names of the type parameters a declaration declares.
+ */
+function getTypeParameterNames(declaration: ts.Declaration): string[] {
+  if (!('typeParameters' in declaration)) return []
+  const parameters = declaration.typeParameters as
+    | readonly ts.TypeParameterDeclaration[]
+    | undefined
+  return (parameters ?? []).map((parameter) => parameter.name.text)
+}
+
+/**
+ * Extracts the model of a type.
+ *
+ * Object types declared in the analyzed files are expanded into their
+ * members; instantiations of generic type aliases whose arguments are
+ * generic, and of aliases of mapped types, are expanded from the alias
+ * declaration. Other lib types are modeled as references by name.
+ *
+ * @param type - The type
+ * @param checker - The checker of the program the type belongs to
+ * @param onTypeOperator - Called when the type involves a conditional,
+ * mapped or template literal type
+ */
+export function buildTypeModel(
+  type: ts.Type,
+  checker: ts.TypeChecker,
+  onTypeOperator?: () => void,
+): TypeModel {
+  const expanding = new Set<ts.Type>()
+
+  function modelOf(current: ts.Type, depth: number): TypeModel {
+    const text = checker.typeToString(current)
+    if (depth >= MAX_DEPTH || expanding.has(current)) {
+      return { kind: 'opaque', text }
+    }
+
+    expanding.add(current)
+    try {
+      return extract(current, text, depth)
+    } finally {
+      expanding.delete(current)
+    }
+  }
+
+  function extract(current: ts.Type, text: string, depth: number): TypeModel {
+    // Aliases of conditional types are resolved by the checker, so they are
+    // only recognized by their declaration
+    const aliasDeclaration = current.aliasSymbol?.getDeclarations()?.[0]
+    if (
+      aliasDeclaration &&
+      'type' in aliasDeclaration &&
+      containsTypeOperator(aliasDeclaration.type as ts.TypeNode)
+    ) {
+      onTypeOperator?.()
+    }
+
+    // Without lib files, intrinsic string mappings are unresolved references
+    // that keep their type argument, so they are evaluated on the model
+    const alias = current.aliasSymbol
+    if (
+      alias &&
+      !alias.getDeclarations()?.length &&
+      alias.getName() in STRING_MAPPINGS &&
+      current.aliasTypeArguments?.length === 1
+    ) {
+      onTypeOperator?.()
+      return {
+        kind: 'string-mapping',
+        name: alias.getName(),
+        type: modelOf(current.aliasTypeArguments[0]!, depth + 1),
+      }
+    }
+
+    const aliasModel = expandAlias(current, depth)
+    if (aliasModel) return aliasModel
+
+    if (current.isUnion()) {
+      return union(current.types.map((member) => modelOf(member, depth)))
+    }
+    if (current.isIntersection()) {
+      return intersection(current.types.map((member) => modelOf(member, depth)))
+    }
+
+    const symbol = current.getSymbol()
+    if (current.isStringLiteral() || current.isNumberLiteral()) {
+      // Enum members are only equal to themselves
+      return symbol
+        ? { kind: 'opaque', text }
+        : {
+            kind: 'literal',
+            base: current.isStringLiteral() ? 'string' : 'number',
+            value: String(current.value),
+          }
+    }
+    if (current.isTypeParameter()) {
+      const constraint = current.getConstraint()
+      return {
+        kind: 'parameter',
+        name: symbol?.getName() ?? text,
+        ...(constraint && { constraint: modelOf(constraint, depth + 1) }),
+      }
+    }
+    if (!symbol) {
+      if (text === 'any' || text === 'unknown')
+        return { kind: 'top', name: text }
+      if (text === 'never') return NEVER
+      if (text === 'true' || text === 'false') {
+        return { kind: 'literal', base: 'boolean', value: text }
+      }
+      if (PRIMITIVE_TYPES.has(text)) return primitive(text)
+    }
+
+    if ('texts' in current && 'types' in current) {
+      const templateType = current as ts.TemplateLiteralType
+      onTypeOperator?.()
+      return template(
+        templateType.texts,
+        templateType.types.map((t) => modelOf(t, depth + 1)),
+      )
+    }
+    if ('root' in current && 'checkType' in current) {
+      onTypeOperator?.()
+      return extractConditional(current as ts.ConditionalType, text, depth)
+    }
+    if ('objectType' in current && 'indexType' in current) {
+      const indexed = current as ts.IndexedAccessType
+      return {
+        kind: 'indexed',
+        objectType: modelOf(indexed.objectType, depth + 1),
+        indexType: modelOf(indexed.indexType, depth + 1),
+      }
+    }
+    if ('type' in current && text.startsWith('keyof ')) {
+      return {
+        kind: 'keyof',
+        type: modelOf((current as ts.IndexType).type, depth + 1),
+      }
+    }
+    if ('type' in current && symbol && symbol.getName() in STRING_MAPPINGS) {
+      return {
+        kind: 'string-mapping',
+        name: symbol.getName(),
+        type: modelOf((current as ts.StringMappingType).type, depth + 1),
+      }
+    }
+
+    const declaration = symbol?.getDeclarations()?.[0]
+    if (isMappedTypeNode(declaration)) {
+      onTypeOperator?.()
+    }
+    if (
+      isMappedTypeNode(declaration) &&
+      checker.getPropertiesOfType(current).length === 0
+    ) {
+      return extractMapped(declaration, text, depth)
+    }
+    if (isDeclaredInAnalyzedFiles(current) || isMappedTypeNode(declaration)) {
+      return extractObject(current, depth)
+    }
+
+    const reference = current as ts.TypeReference
+    if ('target' in current && reference.target) {
+      const typeArguments = checker
+        .getTypeArguments(reference)
+        .map((t) => modelOf(t, depth + 1))
+      const name =
+        'elementFlags' in reference.target
+          ? `[${typeArguments.length}]`
+          : (symbol?.getName() ?? text)
+      return { kind: 'reference', name, typeArguments }
+    }
+
+    return { kind: 'opaque', text }
+  }
+
+  function expandAlias(current: ts.Type, depth: number): TypeModel | undefined {
+    const alias = current.aliasSymbol
+    const declaration = alias?.getDeclarations()?.[0]
+    if (!alias || !declaration) return undefined
+
+    // An alias of an instantiated alias takes over the instantiation under
+    // its own name, so the instantiated alias is found in its declaration
+    if (checker.getDeclaredTypeOfSymbol(alias) === current) {
+      const typeNode =
+        'type' in declaration
+          ? (declaration.type as ts.TypeNode | undefined)
+          : undefined
+      if (!isTypeReferenceNode(typeNode) || !typeNode.typeArguments) {
+        return undefined
+      }
+      const referenced = checker.getSymbolAtLocation(typeNode.typeName)
+      return referenced && isTypeAlias(referenced)
+        ? instantiateAlias(
+            referenced,
+            typeNode.typeArguments.map((node) =>
+              modelOf(checker.getTypeFromTypeNode(node), depth + 1),
+            ),
+            depth,
+          )
+        : undefined
+    }
+
+    const typeArguments = (current.aliasTypeArguments ?? []).map((t) =>
+      modelOf(t, depth + 1),
+    )
+    const declaredIsMapped = isMappedTypeNode(
+      checker
+        .getDeclaredTypeOfSymbol(alias)
+        .getSymbol()
+        ?.getDeclarations()?.[0],
+    )
+    if (
+      typeArguments.length === 0 ||
+      (!declaredIsMapped &&
+        !typeArguments.some((t) => getFreeParameters(t).size > 0))
+    ) {
+      return undefined
+    }
+    return instantiateAlias(alias, typeArguments, depth)
+  }
+
+  function instantiateAlias(
+    alias: ts.Symbol,
+    typeArguments: TypeModel[],
+    depth: number,
+  ): TypeModel {
+    const names = getTypeParameterNames(alias.getDeclarations()![0]!)
+    const bindings = new Map(
+      names.map((name, i) => [name, typeArguments[i] ?? NEVER] as const),
+    )
+    return evaluate(
+      modelOf(checker.getDeclaredTypeOfSymbol(alias), depth + 1),
+      bindings,
+    )
+  }
+
+  function extractConditional(
+    conditional: ts.ConditionalType,
+    text: string,
+    depth: number,
+  ): TypeModel {
+    const root = conditional.root
+    // Instantiated conditional types cannot be related to their declaration
+    if (
+      conditional.checkType !== root.checkType ||
+      conditional.extendsType !== root.extendsType
+    ) {
+      return { kind: 'opaque', text }
+    }
+    return {
+      kind: 'conditional',
+      checkType: modelOf(root.checkType, depth + 1),
+      extendsType: modelOf(root.extendsType, depth + 1),
+      trueType: modelOf(
+        checker.getTypeFromTypeNode(root.node.trueType),
+        depth + 1,
+      ),
+      falseType: modelOf(
+        checker.getTypeFromTypeNode(root.node.falseType),
+        depth + 1,
+      ),
+      distributive: root.isDistributive,
+      inferParameters: (root.inferTypeParameters ?? []).map(
+        (parameter) => parameter.getSymbol()?.getName() ?? '',
+      ),
+    }
+  }
+
+  function extractMapped(
+    declaration: ts.MappedTypeNode,
+    text: string,
+    depth: number,
+  ): TypeModel {
+    const constraint = declaration.typeParameter.constraint
+    if (!constraint || !declaration.type) {
+      return { kind: 'opaque', text }
+    }
+    const modifier = declaration.questionToken?.getText()
+    const readonlyModifier = declaration.readonlyToken?.getText()
+    return {
+      kind: 'mapped',
+      parameter: declaration.typeParameter.name.text,
+      constraint: modelOf(checker.getTypeFromTypeNode(constraint), depth + 1),
+      ...(declaration.nameType && {
+        nameType: modelOf(
+          checker.getTypeFromTypeNode(declaration.nameType),
+          depth + 1,
+        ),
+      }),
+      template: modelOf(
+        checker.getTypeFromTypeNode(declaration.type),
+        depth + 1,
+      ),
+      ...(modifier !== undefined && { optional: modifier !== '-' }),
+      ...(readonlyModifier !== undefined && {
+        readonly: readonlyModifier !== '-',
+      }),
+    }
+  }
+
+  function extractObject(current: ts.Type, depth: number): ObjectModel {
+    const properties = [...checker.getPropertiesOfType(current)]
+      .map((property) => ({
+        name: property.getName(),
+        ...getPropertyModifiers(current, property),
+        type: modelOf(checker.getTypeOfSymbol(property), depth + 1),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+    return {
+      kind: 'object',
+      properties,
+      callSignatures: current
+        .getCallSignatures()
+        .map((signature) => extractSignature(signature, depth)),
+      constructSignatures: current
+        .getConstructSignatures()
+        .map((signature) => extractSignature(signature, depth)),
+      indexes: checker.getIndexInfosOfType(current).map((info) => ({
+        keyType: modelOf(info.keyType, depth + 1),
+        type: modelOf(info.type, depth + 1),
+      })),
+    }
+  }
+
+  function extractSignature(
+    signature: ts.Signature,
+    depth: number,
+  ): SignatureModel {
+    return {
+      typeParameters: (signature.getTypeParameters() ?? []).map(
+        (parameter) => parameter.getSymbol()?.getName() ?? '',
+      ),
+      parameters: signature.getParameters().map((parameter) => {
+        const declaration = parameter.valueDeclaration
+        return {
+          optional:
+            isOptionalProperty(parameter) ||
+            (declaration !== undefined &&
+              'initializer' in declaration &&
+              declaration.initializer !== undefined),
+          rest:
+            declaration !== undefined &&
+            'dotDotDotToken' in declaration &&
+            declaration.dotDotDotToken !== undefined,
+          type: modelOf(checker.getTypeOfSymbol(parameter), depth + 1),
+        }
+      }),
+      returnType: modelOf(signature.getReturnType(), depth + 1),
+    }
+  }
+
+  return modelOf(type, 0)
+}
+
+/**
+ * Collects the type parameters a model depends on that are not bound within
+ * it, with their constraints, in order of appearance.
+ */
+function getFreeParameters(
+  model: TypeModel,
+  bound: ReadonlySet<string> = new Set(),
+  found = new Map<string, TypeModel | undefined>(),
+): Map<string, TypeModel | undefined> {
+  const visit = (type: TypeModel, names: ReadonlySet<string> = bound): void => {
+    getFreeParameters(type, names, found)
+  }
+  const withNames = (names: readonly string[]): Set<string> =>
+    new Set([...bound, ...names])
+
+  switch (model.kind) {
+    case 'parameter':
+      if (!bound.has(model.name) && !found.has(model.name)) {
+        found.set(model.name, model.constraint)
+      }
+      break
+    case 'template':
+    case 'union':
+    case 'intersection':
+      model.types.forEach((type) => visit(type))
+      break
+    case 'object':
+      model.properties.forEach((property) => visit(property.type))
+      for (const signature of [
+        ...model.callSignatures,
+        ...model.constructSignatures,
+      ]) {
+        const names = withNames(signature.typeParameters)
+        signature.parameters.forEach((p) => visit(p.type, names))
+        visit(signature.returnType, names)
+      }
+      model.indexes.forEach((index) => {
+        visit(index.keyType)
+        visit(index.type)
+      })
+      break
+    case 'reference':
+      model.typeArguments.forEach((type) => visit(type))
+      break
+    case 'conditional': {
+      const names = withNames(model.inferParameters)
+      visit(model.checkType)
+      visit(model.extendsType, names)
+      visit(model.trueType, names)
+      visit(model.falseType)
+      break
+    }
+    case 'mapped': {
+      const names = withNames([model.parameter])
+      visit(model.constraint)
+      if (model.nameType) visit(model.nameType, names)
+      visit(model.template, names)
+      break
+    }
+    case 'keyof':
+    case 'string-mapping':
+      visit(model.type)
+      break
+    case 'indexed':
+      visit(model.objectType)
+      visit(model.indexType)
+      break
+  }
+  return found
+}
+
+/**
+ * Removes bindings that are shadowed by type parameters declared within a
+ * model.
+ */
+function unbind(bindings: Bindings, names: readonly string[]): Bindings {
+  if (!names.some((name) => bindings.has(name))) return bindings
+  const result = new Map(bindings)
+  names.forEach((name) => result.delete(name))
+  return result
+}
+
+/**
+ * Substitutes type parameters and evaluates conditional, mapped, `keyof`,
+ * indexed access, string mapping and template literal types as far as their
+ * bindings allow.
+ */
+function evaluate(model: TypeModel, bindings: Bindings): TypeModel {
+  const ev = (type: TypeModel): TypeModel => evaluate(type, bindings)
+
+  switch (model.kind) {
+    case 'parameter':
+      return bindings.get(model.name) ?? model
+    case 'union':
+      return union(model.types.map(ev))
+    case 'intersection':
+      return intersection(model.types.map(ev))
+    case 'template':
+      return template(model.texts, model.types.map(ev))
+    case 'object': {
+      const evaluateSignature = (signature: SignatureModel): SignatureModel => {
+        const inner = unbind(bindings, signature.typeParameters)
+        return {
+          typeParameters: signature.typeParameters,
+          parameters: signature.parameters.map((p) => ({
+            ...p,
+            type: evaluate(p.type, inner),
+          })),
+          returnType: evaluate(signature.returnType, inner),
+        }
+      }
+      return {
+        kind: 'object',
+        properties: model.properties.map((p) => ({ ...p, type: ev(p.type) })),
+        callSignatures: model.callSignatures.map(evaluateSignature),
+        constructSignatures: model.constructSignatures.map(evaluateSignature),
+        indexes: model.indexes.map((index) => ({
+          keyType: ev(index.keyType),
+          type: ev(index.type),
+        })),
+      }
+    }
+    case 'reference':
+      return { ...model, typeArguments: model.typeArguments.map(ev) }
+    case 'conditional':
+      return evaluateConditional(model, bindings)
+    case 'mapped':
+      return evaluateMapped(model, bindings)
+    case 'keyof':
+      return evaluateKeyof(ev(model.type))
+    case 'indexed':
+      return evaluateIndexed(ev(model.objectType), ev(model.indexType))
+    case 'string-mapping':
+      return evaluateStringMapping(model.name, ev(model.type))
+    default:
+      return model
+  }
+}
+
+function evaluateConditional(
+  model: ConditionalModel,
+  bindings: Bindings,
+): TypeModel {
+  const checkType = evaluate(model.checkType, bindings)
+
+  // Distributive conditional types map over the members of a union
+  if (model.distributive && model.checkType.kind === 'parameter') {
+    const name = model.checkType.name
+    if (checkType.kind === 'never') return NEVER
+    if (checkType.kind === 'union') {
+      return union(
+        checkType.types.map((member) =>
+          evaluateConditional(model, new Map(bindings).set(name, member)),
+        ),
+      )
+    }
+  }
+
+  const inner = unbind(bindings, model.inferParameters)
+  const extendsType = evaluate(model.extendsType, inner)
+  const inferred = new Map<string, TypeModel>()
+  const matches =
+    model.inferParameters.length > 0
+      ? matchInfer(
+          checkType,
+          extendsType,
+          new Set(model.inferParameters),
+          inferred,
+        )
+      : isAssignable(checkType, extendsType)
+
+  // `any` satisfies and fails the condition at the same time
+  if (checkType.kind === 'top' && checkType.name === 'any') {
+    return union([
+      evaluate(model.trueType, inner),
+      evaluate(model.falseType, bindings),
+    ])
+  }
+  if (matches === true) {
+    return evaluate(model.trueType, new Map([...inner, ...inferred]))
+  }
+  if (matches === false) {
+    return evaluate(model.falseType, bindings)
+  }
+  return {
+    ...model,
+    checkType,
+    extendsType,
+    trueType: evaluate(model.trueType, inner),
+    falseType: evaluate(model.falseType, bindings),
+  }
+}
+
+/**
+ * Matches a type against an `extends` clause with `infer` declarations,
+ * collecting the inferred types.
+ */
+function matchInfer(
+  source: TypeModel,
+  pattern: TypeModel,
+  inferNames: ReadonlySet<string>,
+  inferred: Map<string, TypeModel>,
+): Ternary {
+  if (pattern.kind === 'parameter' && inferNames.has(pattern.name)) {
+    const existing = inferred.get(pattern.name)
+    inferred.set(pattern.name, existing ? union([existing, source]) : source)
+    return true
+  }
+  const patternParameters = getFreeParameters(pattern)
+  if (![...patternParameters.keys()].some((name) => inferNames.has(name))) {
+    return isAssignable(source, pattern)
+  }
+  if (isUnresolved(source) || source.kind === 'opaque') return undefined
+  if (source.kind === 'union') {
+    return every(source.types, (member) =>
+      matchInfer(member, pattern, inferNames, inferred),
+    )
+  }
+
+  const match = (s: TypeModel, p: TypeModel): Ternary =>
+    matchInfer(s, p, inferNames, inferred)
+
+  switch (pattern.kind) {
+    case 'reference':
+      if (source.kind !== 'reference') {
+        return source.kind === 'object' ? undefined : false
+      }
+      if (!isReferenceAssignable(source.name, pattern.name)) return false
+      return every(pattern.typeArguments, (p, i) =>
+        match(source.typeArguments[i] ?? NEVER, p),
+      )
+    case 'object': {
+      if (source.kind !== 'object') {
+        // Generic lib types are not callable
+        const isCallable =
+          pattern.callSignatures.length > 0 ||
+          pattern.constructSignatures.length > 0
+        return isAtom(source) || (source.kind === 'reference' && isCallable)
+          ? false
+          : undefined
+      }
+      const properties = every(pattern.properties, (p) => {
+        const property = source.properties.find((s) => s.name === p.name)
+        return property ? match(property.type, p.type) : p.optional
+      })
+      const patternSignature = pattern.callSignatures.at(-1)
+      if (!patternSignature) return properties
+      const sourceSignature = source.callSignatures.at(-1)
+      if (!sourceSignature) return false
+      const parameters = every(patternSignature.parameters, (p, i) => {
+        if (
+          p.rest &&
+          p.type.kind === 'parameter' &&
+          inferNames.has(p.type.name)
+        ) {
+          const rest = sourceSignature.parameters.slice(i).map((s) => s.type)
+          return match(
+            {
+              kind: 'reference',
+              name: `[${rest.length}]`,
+              typeArguments: rest,
+            },
+            p.type,
+          )
+        }
+        const patternType = getArgumentType(patternSignature, i)
+        const sourceTypes = p.rest
+          ? sourceSignature.parameters
+              .slice(i)
+              .map((_, j) => getArgumentType(sourceSignature, i + j))
+          : [getArgumentType(sourceSignature, i)]
+        return every(sourceTypes, (sourceType) => {
+          if (!sourceType || !patternType) return true
+          // `any` parameters accept every argument
+          if (patternType.kind === 'top') return true
+          return getFreeParameters(patternType).size > 0
+            ? match(sourceType, patternType)
+            : isAssignable(patternType, sourceType)
+        })
+      })
+      const returnType = match(
+        sourceSignature.returnType,
+        patternSignature.returnType,
+      )
+      return every([properties, parameters, returnType], (r) => r)
+    }
+    case 'template': {
+      if (source.kind !== 'literal' || source.base !== 'string') {
+        return isAtom(source) || source.kind === 'object' ? false : undefined
+      }
+      const groups: string[] = []
+      let expression = escapeRegExp(pattern.texts[0]!)
+      pattern.types.forEach((type, i) => {
+        const isLast = i === pattern.types.length - 1
+        if (type.kind === 'parameter' && inferNames.has(type.name)) {
+          groups.push(type.name)
+          expression += isLast ? '([\\s\\S]*)' : '([\\s\\S]*?)'
+        } else {
+          const hole = holePattern(type)
+          if (hole === undefined) return
+          expression += hole
+        }
+        expression += escapeRegExp(pattern.texts[i + 1]!)
+      })
+      const result = new RegExp(`^${expression}$`).exec(source.value)
+      if (!result) return false
+      groups.forEach((name, i) =>
+        inferred.set(name, stringLiteral(result[i + 1]!)),
+      )
+      return true
+    }
+    default:
+      return undefined
+  }
+}
+
+function evaluateMapped(model: MappedModel, bindings: Bindings): TypeModel {
+  const inner = unbind(bindings, [model.parameter])
+  const constraint = evaluate(model.constraint, bindings)
+  const unresolved: TypeModel = {
+    ...model,
+    constraint,
+    ...(model.nameType && { nameType: evaluate(model.nameType, inner) }),
+    template: evaluate(model.template, inner),
+  }
+
+  // Homomorphic mapped types keep the optionality and readonly modifiers of
+  // the mapped properties
+  const source =
+    model.constraint.kind === 'keyof'
+      ? evaluate(model.constraint.type, bindings)
+      : undefined
+
+  // Homomorphic mapped types over a type parameter distribute over unions,
+  // leave primitive types as they are and map arrays to arrays
+  if (
+    source &&
+    model.constraint.kind === 'keyof' &&
+    model.constraint.type.kind === 'parameter'
+  ) {
+    const name = model.constraint.type.name
+    if (source.kind === 'union') {
+      return union(
+        source.types.map((member) =>
+          evaluateMapped(model, new Map(bindings).set(name, member)),
+        ),
+      )
+    }
+    if (isAtom(source)) return source
+    if (
+      source.kind === 'reference' &&
+      (source.name === 'Array' || source.name === 'ReadonlyArray')
+    ) {
+      const elementBindings = new Map(inner).set(
+        model.parameter,
+        primitive('number'),
+      )
+      const readonly = model.readonly ?? source.name === 'ReadonlyArray'
+      return {
+        ...source,
+        name: readonly ? 'ReadonlyArray' : 'Array',
+        typeArguments: [evaluate(model.template, elementBindings)],
+      }
+    }
+  }
+  const keys = constraint.kind === 'union' ? constraint.types : [constraint]
+  if (constraint.kind === 'never') return emptyObject()
+
+  const object = emptyObject()
+  for (const key of keys) {
+    const keyBindings = new Map(inner).set(model.parameter, key)
+    const type = evaluate(model.template, keyBindings)
+    if (
+      key.kind === 'primitive' &&
+      (key.name === 'string' || key.name === 'number')
+    ) {
+      object.indexes.push({ keyType: key, type })
+      continue
+    }
+    if (key.kind !== 'literal' || key.base === 'boolean') return unresolved
+
+    const name = model.nameType ? evaluate(model.nameType, keyBindings) : key
+    if (name.kind === 'never') continue
+    if (name.kind !== 'literal') return unresolved
+
+    const sourceProperty =
+      source?.kind === 'object'
+        ? source.properties.find((p) => p.name === key.value)
+        : undefined
+    const optional = model.optional ?? sourceProperty?.optional ?? false
+    object.properties.push({
+      name: name.value,
+      optional,
+      readonly: model.readonly ?? sourceProperty?.readonly ?? false,
+      type:
+        model.optional === false && sourceProperty?.optional
+          ? removeUndefined(type)
+          : type,
+    })
+  }
+  object.properties.sort((a, b) => a.name.localeCompare(b.name))
+  return object
+}
+
+function removeUndefined(type: TypeModel): TypeModel {
+  return type.kind === 'union'
+    ? union(
+        type.types.filter(
+          (t) => !(t.kind === 'primitive' && t.name === 'undefined'),
+        ),
+      )
+    : type
+}
+
+function evaluateKeyof(type: TypeModel): TypeModel {
+  if (type.kind === 'top' || type.kind === 'never') {
+    return union([
+      primitive('string'),
+      primitive('number'),
+      primitive('symbol'),
+    ])
+  }
+  if (type.kind === 'object') {
+    return union([
+      ...type.properties.map((p) => stringLiteral(p.name)),
+      ...type.indexes.map((index) => index.keyType),
+    ])
+  }
+  return { kind: 'keyof', type }
+}
+
+function evaluateIndexed(
+  objectType: TypeModel,
+  indexType: TypeModel,
+): TypeModel {
+  if (indexType.kind === 'union') {
+    return union(indexType.types.map((i) => evaluateIndexed(objectType, i)))
+  }
+  if (objectType.kind === 'union') {
+    return union(objectType.types.map((o) => evaluateIndexed(o, indexType)))
+  }
+  if (objectType.kind === 'object' && indexType.kind === 'literal') {
+    const property = objectType.properties.find(
+      (p) => p.name === indexType.value,
+    )
+    if (property) return property.type
+    const index = objectType.indexes.find((i) =>
+      isAssignable(indexType, i.keyType),
+    )
+    if (index) return index.type
+  }
+  if (
+    objectType.kind === 'reference' &&
+    (objectType.name === 'Array' || objectType.name === 'ReadonlyArray') &&
+    isAssignable(indexType, primitive('number')) === true
+  ) {
+    return objectType.typeArguments[0] ?? NEVER
+  }
+  return { kind: 'indexed', objectType, indexType }
+}
+
+function evaluateStringMapping(name: string, type: TypeModel): TypeModel {
+  if (type.kind === 'union') {
+    return union(type.types.map((t) => evaluateStringMapping(name, t)))
+  }
+  const mapping = STRING_MAPPINGS[name]
+  if (mapping && type.kind === 'literal' && type.base === 'string') {
+    return stringLiteral(mapping(type.value))
+  }
+  return { kind: 'string-mapping', name, type }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Regular expression sources matching the strings string mapping types of
+ * `string` accept.
+ */
+const STRING_MAPPING_PATTERNS: Record<string, string> = {
+  Uppercase: '[^a-z]*',
+  Lowercase: '[^A-Z]*',
+  Capitalize: '(?:[^a-z][\\s\\S]*)?',
+  Uncapitalize: '(?:[^A-Z][\\s\\S]*)?',
+}
+
+/**
+ * Representative strings string mapping types of `string` accept.
+ */
+const STRING_MAPPING_SAMPLES: Record<string, string[]> = {
+  Uppercase: ['', 'A', 'A B'],
+  Lowercase: ['', 'a', 'a b'],
+  Capitalize: ['', 'A', 'Ab'],
+  Uncapitalize: ['', 'a', 'aB'],
+}
+
+/**
+ * Gets a regular expression source matching the strings a template literal
+ * hole accepts, or undefined if they cannot be described.
+ */
+function holePattern(type: TypeModel): string | undefined {
+  switch (type.kind) {
+    case 'string-mapping':
+      return type.type.kind === 'primitive' && type.type.name === 'string'
+        ? STRING_MAPPING_PATTERNS[type.name]
+        : undefined
+    case 'primitive':
+      switch (type.name) {
+        case 'string':
+          return '[\\s\\S]*'
+        case 'number':
+          return '-?(?:\\d+\\.?\\d*|\\.\\d+)(?:e[+-]?\\d+)?'
+        case 'bigint':
+          return '-?\\d+'
+        case 'undefined':
+        case 'null':
+          return type.name
+      }
+      return undefined
+    case 'literal':
+      return escapeRegExp(type.value)
+    case 'union': {
+      const members = type.types.map(holePattern)
+      return members.every((member) => member !== undefined)
+        ? `(?:${members.join('|')})`
+        : undefined
+    }
+    case 'template': {
+      let pattern = escapeRegExp(type.texts[0]!)
+      for (let i = 0; i < type.types.length; i++) {
+        const hole = holePattern(type.types[i]!)
+        if (hole === undefined) return undefined
+        pattern += hole + escapeRegExp(type.texts[i + 1]!)
+      }
+      return pattern
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Gets representative strings a template literal hole accepts, or undefined
+ * if they cannot be enumerated.
+ */
+function holeSamples(type: TypeModel): string[] | undefined {
+  switch (type.kind) {
+    case 'string-mapping':
+      return type.type.kind === 'primitive' && type.type.name === 'string'
+        ? STRING_MAPPING_SAMPLES[type.name]
+        : undefined
+    case 'primitive':
+      switch (type.name) {
+        case 'string':
+          return ['', 'a', '0', '-', 'a b']
+        case 'number':
+          return ['0', '1.5', '-1']
+        case 'bigint':
+          return ['0', '-1']
+        case 'undefined':
+        case 'null':
+          return [type.name]
+      }
+      return undefined
+    case 'literal':
+      return [type.value]
+    case 'union': {
+      const samples = type.types.map(holeSamples)
+      return samples.every((s) => s !== undefined) ? samples.flat() : undefined
+    }
+    case 'template':
+      return templateSamples(type.texts, type.types)
+    default:
+      return undefined
+  }
+}
+
+function templateSamples(
+  texts: readonly string[],
+  types: readonly TypeModel[],
+): string[] | undefined {
+  let samples = [texts[0]!]
+  for (let i = 0; i < types.length; i++) {
+    const holes = holeSamples(types[i]!)
+    if (!holes || samples.length * holes.length > MAX_SAMPLES) return undefined
+    samples = samples.flatMap((sample) =>
+      holes.map((hole) => sample + hole + texts[i + 1]!),
+    )
+  }
+  return samples
+}
+
+/**
+ * Checks whether every string a template literal type accepts is accepted
+ * by another, by sampling the strings of the source.
+ */
+function isTemplateAssignable(
+  source: Extract<TypeModel, { kind: 'literal' | 'template' }>,
+  target: Extract<TypeModel, { kind: 'template' }>,
+): Ternary {
+  const pattern = holePattern(target)
+  const samples =
+    source.kind === 'literal'
+      ? [source.value]
+      : templateSamples(source.texts, source.types)
+  if (pattern === undefined || samples === undefined) return undefined
+  const expression = new RegExp(`^${pattern}$`)
+  return samples.every((sample) => expression.test(sample))
+}
+
+/**
+ * Splits a type written as a union into its members, or returns undefined
+ * if it contains anything other than names, literals and template literals.
+ */
+function splitUnion(text: string): string[] | undefined {
+  const members: string[] = []
+  let current = ''
+  let quote: string | undefined
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!
+    if (quote) {
+      if (char === '\\') {
+        current += char + (text[++i] ?? '')
+        continue
+      }
+      if (char === quote) quote = undefined
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char
+    } else if (char === '|') {
+      members.push(current.trim())
+      current = ''
+      continue
+    } else if (!/[\w\s.-]/.test(char)) {
+      return undefined
+    }
+    current += char
+  }
+  if (quote) return undefined
+  members.push(current.trim())
+  return members.filter((member) => member !== '')
+}
+
+/**
+ * Parses a primitive, literal or template literal type as written.
+ */
+function parseUnionMember(text: string): TypeModel | undefined {
+  if (text === 'any' || text === 'unknown') return { kind: 'top', name: text }
+  if (text === 'never') return NEVER
+  if (text === 'true' || text === 'false') {
+    return { kind: 'literal', base: 'boolean', value: text }
+  }
+  if (PRIMITIVE_TYPES.has(text)) return primitive(text)
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return { kind: 'literal', base: 'number', value: String(Number(text)) }
+  }
+
+  const quoted = /^(['"])(.*)\1$/.exec(text)
+  if (quoted && !quoted[2]!.includes('\\')) {
+    return stringLiteral(quoted[2]!)
+  }
+
+  const templateText = /^`(.*)`$/.exec(text)?.[1]
+  if (templateText === undefined || templateText.includes('\\')) {
+    return undefined
+  }
+  const parts = templateText.split(/\$\{(string|number|bigint)\}/)
+  const texts = parts.filter((_, i) => i % 2 === 0)
+  if (texts.some((part) => part.includes('${'))) return undefined
+  return template(texts, parts.filter((_, i) => i % 2 === 1).map(primitive))
+}
+
+/**
+ * Parses a type written as a union of primitive, literal and template
+ * literal types, for comparing types without a checker.
+ *
+ * @param text - The type as written
+ * @returns The model, or undefined if the type is written differently
+ */
+export function parseTypeModel(text: string): TypeModel | undefined {
+  const members = splitUnion(text)?.map(parseUnionMember)
+  if (!members?.length || members.some((member) => member === undefined)) {
+    return undefined
+  }
+  return union(members as TypeModel[])
+}
+
+/**
+ * Checks whether instances of one generic lib type are assignable to
+ * another when their type arguments are.
+ */
+function isReferenceAssignable(source: string, target: string): boolean {
+  return source === target || (source === 'Array' && target === 'ReadonlyArray')
+}
+
+/**
+ * Checks whether every value of the source type is a value of the target
+ * type. Returns undefined when this cannot be decided.
+ */
+function isAssignable(
+  source: TypeModel,
+  target: TypeModel,
+  depth = 0,
+): Ternary {
+  if (depth > MAX_DEPTH) return undefined
+  if (modelKey(source) === modelKey(target)) return true
+  // any and unknown accept the same values, but are not interchangeable
+  if (source.kind === 'top' && target.kind === 'top') return false
+  if (target.kind === 'top' || source.kind === 'never') return true
+
+  const relate = (s: TypeModel, t: TypeModel): Ternary =>
+    isAssignable(s, t, depth + 1)
+
+  if (source.kind === 'parameter' && source.constraint) {
+    if (relate(source.constraint, target) === true) return true
+  }
+  if (
+    source.kind === 'string-mapping' &&
+    target.kind === 'primitive' &&
+    target.name === 'string'
+  ) {
+    return true
+  }
+  if (isUnresolved(source) || isUnresolved(target)) return undefined
+  if (source.kind === 'top') return false
+
+  if (source.kind === 'union') {
+    return every(source.types, (s) => relate(s, target))
+  }
+  if (target.kind === 'union') {
+    return some(target.types, (t) => relate(source, t))
+  }
+  if (target.kind === 'intersection') {
+    return every(target.types, (t) => relate(source, t))
+  }
+  if (source.kind === 'intersection') {
+    return some(source.types, (s) => relate(s, target))
+  }
+  if (target.kind === 'never') return false
+  if (source.kind === 'opaque' || target.kind === 'opaque') return undefined
+
+  switch (target.kind) {
+    case 'primitive':
+      return isAssignableToPrimitive(source, target.name)
+    case 'literal':
+      return false
+    case 'template':
+      return source.kind === 'literal' && source.base === 'string'
+        ? isTemplateAssignable(source, target)
+        : source.kind === 'template'
+          ? isTemplateAssignable(source, target)
+          : false
+    case 'object':
+      return isAssignableToObject(source, target, relate)
+    case 'reference':
+      if (source.kind === 'reference') {
+        return (
+          isReferenceAssignable(source.name, target.name) &&
+          every(target.typeArguments, (t, i) =>
+            relate(source.typeArguments[i] ?? NEVER, t),
+          )
+        )
+      }
+      return source.kind === 'object' ? undefined : false
+    default:
+      return undefined
+  }
+}
+
+function isAssignableToPrimitive(source: TypeModel, name: string): Ternary {
+  switch (source.kind) {
+    case 'primitive':
+      return (
+        source.name === name || (source.name === 'undefined' && name === 'void')
+      )
+    case 'literal':
+      return source.base === name
+    case 'template':
+      return name === 'string'
+    case 'object':
+    case 'reference':
+      return name === 'object'
+    default:
+      return undefined
+  }
+}
+
+function isAssignableToObject(
+  source: TypeModel,
+  target: ObjectModel,
+  relate: (s: TypeModel, t: TypeModel) => Ternary,
+): Ternary {
+  const hasSignatures =
+    target.callSignatures.length > 0 || target.constructSignatures.length > 0
+  if (isAtom(source)) {
+    const isNullish =
+      source.kind === 'primitive' &&
+      (source.name === 'undefined' ||
+        source.name === 'null' ||
+        source.name === 'void')
+    if (isNullish || hasSignatures) return false
+    // Primitives have the members of their wrapper types
+    return target.properties.length === 0 && target.indexes.length === 0
+      ? true
+      : undefined
+  }
+  if (source.kind === 'reference' && hasSignatures) return false
+  if (source.kind !== 'object') return undefined
+
+  const properties = every(target.properties, (property) => {
+    const sourceProperty = source.properties.find(
+      (p) => p.name === property.name,
+    )
+    if (!sourceProperty) return property.optional
+    if (sourceProperty.optional && !property.optional) return false
+    // A readonly property can't stand in for a writable one
+    if (sourceProperty.readonly && !property.readonly) return false
+    return relate(sourceProperty.type, property.type)
+  })
+  const callSignatures = every(target.callSignatures, (t) =>
+    some(source.callSignatures, (s) => isSignatureAssignable(s, t, relate)),
+  )
+  const constructSignatures = every(target.constructSignatures, (t) =>
+    some(source.constructSignatures, (s) =>
+      isSignatureAssignable(s, t, relate),
+    ),
+  )
+  const indexes = every(target.indexes, (index) => {
+    const sourceIndex = source.indexes.find(
+      (i) => modelKey(i.keyType) === modelKey(index.keyType),
+    )
+    if (sourceIndex) return relate(sourceIndex.type, index.type)
+    return every(source.properties, (p) => relate(p.type, index.type))
+  })
+  return every(
+    [properties, callSignatures, constructSignatures, indexes],
+    (r) => r,
+  )
+}
+
+/**
+ * Gets the type of the argument at a position of a signature, unwrapping
+ * rest parameters.
+ */
+function getArgumentType(
+  signature: SignatureModel,
+  index: number,
+): TypeModel | undefined {
+  const last = signature.parameters.at(-1)
+  const parameter =
+    signature.parameters[index] ?? (last?.rest ? last : undefined)
+  if (!parameter) return undefined
+  if (parameter.rest && parameter.type.kind === 'reference') {
+    return parameter.type.typeArguments[0]
+  }
+  return parameter.type
+}
+
+/**
+ * Checks whether every call a target signature accepts passes arguments a
+ * source signature accepts, comparing the parameters position by position.
+ * Only the parameter lists are compared, not their types.
+ *
+ * Unlike TypeScript's assignability, which lets a function ignore extra
+ * arguments and treats optional parameters loosely, calls are checked: a
+ * parameter the target accepts but the source lacks, or one the source
+ * requires but the target lets callers omit, rejects existing calls.
+ */
+export function acceptsCallsOf(
+  source: { parameters: readonly Pick<ParameterModel, 'optional' | 'rest'>[] },
+  target: { parameters: readonly Pick<ParameterModel, 'optional' | 'rest'>[] },
+): boolean {
+  const sourceRest = source.parameters.at(-1)?.rest ?? false
+  const targetRest = target.parameters.at(-1)?.rest ?? false
+  if (targetRest && !sourceRest) return false
+
+  const count = Math.max(source.parameters.length, target.parameters.length)
+  for (let i = 0; i < count; i++) {
+    const sourceParameter = source.parameters[i]
+    const targetParameter = target.parameters[i]
+    if (targetParameter && !sourceParameter && !sourceRest) return false
+    const sourceRequired =
+      sourceParameter !== undefined &&
+      !sourceParameter.optional &&
+      !sourceParameter.rest
+    const targetRequired =
+      targetParameter !== undefined &&
+      !targetParameter.optional &&
+      !targetParameter.rest
+    if (sourceRequired && !targetRequired) return false
+  }
+  return true
+}
+
+function isSignatureAssignable(
+  source: SignatureModel,
+  target: SignatureModel,
+  relate: (s: TypeModel, t: TypeModel) => Ternary,
+): Ternary {
+  if (source.typeParameters.length !== target.typeParameters.length) {
+    return undefined
+  }
+  if (!acceptsCallsOf(source, target)) {
+    return false
+  }
+  // Relate generic signatures with their type parameters matched by position
+  const renamed = new Map(
+    target.typeParameters.map(
+      (name, i) =>
+        [name, { kind: 'parameter', name: source.typeParameters[i]! }] as const,
+    ),
+  )
+  const targetObject = evaluate(
+    {
+      ...emptyObject(),
+      callSignatures: [{ ...target, typeParameters: [] }],
+    },
+    renamed,
+  ) as ObjectModel
+  const renamedTarget = targetObject.callSignatures[0]!
+
+  const count = Math.max(source.parameters.length, target.parameters.length)
+  const parameters: Ternary[] = []
+  for (let i = 0; i < count; i++) {
+    const sourceType = getArgumentType(source, i)
+    const targetType = getArgumentType(renamedTarget, i)
+    if (sourceType && targetType) {
+      // Parameters are contravariant
+      parameters.push(relate(targetType, sourceType))
+    }
+  }
+
+  const returnType = renamedTarget.returnType
+  const returns =
+    returnType.kind === 'primitive' && returnType.name === 'void'
+      ? true
+      : relate(source.returnType, returnType)
+  return every([...parameters, returns], (r) => r)
+}
+
+/**
+ * Representative type arguments for instantiating generic types.
+ */
+const REPRESENTATIVES: readonly TypeModel[] = [
+  primitive('string'),
+  primitive('number'),
+  union([
+    { kind: 'literal', base: 'boolean', value: 'false' },
+    { kind: 'literal', base: 'boolean', value: 'true' },
+  ]),
+  stringLiteral('a'),
+  { kind: 'literal', base: 'number', value: '1' },
+  primitive('undefined'),
+  {
+    ...emptyObject(),
+    properties: [
+      {
+        name: 'a',
+        optional: false,
+        readonly: false,
+        type: primitive('string'),
+      },
+    ],
+  },
+  {
+    ...emptyObject(),
+    callSignatures: [
+      {
+        typeParameters: [],
+        parameters: [
+          { optional: false, rest: false, type: primitive('string') },
+        ],
+        returnType: primitive('string'),
+      },
+    ],
+  },
+  { kind: 'reference', name: 'Array', typeArguments: [primitive('string')] },
+]
+
+/**
+ * Gets the representative type arguments that satisfy a constraint: the
+ * representatives assignable to it, the members of a finite constraint and
+ * the constraint itself.
+ */
+function getRepresentatives(constraint: TypeModel | undefined): TypeModel[] {
+  if (!constraint) return [...REPRESENTATIVES]
+  if (getFreeParameters(constraint).size > 0) return []
+
+  const candidates = new Map<string, TypeModel>()
+  for (const representative of REPRESENTATIVES) {
+    if (isAssignable(representative, constraint) === true) {
+      candidates.set(modelKey(representative), representative)
+    }
+  }
+  if (constraint.kind === 'union') {
+    for (const member of constraint.types) {
+      candidates.set(modelKey(member), member)
+    }
+  }
+  candidates.set(modelKey(constraint), constraint)
+  return [...candidates.values()]
+}
+
+/**
+ * Gets the bindings with which generic types are instantiated, binding
+ * type parameters after those their constraints depend on.
+ */
+function getInstantiations(
+  parameters: ReadonlyMap<string, TypeModel | undefined>,
+): Bindings[] | undefined {
+  const pending = new Map(parameters)
+  let instantiations: Map<string, TypeModel>[] = [new Map<string, TypeModel>()]
+
+  while (pending.size > 0) {
+    const next =
+      [...pending].find(
+        ([, constraint]) =>
+          !constraint ||
+          [...getFreeParameters(constraint).keys()].every(
+            (name) => !pending.has(name),
+          ),
+      ) ?? [...pending][0]!
+    const [name, constraint] = next
+    pending.delete(name)
+
+    instantiations = instantiations.flatMap((bindings) =>
+      getRepresentatives(constraint && evaluate(constraint, bindings)).map(
+        (argument) => new Map(bindings).set(name, argument),
+      ),
+    )
+    if (
+      instantiations.length === 0 ||
+      instantiations.length > MAX_INSTANTIATIONS
+    ) {
+      return undefined
+    }
+  }
+  return instantiations
+}
+
+/**
+ * Determines the impact of a change between two types without type
+ * parameters.
+ */
+function relate(oldModel: TypeModel, newModel: TypeModel): ChangeImpact {
+  const widened = isAssignable(oldModel, newModel)
+  const narrowed = isAssignable(newModel, oldModel)
+  if (widened === true && narrowed === true) return 'equivalent'
+  if (widened === true && narrowed === false) return 'widening'
+  if (narrowed === true && widened === false) return 'narrowing'
+  if (widened === false && narrowed === false) return 'unrelated'
+  return 'undetermined'
+}
+
+/**
+ * Combines the impacts of a change across instantiations.
+ */
+function combineImpacts(impacts: readonly ChangeImpact[]): ChangeImpact {
+  if (impacts.includes('undetermined')) return 'undetermined'
+  const changed = new Set(impacts.filter((impact) => impact !== 'equivalent'))
+  if (changed.size === 0) return 'equivalent'
+  return changed.size === 1 ? [...changed][0]! : 'unrelated'
+}
+
+/**
+ * Determines the impact of a change between two type models. Type
+ * parameters of generic types are instantiated with representative type
+ * arguments, and the impact holds for every instantiation.
+ *
+ * @param oldModel - Model of the old type
+ * @param newModel - Model of the new type
+ */
+export function compareTypeModels(
+  oldModel: TypeModel,
+  newModel: TypeModel,
+): ChangeImpact {
+  const parameters = getFreeParameters(oldModel)
+  for (const [name, constraint] of getFreeParameters(newModel)) {
+    if (!parameters.has(name)) parameters.set(name, constraint)
+  }
+
+  if (parameters.size === 0) {
+    return relate(evaluate(oldModel, new Map()), evaluate(newModel, new Map()))
+  }
+  const instantiations = getInstantiations(parameters)
+  if (!instantiations) return 'undetermined'
+  return combineImpacts(
+    instantiations.map((bindings) =>
+      relate(evaluate(oldModel, bindings), evaluate(newModel, bindings)),
+    ),
+  )
+}
+
+/**
+ * Determines the impact of a change between two types from different
+ * programs that involve conditional, mapped or template literal types.
+ * Other types are left undetermined, to be related by the checker.
+ *
+ * @param oldType - Type from the old program
+ * @param oldChecker - Checker of the old program
+ * @param newType - Type from the new program
+ * @param newChecker - Checker of the new program
+ */
+export function compareTypes(
+  oldType: ts.Type,
+  oldChecker: ts.TypeChecker,
+  newType: ts.Type,
+  newChecker: ts.TypeChecker,
+): ChangeImpact {
+  let usesTypeOperators = false
+  const onTypeOperator = () => {
+    usesTypeOperators = true
+  }
+  const oldModel = buildTypeModel(oldType, oldChecker, onTypeOperator)
+  const newModel = buildTypeModel(newType, newChecker, onTypeOperator)
+  return usesTypeOperators
+    ? compareTypeModels(oldModel, newModel)
+    : 'undetermined'
+}
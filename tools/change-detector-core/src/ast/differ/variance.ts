@@ -0,0 +1,235 @@
+/**
+ * Position polarity (variance) of type changes.
+ *
+ * A type in an output position (return types, readonly properties) is only
+ * read by consumers, so it is covariant: narrowing it is safe, widening it
+ * may hand consumers values they do not handle. A type in an input position
+ * (parameters) is only written by consumers, so it is contravariant. Types
+ * that are both read and written (mutable properties) are invariant.
+ */
+
+import type * as ts from 'typescript'
+import type {
+  AnalyzableNode,
+  ChangeImpact,
+  ChangeTag,
+  SignatureInfo,
+  VariancePolarity,
+} from '../types'
+import { normalizeSignature } from './rename-detection'
+
+/**
+ * The position a type change was found in.
+ */
+export interface ChangePosition {
+  /** Polarity of the position */
+  polarity: VariancePolarity
+  /** Old type at the position, if narrower than the node's whole type */
+  oldType?: string
+  /** New type at the position, if narrower than the node's whole type */
+  newType?: string
+  /**
+   * Index of the changed parameter, if the position is a parameter;
+   * a position with types but no parameter index is the return type
+   */
+  parameterIndex?: number
+}
+
+/**
+ * Gets the tags describing a polarity.
+ * Invariant positions are both input and output positions.
+ */
+export function getPolarityTags(polarity: VariancePolarity): ChangeTag[] {
+  switch (polarity) {
+    case 'covariant':
+      return ['in-output-position']
+    case 'contravariant':
+      return ['in-input-position']
+    case 'invariant':
+      return ['in-input-position', 'in-output-position']
+  }
+}
+
+/**
+ * Checks whether a type annotation is a function type.
+ */
+function isFunctionType(type: string): boolean {
+  return type.includes('=>')
+}
+
+/**
+ * Combines the polarities of several changed positions.
+ */
+export function combinePolarities(
+  polarities: VariancePolarity[],
+): VariancePolarity {
+  return polarities.every((p) => p === polarities[0])
+    ? polarities[0]!
+    : 'invariant'
+}
+
+/**
+ * Ranks how breaking a type change with the given impact is at a position
+ * of the given polarity, to pick the most severe of several changed
+ * positions: narrowing an output or widening an input is safe, the opposite
+ * directions and any change of an invariant position break consumers, and
+ * unrelated or undetermined changes rank highest.
+ */
+export function getPositionSeverity(
+  polarity: VariancePolarity,
+  impact: ChangeImpact,
+): number {
+  switch (impact) {
+    case 'equivalent':
+      return 0
+    case 'widening':
+      return polarity === 'contravariant' ? 1 : 2
+    case 'narrowing':
+      return polarity === 'covariant' ? 1 : 2
+    case 'unrelated':
+    case 'undetermined':
+      return 3
+  }
+}
+
+/**
+ * Walks two versions of a signature to find the positions whose types changed.
+ *
+ * Changed return types are covariant and changed parameter types are
+ * contravariant. Parameters of function type (callbacks) are treated as
+ * invariant: the callback's own parameters are written by the API and its
+ * return type is read, so a change inside them is not one-directional.
+ *
+ * If the parameter lists differ in length or shape, which is not a change
+ * of types in place, the function as a whole is the changed position: it is
+ * read by consumers, who call it, so the position is covariant.
+ */
+function walkSignature(
+  oldSig: SignatureInfo,
+  newSig: SignatureInfo,
+): ChangePosition[] {
+  if (oldSig.parameters.length !== newSig.parameters.length) {
+    return [{ polarity: 'covariant' }]
+  }
+
+  const changed: ChangePosition[] = []
+  for (let i = 0; i < oldSig.parameters.length; i++) {
+    const oldParam = oldSig.parameters[i]!
+    const newParam = newSig.parameters[i]!
+    if (
+      oldParam.rest !== newParam.rest ||
+      oldParam.optional !== newParam.optional
+    ) {
+      return [{ polarity: 'covariant' }]
+    }
+    if (
+      normalizeSignature(oldParam.type) !== normalizeSignature(newParam.type)
+    ) {
+      changed.push({
+        polarity:
+          isFunctionType(oldParam.type) || isFunctionType(newParam.type)
+            ? 'invariant'
+            : 'contravariant',
+        oldType: oldParam.type,
+        newType: newParam.type,
+        parameterIndex: i,
+      })
+    }
+  }
+
+  if (
+    normalizeSignature(oldSig.returnType) !==
+    normalizeSignature(newSig.returnType)
+  ) {
+    changed.push({
+      polarity: 'covariant',
+      oldType: oldSig.returnType,
+      newType: newSig.returnType,
+    })
+  }
+
+  return changed
+}
+
+/**
+ * Determines the positions of a type change between two versions of a node.
+ *
+ * For functions and methods the signatures are walked to find the changed
+ * positions, each with its old and new types, so that the impact can be
+ * determined for each position alone.
+ *
+ * Returns no positions for nodes whose types can be used in any position
+ * (interfaces, classes, namespaces) or when the position is unknown.
+ */
+export function getChangePositions(
+  oldNode: AnalyzableNode,
+  newNode: AnalyzableNode,
+): ChangePosition[] {
+  switch (oldNode.kind) {
+    case 'function':
+    case 'method':
+    case 'call-signature':
+    case 'construct-signature': {
+      const oldSigs = oldNode.typeInfo.callSignatures
+      const newSigs = newNode.typeInfo.callSignatures
+      if (oldSigs?.length !== 1 || newSigs?.length !== 1) {
+        return []
+      }
+      return walkSignature(oldSigs[0]!, newSigs[0]!)
+    }
+    case 'property':
+    case 'index-signature':
+      return [
+        {
+          polarity:
+            oldNode.modifiers.has('readonly') &&
+            newNode.modifiers.has('readonly')
+              ? 'covariant'
+              : 'invariant',
+        },
+      ]
+    case 'variable':
+    case 'unique-symbol':
+    case 'getter':
+      // Exported variables cannot be reassigned by importers
+      return [{ polarity: 'covariant' }]
+    case 'setter':
+      return [{ polarity: 'contravariant' }]
+    case 'type-alias':
+      // An alias can be used in both input and output positions
+      return [{ polarity: 'invariant' }]
+    default:
+      return []
+  }
+}
+
+/**
+ * Gets the TypeScript types at a changed signature position, given the
+ * types of the whole old and new function.
+ */
+export function getPositionTsTypes(
+  checker: ts.TypeChecker,
+  oldTsType: ts.Type,
+  newTsType: ts.Type,
+  position: ChangePosition,
+): { oldTsType: ts.Type; newTsType: ts.Type } | undefined {
+  const typeAt = (type: ts.Type): ts.Type | undefined => {
+    const signatures = type.getCallSignatures()
+    if (signatures.length !== 1) return undefined
+    const signature = signatures[0]!
+    if (position.parameterIndex === undefined) {
+      return checker.getReturnTypeOfSignature(signature)
+    }
+    const parameter = signature.parameters[position.parameterIndex]
+    const declaration = parameter?.valueDeclaration
+    return parameter && declaration
+      ? checker.getTypeOfSymbolAtLocation(parameter, declaration)
+      : undefined
+  }
+
+  const oldPositionType = typeAt(oldTsType)
+  const newPositionType = typeAt(newTsType)
+  return oldPositionType && newPositionType
+    ? { oldTsType: oldPositionType, newTsType: newPositionType }
+    : undefined
+}
@@ -33,6 +33,7 @@ export type {
   TypeInfo,
   // Node types
   NodeMetadata,
+  ReleaseTag,
   AnalyzableNode,
   // Module analysis
   ModuleAnalysis,
@@ -43,24 +44,35 @@ export type {
   ChangeAspect,
   ChangeImpact,
   ChangeTag,
+  VariancePolarity,
   // Discriminated union descriptor types
   AddedDescriptor,
   RemovedDescriptor,
   ModifiedDescriptor,
   RenamedDescriptor,
+  MovedDescriptor,
   ReorderedDescriptor,
   ChangeDescriptor,
   ChangeContext,
   ApiChange,
   // Classified change
   ClassifiedChange,
+  ChangeSuppression,
+  ClassificationTrace,
+  RuleTrace,
+  ConditionTrace,
   // Options
   ParseOptions,
+  MultiFileParseOptions,
   DiffOptions,
 } from './types'
 
 // Parser exports
-export { parseModule, parseModuleWithTypes } from './parser'
+export {
+  parseModule,
+  parseModuleWithTypes,
+  parseModulesWithTypes,
+} from './parser'
 
 // Differ exports
 export { diffModules, flattenChanges, groupChangesByDescriptor } from './differ'
@@ -71,15 +83,40 @@ export type {
   ASTComparisonReport,
   ASTChangeJSON,
   ASTReportJSON,
+  ASTReportJSONValidationError,
+  ASTReportJSONValidationResult,
+  SARIFReporterOptions,
+  SARIFLevel,
+  SARIFLocation,
+  SARIFRule,
+  SARIFResult,
+  SARIFLog,
+  HTMLReporterOptions,
+  JUnitReporterOptions,
+  CheckstyleReporterOptions,
+  ChangelogTemplates,
+  ChangelogReporterOptions,
 } from './reporter'
 
 // Reporter exports
 export {
   createASTComparisonReport,
   formatSourceLocation,
+  formatForbiddenRule,
   formatASTReportAsText,
   formatASTReportAsMarkdown,
+  AST_REPORT_SCHEMA_VERSION,
+  AST_REPORT_SCHEMA_URL,
   formatASTReportAsJSON,
+  ASTReportJSONError,
+  astReportJSONSchema,
+  validateASTReportJSON,
+  parseASTReportJSON,
+  formatASTReportAsSARIF,
+  formatASTReportAsHTML,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  formatASTReportAsChangelog,
 } from './reporter'
 
 // Plugin type exports
@@ -109,6 +146,7 @@ export {
   defaultASTPolicy,
   readOnlyASTPolicy,
   writeOnlyASTPolicy,
+  releaseTagASTPolicy,
 } from './plugin-types'
 
 // Built-in reporter definitions
@@ -116,4 +154,9 @@ export {
   textASTReporter,
   markdownASTReporter,
   jsonASTReporter,
+  sarifASTReporter,
+  htmlASTReporter,
+  junitASTReporter,
+  checkstyleASTReporter,
+  changelogASTReporter,
 } from './plugin-types'
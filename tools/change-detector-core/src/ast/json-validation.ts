@@ -0,0 +1,30 @@
+/**
+ * Helpers for describing and validating JSON documents.
+ *
+ * Shared by the policy documents and the JSON report parser, which both
+ * validate plain data against a JSON Schema they publish.
+ */
+
+/**
+ * Builds a JSON Schema `enum` of the keys of a record of allowed values.
+ */
+export function enumOf(values: object): { enum: string[] } {
+  return { enum: Object.keys(values) }
+}
+
+/**
+ * Checks whether a value is a plain object, rather than an array or `null`.
+ */
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Lists the keys of a record of allowed values for an error message, e.g.
+ * `'major', 'minor'`.
+ */
+export function describeAllowed(allowed: object): string {
+  return Object.keys(allowed)
+    .map((value) => `'${value}'`)
+    .join(', ')
+}
@@ -11,9 +11,21 @@ import type {
   AnalyzableNode,
   ModuleAnalysis,
   ModuleAnalysisWithTypes,
+  MultiFileParseOptions,
   ParseOptions,
 } from '../types'
 import { processStatement } from './declaration-extraction'
+import { isAmbientKind } from './node-kind'
+import {
+  collectIndirectExports,
+  type ModuleResolver,
+} from './export-resolution'
+import {
+  createFileResolver,
+  createInMemoryProgram,
+  resolveExportSymbols,
+  toVirtualPath,
+} from './program'
 
 /**
  * Parses a TypeScript declaration string into a ModuleAnalysis.
@@ -31,6 +43,20 @@ import { processStatement } from './declaration-extraction'
 export function parseModule(
   source: string,
   options: ParseOptions = {},
+): ModuleAnalysis {
+  return analyzeModule(source, options, undefined)
+}
+
+/**
+ * Builds the AST analysis of a module.
+ *
+ * @param resolveModule - Resolver for re-exported modules. Without one,
+ * names re-exported from other modules are recorded as unresolved exports.
+ */
+function analyzeModule(
+  source: string,
+  options: ParseOptions,
+  resolveModule: ModuleResolver | undefined,
 ): ModuleAnalysis {
   const { filename = 'input.d.ts', extractMetadata = true } = options
 
@@ -55,16 +81,27 @@ export function parseModule(
       processStatement(source, statement, undefined, extractMetadata, nodes)
     }
 
-    // Identify exports
+    // Identify exports, including global augmentations and ambient modules
     for (const [name, node] of nodes) {
       if (
         node.modifiers.has('exported') ||
-        node.modifiers.has('default-export')
+        node.modifiers.has('default-export') ||
+        isAmbientKind(node.kind)
       ) {
         exports.set(name, node)
       }
     }
 
+    // Add exports that refer to declarations by name
+    collectIndirectExports(
+      source,
+      ast.body,
+      nodes,
+      exports,
+      resolveModule,
+      errors,
+    )
+
     // Also recursively add nested nodes to the flat map
     function addNestedNodes(node: AnalyzableNode): void {
       for (const [, child] of node.children) {
@@ -106,80 +143,136 @@ export function parseModuleWithTypes(
   const basicAnalysis = parseModule(source, options)
 
   // Create a TypeScript program for type resolution
-  const files = new Map<string, string>()
-  files.set(filename, source)
-
-  const compilerHost: ts.CompilerHost = {
-    getSourceFile: (fileName, languageVersion) => {
-      const content = files.get(fileName)
-      if (content !== undefined) {
-        return tsModule.createSourceFile(fileName, content, languageVersion)
-      }
-      // Return empty source for lib files
-      if (fileName.includes('lib.') && fileName.endsWith('.d.ts')) {
-        return tsModule.createSourceFile(fileName, '', languageVersion)
-      }
-      return undefined
-    },
-    getDefaultLibFileName: () => tsModule.getDefaultLibFileName({}),
-    writeFile: () => {},
-    getCurrentDirectory: () => '/',
-    getCanonicalFileName: (fileName) => fileName,
-    useCaseSensitiveFileNames: () => true,
-    getNewLine: () => '\n',
-    fileExists: (fileName) => files.has(fileName),
-    readFile: (fileName) => files.get(fileName),
-    directoryExists: () => true,
-    getDirectories: () => [],
-  }
+  const files = new Map<string, string>([[filename, source]])
+  const program = createInMemoryProgram(files, [filename], tsModule, {
+    kind: 'stub',
+  })
+  const checker = program.getTypeChecker()
 
-  const program = tsModule.createProgram(
-    [filename],
-    {
-      target: tsModule.ScriptTarget.Latest,
-      module: tsModule.ModuleKind.ESNext,
-      moduleResolution: tsModule.ModuleResolutionKind.Node10,
-      declaration: true,
-      noEmit: true,
-      strict: true,
-    },
-    compilerHost,
+  // Map AST nodes to TypeScript symbols
+  const symbols = resolveExportSymbols(
+    basicAnalysis,
+    program,
+    checker,
+    filename,
+    tsModule,
   )
 
-  const checker = program.getTypeChecker()
-  const sourceFile = program.getSourceFile(filename)
-  const symbols = new Map<string, ts.Symbol>()
+  return {
+    ...basicAnalysis,
+    program,
+    checker,
+    symbols,
+  }
+}
 
-  // Map AST nodes to TypeScript symbols
-  if (sourceFile) {
-    const moduleSymbol = checker.getSymbolAtLocation(sourceFile)
-    if (moduleSymbol) {
-      const moduleExports = checker.getExportsOfModule(moduleSymbol)
-      for (const exportSymbol of moduleExports) {
-        const name = exportSymbol.getName()
-        const resolvedSymbol =
-          exportSymbol.flags & tsModule.SymbolFlags.Alias
-            ? checker.getAliasedSymbol(exportSymbol)
-            : exportSymbol
-        symbols.set(name, resolvedSymbol)
-
-        // Update type info with resolved types
-        const node = basicAnalysis.nodes.get(name)
-        if (node) {
-          const decl = resolvedSymbol.getDeclarations()?.[0]
-          if (decl) {
-            const type = checker.getTypeOfSymbolAtLocation(resolvedSymbol, decl)
-            node.typeInfo.signature = checker.typeToString(
-              type,
-              undefined,
-              tsModule.TypeFormatFlags.NoTruncation,
-            )
-          }
-        }
+/**
+ * Parses a set of TypeScript declaration files with type resolution.
+ *
+ * Unlike parseModuleWithTypes(), which analyzes a single file in isolation,
+ * this builds one program over all given files so that relative imports
+ * between them resolve, and loads the real TypeScript lib files so that
+ * standard library types such as `Promise`, `Array` and `Record` are
+ * understood by the type checker.
+ *
+ * Only the exports of the entry point are analyzed. Re-exports
+ * (`export { x } from`, `export *` and `export * as ns`) are followed into
+ * the other files; everything else in them contributes type information only.
+ *
+ * @param files - Declaration file contents keyed by file name
+ * @param tsModule - The TypeScript module
+ * @param options - Parse options, including the entry point
+ * @returns ModuleAnalysisWithTypes for the entry point
+ *
+ * @example
+ * ```ts
+ * const analysis = parseModulesWithTypes(
+ *   new Map([
+ *     ['index.d.ts', "export { User } from './user';"],
+ *     ['user.d.ts', 'export interface User { tags: Array<string> }'],
+ *   ]),
+ *   ts,
+ *   { entryPoint: 'index.d.ts' },
+ * )
+ * ```
+ *
+ * @alpha
+ */
+export function parseModulesWithTypes(
+  files: ReadonlyMap<string, string>,
+  tsModule: typeof ts,
+  options: MultiFileParseOptions,
+): ModuleAnalysisWithTypes {
+  const { entryPoint, libFiles, ...parseOptions } = options
+
+  const virtualFiles = new Map<string, string>()
+  for (const [fileName, content] of files) {
+    virtualFiles.set(toVirtualPath(fileName), content)
+  }
+
+  const entryPath = toVirtualPath(entryPoint)
+  const entrySource = virtualFiles.get(entryPath)
+
+  // Analyze modules on demand as re-exports are followed. A module that
+  // is still being analyzed when it is requested again is part of a cycle
+  // and resolves to a module without exports.
+  const resolveFile = createFileResolver(virtualFiles, tsModule)
+  const analyses = new Map<string, ModuleAnalysis>()
+  const inProgress = (filename: string): ModuleAnalysis => ({
+    filename,
+    source: '',
+    nodes: new Map(),
+    exports: new Map(),
+    errors: [],
+  })
+  const createResolver =
+    (containingFile: string): ModuleResolver =>
+    (specifier) => {
+      const fileName = resolveFile(specifier, containingFile)
+      if (fileName === undefined) return undefined
+      if (!analyses.has(fileName)) {
+        analyses.set(fileName, inProgress(fileName))
+        analyses.set(
+          fileName,
+          analyzeModule(
+            virtualFiles.get(fileName) ?? '',
+            { ...parseOptions, filename: fileName },
+            createResolver(fileName),
+          ),
+        )
       }
+      return analyses.get(fileName)
     }
+
+  // First, get the basic AST analysis of the entry point
+  analyses.set(entryPath, inProgress(entryPath))
+  const basicAnalysis = analyzeModule(
+    entrySource ?? '',
+    { ...parseOptions, filename: entryPoint },
+    createResolver(entryPath),
+  )
+  if (entrySource === undefined) {
+    basicAnalysis.errors.push(`Entry point not found: ${entryPoint}`)
   }
 
+  // Create a TypeScript program spanning every file
+  const program = createInMemoryProgram(
+    virtualFiles,
+    [...virtualFiles.keys()],
+    tsModule,
+    { kind: 'real', libFiles },
+  )
+  const checker = program.getTypeChecker()
+
+  // Map AST nodes to TypeScript symbols
+  const symbols = resolveExportSymbols(
+    basicAnalysis,
+    program,
+    checker,
+    entryPath,
+    tsModule,
+  )
+
   return {
     ...basicAnalysis,
     program,
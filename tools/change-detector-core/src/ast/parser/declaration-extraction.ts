@@ -7,7 +7,7 @@ import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree'
 import type { TSESTree } from '@typescript-eslint/typescript-estree'
 import type { AnalyzableNode, TypeInfo } from '../types'
 import { toSourceRange, getNodeText } from './source-location'
-import { getNodeKind } from './node-kind'
+import { getNodeKind, isAmbientKind } from './node-kind'
 import { extractModifiers } from './modifiers'
 import { extractBasicTypeInfo, extractSignatureInfo } from './extractors'
 import { extractNodeMetadata } from './metadata-extraction'
@@ -20,6 +20,14 @@ function getDeclarationName(node: TSESTree.Node): string | undefined {
     if (node.id.type === AST_NODE_TYPES.Identifier) {
       return node.id.name
     }
+    // Ambient modules are named by their quoted module name, as the
+    // TypeScript checker names their symbols
+    if (
+      node.id.type === AST_NODE_TYPES.Literal &&
+      typeof node.id.value === 'string'
+    ) {
+      return JSON.stringify(node.id.value)
+    }
   }
   if ('name' in node) {
     if (typeof node.name === 'string') {
@@ -32,6 +40,20 @@ function getDeclarationName(node: TSESTree.Node): string | undefined {
   return undefined
 }
 
+/**
+ * Gets the value of an enum member without an initializer, which is one
+ * more than the value of the preceding member, or 0 for the first member.
+ */
+function getImplicitEnumValue(previousValue: string | undefined): string {
+  if (previousValue === undefined) {
+    return '0'
+  }
+  const previous = Number(previousValue)
+  return Number.isInteger(previous)
+    ? String(previous + 1)
+    : `(${previousValue}) + 1`
+}
+
 /**
  * Gets the name of an interface/class member.
  */
@@ -58,6 +80,117 @@ function getMemberName(
   return undefined
 }
 
+/**
+ * Checks whether a declaration is a function or method implementation
+ * (has a body), as opposed to a signature.
+ */
+function isImplementation(node: TSESTree.Node): boolean {
+  if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+    return true
+  }
+  if (node.type === AST_NODE_TYPES.MethodDefinition) {
+    return node.value.type === AST_NODE_TYPES.FunctionExpression
+  }
+  return false
+}
+
+/**
+ * Merges an overload signature into the node holding the preceding
+ * signatures of the same function or method, so that each overload is
+ * kept as one of the node's call signatures.
+ *
+ * The implementation signature that follows overloads is not callable
+ * from outside, so it is dropped.
+ *
+ * @returns true if the node was merged (or dropped), false if it is not
+ * an overload of the existing node
+ */
+function mergeOverload(
+  existing: AnalyzableNode | undefined,
+  overload: AnalyzableNode,
+): boolean {
+  const existingSignatures = existing?.typeInfo.callSignatures
+  const overloadSignatures = overload.typeInfo.callSignatures
+  if (
+    !existing ||
+    !existingSignatures ||
+    !overloadSignatures ||
+    existing.kind !== overload.kind ||
+    (existing.kind !== 'function' && existing.kind !== 'method')
+  ) {
+    return false
+  }
+
+  if (overload.astNode && isImplementation(overload.astNode)) {
+    return true
+  }
+
+  const callSignatures = [...existingSignatures, ...overloadSignatures]
+  existing.typeInfo = {
+    ...existing.typeInfo,
+    signature: callSignatures.map((sig) => sig.normalized).join('; '),
+    raw: `${existing.typeInfo.raw}\n${overload.typeInfo.raw}`,
+    callSignatures,
+    typeParameters: undefined,
+  }
+  existing.location = {
+    start: existing.location.start,
+    end: overload.location.end,
+  }
+  return true
+}
+
+/**
+ * Merges a repeated `declare global` or `declare module 'x'` block into the
+ * node of the first block, as TypeScript merges their declarations, so that
+ * the members of every block are analyzed. Interfaces and namespaces
+ * declared in several blocks are merged member by member.
+ *
+ * @returns true if the block was merged, false if it does not repeat the
+ * existing node
+ */
+function mergeAugmentation(
+  existing: AnalyzableNode | undefined,
+  block: AnalyzableNode,
+): boolean {
+  if (!existing || existing.kind !== block.kind || !isAmbientKind(block.kind)) {
+    return false
+  }
+
+  mergeChildren(existing, block)
+  existing.typeInfo = {
+    ...existing.typeInfo,
+    raw: `${existing.typeInfo.raw}\n${block.typeInfo.raw}`,
+  }
+  existing.location = {
+    start: existing.location.start,
+    end: block.location.end,
+  }
+  return true
+}
+
+/**
+ * Merges the members of a declaration into the node of an earlier
+ * declaration of the same name.
+ */
+function mergeChildren(existing: AnalyzableNode, other: AnalyzableNode): void {
+  for (const [name, child] of other.children) {
+    const existingChild = existing.children.get(name)
+    if (mergeOverload(existingChild, child)) {
+      continue
+    }
+    if (
+      existingChild &&
+      existingChild.kind === child.kind &&
+      (child.kind === 'interface' || child.kind === 'namespace')
+    ) {
+      mergeChildren(existingChild, child)
+      continue
+    }
+    existing.children.set(name, child)
+  }
+}
+
 /**
  * Processes an interface/class member into an AnalyzableNode.
  */
@@ -204,7 +337,9 @@ function processDeclaration(
           memberName,
           extractMetadataOpt,
         )
-        if (childNode) {
+        if (
+          !mergeOverload(analyzableNode.children.get(memberName), childNode)
+        ) {
           analyzableNode.children.set(memberName, childNode)
         }
       }
@@ -220,7 +355,9 @@ function processDeclaration(
           memberName,
           extractMetadataOpt,
         )
-        if (childNode) {
+        if (
+          !mergeOverload(analyzableNode.children.get(memberName), childNode)
+        ) {
           analyzableNode.children.set(memberName, childNode)
         }
       }
@@ -228,11 +365,16 @@ function processDeclaration(
   } else if (node.type === AST_NODE_TYPES.TSEnumDeclaration) {
     // Use body.members for newer typescript-eslint versions
     const enumMembers = node.body?.members ?? node.members ?? []
+    let previousValue: string | undefined
     for (const member of enumMembers) {
       const memberName =
         member.id.type === AST_NODE_TYPES.Identifier
           ? member.id.name
           : getNodeText(source, member.id)
+      const value = member.initializer
+        ? getNodeText(source, member.initializer)
+        : getImplicitEnumValue(previousValue)
+      previousValue = value
       const childNode: AnalyzableNode = {
         path: `${path}.${memberName}`,
         name: memberName,
@@ -240,19 +382,18 @@ function processDeclaration(
         location: toSourceRange(member),
         parent: path,
         typeInfo: {
-          signature: member.initializer
-            ? getNodeText(source, member.initializer)
-            : memberName,
+          signature: value,
           raw: getNodeText(source, member),
         },
-        modifiers: new Set(),
+        // Members of a const enum are inlined like their enum
+        modifiers: new Set(node.const ? ['const'] : []),
         children: new Map(),
         astNode: member,
       }
       analyzableNode.children.set(memberName, childNode)
     }
   } else if (node.type === AST_NODE_TYPES.TSModuleDeclaration) {
-    // Handle namespace bodies
+    // Handle namespace, global augmentation and ambient module bodies
     if (node.body) {
       if (node.body.type === AST_NODE_TYPES.TSModuleBlock) {
         for (const statement of node.body.body) {
@@ -313,12 +454,18 @@ export function processStatement(
       }
     }
   } else if (statement.type === AST_NODE_TYPES.ExportDefaultDeclaration) {
-    if (statement.declaration) {
+    // `export default Foo` refers to an existing declaration; it is
+    // resolved when building the export map. A default-exported
+    // declaration is not exported by name.
+    if (
+      statement.declaration &&
+      statement.declaration.type !== AST_NODE_TYPES.Identifier
+    ) {
       const node = processDeclaration(
         source,
         statement.declaration as TSESTree.Node,
         parentPath,
-        true,
+        false,
         true,
         extractMetadataOpt,
       )
@@ -353,7 +500,11 @@ export function processStatement(
       false,
       extractMetadataOpt,
     )
-    if (node) {
+    if (
+      node &&
+      !mergeOverload(outputMap.get(node.name), node) &&
+      !mergeAugmentation(outputMap.get(node.name), node)
+    ) {
       outputMap.set(node.name, node)
     }
   }
@@ -0,0 +1,500 @@
+/**
+ * Export map construction for re-exports, aliases and `export =`.
+ *
+ * Declarations that carry `export` themselves are marked while processing
+ * statements. This module handles the remaining forms, which refer to
+ * declarations by name:
+ *
+ * - `export { Foo }` and `export { Foo as Bar }`
+ * - `export { x } from './y'` and `export * from './y'`
+ * - `export * as ns from './y'`
+ * - `export default Foo` and `export = Foo`
+ *
+ * When other modules can be resolved, imported declarations are also added
+ * to the module's nodes (but not its exports), so that references to them,
+ * such as heritage clauses, can be followed. Re-exports of modules that
+ * cannot be resolved are still recorded: by name, as namespaces without
+ * members, or, for `export *`, as a marker named after the module.
+ * Named re-exports whose declaration cannot be found have the
+ * 'unresolved-export' kind.
+ *
+ * Re-exports named `default` (`export { Foo as default } from './foo'`)
+ * are default exports, keyed by the declaration name like
+ * `export default Foo`.
+ */
+
+import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree'
+import type { TSESTree } from '@typescript-eslint/typescript-estree'
+import type { AnalyzableNode, ModuleAnalysis } from '../types'
+import { toSourceRange, getNodeText } from './source-location'
+import { isAmbientKind } from './node-kind'
+
+/**
+ * Resolves a module specifier to the analysis of the module it refers to.
+ * Returns undefined when the module cannot be resolved.
+ */
+export type ModuleResolver = (specifier: string) => ModuleAnalysis | undefined
+
+/**
+ * The export name TypeScript uses for `export =` assignments.
+ */
+const EXPORT_ASSIGNMENT_NAME = 'export='
+
+/**
+ * Where a locally imported binding comes from.
+ */
+interface ImportBinding {
+  source: string
+  /** The imported name, 'default' for default imports, or '*' for namespace imports */
+  imported: string
+}
+
+/**
+ * Gets the name of an identifier or string literal in an import/export specifier.
+ */
+function getSpecifierName(node: TSESTree.Identifier | TSESTree.StringLiteral) {
+  return node.type === AST_NODE_TYPES.Identifier ? node.name : node.value
+}
+
+/**
+ * Creates a deep copy of a node (and its children) under a new path and name.
+ * Nodes of resolved modules may be shared, so they are never mutated.
+ */
+function rebaseNode(
+  node: AnalyzableNode,
+  path: string,
+  name: string,
+  parent: string | undefined,
+): AnalyzableNode {
+  const children = new Map<string, AnalyzableNode>()
+  for (const [key, child] of node.children) {
+    children.set(key, rebaseNode(child, `${path}.${key}`, child.name, path))
+  }
+  return {
+    ...node,
+    path,
+    name,
+    parent,
+    modifiers: new Set(node.modifiers),
+    children,
+  }
+}
+
+/**
+ * Finds an export of a module by its exported name.
+ * Default exports are keyed by their declaration name, so 'default' is
+ * looked up through the 'default-export' modifier.
+ */
+function findExport(
+  analysis: ModuleAnalysis,
+  name: string,
+): AnalyzableNode | undefined {
+  const node = analysis.exports.get(name)
+  if (node || name !== 'default') {
+    return node
+  }
+  for (const candidate of analysis.exports.values()) {
+    if (candidate.modifiers.has('default-export')) {
+      return candidate
+    }
+  }
+  return undefined
+}
+
+/**
+ * Creates a namespace node whose children are the exports of a module.
+ * A namespace of a module that could not be resolved has no children, but
+ * its name is still part of the API.
+ */
+function createNamespaceNode(
+  source: string,
+  statement: TSESTree.Node,
+  name: string,
+  specifier: string,
+  target: ModuleAnalysis | undefined,
+): AnalyzableNode {
+  const children = new Map<string, AnalyzableNode>()
+  for (const [exportName, exported] of target?.exports ?? []) {
+    if (isAmbientKind(exported.kind)) continue
+    children.set(
+      exportName,
+      rebaseNode(exported, `${name}.${exportName}`, exportName, name),
+    )
+  }
+  return {
+    path: name,
+    name,
+    kind: 'namespace',
+    location: toSourceRange(statement),
+    typeInfo: {
+      signature: `typeof import('${specifier}')`,
+      raw: getNodeText(source, statement),
+    },
+    modifiers: new Set(['exported']),
+    children,
+    sourceFile: target?.filename,
+    astNode: statement,
+  }
+}
+
+/**
+ * Creates a marker for an `export *` whose module could not be resolved.
+ * The re-exported names are unknown, but adding or removing the statement
+ * still changes the API, so the marker is exported under the module name.
+ */
+function createUnresolvedStarNode(
+  source: string,
+  statement: TSESTree.ExportAllDeclaration,
+  specifier: string,
+): AnalyzableNode {
+  return createNamespaceNode(
+    source,
+    statement,
+    `* from "${specifier}"`,
+    specifier,
+    undefined,
+  )
+}
+
+/**
+ * Creates a node for a re-export whose declaration could not be resolved.
+ * The declaration is unknown, but the export name is still part of the API.
+ * Re-exports named `default` are keyed by the imported name, like other
+ * default exports.
+ */
+function createUnresolvedNode(
+  source: string,
+  specifierNode: TSESTree.Node,
+  exportedName: string,
+  importedName: string,
+  moduleSpecifier: string,
+): AnalyzableNode {
+  const isDefault = exportedName === 'default'
+  const name = isDefault ? importedName : exportedName
+  return {
+    path: name,
+    name,
+    kind: 'unresolved-export',
+    location: toSourceRange(specifierNode),
+    typeInfo: {
+      signature: `import('${moduleSpecifier}').${importedName}`,
+      raw: getNodeText(source, specifierNode),
+    },
+    modifiers: new Set([isDefault ? 'default-export' : 'exported']),
+    children: new Map(),
+    localName: name !== importedName ? importedName : undefined,
+    astNode: specifierNode,
+  }
+}
+
+/**
+ * Marks a node as exported under a name: as the default export for
+ * 'default', by name otherwise.
+ */
+function markExported(node: AnalyzableNode, exportedName: string): void {
+  const isDefault = exportedName === 'default'
+  node.modifiers.delete(isDefault ? 'exported' : 'default-export')
+  node.modifiers.add(isDefault ? 'default-export' : 'exported')
+}
+
+/**
+ * Adds re-exported, aliased and assigned exports to the export map,
+ * and imported declarations to the nodes if modules can be resolved.
+ *
+ * @param source - Source code of the module
+ * @param statements - Top-level statements of the module
+ * @param nodes - Top-level nodes declared in the module (updated in place)
+ * @param exports - Export map (updated in place)
+ * @param resolveModule - Resolver for module specifiers, if other files are available
+ * @param errors - Error list for re-exports that could not be resolved
+ */
+export function collectIndirectExports(
+  source: string,
+  statements: TSESTree.ProgramStatement[],
+  nodes: Map<string, AnalyzableNode>,
+  exports: Map<string, AnalyzableNode>,
+  resolveModule: ModuleResolver | undefined,
+  errors: string[],
+): void {
+  const imports = new Map<string, ImportBinding>()
+  for (const statement of statements) {
+    if (statement.type !== AST_NODE_TYPES.ImportDeclaration) continue
+    for (const specifier of statement.specifiers) {
+      imports.set(specifier.local.name, {
+        source: statement.source.value,
+        imported:
+          specifier.type === AST_NODE_TYPES.ImportSpecifier
+            ? getSpecifierName(specifier.imported)
+            : specifier.type === AST_NODE_TYPES.ImportDefaultSpecifier
+              ? 'default'
+              : '*',
+      })
+    }
+  }
+
+  const resolved = new Map<string, ModuleAnalysis | undefined>()
+  const reported = new Set<string>()
+  /**
+   * Resolves a module. Only modules whose exports are re-exported are
+   * reported as errors when they cannot be resolved; imports of other
+   * modules (e.g., external packages) are expected to be unavailable.
+   */
+  function resolve(
+    specifier: string,
+    reexported = true,
+  ): ModuleAnalysis | undefined {
+    if (!resolveModule) return undefined
+    if (!resolved.has(specifier)) {
+      resolved.set(specifier, resolveModule(specifier))
+    }
+    const target = resolved.get(specifier)
+    if (!target && reexported && !reported.has(specifier)) {
+      reported.add(specifier)
+      errors.push(`Cannot resolve module '${specifier}'`)
+    }
+    return target
+  }
+
+  // Make imported declarations available under their local names
+  if (resolveModule) {
+    for (const statement of statements) {
+      if (statement.type !== AST_NODE_TYPES.ImportDeclaration) continue
+      for (const specifier of statement.specifiers) {
+        const localName = specifier.local.name
+        const binding = imports.get(localName)!
+        if (nodes.has(localName)) continue
+
+        const target = resolve(binding.source, false)
+        if (!target) continue
+
+        let imported: AnalyzableNode | undefined
+        if (binding.imported === '*') {
+          imported = createNamespaceNode(
+            source,
+            statement,
+            localName,
+            binding.source,
+            target,
+          )
+        } else {
+          const declaration = findExport(target, binding.imported)
+          if (declaration) {
+            imported = rebaseNode(declaration, localName, localName, undefined)
+            imported.sourceFile = declaration.sourceFile ?? target.filename
+          }
+        }
+        if (imported) {
+          imported.modifiers.delete('exported')
+          imported.modifiers.delete('default-export')
+          nodes.set(localName, imported)
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds an export. A declaration exported both by name and as the default
+   * export is a single export with both modifiers.
+   */
+  function addExport(node: AnalyzableNode): void {
+    const existing = exports.get(node.name)
+    if (existing) {
+      for (const modifier of node.modifiers) existing.modifiers.add(modifier)
+      return
+    }
+    exports.set(node.name, node)
+    nodes.set(node.path, node)
+  }
+
+  /**
+   * Exports a declaration of another module under a name. Default exports
+   * are keyed by the declaration name, like `export default Foo`.
+   */
+  function addReexport(
+    declaration: AnalyzableNode,
+    sourceFile: string | undefined,
+    importedName: string,
+    exportedName: string,
+  ): void {
+    const isDefault = exportedName === 'default'
+    const name = isDefault ? declaration.name : exportedName
+    const alias = rebaseNode(declaration, name, name, undefined)
+    markExported(alias, exportedName)
+    alias.sourceFile = sourceFile
+    if (!isDefault && importedName !== name) alias.localName = importedName
+    addExport(alias)
+  }
+
+  /**
+   * Exports a local binding (declaration or import) under a name.
+   */
+  function exportLocal(
+    statement: TSESTree.Node,
+    specifierNode: TSESTree.Node,
+    localName: string,
+    exportedName: string,
+  ): void {
+    const binding = imports.get(localName)
+    const local = binding ? undefined : nodes.get(localName)
+    if (local) {
+      if (exportedName === localName || exportedName === 'default') {
+        // Exporting a declaration under its own name marks it in place
+        local.modifiers.add(
+          exportedName === 'default' ? 'default-export' : 'exported',
+        )
+        exports.set(localName, local)
+        return
+      }
+      const alias = rebaseNode(local, exportedName, exportedName, undefined)
+      alias.modifiers.add('exported')
+      alias.localName = localName
+      addExport(alias)
+      return
+    }
+
+    if (!binding) return
+
+    const target = resolve(binding.source)
+    if (binding.imported === '*') {
+      const name = exportedName === 'default' ? localName : exportedName
+      const namespace = createNamespaceNode(
+        source,
+        statement,
+        name,
+        binding.source,
+        target,
+      )
+      markExported(namespace, exportedName)
+      if (name !== localName) namespace.localName = localName
+      addExport(namespace)
+      return
+    }
+
+    const imported = target ? findExport(target, binding.imported) : undefined
+    if (imported) {
+      addReexport(
+        imported,
+        imported.sourceFile ?? target?.filename,
+        binding.imported,
+        exportedName,
+      )
+    } else {
+      addExport(
+        createUnresolvedNode(
+          source,
+          specifierNode,
+          exportedName,
+          binding.imported,
+          binding.source,
+        ),
+      )
+    }
+  }
+
+  const starTargets: ModuleAnalysis[] = []
+
+  for (const statement of statements) {
+    if (
+      statement.type === AST_NODE_TYPES.ExportNamedDeclaration &&
+      !statement.declaration
+    ) {
+      const moduleSpecifier = statement.source?.value
+      const target =
+        moduleSpecifier !== undefined ? resolve(moduleSpecifier) : undefined
+
+      for (const specifier of statement.specifiers) {
+        const localName = getSpecifierName(specifier.local)
+        const exportedName = getSpecifierName(specifier.exported)
+
+        if (moduleSpecifier === undefined) {
+          exportLocal(statement, specifier, localName, exportedName)
+          continue
+        }
+
+        const reexported = target ? findExport(target, localName) : undefined
+        if (reexported) {
+          addReexport(
+            reexported,
+            reexported.sourceFile ?? target?.filename,
+            localName,
+            exportedName,
+          )
+        } else {
+          addExport(
+            createUnresolvedNode(
+              source,
+              specifier,
+              exportedName,
+              localName,
+              moduleSpecifier,
+            ),
+          )
+        }
+      }
+    } else if (statement.type === AST_NODE_TYPES.ExportAllDeclaration) {
+      const moduleSpecifier = statement.source.value
+      const target = resolve(moduleSpecifier)
+
+      if (statement.exported) {
+        const exportedName = getSpecifierName(statement.exported)
+        const namespace = createNamespaceNode(
+          source,
+          statement,
+          exportedName,
+          moduleSpecifier,
+          target,
+        )
+        markExported(namespace, exportedName)
+        addExport(namespace)
+      } else if (target) {
+        // Star exports are added last: explicit exports take precedence
+        starTargets.push(target)
+      } else {
+        addExport(createUnresolvedStarNode(source, statement, moduleSpecifier))
+      }
+    } else if (
+      statement.type === AST_NODE_TYPES.ExportDefaultDeclaration &&
+      statement.declaration.type === AST_NODE_TYPES.Identifier
+    ) {
+      const name = statement.declaration.name
+      exportLocal(statement, statement.declaration, name, 'default')
+    } else if (
+      statement.type === AST_NODE_TYPES.TSExportAssignment &&
+      statement.expression.type === AST_NODE_TYPES.Identifier
+    ) {
+      const localName = statement.expression.name
+      const local = nodes.get(localName)
+      if (local) {
+        const assigned = rebaseNode(
+          local,
+          EXPORT_ASSIGNMENT_NAME,
+          EXPORT_ASSIGNMENT_NAME,
+          undefined,
+        )
+        assigned.modifiers.add('exported')
+        assigned.localName = localName
+        addExport(assigned)
+      }
+    }
+  }
+
+  for (const target of starTargets) {
+    for (const [name, node] of target.exports) {
+      // `export *` never re-exports the default export, nor global
+      // augmentations and ambient modules, which are not exports by name.
+      // A declaration exported both by name and as the default export is
+      // re-exported by name only.
+      if (
+        exports.has(name) ||
+        !node.modifiers.has('exported') ||
+        isAmbientKind(node.kind)
+      ) {
+        continue
+      }
+      const copy = rebaseNode(node, name, name, undefined)
+      copy.modifiers.delete('default-export')
+      copy.sourceFile = node.sourceFile ?? target.filename
+      addExport(copy)
+    }
+  }
+}
@@ -320,6 +320,24 @@ export function extractBasicTypeInfo(
       }
     }
 
+    case AST_NODE_TYPES.TSModuleDeclaration: {
+      // Global augmentations and ambient modules declare no type of their
+      // own, so changes to them are only found in their members
+      if (node.kind === 'global') {
+        return { signature: 'declare global', raw }
+      }
+      if (node.id.type === AST_NODE_TYPES.Literal) {
+        return {
+          signature: `declare module ${JSON.stringify(node.id.value)}`,
+          raw,
+        }
+      }
+      return {
+        signature: raw,
+        raw,
+      }
+    }
+
     case AST_NODE_TYPES.VariableDeclarator: {
       if (
         node.id.type === AST_NODE_TYPES.Identifier &&
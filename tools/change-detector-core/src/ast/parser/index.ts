@@ -6,4 +6,8 @@
  */
 
 // Public API - main entry points
-export { parseModule, parseModuleWithTypes } from './core'
+export {
+  parseModule,
+  parseModuleWithTypes,
+  parseModulesWithTypes,
+} from './core'
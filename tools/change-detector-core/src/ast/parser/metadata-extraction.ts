@@ -10,6 +10,11 @@ import {
   isTSDocComment,
 } from '../../tsdoc-utils'
 
+/**
+ * Keywords that may precede a declaration node within its statement.
+ */
+const LEADING_KEYWORD = /(?<![\w$])(?:export|default|declare|const|let|var)$/
+
 /**
  * Extracts leading comments for a node.
  */
@@ -24,9 +29,16 @@ function extractLeadingComments(
   // Search backwards for /** ... */ comment
   let i = nodeStart - 1
 
-  // Skip whitespace and newlines
-  while (i >= 0 && /\s/.test(source[i]!)) {
-    i--
+  // Skip whitespace and newlines, and the keywords that precede the node
+  // within its statement, e.g. `export declare` before a function or
+  // `export const` before a variable declarator
+  for (;;) {
+    while (i >= 0 && /\s/.test(source[i]!)) {
+      i--
+    }
+    const keyword = LEADING_KEYWORD.exec(source.slice(0, i + 1))
+    if (!keyword) break
+    i -= keyword[0].length
   }
 
   // Check if we have a comment ending (*/)
@@ -70,7 +82,12 @@ export function extractNodeMetadata(
     return {
       deprecated: symbolMetadata?.isDeprecated ?? false,
       deprecationMessage: symbolMetadata?.deprecationMessage,
+      deprecatedSince: tsdocMetadata.deprecatedSince,
       defaultValue: symbolMetadata?.defaultValue,
+      breakingChangeApproved: tsdocMetadata.isBreakingChangeApproved,
+      breakingChangeReason: tsdocMetadata.breakingChangeReason,
+      experimental: tsdocMetadata.isExperimental,
+      releaseTag: tsdocMetadata.releaseTag,
       rawComment: comment,
     }
   } catch {
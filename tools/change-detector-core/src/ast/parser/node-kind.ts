@@ -6,6 +6,16 @@ import { AST_NODE_TYPES } from '@typescript-eslint/typescript-estree'
 import type { TSESTree } from '@typescript-eslint/typescript-estree'
 import type { NodeKind } from '../types'
 
+/**
+ * Checks whether a variable is declared with the `unique symbol` type.
+ */
+function isUniqueSymbol(node: TSESTree.VariableDeclarator): boolean {
+  const type = node.id.typeAnnotation?.typeAnnotation
+  return (
+    type?.type === AST_NODE_TYPES.TSTypeOperator && type.operator === 'unique'
+  )
+}
+
 /**
  * Determines the NodeKind for an AST node.
  */
@@ -28,12 +38,20 @@ export function getNodeKind(node: TSESTree.Node): NodeKind {
       return 'enum'
 
     case AST_NODE_TYPES.TSModuleDeclaration:
+      if (node.kind === 'global') {
+        return 'global-augmentation'
+      }
+      if (node.id.type === AST_NODE_TYPES.Literal) {
+        return 'ambient-module'
+      }
       return 'namespace'
 
     case AST_NODE_TYPES.VariableDeclaration:
-    case AST_NODE_TYPES.VariableDeclarator:
       return 'variable'
 
+    case AST_NODE_TYPES.VariableDeclarator:
+      return isUniqueSymbol(node) ? 'unique-symbol' : 'variable'
+
     case AST_NODE_TYPES.TSPropertySignature:
     case AST_NODE_TYPES.PropertyDefinition:
       return 'property'
@@ -66,3 +84,12 @@ export function getNodeKind(node: TSESTree.Node): NodeKind {
       return 'variable'
   }
 }
+
+/**
+ * Checks whether a kind of declaration is visible to consumers without
+ * being exported: global augmentations and ambient modules take effect
+ * wherever the declaring file is loaded.
+ */
+export function isAmbientKind(kind: NodeKind): boolean {
+  return kind === 'global-augmentation' || kind === 'ambient-module'
+}
@@ -0,0 +1,271 @@
+/**
+ * In-memory TypeScript program creation for type resolution.
+ */
+
+import type * as ts from 'typescript'
+import type { ModuleAnalysis } from '../types'
+
+/**
+ * Virtual directory that lib files are served from.
+ */
+const LIB_DIRECTORY = '/node_modules/typescript/lib'
+
+/**
+ * Compiler options used for every analysis program.
+ */
+function getCompilerOptions(tsModule: typeof ts): ts.CompilerOptions {
+  return {
+    target: tsModule.ScriptTarget.Latest,
+    module: tsModule.ModuleKind.ESNext,
+    moduleResolution: tsModule.ModuleResolutionKind.Node10,
+    declaration: true,
+    noEmit: true,
+    strict: true,
+  }
+}
+
+/**
+ * Parsed lib files, shared across programs created with the same TypeScript module.
+ * Lib files are large, so re-parsing them for every analysis would be wasteful.
+ */
+const libSourceFileCache = new WeakMap<typeof ts, Map<string, ts.SourceFile>>()
+
+/**
+ * Normalizes a file name to an absolute, forward-slashed virtual path.
+ *
+ * @example
+ * ```ts
+ * toVirtualPath('./types/user.d.ts') // '/types/user.d.ts'
+ * toVirtualPath('src\\index.d.ts') // '/src/index.d.ts'
+ * ```
+ */
+export function toVirtualPath(fileName: string): string {
+  const segments: string[] = []
+  for (const segment of fileName.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+  return `/${segments.join('/')}`
+}
+
+/**
+ * How lib files should be provided to the program.
+ */
+export type LibFileMode =
+  /** Serve every lib file as an empty file (fast, standard types become `any`) */
+  | { kind: 'stub' }
+  /** Serve real lib files from a map, falling back to `tsModule.sys` */
+  | { kind: 'real'; libFiles?: ReadonlyMap<string, string> }
+
+/**
+ * Reads the contents of a lib file, either from the provided map or from the
+ * TypeScript installation via `tsModule.sys` (Node.js only).
+ */
+function readLibFile(
+  tsModule: typeof ts,
+  libFileName: string,
+  libFiles: ReadonlyMap<string, string> | undefined,
+): string | undefined {
+  const provided = libFiles?.get(libFileName)
+  if (provided !== undefined) {
+    return provided
+  }
+
+  // `sys` is undefined when TypeScript runs in a browser
+  const sys = tsModule.sys as ts.System | undefined
+  if (!sys) {
+    return undefined
+  }
+  const defaultLibPath = tsModule
+    .getDefaultLibFilePath(getCompilerOptions(tsModule))
+    .replace(/\\/g, '/')
+  const libDirectory = defaultLibPath.slice(0, defaultLibPath.lastIndexOf('/'))
+  return sys.readFile(`${libDirectory}/${libFileName}`)
+}
+
+/**
+ * Gets a lib source file, parsing and caching it on first use.
+ */
+function getLibSourceFile(
+  tsModule: typeof ts,
+  fileName: string,
+  languageVersion: ts.ScriptTarget | ts.CreateSourceFileOptions,
+  mode: LibFileMode,
+): ts.SourceFile {
+  const libFileName = fileName.slice(fileName.lastIndexOf('/') + 1)
+
+  if (mode.kind === 'stub') {
+    return tsModule.createSourceFile(fileName, '', languageVersion)
+  }
+
+  // Only lib files read from the TypeScript installation are cached;
+  // caller-provided contents may differ between calls
+  const cacheable = !mode.libFiles?.has(libFileName)
+  let cache = libSourceFileCache.get(tsModule)
+  if (!cache) {
+    cache = new Map()
+    libSourceFileCache.set(tsModule, cache)
+  }
+  const cached = cacheable ? cache.get(fileName) : undefined
+  if (cached) {
+    return cached
+  }
+
+  const content = readLibFile(tsModule, libFileName, mode.libFiles) ?? ''
+  const sourceFile = tsModule.createSourceFile(
+    fileName,
+    content,
+    languageVersion,
+  )
+  if (cacheable && content) {
+    cache.set(fileName, sourceFile)
+  }
+  return sourceFile
+}
+
+/**
+ * Creates a TypeScript program over an in-memory set of files.
+ *
+ * @param files - File contents keyed by virtual path (see {@link toVirtualPath})
+ * @param rootNames - Virtual paths of the root files of the program
+ * @param tsModule - The TypeScript module
+ * @param mode - How lib files should be provided
+ */
+export function createInMemoryProgram(
+  files: ReadonlyMap<string, string>,
+  rootNames: string[],
+  tsModule: typeof ts,
+  mode: LibFileMode,
+): ts.Program {
+  const compilerOptions = getCompilerOptions(tsModule)
+
+  const isLibFile = (fileName: string): boolean =>
+    fileName.startsWith(`${LIB_DIRECTORY}/`) ||
+    (fileName.includes('lib.') && fileName.endsWith('.d.ts'))
+
+  const directoryExists = (directoryName: string): boolean => {
+    const prefix = directoryName.endsWith('/')
+      ? directoryName
+      : `${directoryName}/`
+    for (const fileName of files.keys()) {
+      if (fileName.startsWith(prefix)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  const compilerHost: ts.CompilerHost = {
+    getSourceFile: (fileName, languageVersion) => {
+      const content = files.get(fileName)
+      if (content !== undefined) {
+        return tsModule.createSourceFile(fileName, content, languageVersion)
+      }
+      if (isLibFile(fileName)) {
+        return getLibSourceFile(tsModule, fileName, languageVersion, mode)
+      }
+      return undefined
+    },
+    getDefaultLibFileName: (options) =>
+      `${LIB_DIRECTORY}/${tsModule.getDefaultLibFileName(options)}`,
+    getDefaultLibLocation: () => LIB_DIRECTORY,
+    writeFile: () => {},
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: (fileName) => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (fileName) => files.has(fileName),
+    readFile: (fileName) => files.get(fileName),
+    directoryExists,
+    getDirectories: () => [],
+  }
+
+  return tsModule.createProgram(rootNames, compilerOptions, compilerHost)
+}
+
+/**
+ * Creates a function that resolves module specifiers between in-memory files.
+ *
+ * @param files - File contents keyed by virtual path (see {@link toVirtualPath})
+ * @param tsModule - The TypeScript module
+ * @returns A function returning the virtual path a specifier resolves to,
+ * or undefined if it does not resolve to one of the files
+ */
+export function createFileResolver(
+  files: ReadonlyMap<string, string>,
+  tsModule: typeof ts,
+): (specifier: string, containingFile: string) => string | undefined {
+  const compilerOptions = getCompilerOptions(tsModule)
+  const host: ts.ModuleResolutionHost = {
+    fileExists: (fileName) => files.has(fileName),
+    readFile: (fileName) => files.get(fileName),
+  }
+
+  return (specifier, containingFile) => {
+    const { resolvedModule } = tsModule.resolveModuleName(
+      specifier,
+      containingFile,
+      compilerOptions,
+      host,
+    )
+    const resolvedFileName = resolvedModule?.resolvedFileName
+    return resolvedFileName && files.has(resolvedFileName)
+      ? resolvedFileName
+      : undefined
+  }
+}
+
+/**
+ * Maps the exports of a source file to their TypeScript symbols and
+ * updates the type signatures of the matching analyzed nodes.
+ *
+ * @returns Map from export name to the resolved (non-alias) symbol
+ */
+export function resolveExportSymbols(
+  analysis: ModuleAnalysis,
+  program: ts.Program,
+  checker: ts.TypeChecker,
+  fileName: string,
+  tsModule: typeof ts,
+): Map<string, ts.Symbol> {
+  const symbols = new Map<string, ts.Symbol>()
+  const sourceFile = program.getSourceFile(fileName)
+  if (!sourceFile) {
+    return symbols
+  }
+
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile)
+  if (!moduleSymbol) {
+    return symbols
+  }
+
+  for (const exportSymbol of checker.getExportsOfModule(moduleSymbol)) {
+    const name = exportSymbol.getName()
+    const resolvedSymbol =
+      exportSymbol.flags & tsModule.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exportSymbol)
+        : exportSymbol
+    symbols.set(name, resolvedSymbol)
+
+    // Update type info with resolved types. Type aliases declare no value,
+    // so they keep the type they were declared with
+    const node = analysis.nodes.get(name)
+    if (node && node.kind !== 'type-alias') {
+      const decl = resolvedSymbol.getDeclarations()?.[0]
+      if (decl) {
+        const type = checker.getTypeOfSymbolAtLocation(resolvedSymbol, decl)
+        node.typeInfo.signature = checker.typeToString(
+          type,
+          undefined,
+          tsModule.TypeFormatFlags.NoTruncation,
+        )
+      }
+    }
+  }
+
+  return symbols
+}
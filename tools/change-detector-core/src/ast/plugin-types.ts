@@ -311,6 +311,7 @@ import {
   semverDefaultPolicy,
   semverReadOnlyPolicy,
   semverWriteOnlyPolicy,
+  semverReleaseTagPolicy,
 } from './builtin-policies'
 
 /**
@@ -355,6 +356,20 @@ export const writeOnlyASTPolicy: ASTAwarePolicyDefinition = {
   createPolicy: () => semverWriteOnlyPolicy,
 }
 
+/**
+ * Built-in AST-aware release tag policy definition.
+ *
+ * @alpha
+ */
+export const releaseTagASTPolicy: ASTAwarePolicyDefinition = {
+  id: 'ast-release-tags',
+  name: 'Release Tags (AST-aware)',
+  description:
+    'Standard semver policy that relaxes changes to @alpha, @beta and @internal APIs',
+  requiresAST: true,
+  createPolicy: () => semverReleaseTagPolicy,
+}
+
 // =============================================================================
 // Built-in AST-Aware Reporter Definitions
 // =============================================================================
@@ -363,6 +378,11 @@ import {
   formatASTReportAsText,
   formatASTReportAsMarkdown,
   formatASTReportAsJSON,
+  formatASTReportAsSARIF,
+  formatASTReportAsHTML,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  formatASTReportAsChangelog,
 } from './reporter'
 
 /**
@@ -410,3 +430,79 @@ export const jsonASTReporter: ASTAwareReporterDefinition = {
       JSON.stringify(formatASTReportAsJSON(report, options?.ast), null, 2),
   }),
 }
+
+/**
+ * Built-in AST-aware SARIF reporter definition.
+ *
+ * @alpha
+ */
+export const sarifASTReporter: ASTAwareReporterDefinition = {
+  id: 'ast-sarif',
+  name: 'SARIF (AST-aware)',
+  format: 'json' satisfies ReportOutputFormat,
+  supportsAST: true,
+  createReporter: (options) => ({
+    formatAST: (report) =>
+      JSON.stringify(formatASTReportAsSARIF(report, options?.ast), null, 2),
+  }),
+}
+
+/**
+ * Built-in AST-aware HTML reporter definition.
+ *
+ * @alpha
+ */
+export const htmlASTReporter: ASTAwareReporterDefinition = {
+  id: 'ast-html',
+  name: 'HTML (AST-aware)',
+  format: 'html' satisfies ReportOutputFormat,
+  supportsAST: true,
+  createReporter: (options) => ({
+    formatAST: (report) => formatASTReportAsHTML(report, options?.ast),
+  }),
+}
+
+/**
+ * Built-in AST-aware JUnit XML reporter definition.
+ *
+ * @alpha
+ */
+export const junitASTReporter: ASTAwareReporterDefinition = {
+  id: 'ast-junit',
+  name: 'JUnit XML (AST-aware)',
+  format: 'custom' satisfies ReportOutputFormat,
+  supportsAST: true,
+  createReporter: (options) => ({
+    formatAST: (report) => formatASTReportAsJUnit(report, options?.ast),
+  }),
+}
+
+/**
+ * Built-in AST-aware checkstyle XML reporter definition.
+ *
+ * @alpha
+ */
+export const checkstyleASTReporter: ASTAwareReporterDefinition = {
+  id: 'ast-checkstyle',
+  name: 'Checkstyle XML (AST-aware)',
+  format: 'custom' satisfies ReportOutputFormat,
+  supportsAST: true,
+  createReporter: (options) => ({
+    formatAST: (report) => formatASTReportAsCheckstyle(report, options?.ast),
+  }),
+}
+
+/**
+ * Built-in AST-aware Keep a Changelog reporter definition.
+ *
+ * @alpha
+ */
+export const changelogASTReporter: ASTAwareReporterDefinition = {
+  id: 'ast-changelog',
+  name: 'Keep a Changelog (AST-aware)',
+  format: 'markdown' satisfies ReportOutputFormat,
+  supportsAST: true,
+  createReporter: (options) => ({
+    formatAST: (report) => formatASTReportAsChangelog(report, options?.ast),
+  }),
+}
@@ -0,0 +1,536 @@
+/**
+ * Static analysis of rule-based policies.
+ *
+ * Policies are first-match-wins, so a broad rule placed early silently
+ * shadows later, more specific rules. The analyzer reasons about the
+ * declarative conditions of a policy's rules over the dimension space
+ * (target × action × aspect × impact × node kind × nesting × tags) and
+ * reports rules that can never fire, overlapping rules with conflicting
+ * release types, and the combinations no rule matches.
+ *
+ * Dimensions are treated as independent, so combinations the differ never
+ * produces (e.g. an enum member target on a function) are still considered.
+ * Only tags mentioned by some rule are distinguished.
+ *
+ * @example
+ * ```ts
+ * const analysis = analyzePolicy(myPolicy)
+ * for (const unreachable of analysis.unreachableRules) {
+ *   console.warn(`Rule '${unreachable.name}' can never fire`)
+ * }
+ * ```
+ */
+
+import type { ReleaseType } from '../types'
+import type { DSLPolicy, DSLRule } from '../dsl/dsl-types'
+import type { ChangeTag } from './types'
+import type { Policy, PolicyRule, RuleConditions } from './rule-builder'
+import {
+  changeActions,
+  changeAspects,
+  changeImpacts,
+  changeTargets,
+  dimensionalRuleConditions,
+  nodeKinds,
+} from './policy-document'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Identifies a rule of the analyzed policy.
+ *
+ * @alpha
+ */
+export interface PolicyRuleReference {
+  /** Position of the rule in the policy's rule list */
+  index: number
+  /** Name of the rule */
+  name: string
+  /** The release type the rule assigns */
+  releaseType: ReleaseType
+}
+
+/**
+ * A rule that can never fire.
+ *
+ * @alpha
+ */
+export interface UnreachableRule extends PolicyRuleReference {
+  /**
+   * Why the rule never fires:
+   * - `contradictory`: its own conditions exclude each other, e.g. requiring
+   *   an aspect for a non-modified action, or a tag that it also excludes
+   * - `shadowed`: every change it matches is matched by an earlier rule
+   */
+  reason: 'contradictory' | 'shadowed'
+
+  /** For shadowed rules, the earlier rules that overlap it */
+  shadowedBy: PolicyRuleReference[]
+}
+
+/**
+ * Two rules that match some of the same changes but assign different
+ * release types. The earlier rule wins for the changes both match.
+ *
+ * @alpha
+ */
+export interface RuleOverlap {
+  /** The earlier rule, which wins */
+  first: PolicyRuleReference
+  /** The later rule, which is overridden for the overlapping changes */
+  second: PolicyRuleReference
+}
+
+/**
+ * Result of analyzing a policy.
+ *
+ * @alpha
+ */
+export interface PolicyAnalysis {
+  /** Name of the analyzed policy */
+  policyName: string
+
+  /** Rules that can never fire */
+  unreachableRules: UnreachableRule[]
+
+  /** Pairs of overlapping rules with conflicting release types */
+  overlaps: RuleOverlap[]
+
+  /**
+   * Combinations of dimensions no rule matches, which are classified with
+   * the policy's `defaultReleaseType`. Each combination is expressed as rule
+   * conditions; omitted dimensions match any value.
+   */
+  fallThrough: RuleConditions[]
+
+  /**
+   * Rules without declarative conditions (custom matchers, intent and
+   * pattern rules), which are left out of the analysis.
+   */
+  unanalyzedRules: PolicyRuleReference[]
+}
+
+// =============================================================================
+// Dimension Space
+// =============================================================================
+
+/**
+ * Value of the aspect and impact dimensions of non-modified changes.
+ */
+const NONE = 'none'
+
+type ListDimension = 'target' | 'action' | 'aspect' | 'impact' | 'nodeKind'
+
+/**
+ * A dimension of the space: a list dimension, nesting, or a tag.
+ */
+type Dimension = ListDimension | 'nested' | `tag:${ChangeTag}`
+
+/**
+ * Values fixed for dimensions in a region of the space.
+ */
+type Region = ReadonlyMap<Dimension, ReadonlySet<string>>
+
+/**
+ * The order in which dimensions are split.
+ */
+const listDimensions: readonly ListDimension[] = [
+  'target',
+  'action',
+  'aspect',
+  'impact',
+  'nodeKind',
+]
+
+/**
+ * A rule's conditions as constraints on dimensions.
+ */
+interface AnalyzedRule {
+  ref: PolicyRuleReference
+  /** Allowed values per constrained dimension */
+  constraints: Map<Dimension, ReadonlySet<string>>
+  /** Tags of which at least one must be present */
+  anyTag: ChangeTag[]
+}
+
+function tagDimension(tag: ChangeTag): Dimension {
+  return `tag:${tag}`
+}
+
+function toAnalyzedRule(
+  ref: PolicyRuleReference,
+  conditions: RuleConditions,
+): AnalyzedRule {
+  const constraints = new Map<Dimension, ReadonlySet<string>>()
+  for (const dimension of listDimensions) {
+    const values = conditions[dimension]
+    if (values?.length) {
+      constraints.set(dimension, new Set<string>(values))
+    }
+  }
+  if (conditions.nested !== undefined) {
+    constraints.set('nested', new Set([String(conditions.nested)]))
+  }
+
+  const notTags = new Set(conditions.notTag)
+  for (const tag of conditions.hasTag ?? []) {
+    constraints.set(
+      tagDimension(tag),
+      new Set(notTags.has(tag) ? [] : ['true']),
+    )
+  }
+  for (const tag of notTags) {
+    if (!constraints.has(tagDimension(tag))) {
+      constraints.set(tagDimension(tag), new Set(['false']))
+    }
+  }
+
+  return { ref, constraints, anyTag: conditions.hasAnyTag ?? [] }
+}
+
+/**
+ * The values a dimension can take within a region.
+ */
+function domainOf(dimension: Dimension, region: Region): string[] {
+  switch (dimension) {
+    case 'target':
+      return Object.keys(changeTargets)
+    case 'action':
+      return Object.keys(changeActions)
+    case 'aspect':
+    case 'impact': {
+      // Only modified changes have an aspect and impact
+      const actions = region.get('action')
+      if (!actions?.has('modified')) return [NONE]
+      return Object.keys(dimension === 'aspect' ? changeAspects : changeImpacts)
+    }
+    case 'nodeKind':
+      return Object.keys(nodeKinds)
+    default:
+      return ['true', 'false']
+  }
+}
+
+function intersects(a: ReadonlySet<string>, b: ReadonlySet<string>): boolean {
+  for (const value of a) {
+    if (b.has(value)) return true
+  }
+  return false
+}
+
+/**
+ * Whether a rule matches some change in the region.
+ */
+function isCompatible(rule: AnalyzedRule, region: Region): boolean {
+  for (const [dimension, allowed] of rule.constraints) {
+    if (allowed.size === 0) return false
+    const fixed = region.get(dimension)
+    if (fixed && !intersects(fixed, allowed)) return false
+  }
+  if (rule.anyTag.length > 0) {
+    return !rule.anyTag.every((tag) =>
+      region.get(tagDimension(tag))?.has('false'),
+    )
+  }
+  return true
+}
+
+/**
+ * Finds a dimension the rule constrains but the region doesn't fix yet, or
+ * returns undefined if the rule matches every change in the region.
+ *
+ * Regions only ever fix a dimension to values a compatible rule either
+ * allows entirely or not at all, so a fixed dimension never needs to be
+ * split again.
+ */
+function findUnfixedDimension(
+  rule: AnalyzedRule,
+  region: Region,
+): Dimension | undefined {
+  for (const dimension of rule.constraints.keys()) {
+    if (!region.has(dimension)) {
+      // The domains of aspect and impact depend on the action
+      if (
+        (dimension === 'aspect' || dimension === 'impact') &&
+        !region.has('action')
+      ) {
+        return 'action'
+      }
+      return dimension
+    }
+  }
+  if (
+    rule.anyTag.length > 0 &&
+    !rule.anyTag.some((tag) => region.get(tagDimension(tag))?.has('true'))
+  ) {
+    return tagDimension(
+      rule.anyTag.find((tag) => !region.has(tagDimension(tag)))!,
+    )
+  }
+  return undefined
+}
+
+/**
+ * Splits a region on a dimension: one branch per value some candidate
+ * mentions, and one branch for all other values.
+ */
+function splitRegion(
+  region: Region,
+  dimension: Dimension,
+  candidates: readonly AnalyzedRule[],
+): Region[] {
+  const domain = domainOf(dimension, region)
+  const mentioned = new Set<string>()
+  for (const candidate of candidates) {
+    for (const value of candidate.constraints.get(dimension) ?? []) {
+      mentioned.add(value)
+    }
+  }
+
+  // Actions are always split individually, since the domains of aspect
+  // and impact depend on them, and so are tags, since hasAnyTag lists
+  // need to know whether each tag is present
+  const individually =
+    dimension === 'action' || dimension.startsWith('tag:') ? domain : []
+  const branches = domain
+    .filter((value) => mentioned.has(value) || individually.includes(value))
+    .map((value) => new Set([value]))
+  const rest = domain.filter(
+    (value) => !mentioned.has(value) && !individually.includes(value),
+  )
+  if (rest.length > 0) {
+    branches.push(new Set(rest))
+  }
+
+  return branches.map((values) => new Map(region).set(dimension, values))
+}
+
+/**
+ * Converts a region to the rule conditions matching it.
+ */
+function regionToConditions(region: Region): RuleConditions {
+  const conditions: RuleConditions = {}
+  const valuesOf = (dimension: Dimension) =>
+    [...(region.get(dimension) ?? [])].filter((value) => value !== NONE)
+
+  for (const dimension of listDimensions) {
+    const values = valuesOf(dimension)
+    if (values.length > 0) {
+      Object.assign(conditions, { [dimension]: values })
+    }
+  }
+  const nested = region.get('nested')
+  if (nested) {
+    conditions.nested = nested.has('true')
+  }
+
+  const hasTag: ChangeTag[] = []
+  const notTag: ChangeTag[] = []
+  for (const [dimension, values] of region) {
+    if (!dimension.startsWith('tag:')) continue
+    const tag = dimension.slice('tag:'.length) as ChangeTag
+    if (values.has('true')) {
+      hasTag.push(tag)
+    } else {
+      notTag.push(tag)
+    }
+  }
+  if (hasTag.length > 0) conditions.hasTag = hasTag
+  if (notTag.length > 0) conditions.notTag = notTag
+  return conditions
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/**
+ * Collects which rule wins each region of the space.
+ */
+interface Partition {
+  /** Indices of rules that win some region */
+  winners: Set<number>
+  /** Regions no rule matches */
+  fallThrough: Region[]
+}
+
+/**
+ * Partitions a region among the candidate rules, which are in policy order.
+ *
+ * @returns Whether no candidate matches any change in the region, in which
+ * case the region is reported as a whole rather than per branch
+ */
+function partition(
+  region: Region,
+  candidates: readonly AnalyzedRule[],
+  result: Partition,
+): boolean {
+  const compatible = candidates.filter((rule) => isCompatible(rule, region))
+  if (compatible.length === 0) {
+    return true
+  }
+
+  const first = compatible[0]!
+  const dimension = findUnfixedDimension(first, region)
+  if (dimension === undefined) {
+    result.winners.add(first.ref.index)
+    return false
+  }
+
+  const branches = splitRegion(region, dimension, compatible)
+  const fallingThrough = branches.filter((branch) =>
+    partition(branch, compatible, result),
+  )
+  if (fallingThrough.length === branches.length) {
+    return true
+  }
+  result.fallThrough.push(...fallingThrough)
+  return false
+}
+
+/**
+ * Whether two rules match some change in common.
+ */
+function overlap(a: AnalyzedRule, b: AnalyzedRule): boolean {
+  const region = new Map(a.constraints)
+  for (const [dimension, allowed] of b.constraints) {
+    const fixed = region.get(dimension)
+    region.set(
+      dimension,
+      fixed
+        ? new Set([...fixed].filter((value) => allowed.has(value)))
+        : allowed,
+    )
+  }
+
+  const merged: AnalyzedRule = {
+    ...a,
+    constraints: region,
+    anyTag: [],
+  }
+  if (!isContradiction(merged)) {
+    // Each hasAnyTag list needs a tag the other rule doesn't exclude
+    return [a.anyTag, b.anyTag].every(
+      (tags) =>
+        tags.length === 0 ||
+        tags.some((tag) => region.get(tagDimension(tag))?.has('true') ?? true),
+    )
+  }
+  return false
+}
+
+/**
+ * Whether a rule's own conditions exclude each other.
+ */
+function isContradiction(rule: AnalyzedRule): boolean {
+  const result: Partition = { winners: new Set(), fallThrough: [] }
+  partition(new Map(), [rule], result)
+  return result.winners.size === 0
+}
+
+/**
+ * Extracts the declarative conditions of a policy's rules.
+ */
+function conditionsOf(
+  policyRule: PolicyRule | DSLRule,
+): RuleConditions | undefined {
+  if (!('type' in policyRule)) {
+    return policyRule.conditions
+  }
+  if (policyRule.type === 'dimensional' && !policyRule.matcher) {
+    return dimensionalRuleConditions(policyRule)
+  }
+  return undefined
+}
+
+function referenceOf(
+  policyRule: PolicyRule | DSLRule,
+  index: number,
+): PolicyRuleReference {
+  if (!('type' in policyRule)) {
+    return { index, name: policyRule.name, releaseType: policyRule.releaseType }
+  }
+  return {
+    index,
+    name: policyRule.description ?? `rule-${index + 1}`,
+    releaseType: policyRule.returns,
+  }
+}
+
+/**
+ * Analyzes a policy for unreachable rules, conflicting overlaps and
+ * combinations that fall through to the default release type.
+ *
+ * Accepts policies built with the rule builder and DSL policies of
+ * dimensional rules. Rules without declarative conditions are reported in
+ * `unanalyzedRules` and otherwise ignored, so results are exact only for
+ * policies without them.
+ *
+ * @param policy - The policy to analyze
+ * @returns The analysis of the policy
+ *
+ * @example
+ * ```ts
+ * const { unreachableRules, overlaps, fallThrough } =
+ *   analyzePolicy(semverDefaultPolicy)
+ * ```
+ *
+ * @alpha
+ */
+export function analyzePolicy(policy: Policy | DSLPolicy): PolicyAnalysis {
+  const rules: AnalyzedRule[] = []
+  const unanalyzedRules: PolicyRuleReference[] = []
+
+  const policyRules: ReadonlyArray<PolicyRule | DSLRule> = policy.rules
+  policyRules.forEach((policyRule, index) => {
+    const ref = referenceOf(policyRule, index)
+    const conditions = conditionsOf(policyRule)
+    if (conditions) {
+      rules.push(toAnalyzedRule(ref, conditions))
+    } else {
+      unanalyzedRules.push(ref)
+    }
+  })
+
+  const result: Partition = { winners: new Set(), fallThrough: [] }
+  if (partition(new Map(), rules, result)) {
+    result.fallThrough.push(new Map())
+  }
+
+  const overlaps: RuleOverlap[] = []
+  const overlapping = new Map<number, PolicyRuleReference[]>()
+  rules.forEach((second, index) => {
+    for (const first of rules.slice(0, index)) {
+      if (!overlap(first, second)) continue
+      const shadowing = overlapping.get(second.ref.index) ?? []
+      shadowing.push(first.ref)
+      overlapping.set(second.ref.index, shadowing)
+      if (first.ref.releaseType !== second.ref.releaseType) {
+        overlaps.push({ first: first.ref, second: second.ref })
+      }
+    }
+  })
+
+  const unreachableRules: UnreachableRule[] = rules
+    .filter((analyzed) => !result.winners.has(analyzed.ref.index))
+    .map((analyzed) => {
+      const contradictory = isContradiction(analyzed)
+      return {
+        ...analyzed.ref,
+        reason: contradictory ? 'contradictory' : 'shadowed',
+        shadowedBy: contradictory
+          ? []
+          : (overlapping.get(analyzed.ref.index) ?? []),
+      }
+    })
+
+  return {
+    policyName: policy.name,
+    unreachableRules,
+    overlaps,
+    fallThrough: result.fallThrough.map(regionToConditions),
+    unanalyzedRules,
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Composition of rule-based policies.
+ *
+ * Policies are composed from their rule lists, so a composed policy is an
+ * ordinary {@link Policy}: its `rules` show the merged order in which rules
+ * are evaluated, and each rule records the policy it came from in `source`,
+ * which classification results report as `matchedRule.source`.
+ *
+ * @example
+ * ```ts
+ * const policy = extendPolicy(semverDefaultPolicy, {
+ *   name: 'my-library',
+ *   overrides: [
+ *     rule('enum-member-added')
+ *       .target('enum-member')
+ *       .action('added')
+ *       .returns('major'),
+ *   ],
+ *   remove: ['deprecation'],
+ * })
+ * ```
+ */
+
+import type { ReleaseType } from '../types'
+import type { ApiChange, NodeKind } from './types'
+import type { Policy, PolicyRule } from './rule-builder'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Changes to apply to a base policy with {@link extendPolicy}.
+ *
+ * @alpha
+ */
+export interface PolicyExtension {
+  /** Name of the extended policy (defaults to the base policy's name) */
+  name?: string
+
+  /** Rules evaluated before the base policy's rules */
+  overrides?: PolicyRule[]
+
+  /** Names of base policy rules to leave out */
+  remove?: string[]
+
+  /** Release type when no rule matches (defaults to the base policy's) */
+  defaultReleaseType?: ReleaseType
+}
+
+/**
+ * A policy with its precedence among the layers of {@link layerPolicies}.
+ *
+ * @alpha
+ */
+export interface PolicyLayer {
+  /** The policy whose rules form the layer */
+  policy: Policy
+
+  /**
+   * Layers with higher precedence are evaluated first. Layers with equal
+   * precedence keep their order. Defaults to 0.
+   */
+  precedence?: number
+}
+
+/**
+ * The subset of changes a policy applies to, for {@link scopePolicy}.
+ *
+ * When both paths and node kinds are given, a change must match both.
+ *
+ * @alpha
+ */
+export interface PolicyScope {
+  /**
+   * Globs matched against the path of the change or of any of its
+   * ancestors, e.g. `'*Response'` or `'Api.**'`. `*` matches within a path
+   * segment, `**` across segments, and `?` a single character.
+   */
+  paths?: string[]
+
+  /** Node kinds of the changed declaration */
+  nodeKinds?: NodeKind[]
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Records the policy a rule came from, keeping the source of rules that
+ * were already composed.
+ */
+function withSource(policyRule: PolicyRule, source: string): PolicyRule {
+  if (policyRule.source !== undefined) {
+    return policyRule
+  }
+  return { ...policyRule, source }
+}
+
+/**
+ * Converts a path glob to a regular expression.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*'
+      i++
+    } else if (char === '*') {
+      pattern += '[^.]*'
+    } else if (char === '?') {
+      pattern += '[^.]'
+    } else {
+      pattern += char.replace(/[\\^$.|+()[\]{}]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+// =============================================================================
+// Composition
+// =============================================================================
+
+/**
+ * Extends a base policy with overriding rules.
+ *
+ * The overrides are evaluated before the base policy's remaining rules, so
+ * they take precedence over them. Rules named in `remove` are left out of the
+ * base policy; naming a rule the base policy doesn't have is an error, so
+ * that renamed rules are noticed.
+ *
+ * @param base - The policy to extend
+ * @param extension - The rules to add and remove
+ * @returns The extended policy
+ *
+ * @example
+ * ```ts
+ * // semverDefaultPolicy, but enum member additions are major
+ * const strictEnums = extendPolicy(semverDefaultPolicy, {
+ *   name: 'strict-enums',
+ *   overrides: [
+ *     rule('enum-member-added').target('enum-member').action('added').returns('major'),
+ *   ],
+ * })
+ * ```
+ *
+ * @alpha
+ */
+export function extendPolicy(base: Policy, extension: PolicyExtension): Policy {
+  const name = extension.name ?? base.name
+  const removed = new Set(extension.remove)
+
+  for (const ruleName of removed) {
+    if (!base.rules.some((policyRule) => policyRule.name === ruleName)) {
+      throw new Error(
+        `Cannot remove rule '${ruleName}': policy '${base.name}' has no rule with that name`,
+      )
+    }
+  }
+
+  return {
+    name,
+    rules: [
+      ...(extension.overrides ?? []).map((policyRule) =>
+        withSource(policyRule, name),
+      ),
+      ...base.rules
+        .filter((policyRule) => !removed.has(policyRule.name))
+        .map((policyRule) => withSource(policyRule, base.name)),
+    ],
+    defaultReleaseType: extension.defaultReleaseType ?? base.defaultReleaseType,
+  }
+}
+
+/**
+ * Layers several policies into one.
+ *
+ * The rules of all layers are merged in order of precedence, highest first,
+ * so a change is classified by the first matching rule of the highest layer
+ * that has one. The default release type is that of the lowest layer unless
+ * given explicitly.
+ *
+ * @param name - Name of the layered policy
+ * @param layers - The policies to layer, with optional precedence
+ * @param defaultReleaseType - Release type when no rule of any layer matches
+ * @returns The layered policy
+ *
+ * @example
+ * ```ts
+ * const policy = layerPolicies('api', [
+ *   { policy: scopePolicy(semverReadOnlyPolicy, { paths: ['*Response'] }), precedence: 1 },
+ *   { policy: semverDefaultPolicy },
+ * ])
+ * ```
+ *
+ * @alpha
+ */
+export function layerPolicies(
+  name: string,
+  layers: ReadonlyArray<Policy | PolicyLayer>,
+  defaultReleaseType?: ReleaseType,
+): Policy {
+  if (layers.length === 0 && defaultReleaseType === undefined) {
+    throw new Error(
+      `Cannot layer policy '${name}': no layers and no default release type`,
+    )
+  }
+
+  const ordered = layers
+    .map((layer) => ('policy' in layer ? layer : { policy: layer }))
+    .map((layer, index) => ({ ...layer, index }))
+    .sort(
+      (a, b) => (b.precedence ?? 0) - (a.precedence ?? 0) || a.index - b.index,
+    )
+
+  return {
+    name,
+    rules: ordered.flatMap(({ policy }) =>
+      policy.rules.map((policyRule) => withSource(policyRule, policy.name)),
+    ),
+    defaultReleaseType:
+      defaultReleaseType ??
+      ordered[ordered.length - 1]!.policy.defaultReleaseType,
+  }
+}
+
+/**
+ * Restricts a policy's rules to a subset of changes.
+ *
+ * Changes outside the scope match none of the policy's rules, so when the
+ * scoped policy is layered over another, they fall through to the rules of
+ * the lower layers. Scoped rules keep their names but have no
+ * `conditions`, since the scope cannot be expressed as rule conditions.
+ *
+ * @param policy - The policy to restrict
+ * @param scope - The changes the policy applies to
+ * @returns The scoped policy
+ *
+ * @alpha
+ */
+export function scopePolicy(policy: Policy, scope: PolicyScope): Policy {
+  const pathPatterns = scope.paths?.map(globToRegExp)
+  const nodeKinds = scope.nodeKinds
+
+  const inScope = (change: ApiChange): boolean => {
+    if (nodeKinds && !nodeKinds.includes(change.nodeKind)) {
+      return false
+    }
+    if (pathPatterns) {
+      const paths = [change.path, ...change.context.ancestors]
+      return pathPatterns.some((pattern) =>
+        paths.some((path) => pattern.test(path)),
+      )
+    }
+    return true
+  }
+
+  return {
+    ...policy,
+    rules: policy.rules.map(({ conditions: _conditions, ...policyRule }) => ({
+      ...policyRule,
+      matches: (change: ApiChange) =>
+        inScope(change) && policyRule.matches(change),
+    })),
+  }
+}
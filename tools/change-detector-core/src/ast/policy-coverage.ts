@@ -0,0 +1,298 @@
+/**
+ * Coverage of a policy's rules over a corpus of changes.
+ *
+ * Classifying the changes of many version pairs with a policy shows which
+ * of its rules actually match in practice: rules that never match are
+ * candidates for pruning, and changes that match no rule (and so receive
+ * the policy's default release type) point to gaps in the policy.
+ *
+ * @example
+ * ```ts
+ * const report = measurePolicyCoverage(myPolicy, [
+ *   { label: '1.0.0..1.1.0', changes: diffModules(v100, v110) },
+ *   { label: '1.1.0..2.0.0', changes: diffModules(v110, v200) },
+ * ])
+ * console.log(formatCoverageReportAsMarkdown(report))
+ * ```
+ */
+
+import type { ReleaseType } from '../types'
+import type { ApiChange, ChangeTag } from './types'
+import { classifyChanges, type Policy } from './rule-builder'
+import type { PolicyRuleReference } from './policy-analyzer'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A labelled set of changes, e.g. the changes between two versions.
+ *
+ * @alpha
+ */
+export interface CoverageChangeSet {
+  /** Label identifying the set in the report, e.g. `'1.0.0..2.0.0'` */
+  label: string
+  /** The changes to classify */
+  changes: ApiChange[]
+}
+
+/**
+ * How often a rule matched across the corpus.
+ *
+ * @alpha
+ */
+export interface RuleCoverage {
+  /** Position of the rule in the policy's rule list */
+  index: number
+  /** Name of the rule */
+  name: string
+  /** The release type the rule assigns */
+  releaseType: ReleaseType
+  /** The policy the rule came from, for composed policies */
+  source?: string
+  /** Number of changes the rule classified */
+  hits: number
+  /** Labels of the change sets with changes the rule classified */
+  changeSets: string[]
+}
+
+/**
+ * A rule that matched no change in the corpus. Composed policies can hold
+ * several rules of the same name, which are told apart by their position
+ * and source.
+ *
+ * @alpha
+ */
+export interface UnusedRule extends PolicyRuleReference {
+  /** The policy the rule came from, for composed policies */
+  source?: string
+}
+
+/**
+ * A change no rule matched, which received the default release type.
+ *
+ * @alpha
+ */
+export interface UncoveredChange {
+  /** Label of the change set containing the change */
+  changeSet: string
+  /** Path of the changed declaration */
+  path: string
+  /** Node kind of the changed declaration */
+  nodeKind: string
+  /** The target of the change */
+  target: string
+  /** The action performed */
+  action: string
+  /** The aspect that changed (for modified actions) */
+  aspect?: string
+  /** The semantic impact (for modified actions) */
+  impact?: string
+  /** Tags of the change */
+  tags: ChangeTag[]
+  /** Human-readable explanation of the change */
+  explanation: string
+}
+
+/**
+ * Coverage of a policy over a corpus of changes.
+ *
+ * The report is plain data and can be written out with `JSON.stringify`.
+ *
+ * @alpha
+ */
+export interface PolicyCoverageReport {
+  /** Name of the policy */
+  policyName: string
+  /** The policy's release type for changes no rule matches */
+  defaultReleaseType: ReleaseType
+  /** Labels of the classified change sets, in the given order */
+  changeSets: string[]
+  /** Total number of classified changes */
+  totalChanges: number
+  /** Coverage of each rule, in policy order */
+  rules: RuleCoverage[]
+  /** The rules that matched no change, in policy order */
+  unusedRules: UnusedRule[]
+  /** Changes no rule matched */
+  uncoveredChanges: UncoveredChange[]
+}
+
+// =============================================================================
+// Measurement
+// =============================================================================
+
+/**
+ * Classifies a corpus of changes with a policy and records which rules
+ * matched.
+ *
+ * The changes are classified with `classifyChanges`, and each change
+ * counts towards the rule that classified it, i.e. the first matching rule.
+ * Only the given changes are classified; pass `flattenChanges(changes)` to
+ * include nested changes.
+ *
+ * @param policy - The policy to measure
+ * @param changeSets - The corpus of changes, e.g. one set per version pair
+ * @returns The coverage report
+ *
+ * @alpha
+ */
+export function measurePolicyCoverage(
+  policy: Policy,
+  changeSets: readonly CoverageChangeSet[],
+): PolicyCoverageReport {
+  const rules: RuleCoverage[] = policy.rules.map((policyRule, index) => ({
+    index,
+    name: policyRule.name,
+    releaseType: policyRule.releaseType,
+    ...(policyRule.source !== undefined && { source: policyRule.source }),
+    hits: 0,
+    changeSets: [],
+  }))
+  const uncoveredChanges: UncoveredChange[] = []
+  let totalChanges = 0
+
+  for (const { label, changes } of changeSets) {
+    totalChanges += changes.length
+
+    // The trace ends with the rule that classified the change, if any
+    const results = classifyChanges(changes, policy, { trace: true })
+    for (const result of results) {
+      const matched = result.trace!.usedDefault
+        ? undefined
+        : result.trace!.rules.at(-1)
+      if (!matched) {
+        const { descriptor } = result
+        uncoveredChanges.push({
+          changeSet: label,
+          path: result.path,
+          nodeKind: result.nodeKind,
+          target: descriptor.target,
+          action: descriptor.action,
+          ...(descriptor.aspect && { aspect: descriptor.aspect }),
+          ...(descriptor.impact && { impact: descriptor.impact }),
+          tags: [...descriptor.tags],
+          explanation: result.explanation,
+        })
+        continue
+      }
+
+      const coverage = rules[matched.index]!
+      coverage.hits++
+      if (!coverage.changeSets.includes(label)) {
+        coverage.changeSets.push(label)
+      }
+    }
+  }
+
+  return {
+    policyName: policy.name,
+    defaultReleaseType: policy.defaultReleaseType,
+    changeSets: changeSets.map(({ label }) => label),
+    totalChanges,
+    rules,
+    unusedRules: rules
+      .filter((coverage) => coverage.hits === 0)
+      .map(({ index, name, releaseType, source }) => ({
+        index,
+        name,
+        releaseType,
+        ...(source !== undefined && { source }),
+      })),
+    uncoveredChanges,
+  }
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Formats the descriptor of an uncovered change, e.g.
+ * `property:modified:type (narrowing)`.
+ */
+function formatDescriptor(change: UncoveredChange): string {
+  const kind = [change.target, change.action, change.aspect]
+    .filter(Boolean)
+    .join(':')
+  return change.impact ? `${kind} (${change.impact})` : kind
+}
+
+/**
+ * Formats the name of a rule, with the policy it came from if composed.
+ */
+function formatRuleName(rule: UnusedRule): string {
+  return rule.source ? `\`${rule.name}\` (${rule.source})` : `\`${rule.name}\``
+}
+
+/**
+ * Formats a policy coverage report as markdown.
+ *
+ * @param report - The report to format
+ * @returns GitHub-flavored markdown
+ *
+ * @alpha
+ */
+export function formatCoverageReportAsMarkdown(
+  report: PolicyCoverageReport,
+): string {
+  const lines: string[] = []
+  const usedRules = report.rules.length - report.unusedRules.length
+
+  lines.push(`## Policy Coverage: ${report.policyName}`)
+  lines.push('')
+  lines.push(
+    `**Rules Used:** ${usedRules} of ${report.rules.length} ` +
+      `(${report.totalChanges} changes in ${report.changeSets.length} change sets)`,
+  )
+  lines.push('')
+  lines.push(
+    `**Uncovered Changes:** ${report.uncoveredChanges.length} of ${report.totalChanges}`,
+  )
+  lines.push('')
+
+  // Rule hits
+  lines.push('### Rules')
+  lines.push('')
+  lines.push('| Rule | Release Type | Hits | Change Sets |')
+  lines.push('|------|--------------|------|-------------|')
+  for (const coverage of report.rules) {
+    lines.push(
+      `| ${formatRuleName(coverage)} | ${coverage.releaseType} | ${coverage.hits} | ${coverage.changeSets.length} |`,
+    )
+  }
+  lines.push('')
+
+  // Unused rules
+  if (report.unusedRules.length > 0) {
+    lines.push(`### :warning: Unused Rules (${report.unusedRules.length})`)
+    lines.push('')
+    for (const unused of report.unusedRules) {
+      lines.push(`- ${formatRuleName(unused)} (rule ${unused.index + 1})`)
+    }
+    lines.push('')
+  }
+
+  // Changes classified by the default release type
+  if (report.uncoveredChanges.length > 0) {
+    lines.push(
+      `### :grey_question: Uncovered Changes (${report.uncoveredChanges.length})`,
+    )
+    lines.push('')
+    lines.push(
+      `> These changes matched no rule and were classified as ${report.defaultReleaseType}.`,
+    )
+    lines.push('')
+    for (const change of report.uncoveredChanges) {
+      const tags = change.tags.length > 0 ? ` [${change.tags.join(', ')}]` : ''
+      lines.push(
+        `- \`${change.path}\` (${change.nodeKind}) — ${formatDescriptor(change)}${tags} in ${change.changeSet}`,
+      )
+      lines.push(`  - ${change.explanation}`)
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
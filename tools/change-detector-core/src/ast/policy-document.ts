@@ -0,0 +1,757 @@
+/**
+ * Declarative policy documents.
+ *
+ * A policy document is the serializable form of a {@link Policy}: plain data
+ * that can be stored as JSON or YAML, diffed and reviewed. Documents are
+ * described by {@link policyDocumentSchema}, loaded with {@link loadPolicy}
+ * and produced from policies with {@link serializePolicy}.
+ *
+ * @example
+ * ```json
+ * {
+ *   "name": "my-library",
+ *   "extends": "semver-default",
+ *   "rules": [
+ *     {
+ *       "name": "internal-changes",
+ *       "nodeKind": ["namespace"],
+ *       "returns": "patch",
+ *       "rationale": "Namespaces are internal in this library"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+import type { ReleaseType } from '../types'
+import type { DSLPolicy, DSLRule, DimensionalRule } from '../dsl/dsl-types'
+import type {
+  ChangeTarget,
+  ChangeAction,
+  ChangeAspect,
+  ChangeImpact,
+  ChangeTag,
+  NodeKind,
+} from './types'
+import {
+  rule,
+  type Policy,
+  type PolicyRule,
+  type RuleConditions,
+} from './rule-builder'
+import { extendPolicy } from './policy-composition'
+import { describeAllowed, enumOf, isObject } from './json-validation'
+import {
+  semverDefaultPolicy,
+  semverReadOnlyPolicy,
+  semverWriteOnlyPolicy,
+  semverReleaseTagPolicy,
+} from './builtin-policies'
+
+// =============================================================================
+// Document Types
+// =============================================================================
+
+/**
+ * Names of the built-in policies a document can extend.
+ *
+ * @alpha
+ */
+export type BuiltinPolicyName =
+  | 'semver-default'
+  | 'semver-read-only'
+  | 'semver-write-only'
+  | 'semver-release-tags'
+
+/**
+ * A rule in a policy document.
+ *
+ * @alpha
+ */
+export interface PolicyDocumentRule extends RuleConditions {
+  /** Human-readable name for the rule */
+  name: string
+  /** The release type to assign when this rule matches */
+  returns: ReleaseType
+  /** Optional explanation of why this rule exists */
+  rationale?: string
+}
+
+/**
+ * A serializable policy.
+ *
+ * When `extends` names a built-in policy, the document's rules are evaluated
+ * before the built-in rules, so they override them, and `defaultReleaseType`
+ * falls back to the built-in one.
+ *
+ * @alpha
+ */
+export interface PolicyDocument {
+  /** Optional reference to the JSON Schema, for editor support */
+  $schema?: string
+  /** Human-readable name for the policy */
+  name: string
+  /** Optional description of the policy */
+  description?: string
+  /** Built-in policy whose rules follow the document's rules */
+  extends?: BuiltinPolicyName
+  /** Release type when no rule matches; required without `extends` */
+  defaultReleaseType?: ReleaseType
+  /** Ordered list of rules (first match wins) */
+  rules: PolicyDocumentRule[]
+}
+
+/**
+ * A single validation error of a policy document.
+ *
+ * @alpha
+ */
+export interface PolicyDocumentValidationError {
+  /**
+   * Dot-notation path to the invalid field.
+   *
+   * @example 'rules[0].target[1]'
+   */
+  readonly path: string
+
+  /**
+   * Human-readable error message.
+   */
+  readonly message: string
+}
+
+/**
+ * Result of validating a policy document.
+ *
+ * @alpha
+ */
+export interface PolicyDocumentValidationResult {
+  /**
+   * Whether the document is a valid policy document.
+   */
+  readonly valid: boolean
+
+  /**
+   * List of validation errors (empty if valid).
+   */
+  readonly errors: readonly PolicyDocumentValidationError[]
+}
+
+/**
+ * Error thrown when a policy document cannot be loaded.
+ *
+ * @alpha
+ */
+export class PolicyDocumentError extends Error {
+  /**
+   * The validation errors of the document.
+   */
+  readonly errors: readonly PolicyDocumentValidationError[]
+
+  constructor(
+    message: string,
+    errors: readonly PolicyDocumentValidationError[] = [],
+  ) {
+    super(message)
+    this.name = 'PolicyDocumentError'
+    this.errors = errors
+  }
+}
+
+// =============================================================================
+// Allowed Values
+// =============================================================================
+
+// Records rather than arrays, so that the compiler flags values missing here
+// when a union gains a member. The values are also used by the policy
+// analyzer and the JSON report parser.
+
+const builtinPolicies: Record<BuiltinPolicyName, Policy> = {
+  'semver-default': semverDefaultPolicy,
+  'semver-read-only': semverReadOnlyPolicy,
+  'semver-write-only': semverWriteOnlyPolicy,
+  'semver-release-tags': semverReleaseTagPolicy,
+}
+
+export const releaseTypes: Record<ReleaseType, true> = {
+  forbidden: true,
+  major: true,
+  minor: true,
+  patch: true,
+  none: true,
+}
+
+export const changeTargets: Record<ChangeTarget, true> = {
+  export: true,
+  parameter: true,
+  'return-type': true,
+  'type-parameter': true,
+  property: true,
+  method: true,
+  'enum-member': true,
+  'index-signature': true,
+  constructor: true,
+  accessor: true,
+  overload: true,
+}
+
+export const changeActions: Record<ChangeAction, true> = {
+  added: true,
+  removed: true,
+  modified: true,
+  renamed: true,
+  moved: true,
+  reordered: true,
+}
+
+export const changeAspects: Record<ChangeAspect, true> = {
+  type: true,
+  optionality: true,
+  readonly: true,
+  visibility: true,
+  abstractness: true,
+  staticness: true,
+  deprecation: true,
+  'default-value': true,
+  constraint: true,
+  'default-type': true,
+  'enum-value': true,
+  constness: true,
+  'extends-clause': true,
+  'implements-clause': true,
+  'kind-changed': true,
+  'release-tag': true,
+}
+
+export const changeImpacts: Record<ChangeImpact, true> = {
+  widening: true,
+  narrowing: true,
+  equivalent: true,
+  unrelated: true,
+  undetermined: true,
+}
+
+export const changeTags: Record<ChangeTag, true> = {
+  'was-required': true,
+  'now-required': true,
+  'was-optional': true,
+  'now-optional': true,
+  'is-rest-parameter': true,
+  'was-rest-parameter': true,
+  'has-default': true,
+  'had-default': true,
+  'is-nested-change': true,
+  'has-nested-changes': true,
+  'affects-type-parameter': true,
+  'inherited-member': true,
+  'uninstantiated-member': true,
+  'in-input-position': true,
+  'in-output-position': true,
+  'lost-declaration-merging': true,
+  'lost-implements': true,
+  'lost-unique-symbol': true,
+  'inlined-value': true,
+  'is-alpha': true,
+  'is-beta': true,
+  'is-internal': true,
+}
+
+export const nodeKinds: Record<NodeKind, true> = {
+  function: true,
+  class: true,
+  interface: true,
+  'type-alias': true,
+  enum: true,
+  namespace: true,
+  'global-augmentation': true,
+  'ambient-module': true,
+  variable: true,
+  'unique-symbol': true,
+  property: true,
+  method: true,
+  parameter: true,
+  'type-parameter': true,
+  'enum-member': true,
+  'call-signature': true,
+  'construct-signature': true,
+  'index-signature': true,
+  getter: true,
+  setter: true,
+  'unresolved-export': true,
+}
+
+/**
+ * The top-level properties of a document.
+ */
+const documentProperties = new Set([
+  '$schema',
+  'name',
+  'description',
+  'extends',
+  'defaultReleaseType',
+  'rules',
+])
+
+/**
+ * The list-valued conditions of a rule and their allowed values.
+ */
+const listConditions: ReadonlyArray<
+  [keyof RuleConditions, Record<string, true>]
+> = [
+  ['target', changeTargets],
+  ['action', changeActions],
+  ['aspect', changeAspects],
+  ['impact', changeImpacts],
+  ['nodeKind', nodeKinds],
+  ['hasTag', changeTags],
+  ['hasAnyTag', changeTags],
+  ['notTag', changeTags],
+]
+
+// =============================================================================
+// JSON Schema
+// =============================================================================
+
+function listOf(definition: string): object {
+  return {
+    type: 'array',
+    items: { $ref: `#/definitions/${definition}` },
+    minItems: 1,
+    uniqueItems: true,
+  }
+}
+
+/**
+ * JSON Schema (draft-07) of {@link PolicyDocument}.
+ *
+ * The same schema is published as `schemas/policy.schema.json` in the
+ * package, for use with `$schema` in policy files.
+ *
+ * @alpha
+ */
+export const policyDocumentSchema: Readonly<Record<string, unknown>> = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Change detector policy',
+  description:
+    'A declarative policy classifying API changes into release types. Rules are evaluated in order; the first matching rule wins.',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    extends: {
+      description:
+        "Built-in policy whose rules are evaluated after this document's rules",
+      ...enumOf(builtinPolicies),
+    },
+    defaultReleaseType: {
+      description: 'Release type when no rule matches',
+      $ref: '#/definitions/releaseType',
+    },
+    rules: { type: 'array', items: { $ref: '#/definitions/rule' } },
+  },
+  required: ['name', 'rules'],
+  anyOf: [{ required: ['extends'] }, { required: ['defaultReleaseType'] }],
+  additionalProperties: false,
+  definitions: {
+    releaseType: enumOf(releaseTypes),
+    target: enumOf(changeTargets),
+    action: enumOf(changeActions),
+    aspect: enumOf(changeAspects),
+    impact: enumOf(changeImpacts),
+    tag: enumOf(changeTags),
+    nodeKind: enumOf(nodeKinds),
+    rule: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        target: listOf('target'),
+        action: listOf('action'),
+        aspect: listOf('aspect'),
+        impact: listOf('impact'),
+        nodeKind: listOf('nodeKind'),
+        hasTag: {
+          description: 'Tags that must all be present',
+          ...listOf('tag'),
+        },
+        hasAnyTag: {
+          description: 'Tags of which at least one must be present',
+          ...listOf('tag'),
+        },
+        notTag: {
+          description: 'Tags that must not be present',
+          ...listOf('tag'),
+        },
+        nested: {
+          description:
+            'Whether the rule matches only nested or top-level changes',
+          type: 'boolean',
+        },
+        returns: { $ref: '#/definitions/releaseType' },
+        rationale: { type: 'string' },
+      },
+      required: ['name', 'returns'],
+      additionalProperties: false,
+    },
+  },
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+/**
+ * Validates a list of enumerated values.
+ */
+function validateList(
+  value: unknown,
+  allowed: Record<string, true>,
+  path: string,
+  errors: PolicyDocumentValidationError[],
+): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ path, message: 'Must be a non-empty array' })
+    return
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || !(item in allowed)) {
+      errors.push({
+        path: `${path}[${index}]`,
+        message: `Must be one of ${describeAllowed(allowed)}`,
+      })
+    }
+  })
+}
+
+/**
+ * Validates a single rule of a document.
+ */
+function validateRule(
+  value: unknown,
+  path: string,
+  errors: PolicyDocumentValidationError[],
+): void {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'Rule must be an object' })
+    return
+  }
+
+  if (!isNonEmptyString(value.name)) {
+    errors.push({
+      path: `${path}.name`,
+      message: 'Rule name must be a non-empty string',
+    })
+  }
+
+  if (typeof value.returns !== 'string' || !(value.returns in releaseTypes)) {
+    errors.push({
+      path: `${path}.returns`,
+      message: `Must be one of ${describeAllowed(releaseTypes)}`,
+    })
+  }
+
+  if (value.rationale !== undefined && typeof value.rationale !== 'string') {
+    errors.push({
+      path: `${path}.rationale`,
+      message: 'Rationale must be a string',
+    })
+  }
+
+  if (value.nested !== undefined && typeof value.nested !== 'boolean') {
+    errors.push({ path: `${path}.nested`, message: 'Must be a boolean' })
+  }
+
+  const known = new Set(['name', 'returns', 'rationale', 'nested'])
+  for (const [key, allowed] of listConditions) {
+    known.add(key)
+    if (value[key] !== undefined) {
+      validateList(value[key], allowed, `${path}.${key}`, errors)
+    }
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!known.has(key)) {
+      errors.push({ path: `${path}.${key}`, message: 'Unknown rule property' })
+    }
+  }
+}
+
+/**
+ * Validates that a value is a well-formed {@link PolicyDocument}.
+ *
+ * Checks the same constraints as {@link policyDocumentSchema}.
+ *
+ * @alpha
+ */
+export function validatePolicyDocument(
+  data: unknown,
+): PolicyDocumentValidationResult {
+  const errors: PolicyDocumentValidationError[] = []
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: 'Policy document must be an object' })
+    return { valid: false, errors }
+  }
+
+  if (!isNonEmptyString(data.name)) {
+    errors.push({
+      path: 'name',
+      message: 'Policy name must be a non-empty string',
+    })
+  }
+
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push({ path: 'description', message: 'Must be a string' })
+  }
+
+  if (
+    data.extends !== undefined &&
+    (typeof data.extends !== 'string' || !(data.extends in builtinPolicies))
+  ) {
+    errors.push({
+      path: 'extends',
+      message: `Must be one of ${describeAllowed(builtinPolicies)}`,
+    })
+  }
+
+  if (data.defaultReleaseType === undefined) {
+    if (data.extends === undefined) {
+      errors.push({
+        path: 'defaultReleaseType',
+        message: 'Required unless the policy extends a built-in policy',
+      })
+    }
+  } else if (
+    typeof data.defaultReleaseType !== 'string' ||
+    !(data.defaultReleaseType in releaseTypes)
+  ) {
+    errors.push({
+      path: 'defaultReleaseType',
+      message: `Must be one of ${describeAllowed(releaseTypes)}`,
+    })
+  }
+
+  if (!Array.isArray(data.rules)) {
+    errors.push({ path: 'rules', message: 'Rules must be an array' })
+  } else {
+    data.rules.forEach((value, index) => {
+      validateRule(value, `rules[${index}]`, errors)
+    })
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!documentProperties.has(key)) {
+      errors.push({ path: key, message: 'Unknown policy property' })
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+// =============================================================================
+// Loading
+// =============================================================================
+
+/**
+ * Builds a policy rule from a document rule.
+ */
+function loadRule(data: PolicyDocumentRule): PolicyRule {
+  const builder = rule(data.name)
+  if (data.target) builder.target(...data.target)
+  if (data.action) builder.action(...data.action)
+  if (data.aspect) builder.aspect(...data.aspect)
+  if (data.impact) builder.impact(...data.impact)
+  if (data.nodeKind) builder.nodeKind(...data.nodeKind)
+  if (data.hasTag) builder.hasTag(...data.hasTag)
+  if (data.hasAnyTag) builder.hasAnyTag(...data.hasAnyTag)
+  if (data.notTag) builder.notTag(...data.notTag)
+  if (data.nested !== undefined) builder.nested(data.nested)
+  if (data.rationale !== undefined) builder.rationale(data.rationale)
+  return builder.returns(data.returns)
+}
+
+/**
+ * Loads a policy from a policy document.
+ *
+ * Accepts either the parsed document, e.g. the result of a YAML parser, or
+ * its JSON text.
+ *
+ * @param document - The policy document or its JSON text
+ * @returns The policy described by the document
+ * @throws {@link PolicyDocumentError} if the text is not valid JSON or the
+ * document is not a valid policy document
+ *
+ * @example
+ * ```ts
+ * const policy = loadPolicy(readFileSync('policy.json', 'utf-8'))
+ * const results = classifyChanges(changes, policy)
+ * ```
+ *
+ * @alpha
+ */
+export function loadPolicy(document: PolicyDocument | string): Policy {
+  let data: unknown = document
+  if (typeof document === 'string') {
+    try {
+      data = JSON.parse(document)
+    } catch (error) {
+      throw new PolicyDocumentError(
+        `Policy document is not valid JSON: ${(error as Error).message}`,
+      )
+    }
+  }
+
+  const validation = validatePolicyDocument(data)
+  if (!validation.valid) {
+    const details = validation.errors
+      .map((error) =>
+        error.path ? `${error.path}: ${error.message}` : error.message,
+      )
+      .join('; ')
+    throw new PolicyDocumentError(
+      `Invalid policy document: ${details}`,
+      validation.errors,
+    )
+  }
+
+  const valid = data as PolicyDocument
+  const rules = valid.rules.map(loadRule)
+  if (valid.extends) {
+    return extendPolicy(builtinPolicies[valid.extends], {
+      name: valid.name,
+      overrides: rules,
+      defaultReleaseType: valid.defaultReleaseType,
+    })
+  }
+  return {
+    name: valid.name,
+    rules,
+    defaultReleaseType: valid.defaultReleaseType!,
+  }
+}
+
+// =============================================================================
+// Serialization
+// =============================================================================
+
+/**
+ * Converts a dimensional DSL rule to a document rule.
+ *
+ * Dimensional rules built with `ProgressiveRuleBuilder.dimensional(name)`
+ * carry their name in `description`.
+ */
+function serializeDimensionalRule(
+  data: DimensionalRule,
+  index: number,
+): PolicyDocumentRule {
+  const name = data.description ?? `rule-${index + 1}`
+  if (data.matcher) {
+    throw new PolicyDocumentError(
+      `Rule '${name}' uses a custom matcher and cannot be serialized`,
+    )
+  }
+  return {
+    name,
+    ...dimensionalRuleConditions(data),
+    returns: data.returns,
+  }
+}
+
+/**
+ * Converts the dimensions of a dimensional DSL rule to rule conditions.
+ */
+export function dimensionalRuleConditions(
+  data: DimensionalRule,
+): RuleConditions {
+  const conditions: RuleConditions = {}
+  if (data.target?.length) conditions.target = [...data.target]
+  if (data.action?.length) conditions.action = [...data.action]
+  if (data.aspect?.length) conditions.aspect = [...data.aspect]
+  if (data.impact?.length) conditions.impact = [...data.impact]
+  if (data.nodeKind?.length) conditions.nodeKind = [...data.nodeKind]
+  if (data.tags?.length) conditions.hasTag = [...data.tags]
+  if (data.notTags?.length) conditions.notTag = [...data.notTags]
+  if (data.nested !== undefined) conditions.nested = data.nested
+  return conditions
+}
+
+/**
+ * Copies conditions, so that documents don't share arrays with policies.
+ */
+function copyConditions(conditions: RuleConditions): RuleConditions {
+  const copy: RuleConditions = { ...conditions }
+  for (const [key] of listConditions) {
+    const values = conditions[key]
+    if (Array.isArray(values)) {
+      Object.assign(copy, { [key]: [...values] })
+    }
+  }
+  return copy
+}
+
+/**
+ * Converts a policy rule to a document rule.
+ */
+function serializePolicyRule(data: PolicyRule): PolicyDocumentRule {
+  if (!data.conditions) {
+    throw new PolicyDocumentError(
+      `Rule '${data.name}' uses a custom matcher and cannot be serialized`,
+    )
+  }
+
+  const serialized: PolicyDocumentRule = {
+    name: data.name,
+    ...copyConditions(data.conditions),
+    returns: data.releaseType,
+  }
+  if (data.rationale !== undefined) {
+    serialized.rationale = data.rationale
+  }
+  return serialized
+}
+
+/**
+ * Serializes a policy to a policy document.
+ *
+ * Accepts policies built with the rule builder and DSL policies of
+ * dimensional rules. The document is self-contained: rules of extended
+ * policies are included rather than referenced.
+ *
+ * @param policy - The policy to serialize
+ * @returns A document that {@link loadPolicy} loads into an equivalent policy
+ * @throws {@link PolicyDocumentError} if a rule uses a custom matcher (`when()`
+ * or the `matcher` of a dimensional rule) or is an intent or pattern DSL rule
+ *
+ * @example
+ * ```ts
+ * const json = JSON.stringify(serializePolicy(semverReadOnlyPolicy), null, 2)
+ * ```
+ *
+ * @alpha
+ */
+export function serializePolicy(policy: Policy | DSLPolicy): PolicyDocument {
+  const rules: ReadonlyArray<PolicyRule | DSLRule> = policy.rules
+  const serializedRules = rules.map((data, index) => {
+    if (!('type' in data)) {
+      return serializePolicyRule(data)
+    }
+    if (data.type === 'dimensional') {
+      return serializeDimensionalRule(data, index)
+    }
+    throw new PolicyDocumentError(
+      `Rule ${index + 1} is a ${data.type} rule; only dimensional rules can be serialized`,
+    )
+  })
+
+  const document: PolicyDocument = { name: policy.name, rules: [] }
+  if ('description' in policy && policy.description !== undefined) {
+    document.description = policy.description
+  }
+  document.defaultReleaseType = policy.defaultReleaseType
+  document.rules = serializedRules
+  return document
+}
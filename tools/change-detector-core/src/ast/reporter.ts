@@ -15,14 +15,45 @@ export {
   type ASTComparisonReport,
   type ASTChangeJSON,
   type ASTReportJSON,
+  type ASTReportJSONValidationError,
+  type ASTReportJSONValidationResult,
+  type SARIFReporterOptions,
+  type SARIFLevel,
+  type SARIFLocation,
+  type SARIFRule,
+  type SARIFResult,
+  type SARIFLog,
+  type HTMLReporterOptions,
+  type JUnitReporterOptions,
+  type CheckstyleReporterOptions,
+  type ChangelogTemplates,
+  type ChangelogReporterOptions,
   // Report generation
   createASTComparisonReport,
   // Formatting helpers
   formatSourceLocation,
+  formatForbiddenRule,
   // Text reporter
   formatASTReportAsText,
   // Markdown reporter
   formatASTReportAsMarkdown,
   // JSON reporter
+  AST_REPORT_SCHEMA_VERSION,
+  AST_REPORT_SCHEMA_URL,
   formatASTReportAsJSON,
+  // JSON report parser
+  ASTReportJSONError,
+  astReportJSONSchema,
+  validateASTReportJSON,
+  parseASTReportJSON,
+  // SARIF reporter
+  formatASTReportAsSARIF,
+  // HTML reporter
+  formatASTReportAsHTML,
+  // JUnit reporter
+  formatASTReportAsJUnit,
+  // Checkstyle reporter
+  formatASTReportAsCheckstyle,
+  // Changelog reporter
+  formatASTReportAsChangelog,
 } from './reporter/index'
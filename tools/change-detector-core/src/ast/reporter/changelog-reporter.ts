@@ -0,0 +1,250 @@
+/**
+ * Changelog reporter for AST changes.
+ *
+ * This module formats AST comparison reports as changelog entries following
+ * Keep a Changelog (https://keepachangelog.com), grouped into Added, Changed,
+ * Deprecated and Removed sections, for pasting into CHANGELOG.md or release
+ * notes.
+ */
+
+import type { ClassifiedChange } from '../types'
+import type { ASTReporterOptions, ASTComparisonReport } from './types'
+import { flattenClassifiedChanges } from '../rule-builder'
+
+/**
+ * Templates for the parts of a changelog.
+ *
+ * @remarks
+ * Templates contain placeholders in braces, which are replaced with the
+ * values of the release, section or change. Unknown placeholders are kept
+ * as they are.
+ *
+ * The `entry` template has these placeholders:
+ *
+ * - `{path}`: the path of the changed declaration, e.g. `User.email`
+ * - `{name}`: the name of the export it belongs to, e.g. `User`
+ * - `{kind}`: the kind of the declaration, e.g. `property`
+ * - `{explanation}`: the explanation of the change
+ * - `{releaseType}`: the release type of the change, e.g. `major`
+ * - `{breaking}`: `**Breaking:** ` for major and forbidden changes
+ * - `{location}`: the file and line of the declaration, e.g. `index.d.ts:3`
+ * - `{url}`: the link to the declaration, from `linkTemplate`
+ * - `{link}`: the link as ` ([location](url))`, if there is one
+ *
+ * @alpha
+ */
+export interface ChangelogTemplates {
+  /**
+   * Heading of the release, with `{version}` and `{date}`
+   * (defaults to `## [{version}] - {date}`).
+   */
+  heading?: string
+  /** Heading of each section, with `{section}` (defaults to `### {section}`) */
+  section?: string
+  /**
+   * Entry for each change (defaults to a list item with `{breaking}`, the
+   * `{path}` as code, `{explanation}` and `{link}`)
+   */
+  entry?: string
+}
+
+/**
+ * Options for the changelog reporter.
+ *
+ * @remarks
+ * Link templates contain the placeholders `{file}`, `{line}` and `{endLine}`
+ * for the declaration, e.g.
+ * `https://github.com/org/repo/blob/v2.0.0/{file}#L{line}-L{endLine}`. The
+ * file is `newFilePath` for declarations in the new version, and
+ * `oldFilePath` for removed declarations.
+ *
+ * @alpha
+ */
+export interface ChangelogReporterOptions extends ASTReporterOptions {
+  /** Version of the release; the heading is only included with a version */
+  version?: string
+  /** Date of the release (defaults to today, as YYYY-MM-DD) */
+  date?: string
+  /** Templates for the heading, sections and entries */
+  templates?: ChangelogTemplates
+  /** Template of links to declarations in the new version */
+  linkTemplate?: string
+  /**
+   * Template of links to removed declarations in the old version
+   * (defaults to `linkTemplate`)
+   */
+  oldLinkTemplate?: string
+}
+
+type ChangelogSection = 'Added' | 'Changed' | 'Deprecated' | 'Removed'
+
+/** Sections in the order Keep a Changelog lists them */
+const SECTION_ORDER: ChangelogSection[] = [
+  'Added',
+  'Changed',
+  'Deprecated',
+  'Removed',
+]
+
+const DEFAULT_TEMPLATES: Required<ChangelogTemplates> = {
+  heading: '## [{version}] - {date}',
+  section: '### {section}',
+  entry: '- {breaking}`{path}`: {explanation}{link}',
+}
+
+/**
+ * Replaces the placeholders of a template with their values.
+ */
+function renderTemplate(
+  template: string,
+  values: Record<string, string | number>,
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder,
+  )
+}
+
+/**
+ * Determines the changelog section of a change from its descriptor.
+ */
+function getSection(change: ClassifiedChange): ChangelogSection {
+  const { action, aspect, impact } = change.descriptor
+  if (action === 'added') return 'Added'
+  if (action === 'removed') return 'Removed'
+  // Widening the deprecation marks the declaration as deprecated
+  if (aspect === 'deprecation' && impact === 'widening') return 'Deprecated'
+  return 'Changed'
+}
+
+/**
+ * Gets the location of a change's declaration and the link to it: the new
+ * declaration, or the old one for removals.
+ */
+function getLocation(
+  change: ClassifiedChange,
+  options: ChangelogReporterOptions,
+): { location: string; url: string } {
+  if (options.includeLocations === false) {
+    return { location: '', url: '' }
+  }
+
+  const located =
+    change.newLocation && options.newFilePath
+      ? {
+          range: change.newLocation,
+          file: options.newFilePath,
+          linkTemplate: options.linkTemplate,
+        }
+      : change.oldLocation && options.oldFilePath
+        ? {
+            range: change.oldLocation,
+            file: options.oldFilePath,
+            linkTemplate: options.oldLinkTemplate ?? options.linkTemplate,
+          }
+        : undefined
+  if (!located) {
+    return { location: '', url: '' }
+  }
+
+  const { range, file, linkTemplate } = located
+  return {
+    location: `${file}:${range.start.line}`,
+    url: linkTemplate
+      ? renderTemplate(linkTemplate, {
+          file,
+          line: range.start.line,
+          endLine: range.end.line,
+        })
+      : '',
+  }
+}
+
+function formatEntry(
+  change: ClassifiedChange,
+  template: string,
+  options: ChangelogReporterOptions,
+): string {
+  const { location, url } = getLocation(change, options)
+  const breaking =
+    change.releaseType === 'major' || change.releaseType === 'forbidden'
+  return renderTemplate(template, {
+    path: change.path,
+    name: change.path.split('.')[0]!,
+    kind: change.nodeKind,
+    explanation: change.explanation,
+    releaseType: change.releaseType,
+    breaking: breaking ? '**Breaking:** ' : '',
+    location,
+    url,
+    link: url ? ` ([${location}](${url}))` : '',
+  })
+}
+
+/**
+ * Formats an AST comparison report as changelog entries following
+ * Keep a Changelog.
+ *
+ * Changes, nested changes included, are grouped into sections by what
+ * happened to their declaration: additions under Added, removals under
+ * Removed, newly deprecated declarations under Deprecated, and all other
+ * changes under Changed. Changes without impact are only included with
+ * `includeUnchanged`. The release heading is only included when `version`
+ * is given, so that the sections can also be appended to notes with their
+ * own heading. Returns an empty string when there are no changes to list.
+ *
+ * @example
+ * ```ts
+ * const changelog = formatASTReportAsChangelog(report, {
+ *   version: '2.0.0',
+ *   newFilePath: 'dist/index.d.ts',
+ *   linkTemplate: 'https://github.com/org/repo/blob/v2.0.0/{file}#L{line}',
+ * })
+ * ```
+ *
+ * @alpha
+ */
+export function formatASTReportAsChangelog(
+  report: ASTComparisonReport,
+  options: ChangelogReporterOptions = {},
+): string {
+  const templates = { ...DEFAULT_TEMPLATES, ...options.templates }
+  const sections = new Map<ChangelogSection, string[]>()
+
+  for (const change of flattenClassifiedChanges(report.changes)) {
+    if (change.releaseType === 'none' && !options.includeUnchanged) {
+      continue
+    }
+    const section = getSection(change)
+    const entry = formatEntry(change, templates.entry, options)
+    const entries = sections.get(section)
+    if (entries) {
+      entries.push(entry)
+    } else {
+      sections.set(section, [entry])
+    }
+  }
+
+  if (sections.size === 0) {
+    return ''
+  }
+
+  const lines: string[] = []
+  if (options.version) {
+    lines.push(
+      renderTemplate(templates.heading, {
+        version: options.version,
+        date: options.date ?? new Date().toISOString().slice(0, 10),
+      }),
+      '',
+    )
+  }
+
+  for (const section of SECTION_ORDER) {
+    const entries = sections.get(section)
+    if (!entries) continue
+    lines.push(renderTemplate(templates.section, { section }), '', ...entries)
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
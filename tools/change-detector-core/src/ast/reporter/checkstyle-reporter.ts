@@ -0,0 +1,161 @@
+/**
+ * Checkstyle XML reporter for AST changes.
+ *
+ * This module formats AST comparison reports as checkstyle XML, which CI
+ * systems annotate on the lines of the files it refers to. Each change
+ * becomes an error or warning at its declaration.
+ */
+
+import type { ReleaseType } from '../../types'
+import type { ClassifiedChange } from '../types'
+import type { ASTReporterOptions, ASTComparisonReport } from './types'
+import { flattenClassifiedChanges } from '../rule-builder'
+import {
+  escapeXML,
+  exceedsReleaseType,
+  formatForbiddenRule,
+  formatReleaseType,
+  formatSuppression,
+  getRuleId,
+} from './types'
+
+/**
+ * Options for the checkstyle reporter.
+ *
+ * @remarks
+ * Errors only have lines and columns if the path of their declaration file
+ * is known from `oldFilePath` or `newFilePath`.
+ *
+ * @alpha
+ */
+export interface CheckstyleReporterOptions extends ASTReporterOptions {
+  /**
+   * The release type changes may have to be reported as warnings rather
+   * than errors (defaults to 'minor'). Forbidden changes are always errors.
+   */
+  allowedReleaseType?: ReleaseType
+}
+
+/** Checkstyle severity of an error */
+type CheckstyleSeverity = 'error' | 'warning' | 'info'
+
+/** File name of changes whose declaration file is not known */
+const UNKNOWN_FILE = 'unknown'
+
+function getSeverity(
+  releaseType: ReleaseType,
+  allowed: ReleaseType,
+): CheckstyleSeverity {
+  if (exceedsReleaseType(releaseType, allowed)) return 'error'
+  return releaseType === 'none' ? 'info' : 'warning'
+}
+
+/**
+ * Formats the message of a change, with the rule that forbids it and its
+ * suppression.
+ */
+function formatMessage(change: ClassifiedChange): string {
+  const parts = [
+    `[${formatReleaseType(change.releaseType)}] ${change.path}: ${change.explanation}`,
+  ]
+  const forbiddenRule = formatForbiddenRule(change)
+  if (forbiddenRule) {
+    parts.push(forbiddenRule)
+  }
+  const suppression = formatSuppression(change)
+  if (suppression) {
+    parts.push(suppression)
+  }
+  return parts.join('. ')
+}
+
+/**
+ * Formats a change as a checkstyle error at its new declaration, or at its
+ * old declaration for removals.
+ */
+function formatChange(
+  change: ClassifiedChange,
+  allowed: ReleaseType,
+  options: CheckstyleReporterOptions,
+): { file: string; error: string } {
+  const attributes: string[] = []
+  let file = options.newFilePath ?? options.oldFilePath ?? UNKNOWN_FILE
+
+  if (options.includeLocations !== false) {
+    const located =
+      change.newLocation && options.newFilePath
+        ? { location: change.newLocation, filePath: options.newFilePath }
+        : change.oldLocation && options.oldFilePath
+          ? { location: change.oldLocation, filePath: options.oldFilePath }
+          : undefined
+    if (located) {
+      file = located.filePath
+      // Source columns are 0-based, checkstyle columns 1-based
+      attributes.push(
+        `line="${located.location.start.line}"`,
+        `column="${located.location.start.column + 1}"`,
+      )
+    }
+  }
+
+  const source = `change-detector.${getRuleId(change)}`
+  attributes.push(
+    `severity="${getSeverity(change.releaseType, allowed)}"`,
+    `message="${escapeXML(formatMessage(change))}"`,
+    `source="${escapeXML(source)}"`,
+  )
+  return { file, error: `    <error ${attributes.join(' ')}/>` }
+}
+
+/**
+ * Formats an AST comparison report as a checkstyle XML document.
+ *
+ * Each change, nested changes included, becomes an error in the file of
+ * its declaration, keyed to the line and column the declaration starts at.
+ * Changes that exceed `allowedReleaseType` have severity `error`, other
+ * changes `warning`, and changes without impact, which are only included
+ * with `includeUnchanged`, `info`. The source of each error is the policy
+ * rule that classified the change.
+ *
+ * @example
+ * ```ts
+ * const xml = formatASTReportAsCheckstyle(report, {
+ *   allowedReleaseType: 'minor',
+ *   oldFilePath: 'api/old.d.ts',
+ *   newFilePath: 'dist/index.d.ts',
+ * })
+ * fs.writeFileSync('api-changes.checkstyle.xml', xml)
+ * ```
+ *
+ * @alpha
+ */
+export function formatASTReportAsCheckstyle(
+  report: ASTComparisonReport,
+  options: CheckstyleReporterOptions = {},
+): string {
+  const allowed = options.allowedReleaseType ?? 'minor'
+  const files = new Map<string, string[]>()
+
+  for (const change of flattenClassifiedChanges(report.changes)) {
+    if (change.releaseType === 'none' && !options.includeUnchanged) {
+      continue
+    }
+    const { file, error } = formatChange(change, allowed, options)
+    const errors = files.get(file)
+    if (errors) {
+      errors.push(error)
+    } else {
+      files.set(file, [error])
+    }
+  }
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<checkstyle version="4.3">',
+  ]
+  for (const [file, errors] of files) {
+    lines.push(`  <file name="${escapeXML(file)}">`, ...errors, '  </file>')
+  }
+  lines.push('</checkstyle>', '')
+  return lines.join('\n')
+}
@@ -0,0 +1,339 @@
+/**
+ * HTML reporter for AST changes.
+ *
+ * This module formats AST comparison reports as standalone HTML documents,
+ * with styles inlined and no scripts or external assets, so that a report
+ * can be archived as a CI artifact and opened anywhere.
+ */
+
+import type { ReleaseType } from '../../types'
+import type { ClassifiedChange, SourceRange } from '../types'
+import type { ASTReporterOptions, ASTComparisonReport } from './types'
+import {
+  formatClassificationTrace,
+  formatForbiddenRule,
+  formatReleaseType,
+  formatSuppression,
+  getUnclassifiedNestedChanges,
+} from './types'
+
+/**
+ * Options for the HTML reporter.
+ *
+ * @remarks
+ * With the old and new declaration text, each change shows the declaration
+ * lines of its `SourceRange`s side by side. Without them, it shows the
+ * signatures of the old and new declarations.
+ *
+ * @alpha
+ */
+export interface HTMLReporterOptions extends ASTReporterOptions {
+  /** Title of the document (defaults to 'API Change Report') */
+  title?: string
+  /** The old declaration text the report's old locations refer to */
+  oldSource?: string
+  /** The new declaration text the report's new locations refer to */
+  newSource?: string
+}
+
+/** Release types in the order the report lists them */
+const RELEASE_TYPE_ORDER: ReleaseType[] = [
+  'forbidden',
+  'major',
+  'minor',
+  'patch',
+  'none',
+]
+
+const SECTION_TITLES: Record<ReleaseType, string> = {
+  forbidden: 'Forbidden Changes',
+  major: 'Breaking Changes',
+  minor: 'Minor Changes',
+  patch: 'Patch Changes',
+  none: 'No Impact',
+}
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; line-height: 1.5; }
+h1 { margin-bottom: 0.25rem; }
+.files { color: #59636e; margin-top: 0; }
+.badge { display: inline-block; padding: 0 0.5em; border-radius: 1em; font-size: 0.8em; font-weight: 600; color: #fff; }
+.badge-forbidden { background: #82071e; }
+.badge-major { background: #cf222e; }
+.badge-minor { background: #1a7f37; }
+.badge-patch { background: #0969da; }
+.badge-none { background: #6e7781; }
+table.summary { border-collapse: collapse; margin: 1rem 0; }
+table.summary th, table.summary td { border: 1px solid #d1d9e0; padding: 0.25rem 0.75rem; text-align: left; }
+details.change { border: 1px solid #d1d9e0; border-radius: 6px; margin: 0.5rem 0; padding: 0.25rem 0.75rem; }
+details.change > summary { cursor: pointer; }
+.nested { margin-left: 1.5rem; }
+.path { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-weight: 600; }
+.kind, .explanation { color: #59636e; }
+ul.details { margin: 0.5rem 0; }
+.diff { display: grid; grid-template-columns: 1fr 1fr; gap: 0.5rem; margin: 0.5rem 0; }
+.side { border: 1px solid #d1d9e0; border-radius: 6px; overflow-x: auto; }
+.side-header { padding: 0.25rem 0.5rem; border-bottom: 1px solid #d1d9e0; font-size: 0.85em; color: #59636e; }
+.side-old .side-header { background: #ffebe9; }
+.side-new .side-header { background: #dafbe1; }
+.side pre { margin: 0; padding: 0.5rem; font-size: 0.85em; }
+.line-number { display: inline-block; min-width: 3ch; margin-right: 1ch; color: #8c959f; text-align: right; user-select: none; }
+.absent { padding: 0.5rem; color: #8c959f; font-style: italic; }
+`
+
+/**
+ * Escapes text for use in HTML content and attribute values.
+ */
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function formatBadge(releaseType: ReleaseType): string {
+  return `<span class="badge badge-${releaseType}">${formatReleaseType(releaseType)}</span>`
+}
+
+/**
+ * Formats the declaration lines a source range covers, with line numbers.
+ */
+function formatSourceLines(source: string, location: SourceRange): string {
+  const lines = source.split(/\r?\n/)
+  const numbered: string[] = []
+  for (let line = location.start.line; line <= location.end.line; line++) {
+    const text = lines[line - 1]
+    if (text === undefined) break
+    numbered.push(`<span class="line-number">${line}</span>${escapeHTML(text)}`)
+  }
+  return `<pre><code>${numbered.join('\n')}</code></pre>`
+}
+
+/**
+ * Formats one side of the declaration diff: the declaration's lines if the
+ * source is known, its signature otherwise.
+ */
+function formatDiffSide(
+  side: 'old' | 'new',
+  location: SourceRange | undefined,
+  source: string | undefined,
+  signature: string | undefined,
+  filePath: string | undefined,
+  options: HTMLReporterOptions,
+): string {
+  const label = side === 'old' ? 'Before' : 'After'
+  const where =
+    options.includeLocations !== false && location
+      ? ` &mdash; ${escapeHTML(filePath ? `${filePath}:` : 'line ')}${location.start.line}`
+      : ''
+
+  let body: string
+  if (location && source !== undefined) {
+    body = formatSourceLines(source, location)
+  } else if (signature) {
+    body = `<pre><code>${escapeHTML(signature)}</code></pre>`
+  } else {
+    body = `<div class="absent">${side === 'old' ? 'Not present before' : 'Not present after'}</div>`
+  }
+
+  return [
+    `<div class="side side-${side}">`,
+    `<div class="side-header">${label}${where}</div>`,
+    body,
+    '</div>',
+  ].join('\n')
+}
+
+/**
+ * Formats the old and new declarations of a change side by side.
+ */
+function formatDiff(
+  change: ClassifiedChange,
+  options: HTMLReporterOptions,
+): string {
+  return [
+    '<div class="diff">',
+    formatDiffSide(
+      'old',
+      change.oldLocation,
+      options.oldSource,
+      change.oldNode?.typeInfo.signature,
+      options.oldFilePath,
+      options,
+    ),
+    formatDiffSide(
+      'new',
+      change.newLocation,
+      options.newSource,
+      change.newNode?.typeInfo.signature,
+      options.newFilePath,
+      options,
+    ),
+    '</div>',
+  ].join('\n')
+}
+
+/**
+ * Formats a change as a collapsible element, with its nested changes that
+ * have no release type of their own as collapsible children.
+ */
+function formatChangeAsHTML(
+  change: ClassifiedChange,
+  options: HTMLReporterOptions,
+  depth: number = 0,
+): string {
+  const { releaseType } = change
+  const lines: string[] = [
+    `<details class="change change-${releaseType}">`,
+    `<summary>${formatBadge(releaseType)} <span class="path">${escapeHTML(change.path)}</span> <span class="kind">(${escapeHTML(change.nodeKind)})</span> <span class="explanation">${escapeHTML(change.explanation)}</span></summary>`,
+  ]
+
+  const details: string[] = []
+  const forbiddenRule = formatForbiddenRule(change)
+  if (forbiddenRule) {
+    details.push(escapeHTML(forbiddenRule))
+  }
+  const suppression = formatSuppression(change)
+  if (suppression) {
+    details.push(escapeHTML(suppression))
+  }
+  if (options.includeTrace && change.trace) {
+    const trace = formatClassificationTrace(change.trace)
+      .map((line) => `<li>${escapeHTML(line)}</li>`)
+      .join('')
+    details.push(`Why:<ul>${trace}</ul>`)
+  }
+  if (details.length > 0) {
+    lines.push(
+      `<ul class="details">${details.map((item) => `<li>${item}</li>`).join('')}</ul>`,
+    )
+  }
+
+  lines.push(formatDiff(change, options))
+
+  // Nested changes without a release type (classified ones are grouped)
+  const maxDepth = options.maxDepth ?? 3
+  if (
+    !options.flattenNested &&
+    options.includeUnchanged !== false &&
+    depth < maxDepth
+  ) {
+    const nested = getUnclassifiedNestedChanges(change)
+    if (nested.length > 0) {
+      lines.push('<div class="nested">')
+      for (const nestedChange of nested) {
+        lines.push(formatChangeAsHTML(nestedChange, options, depth + 1))
+      }
+      lines.push('</div>')
+    }
+  }
+
+  lines.push('</details>')
+  return lines.join('\n')
+}
+
+/**
+ * Formats the number of changes of each release type as a table.
+ */
+function formatSummary(
+  report: ASTComparisonReport,
+  options: HTMLReporterOptions,
+): string {
+  const rows = RELEASE_TYPE_ORDER.filter(
+    (releaseType) => releaseType !== 'none' || options.includeUnchanged,
+  ).map(
+    (releaseType) =>
+      `<tr><td>${formatBadge(releaseType)}</td><td>${report.stats[releaseType]}</td></tr>`,
+  )
+  return [
+    '<table class="summary">',
+    '<thead><tr><th>Release type</th><th>Changes</th></tr></thead>',
+    '<tbody>',
+    ...rows,
+    `<tr><td>Total</td><td>${report.stats.total}</td></tr>`,
+    '</tbody>',
+    '</table>',
+  ].join('\n')
+}
+
+/**
+ * Formats an AST comparison report as a standalone HTML document.
+ *
+ * The document summarizes the changes by release type, and lists each
+ * change, classified nested changes included, as a collapsible element
+ * with its old and new declarations side by side. Pass the declaration text as `oldSource`
+ * and `newSource` to show the lines each change's `SourceRange`s cover.
+ *
+ * @example
+ * ```ts
+ * const html = formatASTReportAsHTML(report, {
+ *   oldFilePath: 'api/v1.d.ts',
+ *   newFilePath: 'dist/index.d.ts',
+ *   oldSource,
+ *   newSource,
+ * })
+ * fs.writeFileSync('api-changes.html', html)
+ * ```
+ *
+ * @alpha
+ */
+export function formatASTReportAsHTML(
+  report: ASTComparisonReport,
+  options: HTMLReporterOptions = {},
+): string {
+  const title = options.title ?? 'API Change Report'
+  const lines: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHTML(title)}</title>`,
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHTML(title)}</h1>`,
+  ]
+
+  if (options.oldFilePath && options.newFilePath) {
+    lines.push(
+      `<p class="files">${escapeHTML(options.oldFilePath)} &rarr; ${escapeHTML(options.newFilePath)}</p>`,
+    )
+  }
+
+  lines.push(
+    `<p><strong>Release Type:</strong> ${formatBadge(report.releaseType)}</p>`,
+  )
+
+  lines.push('<h2>Summary</h2>')
+  lines.push(formatSummary(report, options))
+
+  for (const releaseType of RELEASE_TYPE_ORDER) {
+    const changes = report.byReleaseType[releaseType]
+    if (changes.length === 0) continue
+    if (releaseType === 'none' && !options.includeUnchanged) continue
+
+    lines.push(
+      `<section class="release-${releaseType}">`,
+      `<h2>${SECTION_TITLES[releaseType]} (${changes.length})</h2>`,
+    )
+    if (releaseType === 'forbidden') {
+      lines.push(
+        '<p><strong>These changes are not allowed and must be addressed before release.</strong></p>',
+      )
+    }
+    for (const change of changes) {
+      lines.push(formatChangeAsHTML(change, options))
+    }
+    lines.push('</section>')
+  }
+
+  if (report.stats.total === 0) {
+    lines.push('<p>No API changes detected.</p>')
+  }
+
+  lines.push('</body>', '</html>', '')
+  return lines.join('\n')
+}
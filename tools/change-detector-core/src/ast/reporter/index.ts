@@ -11,6 +11,7 @@ export {
   type ASTComparisonReport,
   createASTComparisonReport,
   formatSourceLocation,
+  formatForbiddenRule,
 } from './types'
 
 // Public API - text reporter
@@ -23,5 +24,53 @@ export { formatASTReportAsMarkdown } from './markdown-reporter'
 export {
   type ASTChangeJSON,
   type ASTReportJSON,
+  AST_REPORT_SCHEMA_VERSION,
+  AST_REPORT_SCHEMA_URL,
   formatASTReportAsJSON,
 } from './json-reporter'
+
+// Public API - JSON report parser
+export {
+  type ASTReportJSONValidationError,
+  type ASTReportJSONValidationResult,
+  ASTReportJSONError,
+  astReportJSONSchema,
+  validateASTReportJSON,
+  parseASTReportJSON,
+} from './json-parser'
+
+// Public API - SARIF reporter
+export {
+  type SARIFReporterOptions,
+  type SARIFLevel,
+  type SARIFLocation,
+  type SARIFRule,
+  type SARIFResult,
+  type SARIFLog,
+  formatASTReportAsSARIF,
+} from './sarif-reporter'
+
+// Public API - HTML reporter
+export {
+  type HTMLReporterOptions,
+  formatASTReportAsHTML,
+} from './html-reporter'
+
+// Public API - JUnit reporter
+export {
+  type JUnitReporterOptions,
+  formatASTReportAsJUnit,
+} from './junit-reporter'
+
+// Public API - checkstyle reporter
+export {
+  type CheckstyleReporterOptions,
+  formatASTReportAsCheckstyle,
+} from './checkstyle-reporter'
+
+// Public API - changelog reporter
+export {
+  type ChangelogTemplates,
+  type ChangelogReporterOptions,
+  formatASTReportAsChangelog,
+} from './changelog-reporter'
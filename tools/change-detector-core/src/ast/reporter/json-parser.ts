@@ -0,0 +1,641 @@
+/**
+ * Parser for JSON reports.
+ *
+ * This module loads reports produced by the JSON reporter back into
+ * {@link ASTComparisonReport}s, so that a report produced in one job can be
+ * consumed, merged with other reports or re-rendered in another. Reports are
+ * described by {@link astReportJSONSchema} and checked with
+ * {@link validateASTReportJSON}.
+ *
+ * @example
+ * ```ts
+ * const reports = files.map((file) =>
+ *   parseASTReportJSON(readFileSync(file, 'utf-8')),
+ * )
+ * const merged = createASTComparisonReport(
+ *   reports.flatMap((report) => report.changes),
+ * )
+ * console.log(formatASTReportAsMarkdown(merged))
+ * ```
+ */
+
+import type { ReleaseType } from '../../types'
+import type {
+  AnalyzableNode,
+  ApiChange,
+  ChangeContext,
+  ChangeDescriptor,
+  ClassifiedChange,
+  NodeKind,
+  SourceRange,
+} from '../types'
+import {
+  changeActions,
+  changeAspects,
+  changeImpacts,
+  changeTags,
+  changeTargets,
+  nodeKinds,
+  releaseTypes,
+} from '../policy-document'
+import { describeAllowed, enumOf, isObject } from '../json-validation'
+import type { ASTComparisonReport } from './types'
+import { createASTComparisonReport } from './types'
+import {
+  AST_REPORT_SCHEMA_URL,
+  AST_REPORT_SCHEMA_VERSION,
+  type ASTChangeJSON,
+  type ASTReportJSON,
+} from './json-reporter'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single validation error of a JSON report.
+ *
+ * @alpha
+ */
+export interface ASTReportJSONValidationError {
+  /**
+   * Dot-notation path to the invalid field.
+   *
+   * @example 'changes.major[0].nestedChanges[1].releaseType'
+   */
+  readonly path: string
+
+  /**
+   * Human-readable error message.
+   */
+  readonly message: string
+}
+
+/**
+ * Result of validating a JSON report.
+ *
+ * @alpha
+ */
+export interface ASTReportJSONValidationResult {
+  /**
+   * Whether the value is a valid JSON report.
+   */
+  readonly valid: boolean
+
+  /**
+   * List of validation errors (empty if valid).
+   */
+  readonly errors: readonly ASTReportJSONValidationError[]
+}
+
+/**
+ * Error thrown when a JSON report cannot be parsed.
+ *
+ * @alpha
+ */
+export class ASTReportJSONError extends Error {
+  /**
+   * The validation errors of the report.
+   */
+  readonly errors: readonly ASTReportJSONValidationError[]
+
+  constructor(
+    message: string,
+    errors: readonly ASTReportJSONValidationError[] = [],
+  ) {
+    super(message)
+    this.name = 'ASTReportJSONError'
+    this.errors = errors
+  }
+}
+
+// =============================================================================
+// JSON Schema
+// =============================================================================
+
+const releaseTypeOrder = Object.keys(releaseTypes) as ReleaseType[]
+
+const position = {
+  type: 'object',
+  properties: {
+    line: { description: '1-based line', type: 'integer', minimum: 1 },
+    column: { description: '0-based column', type: 'integer', minimum: 0 },
+  },
+  required: ['line', 'column'],
+}
+
+/**
+ * JSON Schema (draft-07) of {@link ASTReportJSON}, version
+ * {@link AST_REPORT_SCHEMA_VERSION}.
+ *
+ * The same schema is published as `schemas/report-v1.schema.json` in the
+ * package. Objects may have properties the schema doesn't list, so that
+ * fields can be added without a new version.
+ *
+ * @alpha
+ */
+export const astReportJSONSchema: Readonly<Record<string, unknown>> = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: AST_REPORT_SCHEMA_URL,
+  title: 'Change detector report',
+  description:
+    'API changes between two versions of a package, classified into release types by a policy.',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    schemaVersion: { const: AST_REPORT_SCHEMA_VERSION },
+    policyName: {
+      description: 'Name of the policy the changes were classified with',
+      type: 'string',
+    },
+    releaseType: {
+      description: 'The overall release type',
+      $ref: '#/definitions/releaseType',
+    },
+    stats: {
+      type: 'object',
+      properties: Object.fromEntries(
+        ['total', ...releaseTypeOrder].map((key) => [
+          key,
+          { type: 'integer', minimum: 0 },
+        ]),
+      ),
+      required: ['total', ...releaseTypeOrder],
+    },
+    changes: {
+      description:
+        'Changes grouped by release type, classified nested changes included',
+      type: 'object',
+      properties: Object.fromEntries(
+        releaseTypeOrder.map((key) => [
+          key,
+          { type: 'array', items: { $ref: '#/definitions/change' } },
+        ]),
+      ),
+      required: releaseTypeOrder,
+    },
+  },
+  required: ['schemaVersion', 'releaseType', 'stats', 'changes'],
+  definitions: {
+    releaseType: enumOf(releaseTypes),
+    target: enumOf(changeTargets),
+    action: enumOf(changeActions),
+    aspect: enumOf(changeAspects),
+    impact: enumOf(changeImpacts),
+    tag: enumOf(changeTags),
+    nodeKind: enumOf(nodeKinds),
+    range: {
+      type: 'object',
+      properties: { start: position, end: position },
+      required: ['start', 'end'],
+    },
+    change: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        changeKind: {
+          description:
+            'Descriptor key, "target:action" or "target:action:aspect"',
+          type: 'string',
+        },
+        target: { $ref: '#/definitions/target' },
+        action: { $ref: '#/definitions/action' },
+        aspect: { $ref: '#/definitions/aspect' },
+        impact: { $ref: '#/definitions/impact' },
+        tags: {
+          type: 'array',
+          items: { $ref: '#/definitions/tag' },
+          uniqueItems: true,
+        },
+        nodeKind: { $ref: '#/definitions/nodeKind' },
+        releaseType: { $ref: '#/definitions/releaseType' },
+        ruleId: {
+          description:
+            'Name of the rule that classified the change, or "default-release-type"',
+          type: 'string',
+        },
+        explanation: { type: 'string' },
+        oldLocation: { $ref: '#/definitions/range' },
+        newLocation: { $ref: '#/definitions/range' },
+        oldSignature: { type: 'string' },
+        newSignature: { type: 'string' },
+        matchedRule: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: 'string' },
+            source: { type: 'string' },
+          },
+        },
+        suppression: {
+          type: 'object',
+          properties: {
+            tag: { enum: ['@breakingChangeApproved', '@experimental'] },
+            reason: { type: 'string' },
+            originalReleaseType: { $ref: '#/definitions/releaseType' },
+          },
+          required: ['tag', 'originalReleaseType'],
+        },
+        trace: {
+          description: 'How the policy classified the change',
+          type: 'object',
+        },
+        nestedChanges: {
+          description: 'Nested changes without a release type of their own',
+          type: 'array',
+          items: { $ref: '#/definitions/change' },
+        },
+      },
+      required: [
+        'path',
+        'target',
+        'action',
+        'tags',
+        'nodeKind',
+        'releaseType',
+        'ruleId',
+        'explanation',
+      ],
+    },
+  },
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function validateEnum(
+  value: unknown,
+  allowed: Record<string, true>,
+  path: string,
+  errors: ASTReportJSONValidationError[],
+): void {
+  if (typeof value !== 'string' || !(value in allowed)) {
+    errors.push({ path, message: `Must be one of ${describeAllowed(allowed)}` })
+  }
+}
+
+function validateString(
+  value: unknown,
+  path: string,
+  errors: ASTReportJSONValidationError[],
+): void {
+  if (typeof value !== 'string') {
+    errors.push({ path, message: 'Must be a string' })
+  }
+}
+
+function validateRange(
+  value: unknown,
+  path: string,
+  errors: ASTReportJSONValidationError[],
+): void {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'Location must be an object' })
+    return
+  }
+  for (const end of ['start', 'end']) {
+    const bound = value[end]
+    if (
+      !isObject(bound) ||
+      !Number.isInteger(bound.line) ||
+      (bound.line as number) < 1 ||
+      !Number.isInteger(bound.column) ||
+      (bound.column as number) < 0
+    ) {
+      errors.push({
+        path: `${path}.${end}`,
+        message: 'Must have a 1-based line and a 0-based column',
+      })
+    }
+  }
+}
+
+/**
+ * Validates a single change of a report and its nested changes.
+ */
+function validateChange(
+  value: unknown,
+  path: string,
+  errors: ASTReportJSONValidationError[],
+): void {
+  if (!isObject(value)) {
+    errors.push({ path, message: 'Change must be an object' })
+    return
+  }
+
+  if (typeof value.path !== 'string' || value.path.length === 0) {
+    errors.push({
+      path: `${path}.path`,
+      message: 'Must be a non-empty string',
+    })
+  }
+  validateEnum(value.target, changeTargets, `${path}.target`, errors)
+  validateEnum(value.action, changeActions, `${path}.action`, errors)
+  if (value.aspect !== undefined) {
+    validateEnum(value.aspect, changeAspects, `${path}.aspect`, errors)
+  }
+  if (value.impact !== undefined) {
+    validateEnum(value.impact, changeImpacts, `${path}.impact`, errors)
+  }
+  if (!Array.isArray(value.tags)) {
+    errors.push({ path: `${path}.tags`, message: 'Must be an array' })
+  } else {
+    value.tags.forEach((tag, index) => {
+      validateEnum(tag, changeTags, `${path}.tags[${index}]`, errors)
+    })
+  }
+  validateEnum(value.nodeKind, nodeKinds, `${path}.nodeKind`, errors)
+  validateEnum(value.releaseType, releaseTypes, `${path}.releaseType`, errors)
+  validateString(value.ruleId, `${path}.ruleId`, errors)
+  validateString(value.explanation, `${path}.explanation`, errors)
+
+  for (const key of ['oldLocation', 'newLocation']) {
+    if (value[key] !== undefined) {
+      validateRange(value[key], `${path}.${key}`, errors)
+    }
+  }
+  for (const key of ['oldSignature', 'newSignature']) {
+    if (value[key] !== undefined) {
+      validateString(value[key], `${path}.${key}`, errors)
+    }
+  }
+
+  if (value.matchedRule !== undefined && !isObject(value.matchedRule)) {
+    errors.push({ path: `${path}.matchedRule`, message: 'Must be an object' })
+  }
+
+  if (value.suppression !== undefined) {
+    const { suppression } = value
+    if (!isObject(suppression)) {
+      errors.push({ path: `${path}.suppression`, message: 'Must be an object' })
+    } else {
+      if (
+        suppression.tag !== '@breakingChangeApproved' &&
+        suppression.tag !== '@experimental'
+      ) {
+        errors.push({
+          path: `${path}.suppression.tag`,
+          message: `Must be one of '@breakingChangeApproved', '@experimental'`,
+        })
+      }
+      validateEnum(
+        suppression.originalReleaseType,
+        releaseTypes,
+        `${path}.suppression.originalReleaseType`,
+        errors,
+      )
+    }
+  }
+
+  if (value.trace !== undefined && !isObject(value.trace)) {
+    errors.push({ path: `${path}.trace`, message: 'Must be an object' })
+  }
+
+  if (value.nestedChanges !== undefined) {
+    if (!Array.isArray(value.nestedChanges)) {
+      errors.push({
+        path: `${path}.nestedChanges`,
+        message: 'Must be an array',
+      })
+    } else {
+      value.nestedChanges.forEach((nested, index) => {
+        validateChange(nested, `${path}.nestedChanges[${index}]`, errors)
+      })
+    }
+  }
+}
+
+/**
+ * Validates that a value is a well-formed {@link ASTReportJSON} of the
+ * current {@link AST_REPORT_SCHEMA_VERSION}.
+ *
+ * Checks the same constraints as {@link astReportJSONSchema}.
+ *
+ * @alpha
+ */
+export function validateASTReportJSON(
+  data: unknown,
+): ASTReportJSONValidationResult {
+  const errors: ASTReportJSONValidationError[] = []
+
+  if (!isObject(data)) {
+    errors.push({ path: '', message: 'Report must be an object' })
+    return { valid: false, errors }
+  }
+
+  // Don't report the fields of a report in another format version
+  if (data.schemaVersion !== AST_REPORT_SCHEMA_VERSION) {
+    errors.push({
+      path: 'schemaVersion',
+      message:
+        data.schemaVersion === undefined
+          ? `Missing; reports of this version have schemaVersion ${AST_REPORT_SCHEMA_VERSION}`
+          : `Unsupported version ${JSON.stringify(data.schemaVersion)}; expected ${AST_REPORT_SCHEMA_VERSION}`,
+    })
+    return { valid: false, errors }
+  }
+
+  if (data.$schema !== undefined) {
+    validateString(data.$schema, '$schema', errors)
+  }
+  if (data.policyName !== undefined) {
+    validateString(data.policyName, 'policyName', errors)
+  }
+  validateEnum(data.releaseType, releaseTypes, 'releaseType', errors)
+
+  const { stats, changes } = data
+  if (!isObject(stats)) {
+    errors.push({ path: 'stats', message: 'Stats must be an object' })
+  } else {
+    for (const key of ['total', ...releaseTypeOrder]) {
+      const count = stats[key]
+      if (!Number.isInteger(count) || (count as number) < 0) {
+        errors.push({
+          path: `stats.${key}`,
+          message: 'Must be a non-negative integer',
+        })
+      }
+    }
+  }
+
+  if (!isObject(changes)) {
+    errors.push({ path: 'changes', message: 'Changes must be an object' })
+  } else {
+    for (const releaseType of releaseTypeOrder) {
+      const group = changes[releaseType]
+      if (!Array.isArray(group)) {
+        errors.push({
+          path: `changes.${releaseType}`,
+          message: 'Must be an array',
+        })
+        continue
+      }
+      group.forEach((change, index) => {
+        validateChange(change, `changes.${releaseType}[${index}]`, errors)
+      })
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function toRange(
+  location: ASTChangeJSON['oldLocation'],
+): SourceRange | undefined {
+  if (!location) return undefined
+  // Offsets are not part of the report
+  return {
+    start: { ...location.start, offset: 0 },
+    end: { ...location.end, offset: 0 },
+  }
+}
+
+/**
+ * Builds a node carrying the signature of a change's declaration, which is
+ * all of the node that the reporters use.
+ */
+function toNode(
+  json: ASTChangeJSON,
+  signature: string | undefined,
+  location: SourceRange | undefined,
+): AnalyzableNode | undefined {
+  if (signature === undefined) return undefined
+  const zero = { line: 1, column: 0, offset: 0 }
+  return {
+    path: json.path,
+    name: json.path.split('.').pop()!,
+    kind: json.nodeKind as NodeKind,
+    location: location ?? { start: zero, end: zero },
+    typeInfo: { signature, raw: signature },
+    modifiers: new Set(),
+    children: new Map(),
+  }
+}
+
+/**
+ * Converts a change of a JSON report back to a change. Nested changes are
+ * restored without a release type, as the JSON reporter only nests changes
+ * that have none of their own.
+ */
+function apiChangeFromJSON(
+  json: ASTChangeJSON,
+  ancestors: string[],
+): ApiChange {
+  const descriptor = {
+    target: json.target,
+    action: json.action,
+    ...(json.aspect !== undefined && { aspect: json.aspect }),
+    ...(json.impact !== undefined && { impact: json.impact }),
+    tags: new Set(json.tags),
+  } as ChangeDescriptor
+  const context: ChangeContext = {
+    isNested: ancestors.length > 0,
+    depth: ancestors.length,
+    ancestors,
+  }
+  const oldLocation = toRange(json.oldLocation)
+  const newLocation = toRange(json.newLocation)
+  const oldNode = toNode(json, json.oldSignature, oldLocation)
+  const newNode = toNode(json, json.newSignature, newLocation)
+  const nestedChanges = (json.nestedChanges ?? []).map((nested) =>
+    apiChangeFromJSON(nested, [...ancestors, json.path]),
+  )
+
+  return {
+    descriptor,
+    path: json.path,
+    nodeKind: json.nodeKind as NodeKind,
+    ...(oldLocation && { oldLocation }),
+    ...(newLocation && { newLocation }),
+    ...(oldNode && { oldNode }),
+    ...(newNode && { newNode }),
+    nestedChanges,
+    context,
+    explanation: json.explanation,
+  }
+}
+
+/**
+ * Converts a change of a JSON report back to a classified change.
+ */
+function changeFromJSON(json: ASTChangeJSON): ClassifiedChange {
+  const change: ClassifiedChange = {
+    ...apiChangeFromJSON(json, []),
+    releaseType: json.releaseType,
+  }
+  if (json.matchedRule) {
+    change.matchedRule = { ...json.matchedRule }
+  }
+  if (json.suppression) {
+    change.suppression = {
+      ...json.suppression,
+    } as ClassifiedChange['suppression']
+  }
+  if (json.trace) {
+    change.trace = json.trace
+  }
+  return change
+}
+
+/**
+ * Parses a JSON report back into a comparison report.
+ *
+ * Accepts either the parsed report or its JSON text. The changes of the
+ * report are ordered by release type, from forbidden to none, and carry
+ * what the JSON report records: source locations without offsets, and
+ * declarations with only their signatures. Changes can be re-rendered with
+ * any reporter, or combined with the changes of other reports using
+ * `createASTComparisonReport`.
+ *
+ * @param json - The JSON report or its JSON text
+ * @returns The comparison report
+ * @throws {@link ASTReportJSONError} if the text is not valid JSON or the
+ * value is not a valid report of the current
+ * {@link AST_REPORT_SCHEMA_VERSION}
+ *
+ * @example
+ * ```ts
+ * const report = parseASTReportJSON(readFileSync('api-changes.json', 'utf-8'))
+ * writeFileSync('api-changes.sarif', JSON.stringify(formatASTReportAsSARIF(report)))
+ * ```
+ *
+ * @alpha
+ */
+export function parseASTReportJSON(
+  json: ASTReportJSON | string,
+): ASTComparisonReport {
+  let data: unknown = json
+  if (typeof json === 'string') {
+    try {
+      data = JSON.parse(json)
+    } catch (error) {
+      throw new ASTReportJSONError(
+        `Report is not valid JSON: ${(error as Error).message}`,
+      )
+    }
+  }
+
+  const validation = validateASTReportJSON(data)
+  if (!validation.valid) {
+    const details = validation.errors
+      .map((error) =>
+        error.path ? `${error.path}: ${error.message}` : error.message,
+      )
+      .join('; ')
+    throw new ASTReportJSONError(
+      `Invalid report: ${details}`,
+      validation.errors,
+    )
+  }
+
+  const valid = data as ASTReportJSON
+  const changes = releaseTypeOrder.flatMap((releaseType) =>
+    valid.changes[releaseType].map(changeFromJSON),
+  )
+  return createASTComparisonReport(changes, valid.policyName)
+}
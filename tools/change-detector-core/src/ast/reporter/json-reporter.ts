@@ -3,11 +3,34 @@
  *
  * This module provides functions for formatting AST comparison
  * reports as JSON, suitable for programmatic consumption and tooling.
+ * The format is versioned and described by `astReportJSONSchema`; reports
+ * are loaded back with `parseASTReportJSON`.
  */
 
 import type { ReleaseType } from '../../types'
-import type { ClassifiedChange } from '../types'
+import type { ChangeTag, ClassificationTrace, ClassifiedChange } from '../types'
 import type { ASTReporterOptions, ASTComparisonReport } from './types'
+import { getRuleId, getUnclassifiedNestedChanges } from './types'
+
+/**
+ * Version of the JSON report format.
+ *
+ * @remarks
+ * The version changes when fields are removed, renamed or change meaning.
+ * New optional fields are added without changing it, so consumers should
+ * ignore fields they don't know.
+ *
+ * @alpha
+ */
+export const AST_REPORT_SCHEMA_VERSION = 1
+
+/**
+ * URL of the JSON Schema of the report format, emitted as `$schema`.
+ *
+ * @alpha
+ */
+export const AST_REPORT_SCHEMA_URL =
+  'https://unpkg.com/@api-extractor-tools/change-detector-core/schemas/report-v1.schema.json'
 
 /**
  * JSON-serializable change representation.
@@ -26,8 +49,15 @@ export interface ASTChangeJSON {
   aspect?: string
   /** The semantic impact (widening, narrowing, etc.) */
   impact?: string
+  /** The tags of the change, sorted */
+  tags: ChangeTag[]
   nodeKind: string
   releaseType: ReleaseType
+  /**
+   * Id of the policy rule that classified the change: the rule's name, or
+   * `default-release-type` if no rule matched
+   */
+  ruleId: string
   explanation: string
   oldLocation?: {
     start: { line: number; column: number }
@@ -39,6 +69,23 @@ export interface ASTChangeJSON {
   }
   oldSignature?: string
   newSignature?: string
+  /** The policy rule that classified the change, with its rationale */
+  matchedRule?: {
+    name?: string
+    description?: string
+    source?: string
+  }
+  /** The TSDoc suppression applied to the release type */
+  suppression?: {
+    /** The TSDoc tag that suppressed the change */
+    tag: string
+    /** The reason given with the tag */
+    reason?: string
+    /** The release type determined by the policy */
+    originalReleaseType: ReleaseType
+  }
+  /** Why the change received its release type, with `includeTrace` */
+  trace?: ClassificationTrace
   nestedChanges?: ASTChangeJSON[]
 }
 
@@ -48,6 +95,12 @@ export interface ASTChangeJSON {
  * @alpha
  */
 export interface ASTReportJSON {
+  /** URL of the JSON Schema of the report, {@link AST_REPORT_SCHEMA_URL} */
+  $schema: string
+  /** Version of the report format, {@link AST_REPORT_SCHEMA_VERSION} */
+  schemaVersion: typeof AST_REPORT_SCHEMA_VERSION
+  /** Name of the policy the changes were classified with, if known */
+  policyName?: string
   releaseType: ReleaseType
   stats: {
     total: number
@@ -93,8 +146,10 @@ function changeToJSON(
     action: descriptor.action,
     aspect: descriptor.aspect,
     impact: descriptor.impact,
+    tags: [...descriptor.tags].sort(),
     nodeKind: change.nodeKind,
     releaseType: change.releaseType ?? 'none',
+    ruleId: getRuleId(change),
     explanation: change.explanation,
   }
 
@@ -132,16 +187,24 @@ function changeToJSON(
     json.newSignature = change.newNode.typeInfo.signature
   }
 
-  if (change.nestedChanges.length > 0 && !options.flattenNested) {
-    // Nested changes may not have releaseType - treat as 'none' if missing
-    json.nestedChanges = change.nestedChanges.map((nested) => {
-      const nestedWithRelease: ClassifiedChange = {
-        ...nested,
-        releaseType:
-          (nested as Partial<ClassifiedChange>).releaseType ?? 'none',
-      }
-      return changeToJSON(nestedWithRelease, options)
-    })
+  if (change.matchedRule) {
+    json.matchedRule = { ...change.matchedRule }
+  }
+
+  if (change.suppression) {
+    json.suppression = { ...change.suppression }
+  }
+
+  if (options.includeTrace && change.trace) {
+    json.trace = change.trace
+  }
+
+  // Classified nested changes are listed under their own release type
+  const nestedChanges = getUnclassifiedNestedChanges(change)
+  if (nestedChanges.length > 0 && !options.flattenNested) {
+    json.nestedChanges = nestedChanges.map((nested) =>
+      changeToJSON(nested, options),
+    )
   }
 
   return json
@@ -150,6 +213,9 @@ function changeToJSON(
 /**
  * Converts an AST comparison report to JSON format.
  *
+ * The report conforms to `astReportJSONSchema` and carries its version in
+ * `schemaVersion`.
+ *
  * @alpha
  */
 export function formatASTReportAsJSON(
@@ -157,6 +223,9 @@ export function formatASTReportAsJSON(
   options: ASTReporterOptions = {},
 ): ASTReportJSON {
   return {
+    $schema: AST_REPORT_SCHEMA_URL,
+    schemaVersion: AST_REPORT_SCHEMA_VERSION,
+    ...(report.policyName !== undefined && { policyName: report.policyName }),
     releaseType: report.releaseType,
     stats: report.stats,
     changes: {
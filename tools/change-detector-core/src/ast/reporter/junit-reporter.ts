@@ -0,0 +1,171 @@
+/**
+ * JUnit XML reporter for AST changes.
+ *
+ * This module formats AST comparison reports as JUnit XML, which CI systems
+ * display as test results. Each changed export becomes a test case that
+ * fails when its changes exceed the allowed release type.
+ */
+
+import type { ReleaseType } from '../../types'
+import type { ClassifiedChange } from '../types'
+import type { ASTReporterOptions, ASTComparisonReport } from './types'
+import {
+  escapeXML,
+  exceedsReleaseType,
+  formatForbiddenRule,
+  formatReleaseType,
+  formatSuppression,
+} from './types'
+import {
+  determineOverallRelease,
+  flattenClassifiedChanges,
+} from '../rule-builder'
+
+/**
+ * Options for the JUnit reporter.
+ *
+ * @alpha
+ */
+export interface JUnitReporterOptions extends ASTReporterOptions {
+  /**
+   * The release type the changes of an export may have without failing its
+   * test case (defaults to 'minor'). Forbidden changes always fail.
+   */
+  allowedReleaseType?: ReleaseType
+  /** Name of the test suite (defaults to 'API changes') */
+  suiteName?: string
+}
+
+interface ExportTestCase {
+  name: string
+  changes: ClassifiedChange[]
+  releaseType: ReleaseType
+}
+
+/**
+ * Groups the changes of a report, nested changes included, by the export
+ * they belong to, in the order the exports first appear.
+ */
+function groupByExport(changes: ClassifiedChange[]): ExportTestCase[] {
+  const groups = new Map<string, ClassifiedChange[]>()
+  for (const change of changes) {
+    const name = change.path.split('.')[0]!
+    const group = groups.get(name)
+    if (group) {
+      group.push(change)
+    } else {
+      groups.set(name, [change])
+    }
+  }
+
+  return [...groups].map(([name, group]) => ({
+    name,
+    changes: group,
+    releaseType: determineOverallRelease(group),
+  }))
+}
+
+/**
+ * Formats the changes of a failed test case, one per line, with the rule
+ * that forbids them and their suppressions.
+ */
+function formatFailureDetails(changes: ClassifiedChange[]): string {
+  const lines: string[] = []
+  for (const change of changes) {
+    lines.push(
+      `[${formatReleaseType(change.releaseType)}] ${change.path}: ${change.explanation}`,
+    )
+    const forbiddenRule = formatForbiddenRule(change)
+    if (forbiddenRule) {
+      lines.push(`  ${forbiddenRule}`)
+    }
+    const suppression = formatSuppression(change)
+    if (suppression) {
+      lines.push(`  ${suppression}`)
+    }
+  }
+  return lines.join('\n')
+}
+
+function formatTestCase(
+  testCase: ExportTestCase,
+  suiteName: string,
+  allowed: ReleaseType,
+  options: JUnitReporterOptions,
+): string {
+  const attributes = [
+    `classname="${escapeXML(suiteName)}"`,
+    `name="${escapeXML(testCase.name)}"`,
+  ]
+  // Removed exports only have a location in the old file
+  const filePath = testCase.changes.some((change) => change.newLocation)
+    ? options.newFilePath
+    : options.oldFilePath
+  if (options.includeLocations !== false && filePath) {
+    attributes.push(`file="${escapeXML(filePath)}"`)
+  }
+
+  if (!exceedsReleaseType(testCase.releaseType, allowed)) {
+    return `    <testcase ${attributes.join(' ')}/>`
+  }
+
+  const failing = testCase.changes.filter((change) =>
+    exceedsReleaseType(change.releaseType, allowed),
+  )
+  const message =
+    testCase.releaseType === 'forbidden'
+      ? `${failing.length} forbidden change(s)`
+      : `${failing.length} change(s) exceed the allowed release type ${formatReleaseType(allowed)}`
+  return [
+    `    <testcase ${attributes.join(' ')}>`,
+    `      <failure message="${escapeXML(message)}" type="${testCase.releaseType}">${escapeXML(formatFailureDetails(failing))}</failure>`,
+    '    </testcase>',
+  ].join('\n')
+}
+
+/**
+ * Formats an AST comparison report as a JUnit XML document.
+ *
+ * Each export with changes becomes a test case, which fails when any of
+ * its changes exceeds `allowedReleaseType`. The failure lists those changes
+ * with the rules that forbid them. Exports whose changes have no impact are
+ * only included with `includeUnchanged`.
+ *
+ * @example
+ * ```ts
+ * const xml = formatASTReportAsJUnit(report, {
+ *   allowedReleaseType: 'minor',
+ *   newFilePath: 'dist/index.d.ts',
+ * })
+ * fs.writeFileSync('api-changes.junit.xml', xml)
+ * ```
+ *
+ * @alpha
+ */
+export function formatASTReportAsJUnit(
+  report: ASTComparisonReport,
+  options: JUnitReporterOptions = {},
+): string {
+  const suiteName = options.suiteName ?? 'API changes'
+  const allowed = options.allowedReleaseType ?? 'minor'
+  const testCases = groupByExport(
+    flattenClassifiedChanges(report.changes),
+  ).filter(
+    (testCase) => testCase.releaseType !== 'none' || options.includeUnchanged,
+  )
+  const failures = testCases.filter((testCase) =>
+    exceedsReleaseType(testCase.releaseType, allowed),
+  ).length
+
+  const counts = `tests="${testCases.length}" failures="${failures}" errors="0"`
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXML(suiteName)}" ${counts}>`,
+    `  <testsuite name="${escapeXML(suiteName)}" ${counts}>`,
+  ]
+  for (const testCase of testCases) {
+    lines.push(formatTestCase(testCase, suiteName, allowed, options))
+  }
+  lines.push('  </testsuite>', '</testsuites>', '')
+  return lines.join('\n')
+}
@@ -8,7 +8,13 @@
 import type { ReleaseType } from '../../types'
 import type { ClassifiedChange } from '../types'
 import type { ASTReporterOptions, ASTComparisonReport } from './types'
-import { formatReleaseType } from './types'
+import {
+  formatClassificationTrace,
+  formatForbiddenRule,
+  formatReleaseType,
+  formatSuppression,
+  getUnclassifiedNestedChanges,
+} from './types'
 
 /**
  * Gets an emoji for a release type.
@@ -63,6 +69,26 @@ function formatChangeAsMarkdown(
   // Explanation
   lines.push(`${indent}  - ${change.explanation}`)
 
+  // Rule that forbids the change
+  const forbiddenRule = formatForbiddenRule(change)
+  if (forbiddenRule) {
+    lines.push(`${indent}  - :no_entry: ${forbiddenRule}`)
+  }
+
+  // TSDoc suppression
+  const suppression = formatSuppression(change)
+  if (suppression) {
+    lines.push(`${indent}  - :white_check_mark: ${suppression}`)
+  }
+
+  // Why the change received its release type
+  if (options.includeTrace && change.trace) {
+    lines.push(`${indent}  - Why:`)
+    for (const line of formatClassificationTrace(change.trace)) {
+      lines.push(`${indent}    - ${line}`)
+    }
+  }
+
   // Code diff
   if (options.showDiff) {
     const oldSig = change.oldNode?.typeInfo.signature
@@ -78,25 +104,16 @@ function formatChangeAsMarkdown(
     }
   }
 
-  // Nested changes
-  if (change.nestedChanges.length > 0 && !options.flattenNested) {
+  // Nested changes without a release type (classified ones are grouped)
+  if (
+    change.nestedChanges.length > 0 &&
+    !options.flattenNested &&
+    options.includeUnchanged !== false
+  ) {
     const maxDepth = options.maxDepth ?? 3
     if (depth < maxDepth) {
-      for (const nested of change.nestedChanges) {
-        // Nested changes may not have releaseType - treat as 'none' if missing
-        const nestedWithRelease: ClassifiedChange = {
-          ...nested,
-          releaseType:
-            (nested as Partial<ClassifiedChange>).releaseType ?? 'none',
-        }
-        if (
-          nestedWithRelease.releaseType !== 'none' ||
-          options.includeUnchanged !== false
-        ) {
-          lines.push(
-            formatChangeAsMarkdown(nestedWithRelease, options, depth + 1),
-          )
-        }
+      for (const nested of getUnclassifiedNestedChanges(change)) {
+        lines.push(formatChangeAsMarkdown(nested, options, depth + 1))
       }
     }
   }
@@ -0,0 +1,336 @@
+/**
+ * SARIF reporter for AST changes.
+ *
+ * This module formats AST comparison reports as SARIF 2.1.0 logs, for
+ * upload to code-scanning dashboards. Each classified change becomes a
+ * result of the policy rule that classified it.
+ */
+
+import type { ReleaseType } from '../../types'
+import type { ClassifiedChange, SourceRange } from '../types'
+import type { ASTReporterOptions, ASTComparisonReport } from './types'
+import { DEFAULT_RULE_ID, getRuleId } from './types'
+import { flattenClassifiedChanges } from '../rule-builder'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for the SARIF reporter.
+ *
+ * @remarks
+ * Results only have locations if the path of their declaration file is
+ * known from `oldFilePath` or `newFilePath`.
+ *
+ * @alpha
+ */
+export interface SARIFReporterOptions extends ASTReporterOptions {
+  /** Name of the tool in the log (defaults to 'change-detector') */
+  toolName?: string
+  /** Version of the tool in the log */
+  toolVersion?: string
+}
+
+/**
+ * SARIF severity level of a result.
+ *
+ * @alpha
+ */
+export type SARIFLevel = 'error' | 'warning' | 'note' | 'none'
+
+/**
+ * A SARIF physical location: a region of a declaration file.
+ *
+ * @alpha
+ */
+export interface SARIFLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string }
+    /** 1-based lines and columns; the end column is exclusive */
+    region: {
+      startLine: number
+      startColumn: number
+      endLine: number
+      endColumn: number
+    }
+  }
+  message?: { text: string }
+}
+
+/**
+ * A SARIF reporting descriptor for a policy rule.
+ *
+ * @alpha
+ */
+export interface SARIFRule {
+  id: string
+  shortDescription: { text: string }
+  /** The rule's rationale */
+  fullDescription?: { text: string }
+  properties?: {
+    /** The policy the rule came from, for composed policies */
+    source?: string
+  }
+}
+
+/**
+ * A SARIF result for a classified change.
+ *
+ * @alpha
+ */
+export interface SARIFResult {
+  ruleId: string
+  ruleIndex: number
+  level: SARIFLevel
+  message: { text: string }
+  locations?: SARIFLocation[]
+  relatedLocations?: SARIFLocation[]
+  /** Identifies the change across runs, from its path and descriptor */
+  partialFingerprints: { 'changeDescriptor/v1': string }
+  /** TSDoc suppressions, e.g. an approved breaking change */
+  suppressions?: Array<{
+    kind: 'inSource'
+    justification?: string
+  }>
+  properties: {
+    path: string
+    nodeKind: string
+    releaseType: ReleaseType
+    target: string
+    action: string
+    aspect?: string
+    impact?: string
+    tags: string[]
+  }
+}
+
+/**
+ * A SARIF 2.1.0 log with a single run of the change detector.
+ *
+ * @alpha
+ */
+export interface SARIFLog {
+  $schema: string
+  version: '2.1.0'
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string
+        version?: string
+        rules: SARIFRule[]
+      }
+    }
+    results: SARIFResult[]
+  }>
+}
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json'
+
+const SARIF_LEVELS: Record<ReleaseType, SARIFLevel> = {
+  forbidden: 'error',
+  major: 'warning',
+  minor: 'note',
+  patch: 'note',
+  none: 'none',
+}
+
+/**
+ * Hashes a string with 64-bit FNV-1a, as 16 hex digits.
+ */
+function fnv1a64(text: string): string {
+  let hash = 0xcbf29ce484222325n
+  for (const char of text) {
+    hash ^= BigInt(char.codePointAt(0)!)
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn
+  }
+  return hash.toString(16).padStart(16, '0')
+}
+
+/**
+ * Fingerprints a change by its path and descriptor, so that a result keeps
+ * its identity across runs even when its declaration moves in the file.
+ * Changes to overloads, which share the path of their function, are told
+ * apart by the positions of their signatures.
+ */
+function fingerprint(change: ClassifiedChange): string {
+  const { target, action, aspect, impact } = change.descriptor
+  const parts = [change.path, target, action, aspect ?? '', impact ?? '']
+  const { overloadIndex } = change.context
+  if (overloadIndex) {
+    parts.push(`${overloadIndex.old ?? ''}:${overloadIndex.new ?? ''}`)
+  }
+  return fnv1a64(parts.join('\0'))
+}
+
+function toLocation(
+  location: SourceRange | undefined,
+  filePath: string | undefined,
+  message?: string,
+): SARIFLocation | undefined {
+  if (!location || !filePath) return undefined
+
+  // Source columns are 0-based, SARIF columns 1-based
+  const sarifLocation: SARIFLocation = {
+    physicalLocation: {
+      artifactLocation: { uri: filePath },
+      region: {
+        startLine: location.start.line,
+        startColumn: location.start.column + 1,
+        endLine: location.end.line,
+        endColumn: location.end.column + 1,
+      },
+    },
+  }
+  if (message) {
+    sarifLocation.message = { text: message }
+  }
+  return sarifLocation
+}
+
+/**
+ * Converts a classified change to a SARIF result. The primary location is
+ * the new declaration, or the old one for removals; a modified declaration
+ * also gets its old declaration as a related location.
+ */
+function changeToResult(
+  change: ClassifiedChange,
+  ruleIndex: number,
+  options: SARIFReporterOptions,
+): SARIFResult {
+  const { descriptor } = change
+  const result: SARIFResult = {
+    ruleId: getRuleId(change),
+    ruleIndex,
+    level: SARIF_LEVELS[change.releaseType],
+    message: { text: change.explanation },
+    partialFingerprints: { 'changeDescriptor/v1': fingerprint(change) },
+    properties: {
+      path: change.path,
+      nodeKind: change.nodeKind,
+      releaseType: change.releaseType,
+      target: descriptor.target,
+      action: descriptor.action,
+      aspect: descriptor.aspect,
+      impact: descriptor.impact,
+      tags: [...descriptor.tags].sort(),
+    },
+  }
+
+  if (options.includeLocations !== false) {
+    const newLocation = toLocation(change.newLocation, options.newFilePath)
+    const oldLocation = toLocation(
+      change.oldLocation,
+      options.oldFilePath,
+      newLocation ? 'Previous declaration' : undefined,
+    )
+    const primary = newLocation ?? oldLocation
+    if (primary) {
+      result.locations = [primary]
+    }
+    if (newLocation && oldLocation) {
+      result.relatedLocations = [oldLocation]
+    }
+  }
+
+  if (change.suppression) {
+    result.suppressions = [
+      {
+        kind: 'inSource',
+        justification: change.suppression.reason ?? change.suppression.tag,
+      },
+    ]
+  }
+
+  return result
+}
+
+/**
+ * Describes the rule that classified a change.
+ */
+function changeToRule(change: ClassifiedChange): SARIFRule {
+  const { matchedRule } = change
+  if (!matchedRule?.name) {
+    return {
+      id: DEFAULT_RULE_ID,
+      shortDescription: {
+        text: 'No rule matched; classified by the default release type of the policy',
+      },
+    }
+  }
+
+  const rule: SARIFRule = {
+    id: matchedRule.name,
+    shortDescription: { text: `Policy rule "${matchedRule.name}"` },
+  }
+  if (matchedRule.description) {
+    rule.fullDescription = { text: matchedRule.description }
+  }
+  if (matchedRule.source) {
+    rule.properties = { source: matchedRule.source }
+  }
+  return rule
+}
+
+/**
+ * Converts an AST comparison report to a SARIF 2.1.0 log.
+ *
+ * Each classified change, nested changes included, becomes a result whose
+ * rule is the policy rule that classified it, and whose level follows its
+ * release type: `error` for forbidden, `warning` for major, `note` for
+ * minor and patch, and `none` for changes without impact, which are only
+ * included with `includeUnchanged`. Results carry a fingerprint derived
+ * from the change's path and descriptor, so that dashboards can track them
+ * across runs.
+ *
+ * @example
+ * ```ts
+ * const sarif = formatASTReportAsSARIF(report, {
+ *   oldFilePath: 'api/old.d.ts',
+ *   newFilePath: 'dist/index.d.ts',
+ * })
+ * fs.writeFileSync('api-changes.sarif', JSON.stringify(sarif, null, 2))
+ * ```
+ *
+ * @alpha
+ */
+export function formatASTReportAsSARIF(
+  report: ASTComparisonReport,
+  options: SARIFReporterOptions = {},
+): SARIFLog {
+  const rules: SARIFRule[] = []
+  const ruleIndexes = new Map<string, number>()
+  const results: SARIFResult[] = []
+
+  for (const change of flattenClassifiedChanges(report.changes)) {
+    if (change.releaseType === 'none' && !options.includeUnchanged) {
+      continue
+    }
+
+    const rule = changeToRule(change)
+    let ruleIndex = ruleIndexes.get(rule.id)
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.push(rule) - 1
+      ruleIndexes.set(rule.id, ruleIndex)
+    }
+    results.push(changeToResult(change, ruleIndex, options))
+  }
+
+  const driver: SARIFLog['runs'][number]['tool']['driver'] = {
+    name: options.toolName ?? 'change-detector',
+    rules,
+  }
+  if (options.toolVersion) {
+    driver.version = options.toolVersion
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{ tool: { driver }, results }],
+  }
+}
@@ -8,7 +8,11 @@
 import type { ClassifiedChange } from '../types'
 import type { ASTReporterOptions, ASTComparisonReport } from './types'
 import {
+  formatClassificationTrace,
+  formatForbiddenRule,
   formatReleaseType,
+  formatSuppression,
+  getUnclassifiedNestedChanges,
   formatLocationRange,
   getColorCode,
   RESET,
@@ -51,6 +55,26 @@ function formatChangeAsText(
   // Explanation
   lines.push(`${indent}  ${change.explanation}`)
 
+  // Rule that forbids the change
+  const forbiddenRule = formatForbiddenRule(change)
+  if (forbiddenRule) {
+    lines.push(`${indent}  ${forbiddenRule}`)
+  }
+
+  // TSDoc suppression
+  const suppression = formatSuppression(change)
+  if (suppression) {
+    lines.push(`${indent}  ${suppression}`)
+  }
+
+  // Why the change received its release type
+  if (options.includeTrace && change.trace) {
+    lines.push(`${indent}  Why:`)
+    for (const line of formatClassificationTrace(change.trace)) {
+      lines.push(`${indent}    ${line}`)
+    }
+  }
+
   // Diff-style before/after
   if (options.showDiff) {
     const oldSig = change.oldNode?.typeInfo.signature
@@ -70,25 +94,16 @@ function formatChangeAsText(
     }
   }
 
-  // Nested changes
-  if (change.nestedChanges.length > 0 && !options.flattenNested) {
+  // Nested changes without a release type (classified ones are grouped)
+  if (
+    change.nestedChanges.length > 0 &&
+    !options.flattenNested &&
+    options.includeUnchanged !== false
+  ) {
     const maxDepth = options.maxDepth ?? 3
     if (change.context.depth < maxDepth) {
-      for (const nested of change.nestedChanges) {
-        // Nested changes may not have releaseType - treat as 'none' if missing
-        const nestedWithRelease: ClassifiedChange = {
-          ...nested,
-          releaseType:
-            (nested as Partial<ClassifiedChange>).releaseType ?? 'none',
-        }
-        if (
-          nestedWithRelease.releaseType !== 'none' ||
-          options.includeUnchanged !== false
-        ) {
-          lines.push(
-            formatChangeAsText(nestedWithRelease, options, `${indent}    `),
-          )
-        }
+      for (const nested of getUnclassifiedNestedChanges(change)) {
+        lines.push(formatChangeAsText(nested, options, `${indent}    `))
       }
     }
   }
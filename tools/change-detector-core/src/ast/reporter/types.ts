@@ -6,7 +6,18 @@
  */
 
 import type { ReleaseType } from '../../types'
-import type { SourceRange, ClassifiedChange } from '../types'
+import type {
+  ApiChange,
+  SourceRange,
+  ClassifiedChange,
+  ClassificationTrace,
+  ConditionTrace,
+} from '../types'
+import {
+  determineOverallRelease,
+  flattenClassifiedChanges,
+  isClassifiedChange,
+} from '../rule-builder'
 
 // =============================================================================
 // Types
@@ -39,6 +50,12 @@ export interface ASTReporterOptions {
 
   /** Whether to show diff-style before/after */
   showDiff?: boolean
+
+  /**
+   * Whether to include a "why" section explaining each classification.
+   * Requires changes classified with `{ trace: true }`.
+   */
+  includeTrace?: boolean
 }
 
 /**
@@ -50,13 +67,19 @@ export interface ASTComparisonReport {
   /** The overall release type */
   releaseType: ReleaseType
 
+  /** Name of the policy the changes were classified with, if known */
+  policyName?: string
+
   /** All classified changes */
   changes: ClassifiedChange[]
 
-  /** Changes grouped by release type */
+  /**
+   * Changes grouped by release type, classified nested changes included
+   * (see `ClassifyOptions.nested`)
+   */
   byReleaseType: Record<ReleaseType, ClassifiedChange[]>
 
-  /** Summary statistics */
+  /** Summary statistics, counting classified nested changes as well */
   stats: {
     total: number
     forbidden: number
@@ -74,10 +97,17 @@ export interface ASTComparisonReport {
 /**
  * Creates a comparison report from classified changes.
  *
+ * Classified nested changes are grouped and counted like top-level ones, so
+ * that every change contributing to the overall release type is listed.
+ *
+ * @param changes - The classified changes
+ * @param policyName - Name of the policy the changes were classified with
+ *
  * @alpha
  */
 export function createASTComparisonReport(
   changes: ClassifiedChange[],
+  policyName?: string,
 ): ASTComparisonReport {
   const byReleaseType: Record<ReleaseType, ClassifiedChange[]> = {
     forbidden: [],
@@ -87,28 +117,18 @@ export function createASTComparisonReport(
     none: [],
   }
 
-  for (const change of changes) {
+  const classified = flattenClassifiedChanges(changes)
+  for (const change of classified) {
     byReleaseType[change.releaseType].push(change)
   }
 
-  // Determine overall release type
-  let releaseType: ReleaseType = 'none'
-  if (byReleaseType.forbidden.length > 0) {
-    releaseType = 'forbidden'
-  } else if (byReleaseType.major.length > 0) {
-    releaseType = 'major'
-  } else if (byReleaseType.minor.length > 0) {
-    releaseType = 'minor'
-  } else if (byReleaseType.patch.length > 0) {
-    releaseType = 'patch'
-  }
-
   return {
-    releaseType,
+    releaseType: determineOverallRelease(classified),
+    ...(policyName !== undefined && { policyName }),
     changes,
     byReleaseType,
     stats: {
-      total: changes.length,
+      total: classified.length,
       forbidden: byReleaseType.forbidden.length,
       major: byReleaseType.major.length,
       minor: byReleaseType.minor.length,
@@ -122,6 +142,19 @@ export function createASTComparisonReport(
 // Formatting Helpers
 // =============================================================================
 
+/**
+ * Gets the nested changes to show inline under a change: those without a
+ * release type of their own, shown as 'none'. Classified nested changes are
+ * listed in the report's `byReleaseType` groups instead.
+ */
+export function getUnclassifiedNestedChanges(
+  change: ApiChange,
+): ClassifiedChange[] {
+  return change.nestedChanges
+    .filter((nested) => !isClassifiedChange(nested))
+    .map((nested) => ({ ...nested, releaseType: 'none' }))
+}
+
 /**
  * Formats release type as a label.
  */
@@ -129,6 +162,148 @@ export function formatReleaseType(releaseType: ReleaseType): string {
   return releaseType.toUpperCase()
 }
 
+/**
+ * Formats the TSDoc suppression of a change, e.g.
+ * "Approved by \@breakingChangeApproved: Renamed for consistency".
+ * Returns undefined if the change is not suppressed.
+ */
+export function formatSuppression(
+  change: ClassifiedChange,
+): string | undefined {
+  const { suppression } = change
+  if (!suppression) return undefined
+
+  const action =
+    suppression.originalReleaseType === change.releaseType
+      ? 'Approved'
+      : `Downgraded from ${formatReleaseType(suppression.originalReleaseType)}`
+  const reason = suppression.reason ? `: ${suppression.reason}` : ''
+  return `${action} by ${suppression.tag}${reason}`
+}
+
+/**
+ * Formats the rule that classified a change as forbidden, with its
+ * rationale, e.g. 'Forbidden by rule "no-removals": Removals need an RFC'.
+ * Returns undefined if the change is not forbidden.
+ *
+ * @alpha
+ */
+export function formatForbiddenRule(
+  change: ClassifiedChange,
+): string | undefined {
+  if (change.releaseType !== 'forbidden') return undefined
+
+  const rule = change.matchedRule
+  if (!rule?.name) {
+    return 'Forbidden by the default release type of the policy'
+  }
+  const rationale = rule.description ? `: ${rule.description}` : ''
+  return `Forbidden by rule "${rule.name}"${rationale}`
+}
+
+/** Rule id of changes classified by the policy's default release type */
+export const DEFAULT_RULE_ID = 'default-release-type'
+
+/**
+ * Gets the id of the rule that classified a change: the name of the matched
+ * rule, or {@link DEFAULT_RULE_ID} if the default release type was used.
+ */
+export function getRuleId(change: ClassifiedChange): string {
+  return change.matchedRule?.name ?? DEFAULT_RULE_ID
+}
+
+const RELEASE_TYPE_PRIORITIES: Record<ReleaseType, number> = {
+  forbidden: 5,
+  major: 4,
+  minor: 3,
+  patch: 2,
+  none: 1,
+}
+
+/**
+ * Checks whether a release type exceeds the allowed release type, e.g.
+ * `major` exceeds `minor`. `forbidden` exceeds every release type.
+ */
+export function exceedsReleaseType(
+  releaseType: ReleaseType,
+  allowed: ReleaseType,
+): boolean {
+  return (
+    releaseType === 'forbidden' ||
+    RELEASE_TYPE_PRIORITIES[releaseType] > RELEASE_TYPE_PRIORITIES[allowed]
+  )
+}
+
+/**
+ * Escapes text for use in XML content and attribute values.
+ */
+export function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+/**
+ * Formats the outcome of a condition, e.g.
+ * "action: modified (expected removed | added)".
+ */
+function formatConditionTrace(condition: ConditionTrace): string {
+  const format = (value: ConditionTrace['actual']): string => {
+    if (value === undefined) return 'none'
+    if (Array.isArray(value)) {
+      return value.length > 0 ? value.join(', ') : 'none'
+    }
+    return String(value)
+  }
+  const expected = Array.isArray(condition.expected)
+    ? condition.expected.join(' | ')
+    : format(condition.expected)
+
+  switch (condition.dimension) {
+    case 'custom':
+      return 'custom matcher'
+    case 'hasTag':
+      return `tags: ${format(condition.actual)} (expected all of ${expected})`
+    case 'hasAnyTag':
+      return `tags: ${format(condition.actual)} (expected any of ${expected})`
+    case 'notTag':
+      return `tags: ${format(condition.actual)} (expected none of ${expected})`
+    default:
+      return `${condition.dimension}: ${format(condition.actual)} (expected ${expected})`
+  }
+}
+
+/**
+ * Formats a classification trace as lines explaining why a change received
+ * its release type: each evaluated rule with its failing conditions, or the
+ * conditions that made it match.
+ */
+export function formatClassificationTrace(
+  trace: ClassificationTrace,
+): string[] {
+  const lines = trace.rules.map((rule) => {
+    const name = rule.source ? `${rule.name} (${rule.source})` : rule.name
+    const header = `#${rule.index + 1} ${name} -> ${formatReleaseType(rule.releaseType)}`
+    const conditions = rule.matched
+      ? rule.conditions
+      : rule.conditions.filter((condition) => !condition.matched)
+    const details =
+      conditions.length > 0
+        ? conditions.map(formatConditionTrace).join('; ')
+        : 'matches any change'
+    return `${header}: ${rule.matched ? 'matched' : 'no match'}, ${details}`
+  })
+  if (trace.usedDefault) {
+    lines.push(
+      `No rule matched; used the default release type of policy "${trace.policyName}"`,
+    )
+  }
+  return lines
+}
+
 /**
  * Formats a source location as a string.
  *
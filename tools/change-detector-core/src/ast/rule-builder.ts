@@ -22,9 +22,14 @@ import type {
   ChangeAspect,
   ChangeImpact,
   ChangeTag,
+  ChangeSuppression,
   ClassifiedChange,
+  ClassificationTrace,
+  ConditionTrace,
+  RuleTrace,
   NodeKind,
 } from './types'
+import { tagNestedChange } from './change-tags'
 
 // =============================================================================
 // Policy Rule Types
@@ -54,6 +59,38 @@ export interface PolicyRule {
 
   /** Optional explanation of why this rule exists */
   rationale?: string
+
+  /**
+   * The conditions the matcher checks, as data. Only set for rules built
+   * without custom matchers, so that the rule can be serialized.
+   */
+  conditions?: RuleConditions
+
+  /**
+   * Name of the policy the rule was taken from, for rules of composed
+   * policies (see {@link extendPolicy} and {@link layerPolicies}).
+   */
+  source?: string
+}
+
+/**
+ * Declarative conditions of a rule, mirroring the {@link RuleBuilder} methods.
+ *
+ * Values within a dimension are OR'd, except `hasTag` whose tags must all be
+ * present. Dimensions are AND'd; an omitted dimension matches any change.
+ *
+ * @alpha
+ */
+export interface RuleConditions {
+  target?: ChangeTarget[]
+  action?: ChangeAction[]
+  aspect?: ChangeAspect[]
+  impact?: ChangeImpact[]
+  nodeKind?: NodeKind[]
+  hasTag?: ChangeTag[]
+  hasAnyTag?: ChangeTag[]
+  notTag?: ChangeTag[]
+  nested?: boolean
 }
 
 /**
@@ -231,12 +268,51 @@ export class RuleBuilder {
    * Completes the rule with the specified release type.
    */
   returns(releaseType: ReleaseType): PolicyRule {
-    return {
+    const policyRule: PolicyRule = {
       name: this.ruleName,
       matches: this.buildMatcher(),
       releaseType,
       rationale: this.ruleRationale,
     }
+    if (this.customMatchers.length === 0) {
+      policyRule.conditions = this.buildConditions()
+    }
+    return policyRule
+  }
+
+  /**
+   * Collects the non-empty conditions as data.
+   */
+  private buildConditions(): RuleConditions {
+    const conditions: RuleConditions = {}
+    if (this.targetConditions.length > 0) {
+      conditions.target = [...this.targetConditions]
+    }
+    if (this.actionConditions.length > 0) {
+      conditions.action = [...this.actionConditions]
+    }
+    if (this.aspectConditions.length > 0) {
+      conditions.aspect = [...this.aspectConditions]
+    }
+    if (this.impactConditions.length > 0) {
+      conditions.impact = [...this.impactConditions]
+    }
+    if (this.nodeKindConditions.length > 0) {
+      conditions.nodeKind = [...this.nodeKindConditions]
+    }
+    if (this.tagConditions.length > 0) {
+      conditions.hasTag = [...this.tagConditions]
+    }
+    if (this.anyTagConditions.length > 0) {
+      conditions.hasAnyTag = [...this.anyTagConditions]
+    }
+    if (this.notTagConditions.length > 0) {
+      conditions.notTag = [...this.notTagConditions]
+    }
+    if (this.nestedCondition !== undefined) {
+      conditions.nested = this.nestedCondition
+    }
+    return conditions
   }
 
   /**
@@ -445,11 +521,173 @@ export interface ClassificationResult extends ClassifiedChange {
   change: ApiChange
 }
 
+/**
+ * Options for classifying changes with a policy.
+ *
+ * @alpha
+ */
+export interface ClassifyOptions {
+  /**
+   * Whether to record how each rule was evaluated in the result's `trace`,
+   * to explain why a change received its release type.
+   */
+  trace?: boolean
+  /**
+   * Whether to classify nested changes as well. Each result's
+   * `nestedChanges` then holds the classifications of the change's nested
+   * changes, tagged 'is-nested-change' as by `flattenChanges`.
+   */
+  nested?: boolean
+}
+
+/**
+ * Checks a change against each dimension of a rule's conditions, mirroring
+ * the matcher built by {@link RuleBuilder}. Every dimension is checked, so
+ * that all failing conditions of a rule are reported.
+ */
+function traceConditions(
+  conditions: RuleConditions,
+  change: ApiChange,
+): ConditionTrace[] {
+  const { descriptor } = change
+  const tags = [...descriptor.tags].sort()
+  const traces: ConditionTrace[] = []
+
+  const oneOf = (
+    dimension: 'target' | 'action' | 'aspect' | 'impact' | 'nodeKind',
+    expected: readonly string[] | undefined,
+    actual: string | undefined,
+  ): void => {
+    if (!expected) return
+    traces.push({
+      dimension,
+      matched: actual !== undefined && expected.includes(actual),
+      expected: [...expected],
+      ...(actual !== undefined && { actual }),
+    })
+  }
+  oneOf('target', conditions.target, descriptor.target)
+  oneOf('action', conditions.action, descriptor.action)
+  oneOf('aspect', conditions.aspect, descriptor.aspect)
+  oneOf('impact', conditions.impact, descriptor.impact)
+  oneOf('nodeKind', conditions.nodeKind, change.nodeKind)
+
+  if (conditions.hasTag) {
+    traces.push({
+      dimension: 'hasTag',
+      matched: conditions.hasTag.every((tag) => descriptor.tags.has(tag)),
+      expected: [...conditions.hasTag],
+      actual: tags,
+    })
+  }
+  if (conditions.hasAnyTag) {
+    traces.push({
+      dimension: 'hasAnyTag',
+      matched: conditions.hasAnyTag.some((tag) => descriptor.tags.has(tag)),
+      expected: [...conditions.hasAnyTag],
+      actual: tags,
+    })
+  }
+  if (conditions.notTag) {
+    traces.push({
+      dimension: 'notTag',
+      matched: !conditions.notTag.some((tag) => descriptor.tags.has(tag)),
+      expected: [...conditions.notTag],
+      actual: tags,
+    })
+  }
+  if (conditions.nested !== undefined) {
+    traces.push({
+      dimension: 'nested',
+      matched: change.context.isNested === conditions.nested,
+      expected: conditions.nested,
+      actual: change.context.isNested,
+    })
+  }
+
+  return traces
+}
+
+/**
+ * Evaluates one rule against a change for a classification trace.
+ *
+ * The rule's matcher decides whether it matched; its declarative conditions,
+ * when present, explain the outcome per dimension.
+ */
+function traceRule(
+  policyRule: PolicyRule,
+  index: number,
+  change: ApiChange,
+): RuleTrace {
+  const matched = policyRule.matches(change)
+  return {
+    index,
+    name: policyRule.name,
+    releaseType: policyRule.releaseType,
+    ...(policyRule.source !== undefined && { source: policyRule.source }),
+    matched,
+    conditions: policyRule.conditions
+      ? traceConditions(policyRule.conditions, change)
+      : [{ dimension: 'custom', matched }],
+  }
+}
+
+/**
+ * Finds the TSDoc suppression for a change classified as major.
+ *
+ * An \@experimental tag on the old declaration, or on an old declaration
+ * containing it, downgrades the change to minor, since consumers of an
+ * experimental API expect it to change. Containing declarations are only
+ * known to nested changes classified with their parent change. A
+ * `@breakingChangeApproved` tag on the new declaration keeps the release
+ * type but records the approval. The approval is scoped to the release that
+ * adds it: a tag the old declaration already had approved an earlier change
+ * and is ignored. For removals, the tag is read from the old declaration.
+ * Forbidden changes are never suppressed.
+ */
+function findSuppression(
+  change: ApiChange,
+  releaseType: ReleaseType,
+  inExperimental: boolean,
+): ChangeSuppression | undefined {
+  if (releaseType !== 'major') {
+    return undefined
+  }
+
+  if (inExperimental || change.oldNode?.metadata?.experimental) {
+    return { tag: '@experimental', originalReleaseType: releaseType }
+  }
+
+  // Approvals the old declaration already had were for an earlier release
+  const metadata =
+    change.newNode && change.oldNode?.metadata?.breakingChangeApproved
+      ? undefined
+      : (change.newNode ?? change.oldNode)?.metadata
+  if (metadata?.breakingChangeApproved) {
+    return {
+      tag: '@breakingChangeApproved',
+      reason: metadata.breakingChangeReason,
+      originalReleaseType: releaseType,
+    }
+  }
+
+  return undefined
+}
+
 /**
  * Applies a policy to classify a single change.
  *
+ * TSDoc suppressions on the changed symbol are applied to the release type
+ * determined by the policy and recorded in the result's `suppression`.
+ * Nested changes are also downgraded by an \@experimental container.
+ *
+ * With `{ trace: true }`, the result's `trace` records every rule evaluated
+ * before the first match and the outcome of each of their conditions.
+ * With `{ nested: true }`, the nested changes are classified too.
+ *
  * @param change - The change to classify
  * @param policy - The policy to apply
+ * @param options - Classification options
  * @returns Classification result with release type and matched rule
  *
  * @alpha
@@ -457,26 +695,77 @@ export interface ClassificationResult extends ClassifiedChange {
 export function classifyChange(
   change: ApiChange,
   policy: Policy,
+  options: ClassifyOptions = {},
 ): ClassificationResult {
-  for (const policyRule of policy.rules) {
-    if (policyRule.matches(change)) {
-      return {
-        ...change,
-        change, // Backward compatibility
+  return classifyWithin(change, policy, options, false)
+}
+
+/**
+ * Classifies a change within its containing declarations, which downgrade
+ * its release type if one of them was \@experimental.
+ */
+function classifyWithin(
+  change: ApiChange,
+  policy: Policy,
+  options: ClassifyOptions,
+  inExperimental: boolean,
+): ClassificationResult {
+  let result: ClassificationResult = {
+    ...change,
+    change, // Backward compatibility
+    releaseType: policy.defaultReleaseType,
+  }
+  const trace: ClassificationTrace | undefined = options.trace
+    ? { policyName: policy.name, rules: [], usedDefault: true }
+    : undefined
+  for (const [index, policyRule] of policy.rules.entries()) {
+    let matched: boolean
+    if (trace) {
+      const ruleTrace = traceRule(policyRule, index, change)
+      trace.rules.push(ruleTrace)
+      matched = ruleTrace.matched
+    } else {
+      matched = policyRule.matches(change)
+    }
+    if (matched) {
+      result = {
+        ...result,
         releaseType: policyRule.releaseType,
         matchedRule: {
           name: policyRule.name,
           description: policyRule.rationale,
+          ...(policyRule.source !== undefined && { source: policyRule.source }),
         },
       }
+      break
     }
   }
+  if (trace) {
+    trace.usedDefault = result.matchedRule === undefined
+    result.trace = trace
+  }
 
-  return {
-    ...change,
-    change, // Backward compatibility
-    releaseType: policy.defaultReleaseType,
+  const suppression = findSuppression(
+    change,
+    result.releaseType,
+    inExperimental,
+  )
+  if (suppression) {
+    result.suppression = suppression
+    if (suppression.tag === '@experimental') {
+      result.releaseType = 'minor'
+    }
+  }
+
+  if (options.nested && change.nestedChanges.length > 0) {
+    const experimental =
+      inExperimental || change.oldNode?.metadata?.experimental === true
+    result.nestedChanges = change.nestedChanges.map((nested) =>
+      classifyWithin(tagNestedChange(nested), policy, options, experimental),
+    )
   }
+
+  return result
 }
 
 /**
@@ -484,6 +773,7 @@ export function classifyChange(
  *
  * @param changes - The changes to classify
  * @param policy - The policy to apply
+ * @param options - Classification options
  * @returns Array of classification results
  *
  * @alpha
@@ -491,13 +781,49 @@ export function classifyChange(
 export function classifyChanges(
   changes: ApiChange[],
   policy: Policy,
+  options: ClassifyOptions = {},
 ): ClassificationResult[] {
-  return changes.map((change) => classifyChange(change, policy))
+  return changes.map((change) => classifyChange(change, policy, options))
+}
+
+/**
+ * Checks whether a change has been classified, i.e. carries a release type.
+ * Nested changes are only classified with `{ nested: true }` (see
+ * `ClassifyOptions.nested`).
+ *
+ * @alpha
+ */
+export function isClassifiedChange(
+  change: ApiChange,
+): change is ClassifiedChange {
+  return 'releaseType' in change
+}
+
+/**
+ * Flattens classified changes and their classified nested changes (see
+ * `ClassifyOptions.nested`) into a single array, each change followed by
+ * its nested changes. Nested changes without a release type are skipped.
+ *
+ * @param changes - The classified changes
+ * @returns The changes with their classified nested changes
+ *
+ * @alpha
+ */
+export function flattenClassifiedChanges(
+  changes: readonly ClassifiedChange[],
+): ClassifiedChange[] {
+  return changes.flatMap((change) => [
+    change,
+    ...flattenClassifiedChanges(
+      change.nestedChanges.filter(isClassifiedChange),
+    ),
+  ])
 }
 
 /**
  * Determines the overall release type from classification results.
  * Returns the highest severity: forbidden \> major \> minor \> patch \> none.
+ * Classified nested changes (see `ClassifyOptions.nested`) count as well.
  *
  * @param results - Array of classified changes or classification results
  * @returns The highest severity release type
@@ -505,7 +831,10 @@ export function classifyChanges(
  * @alpha
  */
 export function determineOverallRelease(
-  results: ReadonlyArray<Pick<ClassifiedChange, 'releaseType'>>,
+  results: ReadonlyArray<
+    Pick<ClassifiedChange, 'releaseType'> &
+      Partial<Pick<ClassifiedChange, 'nestedChanges'>>
+  >,
 ): ReleaseType {
   const priorities: Record<ReleaseType, number> = {
     forbidden: 5,
@@ -519,10 +848,16 @@ export function determineOverallRelease(
   let highestPriority = 1
 
   for (const result of results) {
-    const priority = priorities[result.releaseType]
-    if (priority > highestPriority) {
-      highest = result.releaseType
-      highestPriority = priority
+    const nested = result.nestedChanges?.filter(isClassifiedChange)
+    for (const releaseType of [
+      result.releaseType,
+      ...(nested && nested.length > 0 ? [determineOverallRelease(nested)] : []),
+    ]) {
+      const priority = priorities[releaseType]
+      if (priority > highestPriority) {
+        highest = releaseType
+        highestPriority = priority
+      }
     }
   }
 
@@ -57,7 +57,10 @@ export type NodeKind =
   | 'type-alias'
   | 'enum'
   | 'namespace'
+  | 'global-augmentation' // declare global { ... }
+  | 'ambient-module' // declare module 'x' { ... }
   | 'variable'
+  | 'unique-symbol' // const declared with the unique symbol type
   | 'property'
   | 'method'
   | 'parameter'
@@ -68,6 +71,7 @@ export type NodeKind =
   | 'index-signature'
   | 'getter'
   | 'setter'
+  | 'unresolved-export' // re-export whose declaration could not be found
 
 /**
  * Modifiers that can be applied to declarations.
@@ -215,6 +219,14 @@ export interface TypeInfo {
 // Analyzable Node Types
 // =============================================================================
 
+/**
+ * An API Extractor release tag, from the most to the least public.
+ * Declarations without a release tag are public.
+ *
+ * @alpha
+ */
+export type ReleaseTag = 'public' | 'beta' | 'alpha' | 'internal'
+
 /**
  * Metadata extracted from TSDoc comments.
  *
@@ -225,8 +237,22 @@ export interface NodeMetadata {
   deprecated: boolean
   /** Deprecation message if provided */
   deprecationMessage?: string
+  /**
+   * Version the symbol was deprecated in, from a deprecation message such as
+   * "Deprecated since 2.1.0" or "2.1.0: Use bar() instead", or else from a
+   * `@since` tag
+   */
+  deprecatedSince?: string
   /** Default value from \@default or \@defaultValue tag */
   defaultValue?: string
+  /** Whether breaking changes to the symbol are approved by a `@breakingChangeApproved` tag */
+  breakingChangeApproved?: boolean
+  /** Reason given with the `@breakingChangeApproved` tag */
+  breakingChangeReason?: string
+  /** Whether the symbol is marked \@experimental */
+  experimental?: boolean
+  /** Release tag from a \@public, \@beta, \@alpha or \@internal modifier */
+  releaseTag?: ReleaseTag
   /** Full TSDoc comment text */
   rawComment?: string
 }
@@ -274,6 +300,19 @@ export interface AnalyzableNode {
   /** Heritage clause - types that this class implements */
   implements?: string[]
 
+  /**
+   * For exports whose exported name differs from the declaration's name
+   * (e.g., `export { Foo as Bar }` or `export = Foo`), the local name of
+   * the declaration.
+   */
+  localName?: string
+
+  /**
+   * The file the declaration was found in, when it was re-exported from
+   * a module other than the one being analyzed.
+   */
+  sourceFile?: string
+
   /**
    * Raw AST node for advanced analysis.
    * Note: This should not be serialized; use for runtime analysis only.
@@ -344,6 +383,7 @@ export type ChangeTarget =
   | 'index-signature' // Index signature [key: T]: V
   | 'constructor' // Class constructor
   | 'accessor' // Getter/setter
+  | 'overload' // One signature of an overloaded function/method
 
 /**
  * What happened to the target construct.
@@ -355,6 +395,7 @@ export type ChangeAction =
   | 'removed' // Target was removed (no longer exists)
   | 'modified' // Target exists in both, but something changed
   | 'renamed' // Target was renamed (detected via similarity)
+  | 'moved' // Target moved to another path, e.g. into a namespace
   | 'reordered' // Target position changed (e.g., parameter order)
 
 /**
@@ -374,8 +415,11 @@ export type ChangeAspect =
   | 'constraint' // Generic constraint changed
   | 'default-type' // Generic default type changed
   | 'enum-value' // Enum member value changed
+  | 'constness' // Enum const modifier changed
   | 'extends-clause' // Class/interface extends clause changed
   | 'implements-clause' // Class implements clause changed
+  | 'kind-changed' // Declaration kind changed (e.g., interface → type alias)
+  | 'release-tag' // Release tag changed (e.g., @beta → @public)
 
 /**
  * The semantic effect of the change.
@@ -414,6 +458,36 @@ export type ChangeTag =
   | 'has-nested-changes'
   // Generic-related
   | 'affects-type-parameter'
+  // Inheritance
+  | 'inherited-member'
+  | 'uninstantiated-member'
+  // Variance (invariant positions carry both tags)
+  | 'in-input-position'
+  | 'in-output-position'
+  // Capabilities lost by a kind change (interface → type alias)
+  | 'lost-declaration-merging'
+  | 'lost-implements'
+  // Capabilities lost by a kind change (unique symbol → symbol)
+  | 'lost-unique-symbol'
+  // Values of const enum members are inlined into consumer code
+  | 'inlined-value'
+  // Release tag of the changed declaration (see ReleaseTag)
+  | 'is-alpha'
+  | 'is-beta'
+  | 'is-internal'
+
+/**
+ * Polarity of the position a changed type appears in.
+ *
+ * - `covariant`: output position, read by consumers (return types,
+ *   readonly properties, exported variables)
+ * - `contravariant`: input position, written by consumers (parameters)
+ * - `invariant`: both read and written (mutable properties, callback
+ *   parameters, type aliases)
+ *
+ * @alpha
+ */
+export type VariancePolarity = 'covariant' | 'contravariant' | 'invariant'
 
 /**
  * Base properties shared by all change descriptors.
@@ -472,6 +546,17 @@ export interface RenamedDescriptor extends ChangeDescriptorBase {
   impact?: never
 }
 
+/**
+ * Descriptor for 'moved' actions.
+ *
+ * @alpha
+ */
+export interface MovedDescriptor extends ChangeDescriptorBase {
+  action: 'moved'
+  aspect?: never
+  impact?: never
+}
+
 /**
  * Descriptor for 'reordered' actions.
  *
@@ -495,6 +580,7 @@ export type ChangeDescriptor =
   | RemovedDescriptor
   | ModifiedDescriptor
   | RenamedDescriptor
+  | MovedDescriptor
   | ReorderedDescriptor
 
 /**
@@ -515,12 +601,33 @@ export interface ChangeContext {
   /** For renames: confidence score (0-1) */
   renameConfidence?: number
 
+  /** For moves: confidence score (0-1) */
+  moveConfidence?: number
+
+  /** For aliased exports: the local name of the declaration */
+  localName?: string
+
+  /**
+   * For inherited members (see {@link DiffOptions.flattenInheritedMembers}):
+   * path of the class or interface the member is inherited from
+   */
+  inheritedFrom?: string
+
+  /** For overload changes: position of the signature among the overloads */
+  overloadIndex?: {
+    old?: number
+    new?: number
+  }
+
   /** For modifier changes: which modifier changed */
   modifierChange?: {
     modifier: Modifier
     direction: 'added' | 'removed'
   }
 
+  /** For type changes: polarity of the position the type changed in */
+  polarity?: VariancePolarity
+
   /** Old type signature (for type changes) */
   oldType?: string
 
@@ -586,7 +693,103 @@ export interface ClassifiedChange extends ApiChange {
     name?: string
     /** Description of why the rule matched */
     description?: string
+    /** Name of the policy the rule came from, for composed policies */
+    source?: string
   }
+
+  /** The TSDoc suppression applied to the release type, if any */
+  suppression?: ChangeSuppression
+
+  /**
+   * How the policy's rules were evaluated for this change. Only set when
+   * classifying with `{ trace: true }`.
+   */
+  trace?: ClassificationTrace
+}
+
+/**
+ * The outcome of checking one dimension of a rule's conditions against a
+ * change.
+ *
+ * `custom` stands for the whole rule of a rule built with custom matchers,
+ * whose conditions cannot be inspected individually.
+ *
+ * @alpha
+ */
+export interface ConditionTrace {
+  /** The condition checked, named after the rule builder method */
+  dimension:
+    | 'target'
+    | 'action'
+    | 'aspect'
+    | 'impact'
+    | 'nodeKind'
+    | 'hasTag'
+    | 'hasAnyTag'
+    | 'notTag'
+    | 'nested'
+    | 'custom'
+  /** Whether the change satisfied the condition */
+  matched: boolean
+  /** The values the rule accepts */
+  expected?: string[] | boolean
+  /** The change's value for the dimension (tags are sorted) */
+  actual?: string | string[] | boolean
+}
+
+/**
+ * The evaluation of one policy rule against a change.
+ *
+ * @alpha
+ */
+export interface RuleTrace {
+  /** Position of the rule in the policy's rule list */
+  index: number
+  /** Name of the rule */
+  name: string
+  /** The release type the rule assigns */
+  releaseType: ReleaseType
+  /** The policy the rule came from, for composed policies */
+  source?: string
+  /** Whether the rule matched the change */
+  matched: boolean
+  /** The outcome of each of the rule's conditions */
+  conditions: ConditionTrace[]
+}
+
+/**
+ * Why a change received its release type: the rules evaluated in order, up
+ * to and including the first one that matched.
+ *
+ * @alpha
+ */
+export interface ClassificationTrace {
+  /** Name of the policy */
+  policyName: string
+  /** The evaluated rules, in policy order */
+  rules: RuleTrace[]
+  /** Whether no rule matched and the policy's default release type was used */
+  usedDefault: boolean
+}
+
+/**
+ * A TSDoc tag on a changed symbol that approves or downgrades the release
+ * type the policy determined for a breaking change.
+ *
+ * - `@breakingChangeApproved <reason>` records that the breaking change is
+ *   intentional; the release type is kept. Only a tag added in the release
+ *   approves its changes
+ * - `@experimental` downgrades breaking changes to minor
+ *
+ * @alpha
+ */
+export interface ChangeSuppression {
+  /** The TSDoc tag that suppressed the change */
+  tag: '@breakingChangeApproved' | '@experimental'
+  /** The reason given with the tag, if any */
+  reason?: string
+  /** The release type determined by the policy */
+  originalReleaseType: ReleaseType
 }
 
 // =============================================================================
@@ -609,6 +812,29 @@ export interface ParseOptions {
   extractMetadata?: boolean
 }
 
+/**
+ * Options for parsing a set of declaration files with type resolution.
+ *
+ * @alpha
+ */
+export interface MultiFileParseOptions extends Omit<ParseOptions, 'filename'> {
+  /**
+   * The file whose exports form the analyzed API surface.
+   * Must be one of the keys of the file map.
+   */
+  entryPoint: string
+
+  /**
+   * Contents of the TypeScript `lib.*.d.ts` files, keyed by file name
+   * (e.g., 'lib.es5.d.ts').
+   *
+   * When omitted, lib files are read through `tsModule.sys` if it is
+   * available (Node.js). In environments without a file system the lib
+   * files are stubbed as empty, so standard library types resolve to `any`.
+   */
+  libFiles?: ReadonlyMap<string, string>
+}
+
 /**
  * Options for comparing two module analyses.
  *
@@ -618,6 +844,12 @@ export interface DiffOptions {
   /** Threshold for rename detection (0-1, default 0.8) */
   renameThreshold?: number
 
+  /**
+   * Threshold for move detection (0-1, default 0.8): declarations that keep
+   * their name but move between the top level and namespaces
+   */
+  moveThreshold?: number
+
   /** Whether to include nested member changes */
   includeNestedChanges?: boolean
 
@@ -629,6 +861,19 @@ export interface DiffOptions {
 
   /** Whether to detect parameter reordering (default: true) */
   detectParameterReordering?: boolean
+
+  /**
+   * Whether to compare the effective members of classes and interfaces,
+   * including members inherited through `extends` from declarations in the
+   * analyzed files (default: false).
+   *
+   * Inherited members that are added or removed are reported as nested
+   * changes with the 'inherited-member' tag and the declaring base in
+   * `context.inheritedFrom`. Members of generic bases keep the types of the
+   * base's declaration, without the type arguments of the `extends` clause,
+   * and are tagged 'uninstantiated-member'.
+   */
+  flattenInheritedMembers?: boolean
 }
 
 /**
@@ -639,6 +884,9 @@ export interface DiffContext {
   /** TypeScript type checker for semantic analysis */
   checker: import('typescript').TypeChecker
 
+  /** TypeScript type checker of the old analysis, for types of old symbols */
+  oldChecker: import('typescript').TypeChecker
+
   /** Resolved diff options */
   options: Required<DiffOptions>
 
@@ -647,4 +895,10 @@ export interface DiffContext {
 
   /** Map from node paths to ts.Symbol for type lookups */
   newSymbols: Map<string, import('typescript').Symbol>
+
+  /** All nodes of the old analysis, for resolving heritage clauses */
+  oldNodes: Map<string, AnalyzableNode>
+
+  /** All nodes of the new analysis, for resolving heritage clauses */
+  newNodes: Map<string, AnalyzableNode>
 }
@@ -58,6 +58,21 @@ export type {
   ValidationWarning,
 } from './dsl-types/index'
 
+// Grammar types
+export type {
+  IntentSourceSpan,
+  IntentSyntaxError,
+  IntentChangeKind,
+  IntentVerdict,
+  IntentStatement,
+  IntentModifier,
+  IntentQualifier,
+  IntentCondition,
+  IntentClause,
+  IntentSyntaxTree,
+  IntentSyntaxResult,
+} from './dsl-types/index'
+
 // Utilities
 export {
   COMMON_PATTERNS,
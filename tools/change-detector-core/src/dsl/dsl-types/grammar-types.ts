@@ -0,0 +1,183 @@
+/**
+ * Syntax tree types for the intent expression grammar.
+ *
+ * These types describe the result of parsing an intent expression such as
+ * `'property removal is breaking when nested and not deprecated'` into a
+ * statement (what changed and how it is classified) and condition clauses
+ * combined with `and`, `or` and `not`.
+ */
+
+import type { ChangeTag, ChangeTarget, NodeKind } from '../../ast/types'
+
+// =============================================================================
+// Source Positions
+// =============================================================================
+
+/**
+ * A range of characters in an intent expression.
+ *
+ * @alpha
+ */
+export interface IntentSourceSpan {
+  /** Offset of the first character (0-based) */
+  start: number
+  /** Offset after the last character */
+  end: number
+}
+
+/**
+ * A syntax error in an intent expression.
+ *
+ * @alpha
+ */
+export interface IntentSyntaxError extends IntentSourceSpan {
+  /** Description of the error, including its column */
+  message: string
+}
+
+// =============================================================================
+// Statements
+// =============================================================================
+
+/**
+ * The kind of change an intent statement is about.
+ *
+ * @alpha
+ */
+export type IntentChangeKind =
+  | 'removal'
+  | 'addition'
+  | 'rename'
+  | 'move'
+  | 'reorder'
+  | 'deprecation'
+  | 'type-change'
+  | 'type-narrowing'
+  | 'type-widening'
+  | 'making-optional'
+  | 'making-required'
+
+/**
+ * How an intent statement classifies a change: `breaking` and `safe`, or
+ * a release type.
+ *
+ * @alpha
+ */
+export type IntentVerdict =
+  | 'breaking'
+  | 'safe'
+  | 'forbidden'
+  | 'major'
+  | 'minor'
+  | 'patch'
+  | 'none'
+
+/**
+ * The statement of an intent expression, e.g. `'optional addition is safe'`.
+ *
+ * @alpha
+ */
+export interface IntentStatement {
+  /** The kind of change */
+  change: IntentChangeKind
+  /** The target named in the statement, e.g. `property` in `'property removal'` */
+  target?: ChangeTarget
+  /** The optionality named in the statement, e.g. `'required addition'` */
+  modifier?: 'optional' | 'required'
+  /** The verdict, from a leading `breaking`/`safe` or a trailing `is ...` */
+  verdict: IntentVerdict
+  /** Position of the statement */
+  span: IntentSourceSpan
+}
+
+// =============================================================================
+// Conditions
+// =============================================================================
+
+/**
+ * Properties of a symbol that conditions can name but that have no change
+ * dimension, e.g. `deprecated` or `public`.
+ *
+ * @alpha
+ */
+export type IntentModifier =
+  | 'public'
+  | 'exported'
+  | 'deprecated'
+  | 'experimental'
+  | 'optional'
+  | 'required'
+  | 'readonly'
+  | 'static'
+  | 'abstract'
+
+/**
+ * A single word or phrase of a condition, resolved to the dimension it
+ * constrains.
+ *
+ * @alpha
+ */
+export type IntentQualifier =
+  | { dimension: 'nested'; value: boolean }
+  | { dimension: 'target'; value: ChangeTarget }
+  | { dimension: 'nodeKind'; value: NodeKind }
+  | { dimension: 'tag'; value: ChangeTag }
+  | { dimension: 'modifier'; value: IntentModifier }
+
+/**
+ * A condition of an intent expression.
+ *
+ * Adjacent qualifiers are combined with `and`, so `'optional properties'`
+ * parses the same as `'optional and properties'`.
+ *
+ * @alpha
+ */
+export type IntentCondition =
+  | {
+      kind: 'and' | 'or'
+      operands: IntentCondition[]
+      span: IntentSourceSpan
+    }
+  | { kind: 'not'; operand: IntentCondition; span: IntentSourceSpan }
+  | {
+      kind: 'qualifier'
+      qualifier: IntentQualifier
+      /** The words of the qualifier as written */
+      text: string
+      span: IntentSourceSpan
+    }
+
+/**
+ * A condition clause: `when`, `unless` (a negated `when`) or `for`.
+ *
+ * @alpha
+ */
+export interface IntentClause {
+  /** The keyword introducing the clause */
+  keyword: 'when' | 'unless' | 'for'
+  /** The condition following the keyword */
+  condition: IntentCondition
+  /** Position of the clause, including its keyword */
+  span: IntentSourceSpan
+}
+
+/**
+ * The syntax tree of an intent expression.
+ *
+ * @alpha
+ */
+export interface IntentSyntaxTree {
+  /** The statement before the first clause */
+  statement: IntentStatement
+  /** The condition clauses, all of which must hold */
+  clauses: IntentClause[]
+}
+
+/**
+ * Result of parsing the syntax of an intent expression.
+ *
+ * @alpha
+ */
+export type IntentSyntaxResult =
+  | { success: true; tree: IntentSyntaxTree }
+  | { success: false; errors: IntentSyntaxError[] }
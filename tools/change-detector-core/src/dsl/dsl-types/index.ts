@@ -27,6 +27,21 @@ export type {
   ValidationWarning,
 } from './result-types'
 
+// Grammar types
+export type {
+  IntentSourceSpan,
+  IntentSyntaxError,
+  IntentChangeKind,
+  IntentVerdict,
+  IntentStatement,
+  IntentModifier,
+  IntentQualifier,
+  IntentCondition,
+  IntentClause,
+  IntentSyntaxTree,
+  IntentSyntaxResult,
+} from './grammar-types'
+
 // Utilities
 export {
   COMMON_PATTERNS,
@@ -11,6 +11,7 @@ import type {
   DimensionalRule,
   DSLRule,
 } from './rule-types'
+import type { IntentSyntaxError, IntentSyntaxTree } from './grammar-types'
 
 // =============================================================================
 // Transformation Types
@@ -19,8 +20,9 @@ import type {
 /**
  * Result of parsing an intent expression into a pattern rule.
  *
- * When parsing fails, `errors` contains the reasons and `suggestions`
- * may contain corrected expressions based on Levenshtein distance matching.
+ * When parsing fails, `errors` contains the reasons, `syntaxErrors` their
+ * positions in the expression, and `suggestions` may contain corrected
+ * expressions based on Levenshtein distance matching.
  *
  * @see {@link parseIntent} for the parsing function
  *
@@ -51,6 +53,10 @@ export interface IntentParseResult {
   errors?: string[]
   /** Suggested corrections for typos or invalid expressions */
   suggestions?: string[]
+  /** The syntax tree of the expression (when successful) */
+  syntax?: IntentSyntaxTree
+  /** Syntax errors with their positions in the expression (when unsuccessful) */
+  syntaxErrors?: IntentSyntaxError[]
 }
 
 /**
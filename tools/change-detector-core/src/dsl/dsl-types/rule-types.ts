@@ -16,6 +16,8 @@ import type {
   ChangeTag,
   NodeKind,
 } from '../../ast/types'
+import type { ChangeMatcher } from '../../ast/rule-builder'
+import type { IntentVerdict } from './grammar-types'
 
 // =============================================================================
 // Level 1: Intent-based DSL
@@ -53,11 +55,28 @@ import type {
  * **Common Patterns:**
  * - `'deprecation is patch'` - Deprecations result in patch releases
  * - `'rename is breaking'` - Renames are breaking changes
+ * - `'move is breaking'` - Moves into or out of namespaces are breaking
  * - `'reorder is breaking'` - Reordering parameters is breaking
  *
  * **Conditional Patterns:**
  * - `'breaking removal when nested'` - Conditional expressions using "when"
  * - `'safe addition unless required'` - Conditional expressions using "unless"
+ * - `'type change is minor for enum members or optional properties'` -
+ *   Conditions restricting the targets or node kinds using "for"
+ *
+ * **Composed Expressions:**
+ *
+ * Expressions follow a grammar (see {@link parseIntentSyntax}): any change
+ * (`removal`, `addition`, `type change`, ...) can be qualified with a target
+ * and given a verdict (`breaking`, `safe`, or a release type), and conditions
+ * combine qualifiers with `and`, `or`, `not` and parentheses:
+ *
+ * - `'property removal is breaking when nested and not deprecated'`
+ * - `'type narrowing is major when (properties or parameters) and not inherited'`
+ *
+ * Conditions compile to the nesting, targets, node kinds and tags of a
+ * dimensional rule, and to its `matcher` where those can't express them, e.g.
+ * for modifiers such as `deprecated`.
  *
  * @example
  * ```typescript
@@ -96,11 +115,15 @@ export type IntentExpression =
   // Common patterns
   | 'deprecation is patch'
   | 'rename is breaking'
+  | 'move is breaking'
   | 'reorder is breaking'
 
+  // Composed expressions
+  | `${string} is ${IntentVerdict}`
   // Conditional expressions
   | `${string} when ${string}`
   | `${string} unless ${string}`
+  | `${string} for ${string}`
 
 /**
  * Intent-based rule definition.
@@ -148,6 +171,7 @@ export interface IntentRule {
  * - `'added {target}'` - Something was added
  * - `'removed {target}'` - Something was removed
  * - `'renamed {target}'` - Something was renamed
+ * - `'moved {target}'` - Something was moved to another path
  * - `'reordered {target}'` - Something was reordered
  * - `'modified {target}'` - Something was modified
  *
@@ -193,6 +217,7 @@ export type PatternTemplate =
   | 'added {target}'
   | 'removed {target}'
   | 'renamed {target}'
+  | 'moved {target}'
   | 'reordered {target}'
   | 'modified {target}'
 
@@ -307,11 +332,13 @@ export interface PatternRule {
  * - `'type-parameter'` - Generic type parameters
  * - `'method'` - Class methods
  * - `'constructor'` - Class constructors
+ * - `'overload'` - Individual signatures of overloaded functions/methods
  *
  * **Actions** (`ChangeAction`):
  * - `'added'` - Something was added
  * - `'removed'` - Something was removed
  * - `'renamed'` - Something was renamed
+ * - `'moved'` - Something was moved to another path
  * - `'reordered'` - Order was changed
  * - `'modified'` - Something was modified
  *
@@ -344,6 +371,10 @@ export interface PatternRule {
  * - `'type-alias'` - Type alias declarations
  * - `'variable'` - Variable declarations
  * - `'namespace'` - Namespace declarations
+ * - `'global-augmentation'` - `declare global` blocks
+ * - `'ambient-module'` - `declare module 'x'` blocks
+ * - `'unique-symbol'` - Constants of type `unique symbol`
+ * - `'unresolved-export'` - Re-exports whose declaration could not be found
  *
  * @example
  * ```typescript
@@ -390,6 +421,12 @@ export interface DimensionalRule {
   nodeKind?: NodeKind[]
   /** Whether this rule applies to nested changes */
   nested?: boolean
+  /**
+   * Conditions the other dimensions can't express, e.g. the `deprecated`
+   * modifier of a compiled intent condition. Rules with a matcher can't be
+   * serialized to a policy document.
+   */
+  matcher?: ChangeMatcher
   /** The release type to use when this rule matches */
   returns: ReleaseType
   /** Optional human-readable description */
@@ -45,6 +45,7 @@ export const COMMON_PATTERNS = {
   // Special patterns
   DEPRECATION: '{target} deprecated' as PatternTemplate,
   RENAME: 'renamed {target}' as PatternTemplate,
+  MOVE: 'moved {target}' as PatternTemplate,
   REORDER: 'reordered {target}' as PatternTemplate,
 } as const
 
@@ -57,6 +58,7 @@ export const COMMON_INTENTS = {
   // Breaking changes
   BREAKING_REMOVAL: 'breaking removal' as IntentExpression,
   BREAKING_RENAME: 'rename is breaking' as IntentExpression,
+  BREAKING_MOVE: 'move is breaking' as IntentExpression,
   BREAKING_REQUIRED: 'required addition is breaking' as IntentExpression,
   BREAKING_NARROWING: 'type narrowing is breaking' as IntentExpression,
 
@@ -51,11 +51,15 @@
  * - {@link compilePattern} - Pattern → Dimensional
  * - {@link decompileToPattern} - Dimensional → Pattern
  * - {@link synthesizeIntent} - Pattern → Intent
+ * - {@link compilePolicy} - DSL policy → Policy
  */
 
 // Core type definitions
 export * from './dsl-types'
 
+// Intent grammar
+export { parseIntentSyntax, formatIntentCondition } from './intent-grammar'
+
 // Intent parsing (Intent → Pattern)
 export * from './intent-parser'
 
@@ -68,5 +72,8 @@ export * from './pattern-decompiler'
 // Intent synthesis (Pattern → Intent)
 export * from './intent-synthesizer'
 
+// Policy compilation (DSL policy → Policy)
+export * from './policy-compiler'
+
 // Rule builder integration
 export * from './rule-builder-v2'
@@ -0,0 +1,653 @@
+/**
+ * Intent Expression Grammar
+ *
+ * Tokenizes and parses intent expressions into a syntax tree. An expression
+ * is a statement about a kind of change, optionally followed by condition
+ * clauses:
+ *
+ * ```text
+ * expression := statement clause*
+ * statement  := ['breaking' | 'safe'] subject ['is' verdict]
+ * subject    := 'making' ('optional' | 'required')
+ *             | ['optional' | 'required'] [target] change
+ * clause     := ('when' | 'unless' | 'for') condition
+ * condition  := conjunction ('or' conjunction)*
+ * conjunction:= term ('and' term)*
+ * term       := factor+
+ * factor     := 'not' factor | '(' condition ')' | qualifier
+ * ```
+ *
+ * A statement needs a verdict, either leading (`'breaking removal'`) or
+ * trailing (`'export removal is breaking'`). Qualifiers name nesting
+ * (`nested`, `top-level`), targets and node kinds in singular or plural
+ * (`properties`, `enum members`, `classes`), change tags (`now-optional`,
+ * `inherited`) and symbol modifiers (`deprecated`, `public`).
+ *
+ * Expressions are case-sensitive and words are separated by single spaces.
+ *
+ * @example
+ * ```typescript
+ * const result = parseIntentSyntax(
+ *   'type change is minor for enum members or optional propertys',
+ * )
+ * if (!result.success) {
+ *   for (const error of result.errors) {
+ *     console.log(error.message) // 'Unknown condition "propertys" at column 51'
+ *   }
+ * }
+ * ```
+ */
+
+import type {
+  IntentChangeKind,
+  IntentClause,
+  IntentCondition,
+  IntentQualifier,
+  IntentSourceSpan,
+  IntentStatement,
+  IntentSyntaxError,
+  IntentSyntaxResult,
+  IntentVerdict,
+} from './dsl-types'
+import type { ChangeTag, ChangeTarget, NodeKind } from '../ast/types'
+
+// =============================================================================
+// Vocabulary
+// =============================================================================
+
+const CHANGES: Readonly<Record<string, IntentChangeKind>> = {
+  removal: 'removal',
+  addition: 'addition',
+  rename: 'rename',
+  move: 'move',
+  reorder: 'reorder',
+  deprecation: 'deprecation',
+  change: 'type-change',
+  'type change': 'type-change',
+  narrowing: 'type-narrowing',
+  'type narrowing': 'type-narrowing',
+  widening: 'type-widening',
+  'type widening': 'type-widening',
+}
+
+const VERDICTS: Readonly<Record<string, IntentVerdict>> = {
+  breaking: 'breaking',
+  safe: 'safe',
+  forbidden: 'forbidden',
+  major: 'major',
+  minor: 'minor',
+  patch: 'patch',
+  none: 'none',
+}
+
+/** Targets by singular and plural name */
+const TARGETS: ReadonlyArray<[string, string, ChangeTarget]> = [
+  ['export', 'exports', 'export'],
+  ['member', 'members', 'property'],
+  ['property', 'properties', 'property'],
+  ['parameter', 'parameters', 'parameter'],
+  ['method', 'methods', 'method'],
+  ['constructor', 'constructors', 'constructor'],
+  ['accessor', 'accessors', 'accessor'],
+  ['overload', 'overloads', 'overload'],
+  ['enum member', 'enum members', 'enum-member'],
+  ['return type', 'return types', 'return-type'],
+  ['type parameter', 'type parameters', 'type-parameter'],
+  ['index signature', 'index signatures', 'index-signature'],
+]
+
+/** Node kinds without a target of the same name */
+const NODE_KINDS: ReadonlyArray<[string, string, NodeKind]> = [
+  ['function', 'functions', 'function'],
+  ['class', 'classes', 'class'],
+  ['interface', 'interfaces', 'interface'],
+  ['type alias', 'type aliases', 'type-alias'],
+  ['enum', 'enums', 'enum'],
+  ['namespace', 'namespaces', 'namespace'],
+  ['variable', 'variables', 'variable'],
+  ['unique symbol', 'unique symbols', 'unique-symbol'],
+  ['getter', 'getters', 'getter'],
+  ['setter', 'setters', 'setter'],
+  ['call signature', 'call signatures', 'call-signature'],
+  ['construct signature', 'construct signatures', 'construct-signature'],
+  ['global augmentation', 'global augmentations', 'global-augmentation'],
+  ['ambient module', 'ambient modules', 'ambient-module'],
+  ['unresolved export', 'unresolved exports', 'unresolved-export'],
+]
+
+const TAGS: Readonly<Record<ChangeTag, true>> = {
+  'was-required': true,
+  'now-required': true,
+  'was-optional': true,
+  'now-optional': true,
+  'is-rest-parameter': true,
+  'was-rest-parameter': true,
+  'has-default': true,
+  'had-default': true,
+  'is-nested-change': true,
+  'has-nested-changes': true,
+  'affects-type-parameter': true,
+  'inherited-member': true,
+  'uninstantiated-member': true,
+  'in-input-position': true,
+  'in-output-position': true,
+  'lost-declaration-merging': true,
+  'lost-implements': true,
+  'lost-unique-symbol': true,
+  'inlined-value': true,
+  'is-alpha': true,
+  'is-beta': true,
+  'is-internal': true,
+}
+
+const STATEMENT_TARGETS: ReadonlyMap<string, ChangeTarget> = new Map(
+  TARGETS.map(([singular, , target]) => [singular, target]),
+)
+
+const QUALIFIERS: ReadonlyMap<string, IntentQualifier> = new Map<
+  string,
+  IntentQualifier
+>([
+  ['nested', { dimension: 'nested', value: true }],
+  ['top-level', { dimension: 'nested', value: false }],
+  ...TARGETS.flatMap(([singular, plural, value]) =>
+    [singular, plural].map((name): [string, IntentQualifier] => [
+      name,
+      { dimension: 'target', value },
+    ]),
+  ),
+  ...NODE_KINDS.flatMap(([singular, plural, value]) =>
+    [singular, plural].map((name): [string, IntentQualifier] => [
+      name,
+      { dimension: 'nodeKind', value },
+    ]),
+  ),
+  ...(Object.keys(TAGS) as ChangeTag[]).map(
+    (tag): [string, IntentQualifier] => [tag, { dimension: 'tag', value: tag }],
+  ),
+  ['inherited', { dimension: 'tag', value: 'inherited-member' }],
+  ['alpha', { dimension: 'tag', value: 'is-alpha' }],
+  ['beta', { dimension: 'tag', value: 'is-beta' }],
+  ['internal', { dimension: 'tag', value: 'is-internal' }],
+  ...(
+    [
+      'public',
+      'exported',
+      'deprecated',
+      'experimental',
+      'optional',
+      'required',
+      'readonly',
+      'static',
+      'abstract',
+    ] as const
+  ).map((value): [string, IntentQualifier] => [
+    value,
+    { dimension: 'modifier', value },
+  ]),
+])
+
+/** Words with a fixed role that never start a qualifier */
+const KEYWORDS = new Set(['and', 'or', 'not', 'when', 'unless', 'for', 'is'])
+
+/** Longest phrase of any vocabulary table, in words */
+const MAX_PHRASE_WORDS = 2
+
+/**
+ * Every word the grammar knows, for suggesting corrections.
+ *
+ * @internal
+ */
+export const INTENT_VOCABULARY: ReadonlySet<string> = new Set(
+  [
+    ...Object.keys(CHANGES),
+    ...Object.keys(VERDICTS),
+    ...QUALIFIERS.keys(),
+    ...KEYWORDS,
+    'making',
+  ].flatMap((phrase) => phrase.split(' ')),
+)
+
+// =============================================================================
+// Tokenizer
+// =============================================================================
+
+interface Token extends IntentSourceSpan {
+  kind: 'word' | '(' | ')'
+  text: string
+}
+
+/**
+ * Thrown to abort parsing at the first error.
+ */
+class IntentSyntaxFailure extends Error {
+  constructor(readonly error: IntentSyntaxError) {
+    super(error.message)
+  }
+}
+
+function fail(message: string, span: IntentSourceSpan): never {
+  throw new IntentSyntaxFailure({
+    message: `${message} at column ${span.start + 1}`,
+    start: span.start,
+    end: span.end,
+  })
+}
+
+/**
+ * Splits an expression into words and parentheses. Words are separated by
+ * exactly one space.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < expression.length) {
+    const char = expression[i]!
+    if (char === ' ') {
+      if (i === 0 || i === expression.length - 1 || expression[i + 1] === ' ') {
+        fail('Unexpected whitespace', { start: i, end: i + 1 })
+      }
+      i++
+    } else if (/\s/.test(char)) {
+      fail('Unexpected whitespace', { start: i, end: i + 1 })
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, text: char, start: i, end: i + 1 })
+      i++
+    } else {
+      const start = i
+      while (i < expression.length && !/[\s()]/.test(expression[i]!)) {
+        i++
+      }
+      tokens.push({
+        kind: 'word',
+        text: expression.slice(start, i),
+        start,
+        end: i,
+      })
+    }
+  }
+  return tokens
+}
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+/**
+ * Recursive descent parser over the tokens of one expression.
+ */
+class IntentGrammarParser {
+  private position = 0
+
+  constructor(
+    private readonly expression: string,
+    private readonly tokens: readonly Token[],
+  ) {}
+
+  parse(): { statement: IntentStatement; clauses: IntentClause[] } {
+    if (this.tokens.length === 0) {
+      fail('Expected a change such as "removal"', { start: 0, end: 0 })
+    }
+    const statement = this.parseStatement()
+    const clauses: IntentClause[] = []
+    while (!this.atEnd()) {
+      clauses.push(this.parseClause())
+    }
+    return { statement, clauses }
+  }
+
+  parseCondition(): IntentCondition {
+    if (this.tokens.length === 0) {
+      fail('Expected a condition', { start: 0, end: 0 })
+    }
+    const condition = this.parseOr()
+    if (!this.atEnd()) {
+      fail(`Unexpected "${this.peek()!.text}"`, this.span())
+    }
+    return condition
+  }
+
+  private parseStatement(): IntentStatement {
+    const start = this.peek()!.start
+    let verdict: IntentVerdict | undefined
+    if (this.peekWord('breaking') || this.peekWord('safe')) {
+      verdict = VERDICTS[this.next().text]
+    }
+
+    let change: IntentChangeKind
+    let modifier: 'optional' | 'required' | undefined
+    let target: ChangeTarget | undefined
+    if (this.peekWord('making')) {
+      this.next()
+      const made = this.peekWord('optional') || this.peekWord('required')
+      if (!made) {
+        fail('Expected "optional" or "required" after "making"', this.span())
+      }
+      change =
+        this.next().text === 'optional' ? 'making-optional' : 'making-required'
+    } else {
+      if (this.peekWord('optional') || this.peekWord('required')) {
+        modifier = this.next().text as 'optional' | 'required'
+      }
+      target = this.matchPhrase(STATEMENT_TARGETS)
+      const matched = this.matchPhrase(new Map(Object.entries(CHANGES)))
+      if (!matched) {
+        fail(
+          this.atEnd()
+            ? 'Expected a change such as "removal"'
+            : `Unknown change "${this.peek()!.text}"`,
+          this.span(),
+        )
+      }
+      change = matched
+      if (
+        modifier &&
+        !(
+          change === 'addition' ||
+          (change === 'removal' && modifier === 'optional')
+        )
+      ) {
+        fail(`"${modifier}" cannot qualify a ${change.replace('-', ' ')}`, {
+          start,
+          end: this.previousEnd(),
+        })
+      }
+    }
+
+    if (this.peekWord('is')) {
+      const is = this.next()
+      if (verdict) {
+        fail('Verdict given twice', is)
+      }
+      const word = this.peek()
+      if (word?.kind !== 'word' || !(word.text in VERDICTS)) {
+        fail('Expected a verdict such as "breaking" after "is"', this.span())
+      }
+      verdict = VERDICTS[this.next().text]
+    }
+    if (!verdict) {
+      fail('Expected "is" followed by a verdict', this.span())
+    }
+
+    return {
+      change,
+      ...(target && { target }),
+      ...(modifier && { modifier }),
+      verdict,
+      span: { start, end: this.previousEnd() },
+    }
+  }
+
+  private parseClause(): IntentClause {
+    const keyword = this.peek()!
+    if (
+      keyword.kind !== 'word' ||
+      !['when', 'unless', 'for'].includes(keyword.text)
+    ) {
+      fail(
+        `Unexpected "${keyword.text}", expected "when", "unless" or "for"`,
+        keyword,
+      )
+    }
+    this.next()
+    if (this.atEnd()) {
+      fail(`Expected a condition after "${keyword.text}"`, this.span())
+    }
+    const condition = this.parseOr()
+    return {
+      keyword: keyword.text as IntentClause['keyword'],
+      condition,
+      span: { start: keyword.start, end: condition.span.end },
+    }
+  }
+
+  private parseOr(): IntentCondition {
+    return this.parseList('or', () => this.parseAnd())
+  }
+
+  private parseAnd(): IntentCondition {
+    return this.parseList('and', () => this.parseTerm())
+  }
+
+  private parseList(
+    operator: 'and' | 'or',
+    parseOperand: () => IntentCondition,
+  ): IntentCondition {
+    const operands = [parseOperand()]
+    while (this.peekWord(operator)) {
+      const token = this.next()
+      if (this.atEnd()) {
+        fail(`Expected a condition after "${operator}"`, token)
+      }
+      operands.push(parseOperand())
+    }
+    return operands.length === 1
+      ? operands[0]!
+      : {
+          kind: operator,
+          operands,
+          span: {
+            start: operands[0]!.span.start,
+            end: operands[operands.length - 1]!.span.end,
+          },
+        }
+  }
+
+  /** Adjacent factors, e.g. `optional properties` */
+  private parseTerm(): IntentCondition {
+    const factors = [this.parseFactor()]
+    while (this.startsFactor()) {
+      factors.push(this.parseFactor())
+    }
+    return factors.length === 1
+      ? factors[0]!
+      : {
+          kind: 'and',
+          operands: factors,
+          span: {
+            start: factors[0]!.span.start,
+            end: factors[factors.length - 1]!.span.end,
+          },
+        }
+  }
+
+  private parseFactor(): IntentCondition {
+    const token = this.peek()
+    if (!token) {
+      fail('Expected a condition', this.span())
+    }
+    if (token.kind === '(') {
+      this.next()
+      const condition = this.parseOr()
+      if (this.peek()?.kind !== ')') {
+        fail('Expected ")"', this.span())
+      }
+      const close = this.next()
+      return { ...condition, span: { start: token.start, end: close.end } }
+    }
+    if (token.kind === ')') {
+      fail('Unexpected ")"', token)
+    }
+    if (token.text === 'not') {
+      this.next()
+      const operand = this.parseFactor()
+      return {
+        kind: 'not',
+        operand,
+        span: { start: token.start, end: operand.span.end },
+      }
+    }
+    if (KEYWORDS.has(token.text)) {
+      fail(`Expected a condition before "${token.text}"`, token)
+    }
+
+    const qualifier = this.matchPhrase(QUALIFIERS)
+    if (!qualifier) {
+      fail(`Unknown condition "${token.text}"`, token)
+    }
+    const span = { start: token.start, end: this.previousEnd() }
+    return {
+      kind: 'qualifier',
+      qualifier,
+      text: this.expression.slice(span.start, span.end),
+      span,
+    }
+  }
+
+  private startsFactor(): boolean {
+    const token = this.peek()
+    if (!token || token.kind === ')') return false
+    return (
+      token.kind === '(' || token.text === 'not' || !KEYWORDS.has(token.text)
+    )
+  }
+
+  /**
+   * Consumes the longest phrase of up to {@link MAX_PHRASE_WORDS} words
+   * found in the table.
+   */
+  private matchPhrase<T>(table: ReadonlyMap<string, T>): T | undefined {
+    for (let length = MAX_PHRASE_WORDS; length > 0; length--) {
+      const words = this.tokens.slice(this.position, this.position + length)
+      if (
+        words.length !== length ||
+        words.some((token) => token.kind !== 'word')
+      ) {
+        continue
+      }
+      const value = table.get(words.map((token) => token.text).join(' '))
+      if (value !== undefined) {
+        this.position += length
+        return value
+      }
+    }
+    return undefined
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position]
+  }
+
+  private peekWord(text: string): boolean {
+    const token = this.peek()
+    return token?.kind === 'word' && token.text === text
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++]!
+  }
+
+  private atEnd(): boolean {
+    return this.position >= this.tokens.length
+  }
+
+  private previousEnd(): number {
+    return this.tokens[this.position - 1]?.end ?? 0
+  }
+
+  /** Span of the current token, or the end of the expression */
+  private span(): IntentSourceSpan {
+    return (
+      this.peek() ?? {
+        start: this.expression.length,
+        end: this.expression.length,
+      }
+    )
+  }
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parses the syntax of an intent expression.
+ *
+ * Parsing stops at the first error, which is reported with its position.
+ *
+ * @param expression - The intent expression
+ * @returns The syntax tree, or the syntax error
+ *
+ * @example
+ * ```typescript
+ * const result = parseIntentSyntax(
+ *   'property removal is breaking when nested and not deprecated',
+ * )
+ * if (result.success) {
+ *   result.tree.statement // { change: 'removal', target: 'property', verdict: 'breaking', ... }
+ *   result.tree.clauses[0].condition.kind // 'and'
+ * }
+ * ```
+ *
+ * @alpha
+ */
+export function parseIntentSyntax(expression: string): IntentSyntaxResult {
+  try {
+    const parser = new IntentGrammarParser(expression, tokenize(expression))
+    return { success: true, tree: parser.parse() }
+  } catch (error) {
+    if (error instanceof IntentSyntaxFailure) {
+      return { success: false, errors: [error.error] }
+    }
+    throw error
+  }
+}
+
+/**
+ * Parses a condition on its own, e.g. the condition of a conditional
+ * pattern such as `'nested and not inherited'`.
+ *
+ * @param text - The condition
+ * @returns The condition, or the syntax error
+ *
+ * @internal
+ */
+export function parseIntentCondition(
+  text: string,
+):
+  | { success: true; condition: IntentCondition }
+  | { success: false; errors: IntentSyntaxError[] } {
+  try {
+    const parser = new IntentGrammarParser(text, tokenize(text))
+    return { success: true, condition: parser.parseCondition() }
+  } catch (error) {
+    if (error instanceof IntentSyntaxFailure) {
+      return { success: false, errors: [error.error] }
+    }
+    throw error
+  }
+}
+
+/**
+ * Formats a condition as an intent expression fragment, adding parentheses
+ * where needed.
+ *
+ * Adjacent qualifiers are formatted with an explicit `and`.
+ *
+ * @param condition - The condition to format
+ * @returns The formatted condition, e.g. `'nested and not deprecated'`
+ *
+ * @alpha
+ */
+export function formatIntentCondition(condition: IntentCondition): string {
+  switch (condition.kind) {
+    case 'qualifier':
+      return condition.text
+    case 'not': {
+      const operand = formatIntentCondition(condition.operand)
+      return condition.operand.kind === 'and' || condition.operand.kind === 'or'
+        ? `not (${operand})`
+        : `not ${operand}`
+    }
+    case 'and':
+      return condition.operands
+        .map((operand) =>
+          operand.kind === 'or'
+            ? `(${formatIntentCondition(operand)})`
+            : formatIntentCondition(operand),
+        )
+        .join(' and ')
+    case 'or':
+      return condition.operands.map(formatIntentCondition).join(' or ')
+  }
+}
@@ -13,8 +13,13 @@
  * - **Addition Patterns**: 'safe addition', 'required addition is breaking'
  * - **Type Change Patterns**: 'type narrowing is breaking', 'type widening is safe'
  * - **Optionality Patterns**: 'making optional is breaking', 'making required is breaking'
- * - **Common Patterns**: 'deprecation is patch', 'rename is breaking', 'reorder is breaking'
- * - **Conditional Patterns**: Expressions with 'when' or 'unless' clauses
+ * - **Common Patterns**: 'deprecation is patch', 'rename is breaking', 'move is breaking', 'reorder is breaking'
+ * - **Conditional Patterns**: Expressions with 'when', 'unless' or 'for' clauses
+ *
+ * Expressions are parsed with the intent grammar (see ./intent-grammar.ts), so
+ * any change can name a target and a verdict ('property removal is breaking'),
+ * and conditions can be combined with 'and', 'or', 'not' and parentheses
+ * ('type change is minor for enum members or optional properties').
  *
  * @example
  * ```typescript
@@ -39,189 +44,209 @@
  */
 
 import type {
+  IntentChangeKind,
+  IntentCondition,
   IntentExpression,
   IntentRule,
   IntentParseResult,
+  IntentStatement,
+  IntentSyntaxTree,
   PatternRule,
   PatternTemplate,
   PatternVariable,
 } from './dsl-types'
 import type { ReleaseType } from '../types'
 import type { ChangeTarget, NodeKind } from '../ast/types'
+import {
+  INTENT_VOCABULARY,
+  formatIntentCondition,
+  parseIntentSyntax,
+} from './intent-grammar'
 
 /**
- * Internal mapping of intent expressions to their pattern representations.
- * This defines how each natural language expression translates to a pattern rule.
+ * Example expressions, used to suggest corrections for expressions that are
+ * not close to any valid expression word by word.
  */
-const INTENT_TO_PATTERN_MAP: Record<
-  string,
-  {
-    template: PatternTemplate
-    variables: PatternVariable[]
-    returns: ReleaseType
-  }
-> = {
+const KNOWN_INTENTS: readonly string[] = [
   // Removals
-  'breaking removal': {
-    template: 'removed {target}',
-    variables: [{ name: 'target', value: 'export', type: 'target' }],
-    returns: 'major',
-  },
-  'safe removal': {
-    template: 'removed optional {target}',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'none',
-  },
-  'export removal is breaking': {
-    template: 'removed {target}',
-    variables: [{ name: 'target', value: 'export', type: 'target' }],
-    returns: 'major',
-  },
-  'member removal is breaking': {
-    template: 'removed {target}',
-    variables: [{ name: 'target', value: 'property', type: 'target' }],
-    returns: 'major',
-  },
-
+  'breaking removal',
+  'safe removal',
+  'export removal is breaking',
+  'member removal is breaking',
   // Additions
-  'safe addition': {
-    template: 'added optional {target}',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'none',
-  },
-  'required addition is breaking': {
-    template: 'added required {target}',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'major',
-  },
-  'optional addition is safe': {
-    template: 'added optional {target}',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'none',
-  },
-
+  'safe addition',
+  'required addition is breaking',
+  'optional addition is safe',
   // Type changes
-  'type narrowing is breaking': {
-    template: '{target} type narrowed',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'major',
-  },
-  'type widening is safe': {
-    template: '{target} type widened',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'none',
-  },
-  'type change is breaking': {
-    template: 'modified {target}',
-    variables: [{ name: 'target', value: 'export', type: 'target' }],
-    returns: 'major',
-  },
-
+  'type narrowing is breaking',
+  'type widening is safe',
+  'type change is breaking',
   // Optionality
-  'making optional is breaking': {
+  'making optional is breaking',
+  'making required is breaking',
+  // Common patterns
+  'deprecation is patch',
+  'rename is breaking',
+  'move is breaking',
+  'reorder is breaking',
+]
+
+/**
+ * Pattern templates of each kind of change, with the target used when the
+ * statement doesn't name one.
+ */
+const CHANGE_PATTERNS: Record<
+  IntentChangeKind,
+  { template: PatternTemplate; target: ChangeTarget }
+> = {
+  removal: { template: 'removed {target}', target: 'export' },
+  addition: { template: 'added {target}', target: 'export' },
+  rename: { template: 'renamed {target}', target: 'export' },
+  move: { template: 'moved {target}', target: 'export' },
+  reorder: { template: 'reordered {target}', target: 'parameter' },
+  deprecation: { template: '{target} deprecated', target: 'export' },
+  'type-change': { template: 'modified {target}', target: 'export' },
+  'type-narrowing': { template: '{target} type narrowed', target: 'parameter' },
+  'type-widening': { template: '{target} type widened', target: 'parameter' },
+  'making-optional': {
     template: '{target} made optional',
-    variables: [{ name: 'target', value: 'return-type', type: 'target' }],
-    returns: 'major',
+    target: 'return-type',
   },
-  'making required is breaking': {
+  'making-required': {
     template: '{target} made required',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'major',
+    target: 'parameter',
   },
+}
 
-  // Common patterns
-  'deprecation is patch': {
-    template: '{target} deprecated',
-    variables: [{ name: 'target', value: 'export', type: 'target' }],
-    returns: 'patch',
-  },
-  'rename is breaking': {
-    template: 'renamed {target}',
-    variables: [{ name: 'target', value: 'export', type: 'target' }],
-    returns: 'major',
-  },
-  'reorder is breaking': {
-    template: 'reordered {target}',
-    variables: [{ name: 'target', value: 'parameter', type: 'target' }],
-    returns: 'major',
-  },
+/**
+ * Templates of removals and additions qualified by optionality. A `safe`
+ * removal or addition without qualifier is one of an optional parameter.
+ */
+const OPTIONALITY_PATTERNS: Record<string, PatternTemplate> = {
+  'removal:optional': 'removed optional {target}',
+  'addition:optional': 'added optional {target}',
+  'addition:required': 'added required {target}',
+}
+
+/**
+ * Whether a condition names a target, e.g. `'enum members or properties'`.
+ */
+function namesTarget(condition: IntentCondition): boolean {
+  switch (condition.kind) {
+    case 'qualifier':
+      return condition.qualifier.dimension === 'target'
+    case 'not':
+      return namesTarget(condition.operand)
+    default:
+      return condition.operands.some(namesTarget)
+  }
+}
+
+/**
+ * Builds the pattern of an intent statement. The target defaults to that
+ * of the kind of change unless `conditionTargets` is set, in which case the
+ * condition names the targets.
+ */
+function statementPattern(
+  statement: IntentStatement,
+  conditionTargets = false,
+): {
+  template: PatternTemplate
+  variables: PatternVariable[]
+} {
+  const { change, target, verdict } = statement
+  const modifier =
+    statement.modifier ??
+    (verdict === 'safe' &&
+    !target &&
+    (change === 'removal' || change === 'addition')
+      ? 'optional'
+      : undefined)
+  const optionality = modifier && OPTIONALITY_PATTERNS[`${change}:${modifier}`]
+  const value =
+    target ??
+    (optionality
+      ? 'parameter'
+      : conditionTargets
+        ? undefined
+        : CHANGE_PATTERNS[change].target)
+
+  return {
+    template: optionality ?? CHANGE_PATTERNS[change].template,
+    variables: value ? [{ name: 'target', value, type: 'target' }] : [],
+  }
 }
 
 /**
- * Parse conditional intent expressions (e.g., "X when Y", "X unless Y")
+ * Builds the pattern of a parsed expression. Conditions become a
+ * `{pattern} when {condition}` pattern whose condition combines all
+ * clauses; a single `unless` clause keeps its own template. The pattern
+ * compiler compiles the condition to dimensions.
  */
-function parseConditionalIntent(
+function treePattern(
+  tree: IntentSyntaxTree,
   expression: string,
   returns: ReleaseType,
-): PatternRule | null {
-  // Handle "X when Y" pattern
-  const whenMatch = expression.match(/^(.+?)\s+when\s+(.+)$/)
-  if (whenMatch) {
-    const [, baseIntent, condition] = whenMatch
-    const basePattern = INTENT_TO_PATTERN_MAP[baseIntent?.trim() || '']
-    if (basePattern) {
-      return {
-        type: 'pattern',
-        template: '{pattern} when {condition}' as PatternTemplate,
-        variables: [
-          {
-            name: 'pattern',
-            value: basePattern.template as unknown as ChangeTarget | NodeKind,
-            type: 'pattern',
-          },
-          {
-            name: 'condition',
-            value: (condition?.trim() || '') as unknown as
-              | ChangeTarget
-              | NodeKind,
-            type: 'condition',
-          },
-        ],
-        returns: returns || basePattern.returns,
-      }
-    }
+): PatternRule {
+  const base = statementPattern(
+    tree.statement,
+    tree.clauses.some((clause) => namesTarget(clause.condition)),
+  )
+  if (tree.clauses.length === 0) {
+    return { type: 'pattern', ...base, returns }
   }
 
-  // Handle "X unless Y" pattern
-  const unlessMatch = expression.match(/^(.+?)\s+unless\s+(.+)$/)
-  if (unlessMatch) {
-    const [, baseIntent, condition] = unlessMatch
-    const basePattern = INTENT_TO_PATTERN_MAP[baseIntent?.trim() || '']
-    if (basePattern) {
-      return {
+  const [first] = tree.clauses
+  const unless = tree.clauses.length === 1 && first!.keyword === 'unless'
+  const condition =
+    tree.clauses.length === 1
+      ? expression.slice(first!.condition.span.start, first!.condition.span.end)
+      : formatIntentCondition({
+          kind: 'and',
+          operands: tree.clauses.map((clause) =>
+            clause.keyword === 'unless'
+              ? { kind: 'not', operand: clause.condition, span: clause.span }
+              : clause.condition,
+          ),
+          span: { start: first!.span.start, end: expression.length },
+        })
+
+  return {
+    type: 'pattern',
+    template: unless
+      ? '{pattern} unless {condition}'
+      : '{pattern} when {condition}',
+    variables: [
+      {
+        name: 'pattern',
+        value: base.template as unknown as ChangeTarget | NodeKind,
         type: 'pattern',
-        template: '{pattern} unless {condition}' as PatternTemplate,
-        variables: [
-          {
-            name: 'pattern',
-            value: basePattern.template as unknown as ChangeTarget | NodeKind,
-            type: 'pattern',
-          },
-          {
-            name: 'condition',
-            value: (condition?.trim() || '') as unknown as
-              | ChangeTarget
-              | NodeKind,
-            type: 'condition',
-          },
-        ],
-        returns: returns || basePattern.returns,
-      }
-    }
+      },
+      ...base.variables,
+      {
+        name: 'condition',
+        value: condition as unknown as ChangeTarget | NodeKind,
+        type: 'condition',
+      },
+    ],
+    returns,
   }
-
-  return null
 }
 
 /**
  * Parse an intent expression into a pattern rule.
  *
- * This function transforms natural language intent expressions into structured
- * pattern rules. It handles both direct mappings and conditional patterns
- * (expressions with 'when' or 'unless' clauses).
+ * The expression is parsed with the intent grammar (see
+ * {@link parseIntentSyntax}) and its statement mapped to a pattern template.
+ * Expressions with condition clauses become conditional patterns
+ * (`'{pattern} when {condition}'` or `'{pattern} unless {condition}'`)
+ * whose `condition` variable holds the condition text. A statement that
+ * doesn't name a target leaves the targets to a condition that names them,
+ * e.g. `'type change is minor for enum members or optional properties'`.
  *
- * When parsing fails, the result includes error messages and suggestions for
- * similar valid expressions (based on Levenshtein distance matching).
+ * When parsing fails, the result includes error messages, the position of
+ * the syntax error, and suggestions for similar valid expressions (based
+ * on Levenshtein distance matching).
  *
  * @param intent - The intent rule to parse
  * @returns Parse result with pattern rule (on success) or errors and suggestions (on failure)
@@ -244,10 +269,10 @@ function parseConditionalIntent(
  * ```typescript
  * const result = parseIntent({
  *   type: 'intent',
- *   expression: 'breaking removal when nested',
+ *   expression: 'property removal is breaking when nested and not deprecated',
  *   returns: 'major'
  * })
- * // Parses to pattern with 'when' clause
+ * // Parses to a 'when' pattern with condition 'nested and not deprecated'
  * ```
  *
  * @example Failed parse with suggestions
@@ -260,6 +285,7 @@ function parseConditionalIntent(
  *
  * if (!result.success) {
  *   console.log('Errors:', result.errors)
+ *   console.log('At:', result.syntaxErrors?.[0]?.start) // 0
  *   console.log('Did you mean:', result.suggestions)
  *   // suggestions: ['breaking removal']
  * }
@@ -270,38 +296,27 @@ function parseConditionalIntent(
 export function parseIntent(intent: IntentRule): IntentParseResult {
   const { expression, returns } = intent
 
-  // Check for direct mapping first
-  const directMapping = INTENT_TO_PATTERN_MAP[expression]
-  if (directMapping) {
-    return {
-      success: true,
-      pattern: {
-        type: 'pattern',
-        template: directMapping.template,
-        variables: directMapping.variables,
-        returns: returns,
-        description: intent.description,
-      },
-    }
-  }
-
-  // Try parsing as conditional
-  const conditionalPattern = parseConditionalIntent(expression, returns)
-  if (conditionalPattern) {
+  const syntax = parseIntentSyntax(expression)
+  if (syntax.success) {
     return {
       success: true,
       pattern: {
-        ...conditionalPattern,
+        ...treePattern(syntax.tree, expression, returns),
         description: intent.description,
       },
+      syntax: syntax.tree,
     }
   }
 
-  // If not found, provide suggestions
+  // If not parsed, provide suggestions
   const suggestions = suggestIntentCorrections(expression)
   return {
     success: false,
-    errors: [`Unknown intent expression: "${expression}"`],
+    errors: [
+      `Unknown intent expression: "${expression}"`,
+      ...syntax.errors.map((error) => error.message),
+    ],
+    syntaxErrors: syntax.errors,
     suggestions: suggestions.length > 0 ? suggestions : undefined,
   }
 }
@@ -309,9 +324,9 @@ export function parseIntent(intent: IntentRule): IntentParseResult {
 /**
  * Validate whether a string is a valid intent expression.
  *
- * This function checks if the expression:
- * 1. Matches a known intent expression in the mapping
- * 2. Is a valid conditional pattern (contains 'when' or 'unless')
+ * An expression is valid if it parses with the intent grammar, e.g.
+ * `'breaking removal'`, `'property removal is breaking when nested'` or
+ * `'type change is minor for enum members or optional properties'`.
  *
  * Use this to validate user input before constructing intent rules.
  *
@@ -345,18 +360,7 @@ export function parseIntent(intent: IntentRule): IntentParseResult {
 export function isValidIntentExpression(
   expression: string,
 ): expression is IntentExpression {
-  // Check if it's a known intent
-  if (expression in INTENT_TO_PATTERN_MAP) {
-    return true
-  }
-
-  // Check if it's a valid conditional pattern
-  if (expression.includes(' when ') || expression.includes(' unless ')) {
-    const conditionalPattern = parseConditionalIntent(expression, 'none')
-    return conditionalPattern !== null
-  }
-
-  return false
+  return parseIntentSyntax(expression).success
 }
 
 /**
@@ -399,14 +403,59 @@ function levenshteinDistance(a: string, b: string): number {
   return lastRow ? (lastRow[a.length] ?? 0) : 0
 }
 
+/**
+ * Corrects each unknown word of an expression to the closest word of the
+ * grammar, returning the corrected expression and the total distance, or
+ * undefined if some word has no close match.
+ */
+function correctWords(
+  expression: string,
+): { expression: string; distance: number } | undefined {
+  const words = expression.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) {
+    return undefined
+  }
+
+  let distance = 0
+  const corrected: string[] = []
+  for (const word of words) {
+    if (INTENT_VOCABULARY.has(word)) {
+      corrected.push(word)
+      continue
+    }
+    let closest: { word: string; distance: number } | undefined
+    for (const known of INTENT_VOCABULARY) {
+      const candidate = levenshteinDistance(word, known)
+      if (
+        candidate < word.length * 0.4 &&
+        (!closest || candidate < closest.distance)
+      ) {
+        closest = { word: known, distance: candidate }
+      }
+    }
+    if (!closest) {
+      return undefined
+    }
+    corrected.push(closest.word)
+    distance += closest.distance
+  }
+  return { expression: corrected.join(' '), distance }
+}
+
 /**
  * Suggest corrections for typos or invalid intent expressions.
  *
- * This function uses Levenshtein distance to find similar valid expressions
- * and returns up to 3 suggestions sorted by similarity.
+ * Suggestions come from two sources, both compared case-insensitively:
+ * - the expression with each unknown word replaced by the closest word of
+ *   the grammar, if the result is a valid expression, e.g.
+ *   `'property removal is braking when nested'` →
+ *   `'property removal is breaking when nested'`
+ * - common expressions similar to the whole expression, e.g.
+ *   `'breaking rem'` → `'breaking removal'`
  *
- * Only expressions with distance less than 40% of the input length are suggested,
- * ensuring suggestions are meaningfully similar.
+ * Only words and expressions with distance less than 40% of their length
+ * are corrected, ensuring suggestions are meaningfully similar. Up to 3
+ * suggestions are returned, sorted by similarity.
  *
  * @param expression - The invalid or misspelled expression
  * @returns Array of up to 3 suggested valid expressions, sorted by similarity
@@ -416,7 +465,7 @@ function levenshteinDistance(a: string, b: string): number {
  * const suggestions = suggestIntentCorrections('braking removal')
  * // Returns: ['breaking removal']
  *
- * const suggestions2 = suggestIntentCorrections('type narrwing')
+ * const suggestions2 = suggestIntentCorrections('type narrwing is breaking')
  * // Returns: ['type narrowing is breaking']
  * ```
  *
@@ -439,24 +488,32 @@ function levenshteinDistance(a: string, b: string): number {
  * @alpha
  */
 export function suggestIntentCorrections(expression: string): string[] {
-  const knownIntents = Object.keys(INTENT_TO_PATTERN_MAP)
-  const suggestions: Array<{ intent: string; distance: number }> = []
+  const distances = new Map<string, number>()
+  const suggest = (intent: string, distance: number) => {
+    distances.set(intent, Math.min(distance, distances.get(intent) ?? distance))
+  }
+
+  // Correct the expression word by word
+  const corrected = correctWords(expression)
+  if (corrected && parseIntentSyntax(corrected.expression).success) {
+    suggest(corrected.expression, corrected.distance)
+  }
 
-  // Calculate distances to all known intents
-  for (const intent of knownIntents) {
+  // Calculate distances to common expressions
+  for (const intent of KNOWN_INTENTS) {
     const distance = levenshteinDistance(
       expression.toLowerCase(),
       intent.toLowerCase(),
     )
     // Only suggest if reasonably similar (distance < 40% of expression length)
     if (distance < expression.length * 0.4) {
-      suggestions.push({ intent, distance })
+      suggest(intent, distance)
     }
   }
 
   // Sort by distance and return top 3
-  return suggestions
-    .sort((a, b) => a.distance - b.distance)
+  return [...distances]
+    .sort((a, b) => a[1] - b[1])
     .slice(0, 3)
-    .map((s) => s.intent)
+    .map(([intent]) => intent)
 }
@@ -195,6 +195,19 @@ export const PATTERN_TO_INTENT_MAP: Record<
       },
     ],
   },
+  'moved {target}': {
+    intents: [
+      {
+        expression: 'move is breaking',
+        variableConstraints: { target: 'export' },
+        confidence: 1.0,
+      },
+      {
+        expression: 'move is breaking',
+        confidence: 0.95,
+      },
+    ],
+  },
   'reordered {target}': {
     intents: [
       {
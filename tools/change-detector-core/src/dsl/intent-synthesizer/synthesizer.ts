@@ -218,6 +218,7 @@ export function synthesizeIntent(pattern: PatternRule): IntentSynthesisResult {
  * - `'optionality-pattern'` - Patterns involving optional/required changes
  * - `'deprecation-pattern'` - Patterns involving deprecation
  * - `'rename-pattern'` - Patterns involving renaming
+ * - `'move-pattern'` - Patterns involving moves to another path
  * - `'reorder-pattern'` - Patterns involving reordering
  * - `'conditional-when-pattern'` - Patterns with 'when' conditions
  * - `'conditional-unless-pattern'` - Patterns with 'unless' conditions
@@ -261,6 +262,7 @@ export function detectCommonPattern(pattern: PatternRule): string | null {
             return 'optionality-pattern'
           if (expression.includes('deprecation')) return 'deprecation-pattern'
           if (expression.includes('rename')) return 'rename-pattern'
+          if (expression.includes('move')) return 'move-pattern'
           if (expression.includes('reorder')) return 'reorder-pattern'
         }
       }
@@ -13,7 +13,9 @@
  * 2. **Aspects** are inferred from template suffixes ('type narrowed', 'deprecated', etc.)
  * 3. **Targets** are extracted from variable substitutions
  * 4. **Impacts** are derived from the combination of action, aspect, and release type
- * 5. **Conditional patterns** set the `nested` flag
+ * 5. **Conditions** of conditional patterns are parsed with the intent
+ *    grammar and compiled to targets, node kinds, tags and the `nested` flag,
+ *    or to a matcher where those can't express them
  *
  * @example
  * ```typescript
@@ -46,14 +48,21 @@ import type {
   PatternCompileResult,
   PatternTemplate,
   PatternVariable,
+  IntentCondition,
+  IntentModifier,
+  IntentQualifier,
 } from './dsl-types'
 import type {
+  AnalyzableNode,
+  ApiChange,
   ChangeTarget,
   ChangeAction,
   ChangeAspect,
   ChangeImpact,
   NodeKind,
 } from '../ast/types'
+import type { ChangeMatcher } from '../ast/rule-builder'
+import { parseIntentCondition } from './intent-grammar'
 
 /**
  * Internal structure for parsed template components.
@@ -63,8 +72,28 @@ interface ParsedTemplate {
   aspect?: ChangeAspect
   target?: ChangeTarget
   modifier?: 'optional' | 'required'
-  conditional?: 'when' | 'unless'
   nodeKind?: NodeKind
+  /** The condition of a conditional pattern, with its variables substituted */
+  condition?: { keyword: 'when' | 'unless'; text: string }
+}
+
+/**
+ * Substitutes the values of variables for their placeholders, including
+ * the placeholders of pattern variables.
+ */
+function expandTemplate(
+  template: string,
+  varMap: ReadonlyMap<string, string>,
+): string {
+  return template.replace(/\{([^{}]+)\}/g, (placeholder, name: string) => {
+    const value = varMap.get(name)
+    if (value === undefined) {
+      return placeholder
+    }
+    const rest = new Map(varMap)
+    rest.delete(name)
+    return expandTemplate(value, rest)
+  })
 }
 
 /**
@@ -77,20 +106,26 @@ function parseTemplate(
   const result: ParsedTemplate = {}
 
   // Create a map of variable names to their values
-  const varMap = new Map<string, ChangeTarget | NodeKind>()
+  const varMap = new Map<string, string>()
   for (const variable of variables) {
-    varMap.set(variable.name, variable.value)
+    varMap.set(variable.name, String(variable.value))
   }
 
-  // Replace variables in template for parsing
-  let expandedTemplate = template
-  for (const [name, value] of varMap) {
-    expandedTemplate = expandedTemplate.replace(
-      `{${name}}`,
-      String(value),
-    ) as PatternTemplate
+  // Split off the condition, so that its words aren't read as the pattern's
+  const conditional = /^(.*?) (when|unless) (.*)$/.exec(template)
+  if (conditional) {
+    result.condition = {
+      keyword: conditional[2] as 'when' | 'unless',
+      text: expandTemplate(conditional[3]!, varMap),
+    }
   }
 
+  // Replace variables in template for parsing
+  const expandedTemplate = expandTemplate(
+    conditional ? conditional[1]! : template,
+    varMap,
+  )
+
   // Parse action patterns
   if (expandedTemplate.startsWith('added ')) {
     result.action = 'added'
@@ -106,6 +141,8 @@ function parseTemplate(
     }
   } else if (expandedTemplate.startsWith('renamed ')) {
     result.action = 'renamed'
+  } else if (expandedTemplate.startsWith('moved ')) {
+    result.action = 'moved'
   } else if (expandedTemplate.startsWith('reordered ')) {
     result.action = 'reordered'
   } else if (expandedTemplate.startsWith('modified ')) {
@@ -135,13 +172,6 @@ function parseTemplate(
     result.target = targetVar.value as ChangeTarget
   }
 
-  // Parse conditional patterns
-  if (template.includes(' when ')) {
-    result.conditional = 'when'
-  } else if (template.includes(' unless ')) {
-    result.conditional = 'unless'
-  }
-
   // Parse node kind from variables
   const nodeKindVar = variables.find((v) => v.type === 'nodeKind')
   if (nodeKindVar) {
@@ -151,6 +181,357 @@ function parseTemplate(
   return result
 }
 
+/**
+ * Dimensions a condition constrains.
+ */
+type ConditionDimensions = Pick<
+  DimensionalRule,
+  'target' | 'nodeKind' | 'tags' | 'notTags' | 'nested' | 'matcher'
+>
+
+/**
+ * A qualifier of a condition, or its negation.
+ */
+interface ConditionLiteral {
+  qualifier: IntentQualifier
+  negated: boolean
+  text: string
+}
+
+/**
+ * A condition, or its negation, that is combined with others by `and`.
+ */
+interface ConditionConjunct {
+  condition: IntentCondition
+  negated: boolean
+}
+
+/**
+ * Thrown to abort compiling a condition that contradicts the rule.
+ */
+class ConditionCompileFailure extends Error {}
+
+/**
+ * Node kinds of declarations that can be optional, and so can be required.
+ */
+const OPTIONAL_KINDS: ReadonlySet<NodeKind> = new Set([
+  'property',
+  'method',
+  'parameter',
+])
+
+function formatLiterals(literals: readonly ConditionLiteral[]): string {
+  return literals.map((literal) => literal.text).join(' or ')
+}
+
+/**
+ * Splits a condition into the conditions it combines with `and`, pushing
+ * negations down, e.g. `'not (internal or deprecated)'` into
+ * `'not internal'` and `'not deprecated'`.
+ */
+function toConjuncts(
+  condition: IntentCondition,
+  negated: boolean,
+): ConditionConjunct[] {
+  switch (condition.kind) {
+    case 'not':
+      return toConjuncts(condition.operand, !negated)
+    case 'and':
+    case 'or':
+      // `not (a or b)` is `not a and not b`
+      if ((condition.kind === 'and') !== negated) {
+        return condition.operands.flatMap((operand) =>
+          toConjuncts(operand, negated),
+        )
+      }
+      return [{ condition, negated }]
+    case 'qualifier':
+      return [{ condition, negated }]
+  }
+}
+
+/**
+ * The literals of a condition that is a disjunction of qualifiers, e.g.
+ * `'properties or methods'`, or undefined if it combines other conditions.
+ */
+function toLiterals(
+  condition: IntentCondition,
+  negated: boolean,
+): ConditionLiteral[] | undefined {
+  switch (condition.kind) {
+    case 'qualifier':
+      return [
+        {
+          qualifier: condition.qualifier,
+          negated,
+          text: negated ? `not ${condition.text}` : condition.text,
+        },
+      ]
+    case 'not':
+      return toLiterals(condition.operand, !negated)
+    case 'and':
+    case 'or': {
+      // `not (a and b)` is `not a or not b`
+      if ((condition.kind === 'or') === negated) {
+        return undefined
+      }
+      const literals: ConditionLiteral[] = []
+      for (const operand of condition.operands) {
+        const operandLiterals = toLiterals(operand, negated)
+        if (!operandLiterals) {
+          return undefined
+        }
+        literals.push(...operandLiterals)
+      }
+      return literals
+    }
+  }
+}
+
+/**
+ * Whether the dimensions can express a disjunction of literals: a single
+ * nesting or tag condition, or alternative targets or node kinds.
+ */
+function isDimensional(clause: readonly ConditionLiteral[]): boolean {
+  const [first] = clause
+  const { dimension } = first!.qualifier
+  if (dimension === 'target' || dimension === 'nodeKind') {
+    return clause.every(
+      (literal) =>
+        !literal.negated && literal.qualifier.dimension === dimension,
+    )
+  }
+  return clause.length === 1 && dimension !== 'modifier'
+}
+
+/**
+ * Restricts a list dimension to the values of a condition.
+ */
+function restrict<T>(
+  current: T[] | undefined,
+  values: readonly T[],
+  text: string,
+  label: string,
+): T[] {
+  const restricted = current
+    ? current.filter((value) => values.includes(value))
+    : [...new Set(values)]
+  if (restricted.length === 0) {
+    throw new ConditionCompileFailure(
+      `"${text}" excludes every other ${label} of the rule`,
+    )
+  }
+  return restricted
+}
+
+/**
+ * Adds a disjunction of literals the dimensions can express to the
+ * dimensions of a condition.
+ */
+function addClause(
+  dimensions: ConditionDimensions,
+  clause: readonly ConditionLiteral[],
+): void {
+  const text = formatLiterals(clause)
+  const { qualifier, negated } = clause[0]!
+  switch (qualifier.dimension) {
+    case 'nested': {
+      const nested = qualifier.value !== negated
+      if (dimensions.nested !== undefined && dimensions.nested !== nested) {
+        throw new ConditionCompileFailure(
+          `"${text}" contradicts another condition on nesting`,
+        )
+      }
+      dimensions.nested = nested
+      return
+    }
+    case 'tag': {
+      const [own, other] = negated
+        ? (['notTags', 'tags'] as const)
+        : (['tags', 'notTags'] as const)
+      if (dimensions[other]?.includes(qualifier.value)) {
+        throw new ConditionCompileFailure(
+          `"${text}" contradicts another condition on the same tag`,
+        )
+      }
+      dimensions[own] = [
+        ...new Set([...(dimensions[own] ?? []), qualifier.value]),
+      ]
+      return
+    }
+    case 'target':
+      dimensions.target = restrict(
+        dimensions.target,
+        clause.map((literal) => literal.qualifier.value as ChangeTarget),
+        text,
+        'target',
+      )
+      return
+    case 'nodeKind':
+      dimensions.nodeKind = restrict(
+        dimensions.nodeKind,
+        clause.map((literal) => literal.qualifier.value as NodeKind),
+        text,
+        'node kind',
+      )
+      return
+  }
+}
+
+/**
+ * Whether a declaration has a modifier named by a condition. `public`
+ * declarations are neither private nor protected and have the public
+ * release tag, and `required` ones could be optional but aren't.
+ */
+function hasModifier(node: AnalyzableNode, modifier: IntentModifier): boolean {
+  switch (modifier) {
+    case 'public':
+      return (
+        !node.modifiers.has('private') &&
+        !node.modifiers.has('protected') &&
+        (node.metadata?.releaseTag ?? 'public') === 'public'
+      )
+    case 'exported':
+      return (
+        node.modifiers.has('exported') || node.modifiers.has('default-export')
+      )
+    case 'deprecated':
+      return node.metadata?.deprecated === true
+    case 'experimental':
+      return node.metadata?.experimental === true
+    case 'required':
+      return OPTIONAL_KINDS.has(node.kind) && !node.modifiers.has('optional')
+    default:
+      return node.modifiers.has(modifier)
+  }
+}
+
+/**
+ * Whether a change satisfies a qualifier. Modifiers are checked on the
+ * declaration before the change, or on the added declaration.
+ */
+function matchesQualifier(
+  qualifier: IntentQualifier,
+  change: ApiChange,
+): boolean {
+  switch (qualifier.dimension) {
+    case 'nested':
+      return change.context.isNested === qualifier.value
+    case 'target':
+      return change.descriptor.target === qualifier.value
+    case 'nodeKind':
+      return change.nodeKind === qualifier.value
+    case 'tag':
+      return change.descriptor.tags.has(qualifier.value)
+    case 'modifier': {
+      const node = change.oldNode ?? change.newNode
+      return node !== undefined && hasModifier(node, qualifier.value)
+    }
+  }
+}
+
+/**
+ * Compiles a condition to a matcher of the changes that satisfy it.
+ */
+function conditionMatcher(condition: IntentCondition): ChangeMatcher {
+  switch (condition.kind) {
+    case 'qualifier':
+      return (change) => matchesQualifier(condition.qualifier, change)
+    case 'not': {
+      const operand = conditionMatcher(condition.operand)
+      return (change) => !operand(change)
+    }
+    case 'and': {
+      const operands = condition.operands.map(conditionMatcher)
+      return (change) => operands.every((operand) => operand(change))
+    }
+    case 'or': {
+      const operands = condition.operands.map(conditionMatcher)
+      return (change) => operands.some((operand) => operand(change))
+    }
+  }
+}
+
+/**
+ * Compiles the condition of a conditional pattern to the dimensions of a
+ * dimensional rule. Dimensions of the pattern itself, e.g. its target, are
+ * restricted further by the condition.
+ *
+ * Parts of the condition that the dimensions cannot express, e.g. symbol
+ * modifiers such as `deprecated`, negated targets or node kinds, and `or`
+ * between anything but targets or node kinds, compile to the matcher.
+ * Conditions that contradict the pattern or each other fail to compile.
+ */
+function compileCondition(
+  condition: NonNullable<ParsedTemplate['condition']>,
+  pattern: ConditionDimensions,
+):
+  | { success: true; dimensions: ConditionDimensions }
+  | { success: false; errors: string[] } {
+  const parsed = parseIntentCondition(condition.text)
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.errors.map(
+        (error) => `Invalid condition "${condition.text}": ${error.message}`,
+      ),
+    }
+  }
+
+  const dimensions: ConditionDimensions = { ...pattern }
+  const matchers: ChangeMatcher[] = []
+  try {
+    for (const conjunct of toConjuncts(
+      parsed.condition,
+      condition.keyword === 'unless',
+    )) {
+      const clause = toLiterals(conjunct.condition, conjunct.negated)
+      if (clause && isDimensional(clause)) {
+        addClause(dimensions, clause)
+      } else {
+        const matcher = conditionMatcher(conjunct.condition)
+        matchers.push(conjunct.negated ? (change) => !matcher(change) : matcher)
+      }
+    }
+  } catch (error) {
+    if (error instanceof ConditionCompileFailure) {
+      return {
+        success: false,
+        errors: [
+          `Cannot compile condition "${condition.text}": ${error.message}`,
+        ],
+      }
+    }
+    throw error
+  }
+  if (matchers.length > 0) {
+    dimensions.matcher = (change) =>
+      matchers.every((matcher) => matcher(change))
+  }
+  return { success: true, dimensions }
+}
+
+/**
+ * Sets the dimensions a condition constrains on a rule.
+ */
+function applyConditionDimensions(
+  rule: Partial<DimensionalRule>,
+  dimensions: ConditionDimensions,
+): void {
+  for (const key of [
+    'target',
+    'nodeKind',
+    'tags',
+    'notTags',
+    'nested',
+    'matcher',
+  ] as const) {
+    if (dimensions[key] !== undefined) {
+      Object.assign(rule, { [key]: dimensions[key] })
+    }
+  }
+}
+
 /**
  * Determine the impact based on parsed template and release type
  */
@@ -186,10 +567,18 @@ function determineImpact(
  * - **Targets**: From variable substitutions with type='target'
  * - **Impacts**: Inferred from the combination of action, aspect, and release type
  * - **Node kinds**: From variables with type='nodeKind'
- * - **Nested flag**: Set for conditional patterns ('when', 'unless')
+ * - **Conditions**: The condition of a `'{pattern} when {condition}'` or
+ *   `'{pattern} unless {condition}'` pattern, parsed with the intent grammar.
+ *   Nesting (`nested`, `top-level`) sets the nested flag, targets and node
+ *   kinds combined with `or` restrict the targets and node kinds, and change
+ *   tags and their negations become required and excluded tags. Other
+ *   conditions, e.g. symbol modifiers such as `deprecated` or
+ *   `'enum members or optional properties'`, become the rule's `matcher`
  *
  * The compilation will fail if the pattern doesn't specify at least one
- * dimension (action, aspect, or target).
+ * dimension (action, aspect, or target), or if its condition is invalid or
+ * contradicts the pattern, e.g. `'removed {target} when parameters'` for
+ * a property target.
  *
  * @param pattern - The pattern rule to compile
  * @returns Compilation result with dimensional rule (on success) or errors (on failure)
@@ -256,14 +645,16 @@ export function compilePattern(pattern: PatternRule): PatternCompileResult {
       dimensional.nodeKind = [parsed.nodeKind]
     }
 
-    // Handle conditionals
-    if (parsed.conditional === 'when') {
-      // Extract condition from variables (unused for now)
-      const _conditionVar = pattern.variables.find(
-        (v) => v.type === 'condition',
-      )
-      // For now, mark any conditional as nested for simplicity
-      dimensional.nested = true
+    // Compile the condition to further dimensions
+    if (parsed.condition) {
+      const compiled = compileCondition(parsed.condition, {
+        target: dimensional.target,
+        nodeKind: dimensional.nodeKind,
+      })
+      if (!compiled.success) {
+        return { success: false, errors: compiled.errors }
+      }
+      applyConditionDimensions(dimensional, compiled.dimensions)
     }
 
     // Validate the dimensional rule has at least one constraint
@@ -294,7 +685,7 @@ export function compilePattern(pattern: PatternRule): PatternCompileResult {
  * Validate whether a string is a valid pattern template.
  *
  * A valid pattern template must match at least one of:
- * - Action prefix (added, removed, renamed, reordered, modified)
+ * - Action prefix (added, removed, renamed, moved, reordered, modified)
  * - Aspect suffix (type narrowed, type widened, made optional, etc.)
  * - Placeholder syntax (`\{...\}`)
  * - Conditional clause (`when \{...\}`, `unless \{...\}`)
@@ -314,7 +705,7 @@ export function compilePattern(pattern: PatternRule): PatternCompileResult {
 export function isValidPatternTemplate(template: string): boolean {
   // Check for valid pattern structure
   const validPatterns = [
-    /^(added|removed|renamed|reordered|modified)\s+/,
+    /^(added|removed|renamed|moved|reordered|modified)\s+/,
     /\s+(type narrowed|type widened|made optional|made required|deprecated|undeprecated)$/,
     /\{[^}]+\}/, // Has placeholders
     /when\s+\{[^}]+\}/, // Conditional when
@@ -330,6 +721,8 @@ export function isValidPatternTemplate(template: string): boolean {
  * This is a lighter-weight alternative to `compilePattern` that returns
  * a partial dimensional rule with only the constraints that can be
  * directly inferred from the pattern. Useful for analysis or validation.
+ * A condition that cannot be compiled adds no constraints; use
+ * `compilePattern` to report it.
  *
  * @param pattern - The pattern rule to analyze
  * @returns Partial dimensional rule with inferred constraints
@@ -382,11 +775,15 @@ export function inferConstraints(
     constraints.nodeKind = [parsed.nodeKind]
   }
 
-  // Infer nested flag
-  if (parsed.conditional === 'when') {
-    const _conditionVar = pattern.variables.find((v) => v.type === 'condition')
-    // For now, mark any conditional as nested for simplicity
-    constraints.nested = true
+  // Infer the dimensions of the condition, if it can be compiled
+  if (parsed.condition) {
+    const compiled = compileCondition(parsed.condition, {
+      target: constraints.target,
+      nodeKind: constraints.nodeKind,
+    })
+    if (compiled.success) {
+      applyConditionDimensions(constraints, compiled.dimensions)
+    }
   }
 
   return constraints
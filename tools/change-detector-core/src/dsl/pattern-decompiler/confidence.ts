@@ -193,6 +193,7 @@ function extractActionFromPattern(
   if (template.startsWith('added ')) return 'added'
   if (template.startsWith('removed ')) return 'removed'
   if (template.startsWith('renamed ')) return 'renamed'
+  if (template.startsWith('moved ')) return 'moved'
   if (template.startsWith('reordered ')) return 'reordered'
   if (template.startsWith('modified ')) return 'modified'
 
@@ -207,6 +207,9 @@ function createFallbackPattern(
     case 'renamed':
       template = 'renamed {target}'
       break
+    case 'moved':
+      template = 'moved {target}'
+      break
     case 'reordered':
       template = 'reordered {target}'
       break
@@ -160,6 +160,14 @@ const PATTERN_MAPPINGS: PatternMapping[] = [
     priority: 5,
     description: 'Element was renamed',
   },
+  {
+    template: 'moved {target}',
+    requiredDimensions: {
+      action: ['moved'],
+    },
+    priority: 5,
+    description: 'Element was moved to another path',
+  },
   {
     template: 'reordered {target}',
     requiredDimensions: {
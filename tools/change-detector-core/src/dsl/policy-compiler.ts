@@ -0,0 +1,118 @@
+/**
+ * DSL Policy Compiler
+ *
+ * Compiles DSL policies into policies that classify changes. Intent and
+ * pattern rules are compiled to dimensional rules first, whose dimensions
+ * and matcher become the conditions of a policy rule.
+ *
+ * Unlike a policy document, a compiled policy keeps the matchers of
+ * conditions the dimensions can't express, such as the `deprecated`
+ * modifier.
+ *
+ * @example
+ * ```typescript
+ * import { classifyChanges, compilePolicy, createProgressivePolicy } from '@api-extractor/change-detector-core'
+ *
+ * const policy = compilePolicy(
+ *   createProgressivePolicy()
+ *     .intent('type change is minor for enum members or optional properties', 'minor')
+ *     .build('members', 'none'),
+ * )
+ * const results = classifyChanges(changes, policy)
+ * ```
+ */
+
+import type { DSLPolicy, DSLRule, DimensionalRule } from './dsl-types'
+import { rule, type Policy, type PolicyRule } from '../ast/rule-builder'
+import { parseIntent } from './intent-parser'
+import { compilePattern } from './pattern-compiler'
+
+/**
+ * Compiles a rule to a dimensional rule.
+ */
+function toDimensionalRule(dslRule: DSLRule, index: number): DimensionalRule {
+  if (dslRule.type === 'dimensional') {
+    return dslRule
+  }
+
+  let pattern = dslRule
+  if (pattern.type === 'intent') {
+    const parsed = parseIntent(pattern)
+    if (!parsed.success) {
+      throw new Error(
+        `Rule ${index + 1} cannot be parsed: ${parsed.errors!.join('; ')}`,
+      )
+    }
+    pattern = parsed.pattern!
+  }
+
+  const compiled = compilePattern(pattern)
+  if (!compiled.success) {
+    throw new Error(
+      `Rule ${index + 1} cannot be compiled: ${compiled.errors!.join('; ')}`,
+    )
+  }
+  return compiled.dimensional!
+}
+
+/**
+ * Converts a dimensional rule to a policy rule. Rules built with
+ * `ProgressiveRuleBuilder.dimensional(name)` carry their name in
+ * `description`.
+ *
+ * Only modifications have an impact, so the impact `compilePattern()`
+ * derives from the release type is dropped for rules matching other
+ * actions, such as removals, which would otherwise never match.
+ */
+function toPolicyRule(dimensional: DimensionalRule, index: number): PolicyRule {
+  const builder = rule(dimensional.description ?? `rule-${index + 1}`)
+  const modifies =
+    !dimensional.action?.length || dimensional.action.includes('modified')
+  if (dimensional.target?.length) builder.target(...dimensional.target)
+  if (dimensional.action?.length) builder.action(...dimensional.action)
+  if (dimensional.aspect?.length) builder.aspect(...dimensional.aspect)
+  if (modifies && dimensional.impact?.length) {
+    builder.impact(...dimensional.impact)
+  }
+  if (dimensional.nodeKind?.length) builder.nodeKind(...dimensional.nodeKind)
+  if (dimensional.tags?.length) builder.hasTag(...dimensional.tags)
+  if (dimensional.notTags?.length) builder.notTag(...dimensional.notTags)
+  if (dimensional.nested !== undefined) builder.nested(dimensional.nested)
+  if (dimensional.matcher) builder.when(dimensional.matcher)
+  return builder.returns(dimensional.returns)
+}
+
+/**
+ * Compile a DSL policy into a policy for `classifyChanges`.
+ *
+ * Intent rules are parsed to patterns, and patterns compiled to dimensional
+ * rules, which become the policy's rules in order. Rules whose conditions
+ * compiled to a matcher, e.g. `'breaking removal unless deprecated'`,
+ * keep it, so they can't be serialized with `serializePolicy` afterwards.
+ *
+ * @param policy - The DSL policy to compile
+ * @returns The policy with a rule for each DSL rule
+ * @throws If an intent rule cannot be parsed or a rule cannot be compiled
+ *
+ * @example
+ * ```typescript
+ * const policy = compilePolicy({
+ *   name: 'lenient',
+ *   rules: [
+ *     { type: 'intent', expression: 'type change is minor for optional properties', returns: 'minor' },
+ *   ],
+ *   defaultReleaseType: 'none',
+ * })
+ * ```
+ *
+ * @alpha
+ */
+export function compilePolicy(policy: DSLPolicy): Policy {
+  return {
+    name: policy.name,
+    rules: policy.rules.map((dslRule, index) =>
+      toPolicyRule(toDimensionalRule(dslRule, index), index),
+    ),
+    defaultReleaseType: policy.defaultReleaseType,
+  }
+}
@@ -58,7 +58,7 @@ export class DimensionalRuleBuilder<T extends ProgressiveRuleBuilderInterface> {
   /**
    * Specify change actions to match.
    *
-   * @param actions - One or more actions ('added', 'removed', 'renamed', 'reordered', 'modified')
+   * @param actions - One or more actions ('added', 'removed', 'renamed', 'moved', 'reordered', 'modified')
    * @returns This builder for chaining
    *
    * @example
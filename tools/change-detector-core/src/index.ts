@@ -166,6 +166,7 @@ export type {
   TypeInfo,
   // Node types
   NodeMetadata,
+  ReleaseTag,
   AnalyzableNode,
   // Module analysis
   ModuleAnalysis,
@@ -176,24 +177,35 @@ export type {
   ChangeAspect,
   ChangeImpact,
   ChangeTag,
+  VariancePolarity,
   // Discriminated union descriptor types
   AddedDescriptor,
   RemovedDescriptor,
   ModifiedDescriptor,
   RenamedDescriptor,
+  MovedDescriptor,
   ReorderedDescriptor,
   ChangeDescriptor,
   ChangeContext,
   ApiChange,
   // Classified change
   ClassifiedChange,
+  ChangeSuppression,
+  ClassificationTrace,
+  RuleTrace,
+  ConditionTrace,
   // Options
   ParseOptions,
+  MultiFileParseOptions,
   DiffOptions,
 } from './ast/types'
 
 // Parser exports
-export { parseModule, parseModuleWithTypes } from './ast/parser'
+export {
+  parseModule,
+  parseModuleWithTypes,
+  parseModulesWithTypes,
+} from './ast/parser'
 
 // Differ exports
 export {
@@ -208,15 +220,40 @@ export type {
   ASTComparisonReport,
   ASTChangeJSON,
   ASTReportJSON,
+  ASTReportJSONValidationError,
+  ASTReportJSONValidationResult,
+  SARIFReporterOptions,
+  SARIFLevel,
+  SARIFLocation,
+  SARIFRule,
+  SARIFResult,
+  SARIFLog,
+  HTMLReporterOptions,
+  JUnitReporterOptions,
+  CheckstyleReporterOptions,
+  ChangelogTemplates,
+  ChangelogReporterOptions,
 } from './ast/reporter'
 
 // Reporter exports
 export {
   createASTComparisonReport,
   formatSourceLocation,
+  formatForbiddenRule,
   formatASTReportAsText,
   formatASTReportAsMarkdown,
+  AST_REPORT_SCHEMA_VERSION,
+  AST_REPORT_SCHEMA_URL,
   formatASTReportAsJSON,
+  ASTReportJSONError,
+  astReportJSONSchema,
+  validateASTReportJSON,
+  parseASTReportJSON,
+  formatASTReportAsSARIF,
+  formatASTReportAsHTML,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  formatASTReportAsChangelog,
 } from './ast/reporter'
 
 // Plugin type exports
@@ -246,6 +283,7 @@ export {
   defaultASTPolicy,
   readOnlyASTPolicy,
   writeOnlyASTPolicy,
+  releaseTagASTPolicy,
 } from './ast/plugin-types'
 
 // Built-in reporter definitions
@@ -253,6 +291,11 @@ export {
   textASTReporter,
   markdownASTReporter,
   jsonASTReporter,
+  sarifASTReporter,
+  htmlASTReporter,
+  junitASTReporter,
+  checkstyleASTReporter,
+  changelogASTReporter,
 } from './ast/plugin-types'
 
 // Rule builder type exports
@@ -260,7 +303,9 @@ export type {
   ChangeMatcher,
   PolicyRule,
   Policy,
+  RuleConditions,
   ClassificationResult,
+  ClassifyOptions,
 } from './ast/rule-builder'
 
 // Rule builder exports
@@ -271,6 +316,8 @@ export {
   createPolicy,
   classifyChange,
   classifyChanges,
+  isClassifiedChange,
+  flattenClassifiedChanges,
   determineOverallRelease,
 } from './ast/rule-builder'
 
@@ -279,8 +326,73 @@ export {
   semverDefaultPolicy,
   semverReadOnlyPolicy,
   semverWriteOnlyPolicy,
+  semverReleaseTagPolicy,
 } from './ast/builtin-policies'
 
+// Deprecation lifecycle type exports
+export type { DeprecationLifecycleOptions } from './ast/deprecation-lifecycle'
+
+// Deprecation lifecycle exports
+export { createDeprecationLifecyclePolicy } from './ast/deprecation-lifecycle'
+
+// Policy composition type exports
+export type {
+  PolicyExtension,
+  PolicyLayer,
+  PolicyScope,
+} from './ast/policy-composition'
+
+// Policy composition exports
+export {
+  extendPolicy,
+  layerPolicies,
+  scopePolicy,
+} from './ast/policy-composition'
+
+// Declarative policy document type exports
+export type {
+  BuiltinPolicyName,
+  PolicyDocument,
+  PolicyDocumentRule,
+  PolicyDocumentValidationError,
+  PolicyDocumentValidationResult,
+} from './ast/policy-document'
+
+// Declarative policy document exports
+export {
+  PolicyDocumentError,
+  policyDocumentSchema,
+  validatePolicyDocument,
+  loadPolicy,
+  serializePolicy,
+} from './ast/policy-document'
+
+// Policy analysis type exports
+export type {
+  PolicyRuleReference,
+  UnreachableRule,
+  RuleOverlap,
+  PolicyAnalysis,
+} from './ast/policy-analyzer'
+
+// Policy analysis exports
+export { analyzePolicy } from './ast/policy-analyzer'
+
+// Policy coverage type exports
+export type {
+  CoverageChangeSet,
+  RuleCoverage,
+  UnusedRule,
+  UncoveredChange,
+  PolicyCoverageReport,
+} from './ast/policy-coverage'
+
+// Policy coverage exports
+export {
+  measurePolicyCoverage,
+  formatCoverageReportAsMarkdown,
+} from './ast/policy-coverage'
+
 // =============================================================================
 // Progressive DSL System
 // =============================================================================
@@ -290,6 +402,18 @@ export type {
   // Level 1: Intent-based
   IntentExpression,
   IntentRule,
+  // Intent grammar
+  IntentSourceSpan,
+  IntentSyntaxError,
+  IntentChangeKind,
+  IntentVerdict,
+  IntentStatement,
+  IntentModifier,
+  IntentQualifier,
+  IntentCondition,
+  IntentClause,
+  IntentSyntaxTree,
+  IntentSyntaxResult,
   // Level 2: Pattern-based
   PatternTemplate,
   PatternVariable,
@@ -327,6 +451,9 @@ export {
   ProgressiveRuleBuilder,
   createProgressivePolicy,
   createStandardPolicy,
+  // Intent grammar functions
+  parseIntentSyntax,
+  formatIntentCondition,
   // Intent parser functions
   parseIntent,
   isValidIntentExpression,
@@ -343,116 +470,36 @@ export {
   synthesizeIntent,
   detectCommonPattern,
   generateIntentExpression,
+  // Policy compiler functions
+  compilePolicy,
 } from './dsl'
 
 // =============================================================================
 // Convenience Functions
 // =============================================================================
 
-import type { ApiChange, ParseOptions, DiffOptions } from './ast/types'
-import type { Policy, ClassificationResult } from './ast/rule-builder'
-import type { ReleaseType } from './types'
-import { parseModuleWithTypes as parseASTModule } from './ast/parser'
-import { diffModules as diffASTModules } from './ast/differ'
-import {
-  classifyChanges as classifyASTChangesInternal,
-  determineOverallRelease as determineOverallReleaseInternal,
-} from './ast/rule-builder'
-import { semverDefaultPolicy as defaultPolicy } from './ast/builtin-policies'
-
-/**
- * Options for the analyzeChanges convenience function.
- *
- * @alpha
- */
-export interface AnalyzeChangesOptions {
-  /** Policy to use for classification (defaults to semverDefaultPolicy) */
-  policy?: Policy
-  /** Options for parsing source code */
-  parseOptions?: ParseOptions
-  /** Options for comparing modules */
-  diffOptions?: DiffOptions
-}
-
-/**
- * Result of analyzing changes between two source files.
- *
- * @alpha
- */
-export interface AnalyzeChangesResult {
-  /** All detected API changes */
-  changes: ApiChange[]
-  /** Classification results with matched rules */
-  results: ClassificationResult[]
-  /** The overall release type (highest severity) */
-  releaseType: ReleaseType
-}
+export type {
+  AnalyzeChangesOptions,
+  AnalyzeChangesResult,
+} from './analyze-changes'
+export { analyzeChanges } from './analyze-changes'
 
-/**
- * Convenience function that combines parsing, diffing, and classification.
- *
- * This is the recommended entry point for change analysis. It handles the
- * full workflow of:
- * 1. Parsing both source files into AST analyses with TypeChecker
- * 2. Computing structural changes between them
- * 3. Classifying changes according to the policy
- * 4. Determining the overall release type
- *
- * @param oldSource - The old (baseline) source code
- * @param newSource - The new source code to compare
- * @param tsModule - The TypeScript module to use for type checking
- * @param options - Optional configuration for parsing, diffing, and policy
- * @returns Analysis results including changes, classifications, and release type
- *
- * @example
- * ```ts
- * import * as ts from 'typescript';
- * import { analyzeChanges } from '@api-extractor-tools/change-detector-core';
- *
- * const result = analyzeChanges(oldSource, newSource, ts);
- * console.log(`Release type: ${result.releaseType}`);
- *
- * for (const { change, releaseType, matchedRule } of result.results) {
- *   console.log(`[${releaseType}] ${change.explanation}`);
- *   if (matchedRule) {
- *     console.log(`  Rule: ${matchedRule.name}`);
- *   }
- * }
- * ```
- *
- * @alpha
- */
-export function analyzeChanges(
-  oldSource: string,
-  newSource: string,
-  tsModule: typeof ts,
-  options: AnalyzeChangesOptions = {},
-): AnalyzeChangesResult {
-  const {
-    policy = defaultPolicy,
-    parseOptions = {},
-    diffOptions = { includeNestedChanges: true },
-  } = options
-
-  // Parse both sources with TypeChecker
-  const oldAnalysis = parseASTModule(oldSource, tsModule, parseOptions)
-  const newAnalysis = parseASTModule(newSource, tsModule, parseOptions)
-
-  // Compute changes
-  const changes = diffASTModules(oldAnalysis, newAnalysis, diffOptions)
-
-  // Classify changes
-  const results = classifyASTChangesInternal(changes, policy)
-
-  // Determine overall release type
-  const releaseType = determineOverallReleaseInternal(results)
+// Policy testing type exports
+export type {
+  PolicySnapshotCase,
+  PolicyTestCase,
+  PolicyTestOptions,
+  PolicyTestResult,
+} from './policy-testing'
 
-  return {
-    changes,
-    results,
-    releaseType,
-  }
-}
+// Policy testing exports
+export {
+  PolicyTestError,
+  runPolicyCases,
+  assertPolicyCases,
+  formatPolicyTestFailure,
+  snapshotPolicyCases,
+} from './policy-testing'
 
 // =============================================================================
 // Legacy Compatibility Functions
@@ -488,10 +535,13 @@ function nodeKindToSymbolKind(kind: NodeKind): SymbolKind {
     case 'type-alias':
       return 'type'
     case 'variable':
+    case 'unique-symbol':
       return 'variable'
     case 'enum':
       return 'enum'
     case 'namespace':
+    case 'global-augmentation':
+    case 'ambient-module':
       return 'namespace'
     default:
       return 'variable' // Default fallback
@@ -0,0 +1,306 @@
+/**
+ * Test harness for policies.
+ *
+ * Runs a table of declaration snippets through {@link analyzeChanges} with a
+ * policy, and compares the release types with the expected ones. With
+ * `{ nested: true }`, the changes of members are classified as well. The harness doesn't depend on a
+ * test runner: {@link assertPolicyCases} throws a {@link PolicyTestError}
+ * describing every failing case, and {@link snapshotPolicyCases} returns text
+ * for the runner's snapshots.
+ *
+ * @example
+ * ```ts
+ * import * as ts from 'typescript'
+ * import { it, expect } from 'vitest'
+ * import { assertPolicyCases, snapshotPolicyCases } from '@api-extractor-tools/change-detector-core'
+ *
+ * const policy = myPolicyDefinition.createPolicy()
+ *
+ * it('classifies removals as major', () => {
+ *   assertPolicyCases(policy, ts, [
+ *     {
+ *       name: 'optional property removal',
+ *       old: 'export interface Foo { bar?: string }',
+ *       new: 'export interface Foo {}',
+ *       expected: 'major',
+ *     },
+ *   ], { nested: true })
+ * })
+ *
+ * it('classifies the corpus', () => {
+ *   expect(snapshotPolicyCases(policy, ts, corpus)).toMatchSnapshot()
+ * })
+ * ```
+ */
+
+import type * as ts from 'typescript'
+import type { ClassifiedChange } from './ast/types'
+import type { Policy } from './ast/rule-builder'
+import type { ReleaseType } from './types'
+import { flattenClassifiedChanges } from './ast/rule-builder'
+import {
+  analyzeChanges,
+  type AnalyzeChangesOptions,
+  type AnalyzeChangesResult,
+} from './analyze-changes'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A pair of declaration snippets to classify with a policy.
+ *
+ * @alpha
+ */
+export interface PolicySnapshotCase {
+  /** Name of the case in failures and snapshots (defaults to its index) */
+  name?: string
+  /** The old declarations */
+  old: string
+  /** The new declarations */
+  new: string
+}
+
+/**
+ * A pair of declaration snippets and the release type a policy should
+ * classify their changes as.
+ *
+ * @alpha
+ */
+export interface PolicyTestCase extends PolicySnapshotCase {
+  /** The expected overall release type */
+  expected: ReleaseType
+}
+
+/**
+ * Options for running policy test cases.
+ *
+ * @alpha
+ */
+export type PolicyTestOptions = Omit<AnalyzeChangesOptions, 'policy'>
+
+/**
+ * The outcome of a policy test case.
+ *
+ * @alpha
+ */
+export interface PolicyTestResult {
+  /** The test case */
+  testCase: PolicyTestCase
+  /** Name of the test case */
+  name: string
+  /** Whether the actual release type is the expected one */
+  passed: boolean
+  /** The overall release type the policy classified the changes as */
+  actual: ReleaseType
+  /** The detected and classified changes */
+  analysis: AnalyzeChangesResult
+  /**
+   * The classified changes, followed by the classified changes of their
+   * members with `{ nested: true }`
+   */
+  results: ClassifiedChange[]
+}
+
+/**
+ * Error thrown by {@link assertPolicyCases} when test cases fail.
+ *
+ * @alpha
+ */
+export class PolicyTestError extends Error {
+  /**
+   * The failed test cases.
+   */
+  readonly failures: readonly PolicyTestResult[]
+
+  constructor(message: string, failures: readonly PolicyTestResult[]) {
+    super(message)
+    this.name = 'PolicyTestError'
+    this.failures = failures
+  }
+}
+
+// =============================================================================
+// Running Cases
+// =============================================================================
+
+function caseName(testCase: PolicySnapshotCase, index: number): string {
+  return testCase.name ?? `case ${index + 1}`
+}
+
+/**
+ * Detects and classifies the changes of a case, as {@link analyzeChanges}
+ * does.
+ */
+function classifyCase(
+  policy: Policy,
+  tsModule: typeof ts,
+  snapshotCase: PolicySnapshotCase,
+  options: PolicyTestOptions,
+): Pick<PolicyTestResult, 'actual' | 'analysis' | 'results'> {
+  const analysis = analyzeChanges(
+    snapshotCase.old,
+    snapshotCase.new,
+    tsModule,
+    {
+      ...options,
+      policy,
+    },
+  )
+  return {
+    actual: analysis.releaseType,
+    analysis,
+    results: flattenClassifiedChanges(analysis.results),
+  }
+}
+
+/**
+ * Classifies the changes of each test case with a policy.
+ *
+ * @param policy - The policy under test
+ * @param tsModule - The TypeScript module to use for type checking
+ * @param cases - The test cases
+ * @param options - Options for parsing, diffing and classification
+ * @returns The outcome of each test case, in order
+ *
+ * @alpha
+ */
+export function runPolicyCases(
+  policy: Policy,
+  tsModule: typeof ts,
+  cases: readonly PolicyTestCase[],
+  options: PolicyTestOptions = {},
+): PolicyTestResult[] {
+  return cases.map((testCase, index) => {
+    const classified = classifyCase(policy, tsModule, testCase, options)
+    return {
+      testCase,
+      name: caseName(testCase, index),
+      passed: classified.actual === testCase.expected,
+      ...classified,
+    }
+  })
+}
+
+/**
+ * Classifies the changes of each test case with a policy and throws if any
+ * release type differs from the expected one.
+ *
+ * @param policy - The policy under test
+ * @param tsModule - The TypeScript module to use for type checking
+ * @param cases - The test cases
+ * @param options - Options for parsing, diffing and classification
+ * @throws {@link PolicyTestError} describing every failed case
+ *
+ * @alpha
+ */
+export function assertPolicyCases(
+  policy: Policy,
+  tsModule: typeof ts,
+  cases: readonly PolicyTestCase[],
+  options: PolicyTestOptions = {},
+): void {
+  const failures = runPolicyCases(policy, tsModule, cases, options).filter(
+    (result) => !result.passed,
+  )
+  if (failures.length === 0) {
+    return
+  }
+
+  const message = [
+    `Policy "${policy.name}": ${failures.length} of ${cases.length} case(s) failed`,
+    ...failures.map((failure) => `\n${formatPolicyTestFailure(failure)}`),
+  ].join('\n')
+  throw new PolicyTestError(message, failures)
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+function formatSnippet(source: string): string {
+  const trimmed = source.trim()
+  if (!trimmed) {
+    return '    (empty)'
+  }
+  return trimmed
+    .split('\n')
+    .map((line) => `    ${line}`)
+    .join('\n')
+}
+
+/**
+ * Formats a classified change on one line, with the rule that matched.
+ */
+function formatResult(result: ClassifiedChange): string {
+  const rule = result.matchedRule
+    ? `rule "${result.matchedRule.name}"`
+    : 'default release type'
+  return `[${result.releaseType}] ${result.path}: ${result.explanation} (${rule})`
+}
+
+function formatResults(results: readonly ClassifiedChange[]): string[] {
+  return results.length > 0
+    ? results.map((result) => `  - ${formatResult(result)}`)
+    : ['  (no changes detected)']
+}
+
+/**
+ * Formats a failed test case with its snippets and the detected changes.
+ *
+ * @param result - The outcome of the test case
+ * @returns The failure as text
+ *
+ * @alpha
+ */
+export function formatPolicyTestFailure(result: PolicyTestResult): string {
+  return [
+    `✗ ${result.name}`,
+    `  expected: ${result.testCase.expected}`,
+    `  actual:   ${result.actual}`,
+    '  old:',
+    formatSnippet(result.testCase.old),
+    '  new:',
+    formatSnippet(result.testCase.new),
+    '  changes:',
+    ...formatResults(result.results).map((line) => `  ${line}`),
+  ].join('\n')
+}
+
+/**
+ * Classifies the changes of each case with a policy and formats the
+ * outcomes for a snapshot.
+ *
+ * Each case lists its overall release type and the classified changes with
+ * the rule that matched, so that a change in a snapshot shows which rule's
+ * behavior changed.
+ *
+ * @param policy - The policy under test
+ * @param tsModule - The TypeScript module to use for type checking
+ * @param cases - The cases to classify
+ * @param options - Options for parsing, diffing and classification
+ * @returns The snapshot text
+ *
+ * @alpha
+ */
+export function snapshotPolicyCases(
+  policy: Policy,
+  tsModule: typeof ts,
+  cases: readonly PolicySnapshotCase[],
+  options: PolicyTestOptions = {},
+): string {
+  const sections = cases.map((snapshotCase, index) => {
+    const { actual, results } = classifyCase(
+      policy,
+      tsModule,
+      snapshotCase,
+      options,
+    )
+    return [
+      `${caseName(snapshotCase, index)}: ${actual}`,
+      ...formatResults(results),
+    ].join('\n')
+  })
+  return [`Policy "${policy.name}"`, ...sections].join('\n\n') + '\n'
+}
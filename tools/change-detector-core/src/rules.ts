@@ -42,4 +42,5 @@ export {
   semverDefaultPolicy,
   semverReadOnlyPolicy,
   semverWriteOnlyPolicy,
+  semverReleaseTagPolicy,
 } from './ast/builtin-policies'
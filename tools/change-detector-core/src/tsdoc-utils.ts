@@ -21,6 +21,7 @@ import {
   type DocNode,
 } from '@microsoft/tsdoc'
 import type { SymbolMetadata } from './types'
+import type { ReleaseTag } from './ast/types'
 
 /**
  * TSDoc parser instance configured for standard tags plus \@default.
@@ -50,6 +51,24 @@ function getParser(): TSDocParser {
     })
     config.addTagDefinition(enumTypeTagDefinition)
 
+    // Add @breakingChangeApproved as a recognized block tag for
+    // pre-approved breaking changes
+    const breakingChangeApprovedTagDefinition = new TSDocTagDefinition({
+      tagName: '@breakingChangeApproved',
+      syntaxKind: TSDocTagSyntaxKind.BlockTag,
+      allowMultiple: false,
+    })
+    config.addTagDefinition(breakingChangeApprovedTagDefinition)
+
+    // Add @since as a recognized block tag for the version of a deprecation
+    // whose message names none
+    const sinceTagDefinition = new TSDocTagDefinition({
+      tagName: '@since',
+      syntaxKind: TSDocTagSyntaxKind.BlockTag,
+      allowMultiple: false,
+    })
+    config.addTagDefinition(sinceTagDefinition)
+
     parserInstance = new TSDocParser(config)
   }
   return parserInstance
@@ -109,6 +128,51 @@ function extractDeprecatedMessage(docComment: DocComment): string | undefined {
   return message || undefined
 }
 
+/**
+ * A version such as "2.1.0", "2.1" or "v2". Bare numbers are not versions.
+ */
+const VERSION = String.raw`(?:v(\d+(?:\.\d+){0,2})|(\d+\.\d+(?:\.\d+)?))(?!\w|\.\d)`
+
+/**
+ * Version at the start of a deprecation message, e.g. "2.1.0: Use bar()"
+ */
+const LEADING_VERSION = new RegExp(`^${VERSION}`)
+
+/**
+ * Version following "since", "as of" or "deprecated in", e.g.
+ * "Deprecated since v2.1". Other versions, e.g. in "Will be removed in
+ * v3", are not the deprecation version.
+ */
+const SINCE_VERSION = new RegExp(
+  String.raw`\b(?:since|as of|deprecated in)\s+(?:version\s+)?${VERSION}`,
+  'i',
+)
+
+/**
+ * Extracts the version a symbol was deprecated in from its deprecation
+ * message, e.g. "2.1" from "Deprecated since v2.1, use bar() instead".
+ */
+function extractDeprecationVersion(message: string): string | undefined {
+  const match = LEADING_VERSION.exec(message) ?? SINCE_VERSION.exec(message)
+  return match ? (match[1] ?? match[2]) : undefined
+}
+
+/**
+ * Extracts the version from a `@since` block tag, e.g. "2.1.0" from
+ * `@since 2.1.0`.
+ */
+function extractSinceVersion(docComment: DocComment): string | undefined {
+  for (const block of docComment.customBlocks) {
+    if (block.blockTag.tagName.toLowerCase() === '@since') {
+      const match = LEADING_VERSION.exec(
+        extractTextFromDocNodes(block.content.nodes),
+      )
+      return match ? (match[1] ?? match[2]) : undefined
+    }
+  }
+  return undefined
+}
+
 /**
  * Extracts the value from a \@default or \@defaultValue block tag.
  */
@@ -152,6 +216,36 @@ function extractEnumType(
   return undefined
 }
 
+/**
+ * Extracts the reason from a `@breakingChangeApproved` block tag.
+ * @returns The reason ('' if none was given), or undefined if the tag is
+ * not present
+ */
+function extractBreakingChangeApproval(
+  docComment: DocComment,
+): string | undefined {
+  for (const block of docComment.customBlocks) {
+    const tagName = block.blockTag.tagName.toLowerCase()
+    if (tagName === '@breakingchangeapproved') {
+      return extractTextFromDocNodes(block.content.nodes)
+    }
+  }
+  return undefined
+}
+
+/**
+ * Extracts the release tag from the modifiers of a TSDoc comment. If several
+ * are given, the least public one applies.
+ */
+function extractReleaseTag(docComment: DocComment): ReleaseTag | undefined {
+  const modifiers = docComment.modifierTagSet
+  if (modifiers.isInternal()) return 'internal'
+  if (modifiers.isAlpha()) return 'alpha'
+  if (modifiers.isBeta()) return 'beta'
+  if (modifiers.isPublic()) return 'public'
+  return undefined
+}
+
 /**
  * Metadata extracted from a TSDoc comment.
  *
@@ -162,10 +256,23 @@ interface TSDocMetadata {
   isDeprecated: boolean
   /** The deprecation message if provided */
   deprecationMessage?: string
+  /**
+   * The version named in the deprecation message, e.g. "2.1", or else in a
+   * `@since` tag
+   */
+  deprecatedSince?: string
   /** The default value from \@default or \@defaultValue tag */
   defaultValue?: string
   /** The enum type from `@enumType` tag ('open' or 'closed') */
   enumType?: 'open' | 'closed'
+  /** Whether the symbol has an `@breakingChangeApproved` tag */
+  isBreakingChangeApproved: boolean
+  /** The reason given with the `@breakingChangeApproved` tag */
+  breakingChangeReason?: string
+  /** Whether the symbol has an \@experimental tag */
+  isExperimental: boolean
+  /** The release tag from a \@public, \@beta, \@alpha or \@internal modifier */
+  releaseTag?: ReleaseTag
 }
 
 /**
@@ -179,6 +286,8 @@ interface TSDocMetadata {
 export function extractTSDocMetadata(commentText: string): TSDocMetadata {
   const result: TSDocMetadata = {
     isDeprecated: false,
+    isBreakingChangeApproved: false,
+    isExperimental: false,
   }
 
   if (!commentText || !commentText.trim()) {
@@ -195,6 +304,12 @@ export function extractTSDocMetadata(commentText: string): TSDocMetadata {
     if (message) {
       result.deprecationMessage = message
     }
+    const version =
+      (message && extractDeprecationVersion(message)) ??
+      extractSinceVersion(docComment)
+    if (version) {
+      result.deprecatedSince = version
+    }
   }
 
   // Check for @default or @defaultValue
@@ -209,6 +324,26 @@ export function extractTSDocMetadata(commentText: string): TSDocMetadata {
     result.enumType = enumType
   }
 
+  // Check for @breakingChangeApproved
+  const approval = extractBreakingChangeApproval(docComment)
+  if (approval !== undefined) {
+    result.isBreakingChangeApproved = true
+    if (approval) {
+      result.breakingChangeReason = approval
+    }
+  }
+
+  // Check for @experimental
+  if (docComment.modifierTagSet.isExperimental()) {
+    result.isExperimental = true
+  }
+
+  // Check for @public, @beta, @alpha or @internal
+  const releaseTag = extractReleaseTag(docComment)
+  if (releaseTag) {
+    result.releaseTag = releaseTag
+  }
+
   return result
 }
 
@@ -264,4 +399,3 @@ export function isTSDocComment(commentText: string): boolean {
   const trimmed = commentText.trim()
   return trimmed.startsWith('/**') && trimmed.endsWith('*/')
 }
-
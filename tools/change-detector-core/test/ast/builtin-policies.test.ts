@@ -3,6 +3,7 @@ import {
   semverDefaultPolicy,
   semverReadOnlyPolicy,
   semverWriteOnlyPolicy,
+  semverReleaseTagPolicy,
 } from '../../src/ast/builtin-policies'
 import { classifyChange } from '../../src/ast/rule-builder'
 import type {
@@ -125,6 +126,16 @@ describe('Built-in Policies', () => {
         const result = classifyChange(change, semverDefaultPolicy)
         expect(result.releaseType).toBe('minor')
       })
+
+      it('classifies release tag promotion as minor', () => {
+        const change = makeChange({
+          aspect: 'release-tag',
+          impact: 'widening',
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('release-tag-promotion')
+      })
     })
 
     describe('patch changes', () => {
@@ -268,6 +279,200 @@ describe('Built-in Policies', () => {
         const result = classifyChange(change, semverDefaultPolicy)
         expect(result.releaseType).toBe('major')
       })
+
+      it('classifies an inlined const enum value change as major', () => {
+        const change = makeChange({
+          target: 'enum-member',
+          aspect: 'enum-value',
+          impact: 'unrelated',
+          tags: new Set(['inlined-value'] as const),
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('inlined-enum-value-change')
+      })
+    })
+
+    describe('const enum changes', () => {
+      it('classifies making an enum const as major', () => {
+        const change = makeChange({ aspect: 'constness', impact: 'narrowing' })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('enum-made-const')
+      })
+
+      it('classifies removing const from an enum as minor', () => {
+        const change = makeChange({ aspect: 'constness', impact: 'widening' })
+        expect(classifyChange(change, semverDefaultPolicy).releaseType).toBe(
+          'minor',
+        )
+        expect(classifyChange(change, semverReadOnlyPolicy).releaseType).toBe(
+          'minor',
+        )
+        expect(classifyChange(change, semverWriteOnlyPolicy).releaseType).toBe(
+          'minor',
+        )
+      })
+    })
+
+    describe('kind changes', () => {
+      it('classifies an equivalent kind change as none', () => {
+        const change = makeChange({
+          aspect: 'kind-changed',
+          impact: 'equivalent',
+          tags: new Set(['lost-declaration-merging'] as const),
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('none')
+        expect(result.matchedRule?.name).toBe('equivalent-kind-change')
+      })
+
+      it('classifies other kind changes as major', () => {
+        const change = makeChange({
+          aspect: 'kind-changed',
+          impact: 'unrelated',
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('kind-change')
+      })
+
+      it('classifies a symbol made unique as minor', () => {
+        const change = makeChange({
+          aspect: 'kind-changed',
+          impact: 'narrowing',
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('unique-symbol-kind-change')
+      })
+
+      it('classifies a unique symbol widened to symbol as major', () => {
+        const change = makeChange({
+          aspect: 'kind-changed',
+          impact: 'widening',
+          tags: new Set(['lost-unique-symbol'] as const),
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('kind-change')
+      })
+    })
+
+    describe('moves', () => {
+      it('classifies a move into a namespace as major', () => {
+        const change = makeChange({ target: 'export', action: 'moved' })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('move')
+      })
+
+      it('classifies moves as major for readers and writers', () => {
+        const change = makeChange({ target: 'export', action: 'moved' })
+        expect(classifyChange(change, semverReadOnlyPolicy).releaseType).toBe(
+          'major',
+        )
+        expect(classifyChange(change, semverWriteOnlyPolicy).releaseType).toBe(
+          'major',
+        )
+      })
+    })
+
+    describe('overload changes', () => {
+      it('classifies overload removal as major', () => {
+        const change = makeChange({ target: 'overload', action: 'removed' })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('overload-removal')
+      })
+
+      it('classifies overload addition as minor', () => {
+        const change = makeChange({ target: 'overload', action: 'added' })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+      })
+
+      it('classifies nested overload addition as minor', () => {
+        const change = makeChange(
+          { target: 'overload', action: 'added' },
+          { isNested: true },
+        )
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+      })
+
+      it('classifies overload reordering as major', () => {
+        const change = makeChange({ target: 'overload', action: 'reordered' })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('overload-reorder')
+      })
+    })
+
+    describe('variance-aware type changes', () => {
+      const input = new Set(['in-input-position'] as const)
+      const output = new Set(['in-output-position'] as const)
+      const both = new Set(['in-input-position', 'in-output-position'] as const)
+
+      it('classifies widening of an input type as minor', () => {
+        const change = makeChange({
+          aspect: 'type',
+          impact: 'widening',
+          tags: input,
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('input-type-widening')
+      })
+
+      it('classifies narrowing of an input type as major', () => {
+        const change = makeChange({
+          aspect: 'type',
+          impact: 'narrowing',
+          tags: input,
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+      })
+
+      it('classifies widening of an output type as major', () => {
+        const change = makeChange({
+          aspect: 'type',
+          impact: 'widening',
+          tags: output,
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('output-type-widening')
+      })
+
+      it('classifies narrowing of an output type as minor', () => {
+        const change = makeChange({
+          aspect: 'type',
+          impact: 'narrowing',
+          tags: output,
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+      })
+
+      it('classifies widening of an invariant type as major', () => {
+        const change = makeChange({
+          aspect: 'type',
+          impact: 'widening',
+          tags: both,
+        })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('invariant-type-change')
+      })
+
+      it('classifies type widening without a position as minor', () => {
+        const change = makeChange({ aspect: 'type', impact: 'widening' })
+        const result = classifyChange(change, semverDefaultPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('type-widening')
+      })
     })
   })
 
@@ -312,6 +517,29 @@ describe('Built-in Policies', () => {
         expect(result.releaseType).toBe('minor')
       })
     })
+
+    describe('overload changes', () => {
+      it('classifies overload removal as major (readers may call it)', () => {
+        const change = makeChange({ target: 'overload', action: 'removed' })
+        const result = classifyChange(change, semverReadOnlyPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('overload-removal')
+      })
+
+      it('classifies overload addition as minor (more call forms)', () => {
+        const change = makeChange({ target: 'overload', action: 'added' })
+        const result = classifyChange(change, semverReadOnlyPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('overload-addition')
+      })
+
+      it('classifies overload reordering as major (calls may resolve differently)', () => {
+        const change = makeChange({ target: 'overload', action: 'reordered' })
+        const result = classifyChange(change, semverReadOnlyPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('overload-reorder')
+      })
+    })
   })
 
   describe('semverWriteOnlyPolicy', () => {
@@ -376,6 +604,84 @@ describe('Built-in Policies', () => {
         expect(result.releaseType).toBe('minor')
       })
     })
+
+    describe('overload changes', () => {
+      it('classifies overload removal as minor (dont need to handle)', () => {
+        const change = makeChange({ target: 'overload', action: 'removed' })
+        const result = classifyChange(change, semverWriteOnlyPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('overload-removal')
+      })
+
+      it('classifies overload addition as major (must handle the call form)', () => {
+        const change = makeChange({ target: 'overload', action: 'added' })
+        const result = classifyChange(change, semverWriteOnlyPolicy)
+        expect(result.releaseType).toBe('major')
+        expect(result.matchedRule?.name).toBe('overload-addition')
+      })
+
+      it('classifies overload reordering as none (every overload is handled)', () => {
+        const change = makeChange({ target: 'overload', action: 'reordered' })
+        const result = classifyChange(change, semverWriteOnlyPolicy)
+        expect(result.releaseType).toBe('none')
+        expect(result.matchedRule?.name).toBe('overload-reorder')
+      })
+    })
+  })
+
+  describe('semverReleaseTagPolicy', () => {
+    it('classifies changes to internal declarations as none', () => {
+      const change = makeChange({
+        action: 'removed',
+        tags: new Set(['is-internal']),
+      })
+      const result = classifyChange(change, semverReleaseTagPolicy)
+      expect(result.releaseType).toBe('none')
+      expect(result.matchedRule?.name).toBe('internal-change')
+    })
+
+    it.each(['is-alpha', 'is-beta'] as const)(
+      'caps breaking changes tagged %s at minor',
+      (tag) => {
+        const change = makeChange({
+          aspect: 'type',
+          impact: 'narrowing',
+          tags: new Set([tag]),
+        })
+        const result = classifyChange(change, semverReleaseTagPolicy)
+        expect(result.releaseType).toBe('minor')
+        expect(result.matchedRule?.name).toBe('prerelease-breaking-change')
+      },
+    )
+
+    it('keeps non-breaking changes to prerelease declarations', () => {
+      const change = makeChange({
+        aspect: 'deprecation',
+        impact: 'widening',
+        tags: new Set(['is-beta']),
+      })
+      const result = classifyChange(change, semverReleaseTagPolicy)
+      expect(result.releaseType).toBe('patch')
+      expect(result.matchedRule).toMatchObject({
+        name: 'deprecation',
+        source: 'semver-default',
+      })
+    })
+
+    it('classifies changes to public declarations like semverDefaultPolicy', () => {
+      const demotion = makeChange({
+        aspect: 'release-tag',
+        impact: 'narrowing',
+      })
+      const removal = makeChange({ action: 'removed' })
+
+      expect(classifyChange(demotion, semverReleaseTagPolicy).releaseType).toBe(
+        'major',
+      )
+      expect(classifyChange(removal, semverReleaseTagPolicy).releaseType).toBe(
+        'major',
+      )
+    })
   })
 
   describe('policy comparison', () => {
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest'
+import { createDeprecationLifecyclePolicy } from '../../src/ast/deprecation-lifecycle'
+import {
+  semverDefaultPolicy,
+  semverReadOnlyPolicy,
+  semverWriteOnlyPolicy,
+} from '../../src/ast/builtin-policies'
+import {
+  classifyChange,
+  classifyChanges,
+  type Policy,
+} from '../../src/ast/rule-builder'
+import type { ApiChange } from '../../src/ast/types'
+import { parseModule } from '../../src/ast/parser'
+import { diffModules, flattenChanges } from '../../src/ast/differ'
+
+/** Classifies the changes from `oldSource` to `newSource`, including nested ones, by path */
+function classify(oldSource: string, newSource: string, policy: Policy) {
+  const changes = flattenChanges(
+    diffModules(parseModule(oldSource), parseModule(newSource), {
+      includeNestedChanges: true,
+    }),
+  )
+  return Object.fromEntries(
+    classifyChanges(changes, policy).map((result) => [
+      result.path,
+      { releaseType: result.releaseType, rule: result.matchedRule?.name },
+    ]),
+  )
+}
+
+const oldSource = `
+/** @deprecated Since 2.0.0, use load() instead */
+export declare function fetch(): string;
+/** @deprecated 2.2.0: Use save() instead */
+export declare function store(): void;
+/** @deprecated Use close() instead */
+export declare function end(): void;
+export declare function open(): void;
+export declare function load(): string;
+`
+const newSource = `export declare function load(): string;`
+
+describe('createDeprecationLifecyclePolicy', () => {
+  it('classifies removals by how long the symbol was deprecated', () => {
+    const results = classify(
+      oldSource,
+      newSource,
+      createDeprecationLifecyclePolicy({
+        currentVersion: '2.3.0',
+        gracePeriod: 2,
+      }),
+    )
+
+    expect(results).toEqual({
+      fetch: { releaseType: 'major', rule: 'expired-deprecation-removal' },
+      store: { releaseType: 'major', rule: 'early-deprecation-removal' },
+      end: { releaseType: 'major', rule: 'early-deprecation-removal' },
+      open: { releaseType: 'major', rule: 'undeprecated-removal' },
+    })
+  })
+
+  it('forbids premature removals when deprecation is required', () => {
+    const results = classify(
+      oldSource,
+      newSource,
+      createDeprecationLifecyclePolicy({
+        currentVersion: '2.3.0',
+        gracePeriod: 2,
+        requireDeprecation: true,
+      }),
+    )
+
+    expect(results['fetch']!.releaseType).toBe('major')
+    expect(results['store']!.releaseType).toBe('forbidden')
+    expect(results['end']!.releaseType).toBe('forbidden')
+    expect(results['open']!.releaseType).toBe('forbidden')
+  })
+
+  it('reads the deprecation version from a @since tag', () => {
+    const results = classify(
+      `/**
+ * @deprecated Use load() instead
+ * @since 2.0.0
+ */
+export declare function fetch(): string;`,
+      '',
+      createDeprecationLifecyclePolicy({
+        currentVersion: '2.3.0',
+        gracePeriod: 2,
+        requireDeprecation: true,
+      }),
+    )
+
+    expect(results['fetch']).toEqual({
+      releaseType: 'major',
+      rule: 'expired-deprecation-removal',
+    })
+  })
+
+  it('counts the published releases when given', () => {
+    const policy = createDeprecationLifecyclePolicy({
+      currentVersion: '3.0.0',
+      gracePeriod: 2,
+      releases: ['1.0.0', '2.0.0', '2.2.0', '2.2.1'],
+    })
+    const results = classify(oldSource, newSource, policy)
+
+    // 2.0.0, 2.2.0 and 2.2.1 for fetch; 2.2.0 and 2.2.1 for store
+    expect(results['fetch']!.rule).toBe('expired-deprecation-removal')
+    expect(results['store']!.rule).toBe('expired-deprecation-removal')
+  })
+
+  it('estimates releases across major versions conservatively', () => {
+    const results = classify(
+      oldSource,
+      newSource,
+      createDeprecationLifecyclePolicy({
+        currentVersion: '3.0.0',
+        gracePeriod: 2,
+      }),
+    )
+
+    expect(results['fetch']!.rule).toBe('early-deprecation-removal')
+  })
+
+  it('applies to nested members', () => {
+    const results = classify(
+      `export interface Options {
+  /** @deprecated since v1 */
+  legacy?: boolean;
+  mode: string;
+}`,
+      `export interface Options {
+  mode: string;
+}`,
+      createDeprecationLifecyclePolicy({ currentVersion: '2.0.0' }),
+    )
+
+    expect(results['Options.legacy']!.rule).toBe('expired-deprecation-removal')
+  })
+
+  it('classifies other changes with the base policy', () => {
+    const policy = createDeprecationLifecyclePolicy({
+      currentVersion: '2.3.0',
+      base: semverReadOnlyPolicy,
+    })
+    const results = classify(
+      `export declare function load(): string;`,
+      `/** @deprecated since 2.3.0 */
+export declare function load(): string;
+export declare function save(): void;`,
+      policy,
+    )
+
+    expect(policy.name).toBe('deprecation-lifecycle')
+    expect(
+      policy.rules
+        .slice(3)
+        .every((r) => r.source === semverReadOnlyPolicy.name),
+    ).toBe(true)
+    expect(results['save']!.releaseType).toBe('minor')
+    expect(results['load']!.releaseType).toBe('patch')
+  })
+
+  it('keeps removals the base policy does not classify as major', () => {
+    const results = classify(
+      `export interface Options {
+  legacy?: boolean;
+  mode: string;
+}
+export declare function open(): void;`,
+      `export interface Options {
+  mode: string;
+}`,
+      createDeprecationLifecyclePolicy({
+        currentVersion: '2.0.0',
+        requireDeprecation: true,
+        base: semverWriteOnlyPolicy,
+      }),
+    )
+
+    expect(results['Options.legacy']).toEqual({
+      releaseType: 'minor',
+      rule: 'member-removal',
+    })
+    expect(results['open']).toEqual({
+      releaseType: 'forbidden',
+      rule: 'undeprecated-removal',
+    })
+  })
+
+  it('classifies parameter and type parameter removals with the base policy', () => {
+    const policy = createDeprecationLifecyclePolicy({
+      currentVersion: '2.0.0',
+      requireDeprecation: true,
+    })
+    const oldFunction = `export declare function f<T, U>(a: T): void;`
+    const newFunction = `export declare function f<T>(a: T): void;`
+    const parameterRemoval: ApiChange = {
+      descriptor: { target: 'parameter', action: 'removed', tags: new Set() },
+      path: 'f.b',
+      nodeKind: 'function',
+      nestedChanges: [],
+      context: { isNested: false, depth: 0, ancestors: [] },
+      explanation: "Parameter 'b' removed",
+    }
+
+    expect(classify(oldFunction, newFunction, policy)).toEqual(
+      classify(oldFunction, newFunction, semverDefaultPolicy),
+    )
+    expect(classify(oldFunction, newFunction, policy)['f']!.releaseType).toBe(
+      'major',
+    )
+    expect(classifyChange(parameterRemoval, policy).releaseType).toBe(
+      classifyChange(parameterRemoval, semverDefaultPolicy).releaseType,
+    )
+    expect(classifyChange(parameterRemoval, policy).matchedRule).toEqual(
+      classifyChange(parameterRemoval, semverDefaultPolicy).matchedRule,
+    )
+  })
+
+  it('rejects invalid versions', () => {
+    expect(() =>
+      createDeprecationLifecyclePolicy({ currentVersion: 'next' }),
+    ).toThrow("Invalid currentVersion 'next'")
+  })
+})
@@ -11,6 +11,13 @@
  * - structural-changes.test.ts - Extends/implements changes
  * - utility-functions.test.ts - flattenChanges and groupChangesByDescriptor
  * - rename-edge-cases.test.ts - Rename threshold edge cases
+ * - overload-changes.test.ts - Function and method overload changes
+ * - inherited-members.test.ts - Members inherited through extends clauses
+ * - variance.test.ts - Polarity of type changes in input and output positions
+ * - moved-changes.test.ts - Declarations moved into or out of namespaces
+ * - structural-equivalence.test.ts - Kind changes and structurally equivalent types
+ * - type-reasoning.test.ts - Conditional, mapped and template literal types
+ * - ambient-declarations.test.ts - Const enums, global augmentations, ambient modules and unique symbols
  *
  * This file re-exports all tests for backward compatibility.
  */
@@ -23,3 +30,10 @@ export * from './differ/type-parameter-changes.test'
 export * from './differ/structural-changes.test'
 export * from './differ/utility-functions.test'
 export * from './differ/rename-edge-cases.test'
+export * from './differ/overload-changes.test'
+export * from './differ/inherited-members.test'
+export * from './differ/variance.test'
+export * from './differ/moved-changes.test'
+export * from './differ/structural-equivalence.test'
+export * from './differ/type-reasoning.test'
+export * from './differ/ambient-declarations.test'
@@ -0,0 +1,179 @@
+/**
+ * Tests for const enums, global augmentations, ambient modules and unique
+ * symbols.
+ *
+ * Tests that value changes of const enum members are tagged as inlined,
+ * that making an enum const or non-const is reported as a constness change,
+ * that changes inside `declare global` and `declare module 'x'` blocks are
+ * reported on their members, and that unique symbols changed to `symbol`
+ * are reported as kind changes.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diff } from './helpers'
+
+describe('AST Differ - Ambient Declarations', () => {
+  describe('const enums', () => {
+    it('tags value changes of const enum members as inlined', () => {
+      const changes = diff(
+        `export declare const enum Level { Low = 1, High = 2 }`,
+        `export declare const enum Level { Low = 1, High = 3 }`,
+      )
+
+      expect(changes).toHaveLength(1)
+      const high = changes[0]!.nestedChanges[0]!
+      expect(high.path).toBe('Level.High')
+      expect(high.descriptor.aspect).toBe('enum-value')
+      expect(high.descriptor.tags.has('inlined-value')).toBe(true)
+      expect(high.explanation).toContain('inlined')
+    })
+
+    it('detects implicit values shifted by an inserted member', () => {
+      const changes = diff(
+        `export declare const enum Level { Low, High }`,
+        `export declare const enum Level { Low, Medium, High }`,
+      )
+
+      const nested = changes[0]!.nestedChanges
+      const high = nested.find((change) => change.path === 'Level.High')!
+      expect(high.descriptor.aspect).toBe('enum-value')
+      expect(high.descriptor.tags.has('inlined-value')).toBe(true)
+      expect(high.explanation).toContain("from '1' to '2'")
+    })
+
+    it('does not tag value changes of regular enum members', () => {
+      const changes = diff(
+        `export declare enum Level { Low = 1, High = 2 }`,
+        `export declare enum Level { Low = 1, High = 3 }`,
+      )
+
+      const high = changes[0]!.nestedChanges[0]!
+      expect(high.descriptor.aspect).toBe('enum-value')
+      expect(high.descriptor.tags.has('inlined-value')).toBe(false)
+    })
+
+    it('reports an enum made const as narrowing', () => {
+      const changes = diff(
+        `export declare enum Level { Low, High }`,
+        `export declare const enum Level { Low, High }`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.aspect).toBe('constness')
+      expect(changes[0]!.descriptor.impact).toBe('narrowing')
+      expect(changes[0]!.nestedChanges).toHaveLength(0)
+    })
+
+    it('reports const removed from an enum as widening', () => {
+      const changes = diff(
+        `export declare const enum Level { Low, High }`,
+        `export declare enum Level { Low, High }`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.aspect).toBe('constness')
+      expect(changes[0]!.descriptor.impact).toBe('widening')
+    })
+  })
+
+  describe('global augmentations', () => {
+    it('reports members added to a global augmentation', () => {
+      const changes = diff(
+        `export {};
+declare global { interface Window { appVersion: string } }`,
+        `export {};
+declare global {
+  interface Window { appVersion: string }
+  var appName: string;
+}`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.path).toBe('global')
+      expect(changes[0]!.nodeKind).toBe('global-augmentation')
+      expect(changes[0]!.descriptor.impact).toBe('equivalent')
+      const added = changes[0]!.nestedChanges[0]!
+      expect(added.path).toBe('global.appName')
+      expect(added.descriptor.action).toBe('added')
+    })
+
+    it('reports a removed global augmentation', () => {
+      const changes = diff(
+        `export declare const version: string;
+declare global { var appVersion: string; }`,
+        `export declare const version: string;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.path).toBe('global')
+      expect(changes[0]!.descriptor.action).toBe('removed')
+    })
+  })
+
+  describe('ambient modules', () => {
+    it('reports declarations removed from an ambient module', () => {
+      const changes = diff(
+        `declare module 'my-lib' {
+  export function load(): void;
+  export function save(): void;
+}`,
+        `declare module 'my-lib' {
+  export function load(): void;
+}`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.path).toBe('"my-lib"')
+      const removed = changes[0]!.nestedChanges[0]!
+      expect(removed.path).toBe('"my-lib".save')
+      expect(removed.descriptor.action).toBe('removed')
+    })
+
+    it('reports a changed module name as a rename', () => {
+      const changes = diff(
+        `declare module 'a' { export const x: string; }`,
+        `declare module 'b' { export const x: string; }`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.action).toBe('renamed')
+      expect(changes[0]!.explanation).toBe(`'"a"' renamed to '"b"'`)
+    })
+  })
+
+  describe('unique symbols', () => {
+    it('reports a unique symbol widened to symbol', () => {
+      const changes = diff(
+        `export declare const token: unique symbol;`,
+        `export declare const token: symbol;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      const change = changes[0]!
+      expect(change.descriptor.aspect).toBe('kind-changed')
+      expect(change.descriptor.impact).toBe('widening')
+      expect(change.descriptor.tags.has('lost-unique-symbol')).toBe(true)
+    })
+
+    it('reports a symbol made unique as narrowing', () => {
+      const changes = diff(
+        `export declare const token: symbol;`,
+        `export declare const token: unique symbol;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.aspect).toBe('kind-changed')
+      expect(changes[0]!.descriptor.impact).toBe('narrowing')
+      expect(changes[0]!.descriptor.tags.size).toBe(0)
+    })
+
+    it('reports a unique symbol changed to another type as unrelated', () => {
+      const changes = diff(
+        `export declare const token: unique symbol;`,
+        `export declare const token: string;`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('unrelated')
+    })
+  })
+})
@@ -4,6 +4,7 @@
 
 import * as ts from 'typescript'
 import { parseModuleWithTypes } from '../../../src/ast/parser'
+import { diffModules } from '../../../src/ast/differ'
 
 /** Helper to parse module with TypeChecker for tests */
 export function parseModule(
@@ -12,3 +13,8 @@ export function parseModule(
 ) {
   return parseModuleWithTypes(source, ts, options)
 }
+
+/** Helper to diff two sources parsed with a TypeChecker for tests */
+export function diff(oldSource: string, newSource: string) {
+  return diffModules(parseModule(oldSource), parseModule(newSource))
+}
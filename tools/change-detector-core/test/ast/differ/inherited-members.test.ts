@@ -0,0 +1,189 @@
+/**
+ * Tests for inherited member analysis.
+ *
+ * Tests the flattenInheritedMembers option, which compares the effective
+ * members of classes and interfaces through their extends clauses.
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as ts from 'typescript'
+import { diffModules } from '../../../src/ast/differ'
+import { parseModulesWithTypes } from '../../../src/ast/parser'
+import { parseModule } from './helpers'
+
+const flatten = { flattenInheritedMembers: true }
+
+describe('AST Differ - Inherited Members', () => {
+  it('ignores inherited members by default', () => {
+    const oldSource = `interface Base { id: number; createdAt: Date; }
+export interface User extends Base { name: string; }`
+    const newSource = `interface Base { id: number; }
+export interface User extends Base { name: string; }`
+
+    const changes = diffModules(parseModule(oldSource), parseModule(newSource))
+
+    expect(changes).toHaveLength(0)
+  })
+
+  it('reports members removed from a base interface', () => {
+    const oldSource = `interface Base { id: number; createdAt: Date; }
+export interface User extends Base { name: string; }`
+    const newSource = `interface Base { id: number; }
+export interface User extends Base { name: string; }`
+
+    const changes = diffModules(
+      parseModule(oldSource),
+      parseModule(newSource),
+      flatten,
+    )
+
+    expect(changes).toHaveLength(1)
+    const removal = changes[0]!.nestedChanges[0]!
+    expect(removal.path).toBe('User.createdAt')
+    expect(removal.descriptor.action).toBe('removed')
+    expect(removal.descriptor.tags.has('inherited-member')).toBe(true)
+    expect(removal.context.inheritedFrom).toBe('Base')
+    expect(changes[0]!.descriptor.tags.has('has-nested-changes')).toBe(true)
+  })
+
+  it('reports members gained by extending a richer base', () => {
+    const oldSource = `declare class Entity { id: number; }
+declare class Timestamped extends Entity { createdAt: Date; }
+export declare class User extends Entity { name: string; }`
+    const newSource = `declare class Entity { id: number; }
+declare class Timestamped extends Entity { createdAt: Date; }
+export declare class User extends Timestamped { name: string; }`
+
+    const changes = diffModules(
+      parseModule(oldSource),
+      parseModule(newSource),
+      flatten,
+    )
+
+    const user = changes.find((c) => c.path === 'User')!
+    expect(user.descriptor.aspect).toBe('extends-clause')
+    expect(user.nestedChanges).toHaveLength(1)
+    const addition = user.nestedChanges[0]!
+    expect(addition.path).toBe('User.createdAt')
+    expect(addition.descriptor.action).toBe('added')
+    expect(addition.context.inheritedFrom).toBe('Timestamped')
+  })
+
+  it('does not report members moved into a base', () => {
+    const oldSource = `interface Base { }
+export interface User extends Base { id: number; name: string; }`
+    const newSource = `interface Base { id: number; }
+export interface User extends Base { name: string; }`
+
+    const changes = diffModules(
+      parseModule(oldSource),
+      parseModule(newSource),
+      flatten,
+    )
+
+    expect(changes).toHaveLength(0)
+  })
+
+  it('reports type changes of inherited members', () => {
+    const oldSource = `interface Base { id: number; }
+export interface User extends Base { }`
+    const newSource = `interface Base { id: string; }
+export interface User extends Base { }`
+
+    const changes = diffModules(
+      parseModule(oldSource),
+      parseModule(newSource),
+      flatten,
+    )
+
+    const modification = changes[0]!.nestedChanges[0]!
+    expect(modification.descriptor.action).toBe('modified')
+    expect(modification.descriptor.tags.has('inherited-member')).toBe(true)
+    expect(modification.context.inheritedFrom).toBe('Base')
+  })
+
+  it('follows bases declared in other files', () => {
+    const parse = (base: string) =>
+      parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `import { Base } from './base';
+export interface User extends Base { name: string; }`,
+          ],
+          ['base.d.ts', base],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+    const changes = diffModules(
+      parse(`export interface Base { id: number; }`),
+      parse(`export interface Base { id: number; version: number; }`),
+      flatten,
+    )
+
+    expect(changes).toHaveLength(1)
+    const addition = changes[0]!.nestedChanges[0]!
+    expect(addition.path).toBe('User.version')
+    expect(addition.context.inheritedFrom).toBe('Base')
+  })
+
+  it('follows bases referred to by qualified names', () => {
+    const changes = diffModules(
+      parseModule(`export namespace ns { export interface Base { id: number; createdAt: Date; } }
+export interface User extends ns.Base { name: string; }`),
+      parseModule(`export namespace ns { export interface Base { id: number; } }
+export interface User extends ns.Base { name: string; }`),
+      flatten,
+    )
+
+    const user = changes.find((change) => change.path === 'User')!
+    expect(user.nestedChanges[0]!.path).toBe('User.createdAt')
+    expect(user.nestedChanges[0]!.context.inheritedFrom).toBe('ns.Base')
+  })
+
+  it('tags members of generic bases as uninstantiated', () => {
+    const changes = diffModules(
+      parseModule(`interface Base<T> { value: T; previous: T; }
+export interface Counter extends Base<number> { name: string; }`),
+      parseModule(`interface Base<T> { value: T; }
+export interface Counter extends Base<number> { name: string; }`),
+      flatten,
+    )
+
+    expect(changes).toHaveLength(1)
+    const removal = changes[0]!.nestedChanges[0]!
+    expect(removal.path).toBe('Counter.previous')
+    expect(removal.descriptor.tags.has('inherited-member')).toBe(true)
+    expect(removal.descriptor.tags.has('uninstantiated-member')).toBe(true)
+  })
+
+  it('does not tag members of bases that are not generic as uninstantiated', () => {
+    const changes = diffModules(
+      parseModule(`interface Base { id: number; createdAt: Date; }
+export interface User extends Base { name: string; }`),
+      parseModule(`interface Base { id: number; }
+export interface User extends Base { name: string; }`),
+      flatten,
+    )
+
+    expect(
+      changes[0]!.nestedChanges[0]!.descriptor.tags.has(
+        'uninstantiated-member',
+      ),
+    ).toBe(false)
+  })
+
+  it('treats unresolved bases as contributing no members', () => {
+    const source = `export interface User extends External { name: string; }`
+
+    const changes = diffModules(
+      parseModule(source),
+      parseModule(source),
+      flatten,
+    )
+
+    expect(changes).toHaveLength(0)
+  })
+})
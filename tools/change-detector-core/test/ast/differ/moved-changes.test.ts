@@ -0,0 +1,130 @@
+/**
+ * Tests for move detection.
+ *
+ * Tests that declarations moved between the top level and namespaces are
+ * reported as moves instead of a removal and an addition.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffModules } from '../../../src/ast/differ'
+import { diff, parseModule } from './helpers'
+
+describe('AST Differ - Moved Changes', () => {
+  it('detects a function moved into a namespace', () => {
+    const changes = diff(
+      `export declare function format(value: string): string;
+export declare namespace Utils { function trim(value: string): string; }`,
+      `export declare namespace Utils {
+  function trim(value: string): string;
+  function format(value: string): string;
+}`,
+    )
+
+    expect(changes).toHaveLength(1)
+    const move = changes[0]!
+    expect(move.descriptor.action).toBe('moved')
+    expect(move.descriptor.target).toBe('export')
+    expect(move.path).toBe('format')
+    expect(move.newNode?.path).toBe('Utils.format')
+    expect(move.context.moveConfidence).toBeGreaterThan(0.9)
+    expect(move.explanation).toBe("'format' moved to 'Utils.format'")
+  })
+
+  it('detects a namespace member hoisted to the top level', () => {
+    const changes = diff(
+      `export declare namespace Utils {
+  function trim(value: string): string;
+  function format(value: string): string;
+}`,
+      `export declare function format(value: string): string;
+export declare namespace Utils { function trim(value: string): string; }`,
+    )
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]!.descriptor.action).toBe('moved')
+    expect(changes[0]!.path).toBe('Utils.format')
+    expect(changes[0]!.newNode?.path).toBe('format')
+  })
+
+  it('detects a declaration moved between namespaces', () => {
+    const changes = diff(
+      `export declare namespace A { interface Options { verbose: boolean; } function run(): void; }
+export declare namespace B { function stop(): void; }`,
+      `export declare namespace A { function run(): void; }
+export declare namespace B { interface Options { verbose: boolean; } function stop(): void; }`,
+    )
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]!.descriptor.action).toBe('moved')
+    expect(changes[0]!.path).toBe('A.Options')
+    expect(changes[0]!.newNode?.path).toBe('B.Options')
+  })
+
+  it('detects a move into a new namespace', () => {
+    const changes = diff(
+      `export interface Config { timeout: number; retries: number; }`,
+      `export declare namespace Settings { interface Config { timeout: number; retries: number; } }`,
+    )
+
+    expect(changes.map((c) => c.descriptor.action).sort()).toEqual([
+      'added',
+      'moved',
+    ])
+    const move = changes.find((c) => c.descriptor.action === 'moved')!
+    expect(move.newNode?.path).toBe('Settings.Config')
+  })
+
+  it('reports changes of the moved declaration as nested changes', () => {
+    const changes = diff(
+      `export interface Config { host: string; port: number; timeout: number; retries: number; }
+export declare namespace Settings { }`,
+      `export declare namespace Settings { interface Config { host: string; port: number; timeout: number; retries: number; tls?: boolean; } }`,
+    )
+
+    expect(changes).toHaveLength(1)
+    const move = changes[0]!
+    expect(move.descriptor.action).toBe('moved')
+    expect(move.descriptor.tags.has('has-nested-changes')).toBe(true)
+    expect(move.nestedChanges[0]!.path).toBe('Settings.Config.tls')
+  })
+
+  it('reports a signature change of a moved declaration next to the move', () => {
+    const changes = diff(
+      `export declare function f(a: string): void;
+export declare namespace N { function g(): void; }`,
+      `export declare namespace N { function g(): void; function f(a: number): void; }`,
+    )
+
+    expect(
+      changes.map((c) => [c.path, c.descriptor.action, c.descriptor.aspect]),
+    ).toEqual([
+      ['f', 'moved', undefined],
+      ['f', 'modified', 'type'],
+    ])
+    expect(changes[1]!.descriptor.impact).toBe('unrelated')
+    expect(changes[1]!.newNode?.path).toBe('N.f')
+  })
+
+  it('does not report declarations with a changed signature as moved', () => {
+    const changes = diff(
+      `export declare function format(value: string): string;
+export declare namespace Utils { }`,
+      `export declare namespace Utils { function format(value: number, radix: number): boolean; }`,
+    )
+
+    expect(changes.some((c) => c.descriptor.action === 'moved')).toBe(false)
+  })
+
+  it('respects the move threshold', () => {
+    const changes = diffModules(
+      parseModule(`export declare function format(value: string): string;
+export declare namespace Utils { }`),
+      parseModule(
+        `export declare namespace Utils { function format(value: string): string; }`,
+      ),
+      { moveThreshold: 1.01 },
+    )
+
+    expect(changes.some((c) => c.descriptor.action === 'moved')).toBe(false)
+  })
+})
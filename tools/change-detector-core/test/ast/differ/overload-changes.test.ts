@@ -0,0 +1,197 @@
+/**
+ * Tests for overload change detection.
+ *
+ * Tests that overload signatures of functions and methods are matched
+ * individually by parameter shape.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffModules } from '../../../src/ast/differ'
+import { parseModule as parseModuleWithoutTypes } from '../../../src/ast/parser'
+import { parseModule } from './helpers'
+
+describe('AST Differ - Overload Changes', () => {
+  describe('parsing', () => {
+    it('keeps every overload as a call signature', () => {
+      const result = parseModuleWithoutTypes(`
+export declare function parse(input: string): object;
+export declare function parse(input: Buffer, encoding?: string): object;
+`)
+
+      const parse = result.exports.get('parse')!
+      expect(parse.typeInfo.callSignatures).toHaveLength(2)
+      expect(parse.typeInfo.signature).toBe(
+        '(arg0: string): object; (arg0: Buffer, arg1?: string): object',
+      )
+    })
+
+    it('drops the implementation signature', () => {
+      const result = parseModuleWithoutTypes(
+        `
+export function format(value: string): string;
+export function format(value: number): string;
+export function format(value: unknown): string { return String(value) }
+`,
+        { filename: 'format.ts' },
+      )
+
+      const format = result.exports.get('format')!
+      expect(format.typeInfo.callSignatures).toHaveLength(2)
+    })
+
+    it('keeps overloaded methods as call signatures', () => {
+      const result = parseModuleWithoutTypes(`
+export interface Reader {
+  read(): string;
+  read(length: number): string;
+}
+`)
+
+      const read = result.nodes.get('Reader.read')!
+      expect(read.typeInfo.callSignatures).toHaveLength(2)
+    })
+  })
+
+  describe('functions', () => {
+    it('detects an added overload', () => {
+      const oldSource = `export declare function parse(input: string): object;`
+      const newSource = `export declare function parse(input: string): object;
+export declare function parse(input: Buffer): object;`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.target).toBe('overload')
+      expect(changes[0]!.descriptor.action).toBe('added')
+      expect(changes[0]!.context.overloadIndex).toEqual({ new: 1 })
+      expect(changes[0]!.explanation).toContain('(arg0: Buffer): object')
+    })
+
+    it('detects a removed overload', () => {
+      const oldSource = `export declare function parse(input: string): object;
+export declare function parse(input: Buffer): object;`
+      const newSource = `export declare function parse(input: Buffer): object;`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.target).toBe('overload')
+      expect(changes[0]!.descriptor.action).toBe('removed')
+      expect(changes[0]!.context.overloadIndex).toEqual({ old: 0 })
+    })
+
+    it('detects reordered overloads', () => {
+      const oldSource = `export declare function get(key: string): string;
+export declare function get(key: string, fallback: number): number;`
+      const newSource = `export declare function get(key: string, fallback: number): number;
+export declare function get(key: string): string;`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.target).toBe('overload')
+      expect(changes[0]!.descriptor.action).toBe('reordered')
+    })
+
+    it('reports unchanged overloads as no change', () => {
+      const source = `export declare function get(key: string): string;
+export declare function get(key: number): number;`
+
+      const changes = diffModules(parseModule(source), parseModule(source))
+
+      expect(changes).toHaveLength(0)
+    })
+
+    it('detects a return type change of a kept overload', () => {
+      const oldSource = `export declare function get(key: string): string;
+export declare function get(key: number): number;`
+      const newSource = `export declare function get(key: string): string | undefined;
+export declare function get(key: number): number;`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.target).toBe('return-type')
+      expect(changes[0]!.descriptor.impact).toBe('widening')
+      expect(changes[0]!.context.overloadIndex).toEqual({ old: 0, new: 0 })
+    })
+  })
+
+  describe('methods', () => {
+    it('detects overload changes of interface methods', () => {
+      const oldSource = `export interface Reader {
+  read(): string;
+  read(length: number): string;
+}`
+      const newSource = `export interface Reader {
+  read(): string;
+}`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      const overloadChange = changes[0]!.nestedChanges.find(
+        (c) => c.descriptor.target === 'overload',
+      )
+      expect(overloadChange).toBeDefined()
+      expect(overloadChange!.descriptor.action).toBe('removed')
+      expect(overloadChange!.path).toBe('Reader.read')
+      expect(overloadChange!.context.isNested).toBe(true)
+    })
+
+    it('detects overload changes of class methods', () => {
+      const oldSource = `export declare class Cache {
+  get(key: string): string;
+}`
+      const newSource = `export declare class Cache {
+  get(key: string): string;
+  get(key: string, fallback: string): string;
+}`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      const overloadChange = changes[0]!.nestedChanges.find(
+        (c) => c.descriptor.target === 'overload',
+      )
+      expect(overloadChange).toBeDefined()
+      expect(overloadChange!.descriptor.action).toBe('added')
+    })
+
+    it('still reports modifier changes of overloaded methods', () => {
+      const oldSource = `export declare class Cache {
+  get(key: string): string;
+  get(key: number): string;
+}`
+      const newSource = `export declare class Cache {
+  static get(key: string): string;
+  static get(key: number): string;
+}`
+
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+
+      const nested = changes[0]!.nestedChanges
+      expect(nested).toHaveLength(1)
+      expect(nested[0]!.descriptor.aspect).toBe('staticness')
+    })
+  })
+})
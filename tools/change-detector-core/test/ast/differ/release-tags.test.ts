@@ -0,0 +1,171 @@
+/**
+ * Tests for release tag change detection.
+ *
+ * Tests promotion and demotion of release tags and the is-alpha, is-beta
+ * and is-internal tags of changes to non-public declarations.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffModules, flattenChanges } from '../../../src/ast/differ'
+import { semverDefaultPolicy } from '../../../src/ast/builtin-policies'
+import {
+  classifyChanges,
+  determineOverallRelease,
+} from '../../../src/ast/rule-builder'
+import { parseModule } from './helpers'
+
+function diff(oldSource: string, newSource: string) {
+  return flattenChanges(
+    diffModules(
+      parseModule(oldSource, { extractMetadata: true }),
+      parseModule(newSource, { extractMetadata: true }),
+    ),
+  )
+}
+
+describe('AST Differ - Release Tags', () => {
+  describe('release tag changes', () => {
+    it('detects promotion from @beta to @public', () => {
+      const changes = diff(
+        `/** @beta */
+export declare function greet(name: string): string;`,
+        `/** @public */
+export declare function greet(name: string): string;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor).toMatchObject({
+        action: 'modified',
+        aspect: 'release-tag',
+        impact: 'widening',
+      })
+      expect(changes[0]!.explanation).toBe(
+        "Promoted 'greet' from @beta to @public",
+      )
+    })
+
+    it('treats declarations without a release tag as public', () => {
+      const changes = diff(
+        `export declare function greet(name: string): string;`,
+        `/** @internal */
+export declare function greet(name: string): string;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor).toMatchObject({
+        aspect: 'release-tag',
+        impact: 'narrowing',
+      })
+      expect(changes[0]!.explanation).toBe(
+        "Demoted 'greet' from @public to @internal",
+      )
+    })
+
+    it('tags release tag changes with the more public tag', () => {
+      const [promotion] = diff(
+        `/** @internal */
+export declare function greet(name: string): string;`,
+        `/** @alpha */
+export declare function greet(name: string): string;`,
+      )
+
+      expect(promotion!.descriptor.tags).toEqual(new Set(['is-alpha']))
+    })
+
+    it('reports signature changes alongside a release tag change', () => {
+      const changes = diff(
+        `/** @beta */
+export declare function f(a: string | number): void;`,
+        `/** @public */
+export declare function f(a: string): void;`,
+      )
+
+      expect(changes.map((change) => change.descriptor.aspect)).toEqual([
+        'type',
+        'release-tag',
+      ])
+      expect(changes[0]!.descriptor.impact).toBe('narrowing')
+      expect(changes[1]!.explanation).toBe("Promoted 'f' from @beta to @public")
+      expect(
+        determineOverallRelease(classifyChanges(changes, semverDefaultPolicy)),
+      ).toBe('major')
+    })
+
+    it('reports changed members alongside a release tag change', () => {
+      const changes = diff(
+        `/** @beta */
+export interface Options {
+  name: string;
+}`,
+        `export interface Options {
+  name: number;
+}`,
+      )
+
+      expect(
+        changes.map((change) => [change.path, change.descriptor.aspect]),
+      ).toEqual([
+        ['Options', 'type'],
+        ['Options.name', 'type'],
+        ['Options', 'release-tag'],
+      ])
+    })
+  })
+
+  describe('change tags', () => {
+    it('tags removals and additions with their release tag', () => {
+      const changes = diff(
+        `/** @alpha */
+export declare function greet(name: string): string;`,
+        `/** @internal */
+export declare function hello(name: string): string;
+export declare const version: string;`,
+      )
+
+      const tagsOf = (path: string) =>
+        changes.find((change) => change.path === path)?.descriptor.tags
+
+      expect(tagsOf('greet')).toEqual(new Set(['is-alpha']))
+      expect(tagsOf('hello')).toEqual(new Set(['is-internal']))
+      expect(tagsOf('version')).toEqual(new Set())
+    })
+
+    it('tags members with the release tag of their container', () => {
+      const changes = diff(
+        `/** @beta */
+export interface Options {
+  name: string;
+  /** @internal */
+  debug: boolean;
+}`,
+        `/** @beta */
+export interface Options {
+  name: number;
+}`,
+      )
+
+      const name = changes.find((change) => change.path === 'Options.name')
+      const debug = changes.find((change) => change.path === 'Options.debug')
+
+      expect(name!.descriptor.tags).toContain('is-beta')
+      expect(debug!.descriptor.tags).toContain('is-internal')
+      expect(debug!.descriptor.tags).not.toContain('is-beta')
+    })
+
+    it('does not tag changes to public declarations', () => {
+      const changes = diff(
+        `/** @public */
+export declare function greet(name: string): string;`,
+        `/** @public */
+export declare function greet(name: string, loud: boolean): string;`,
+      )
+
+      expect(changes.length).toBeGreaterThan(0)
+      for (const change of changes) {
+        expect(change.descriptor.tags).not.toContain('is-alpha')
+        expect(change.descriptor.tags).not.toContain('is-beta')
+        expect(change.descriptor.tags).not.toContain('is-internal')
+      }
+    })
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * Tests for structural equivalence detection.
+ *
+ * Tests that refactors which keep the structure of a type, such as
+ * converting an interface to a type alias or inlining an alias, are
+ * reported as equivalent.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  classifyChanges,
+  determineOverallRelease,
+} from '../../../src/ast/rule-builder'
+import { semverDefaultPolicy } from '../../../src/ast/builtin-policies'
+import { diff } from './helpers'
+
+describe('AST Differ - Structural Equivalence', () => {
+  describe('kind changes', () => {
+    it('reports an interface converted to an equivalent type alias', () => {
+      const changes = diff(
+        `export interface Foo { a: string; b?: number }`,
+        `export type Foo = { b?: number; a: string }`,
+      )
+
+      expect(changes).toHaveLength(1)
+      const change = changes[0]!
+      expect(change.descriptor.aspect).toBe('kind-changed')
+      expect(change.descriptor.impact).toBe('equivalent')
+      expect(change.nestedChanges).toHaveLength(0)
+    })
+
+    it('flags declaration merging as lost', () => {
+      const changes = diff(
+        `export interface Foo { a: string }`,
+        `export type Foo = { a: string }`,
+      )
+
+      const tags = changes[0]!.descriptor.tags
+      expect(tags.has('lost-declaration-merging')).toBe(true)
+      expect(tags.has('lost-implements')).toBe(false)
+    })
+
+    it('flags implements as lost for aliases of unions', () => {
+      const changes = diff(
+        `export interface Foo { a: string }`,
+        `export type Foo = { a: string } | { b: number }`,
+      )
+
+      const change = changes[0]!
+      expect(change.descriptor.impact).toBe('unrelated')
+      expect(change.descriptor.tags.has('lost-implements')).toBe(true)
+    })
+
+    it('does not flag lost capabilities for a type alias converted to an interface', () => {
+      const changes = diff(
+        `export type Foo = { a: string }`,
+        `export interface Foo { a: string }`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('equivalent')
+      expect(changes[0]!.descriptor.tags.size).toBe(0)
+    })
+
+    it('expands nested object types', () => {
+      const changes = diff(
+        `interface Inner { v: string }
+export interface Foo { inner: Inner }`,
+        `export type Foo = { inner: { v: string } }`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('equivalent')
+    })
+
+    it('reports a kind change with a different structure as unrelated', () => {
+      const changes = diff(
+        `export interface Foo { a: string }`,
+        `export type Foo = { a: number }`,
+      )
+
+      expect(changes[0]!.descriptor.aspect).toBe('kind-changed')
+      expect(changes[0]!.descriptor.impact).toBe('unrelated')
+    })
+
+    it('requires the same type parameters', () => {
+      const changes = diff(
+        `export interface Box<T> { value: T }`,
+        `export type Box<T, U = T> = { value: T }`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('unrelated')
+    })
+
+    it('reports an interface converted to an equivalent intersection', () => {
+      const changes = diff(
+        `interface A { a: string }
+export interface B extends A { b: number }`,
+        `interface A { a: string }
+export type B = A & { b: number }`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.aspect).toBe('kind-changed')
+      expect(changes[0]!.descriptor.impact).toBe('equivalent')
+    })
+
+    it('reports a function converted to an equivalent variable', () => {
+      const changes = diff(
+        `export declare function f(a: string): number;`,
+        `export declare const f: (a: string) => number;`,
+      )
+
+      expect(changes[0]!.descriptor.aspect).toBe('kind-changed')
+      expect(changes[0]!.descriptor.impact).toBe('equivalent')
+    })
+
+    it('never reports a class converted to an interface as equivalent', () => {
+      const changes = diff(
+        `export declare class C { a: string }`,
+        `export interface C { a: string }`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('unrelated')
+    })
+  })
+
+  describe('type changes', () => {
+    it('reports an inlined type alias as no change', () => {
+      const changes = diff(
+        `export type Point = { x: number; y: number };
+export declare function move(p: Point): Point;`,
+        `export type Point = { x: number; y: number };
+export declare function move(p: { x: number; y: number }): { y: number; x: number };`,
+      )
+
+      expect(changes).toHaveLength(0)
+    })
+
+    it('reports readonly added to the properties of a mapped type', () => {
+      const mapped = diff(
+        `export type M = { [K in "a"]: string }`,
+        `export type M = { readonly [K in "a"]: string }`,
+      )
+      const plain = diff(
+        `export type M = { a: string }`,
+        `export type M = { readonly a: string }`,
+      )
+
+      expect(mapped).toHaveLength(1)
+      expect(mapped[0]!.descriptor.impact).not.toBe('equivalent')
+      expect(
+        determineOverallRelease(classifyChanges(mapped, semverDefaultPolicy)),
+      ).toBe(
+        determineOverallRelease(classifyChanges(plain, semverDefaultPolicy)),
+      )
+    })
+
+    it('reports optional properties of a mapped type as no change', () => {
+      const changes = diff(
+        `export type M = { [K in "a"]?: string }`,
+        `export type M = { a?: string }`,
+      )
+
+      expect(changes).toHaveLength(0)
+    })
+
+    it('reports reordered union members as no change', () => {
+      const changes = diff(
+        `export type Id = string | number;`,
+        `export type Id = number | string;`,
+      )
+
+      expect(changes).toHaveLength(0)
+    })
+
+    it('detects type alias changes', () => {
+      const changes = diff(
+        `export type Id = string;`,
+        `export type Id = string | number;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.impact).toBe('widening')
+    })
+  })
+})
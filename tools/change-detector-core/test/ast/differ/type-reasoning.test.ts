@@ -0,0 +1,337 @@
+/**
+ * Tests for reasoning about conditional, mapped and template literal types.
+ *
+ * Tests that changes to generic and utility types are classified as
+ * widening or narrowing by instantiating them with representative type
+ * arguments, and that template literal types are compared by the strings
+ * they accept, with and without a type checker.
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as ts from 'typescript'
+import { diffModules } from '../../../src/ast/differ'
+import {
+  parseModule as parseModuleWithoutTypes,
+  parseModulesWithTypes,
+} from '../../../src/ast/parser'
+import {
+  classifyChanges,
+  determineOverallRelease,
+} from '../../../src/ast/rule-builder'
+import { semverDefaultPolicy } from '../../../src/ast/builtin-policies'
+import { diff } from './helpers'
+
+/** Parses with the real lib files, for the standard utility types */
+function parseWithLib(source: string) {
+  return parseModulesWithTypes(new Map([['index.d.ts', source]]), ts, {
+    entryPoint: 'index.d.ts',
+  })
+}
+
+function diffWithLib(oldSource: string, newSource: string) {
+  return diffModules(parseWithLib(oldSource), parseWithLib(newSource))
+}
+
+function impactOf(changes: ReturnType<typeof diffModules>) {
+  expect(changes).toHaveLength(1)
+  return changes[0]!.descriptor.impact
+}
+
+describe('AST Differ - Type Reasoning', () => {
+  describe('type aliases', () => {
+    it('classifies a widened union alias with a checker', () => {
+      const changes = diff(
+        `export type Mode = 'read' | 'write';`,
+        `export type Mode = 'read' | 'write' | 'append';`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+  })
+
+  describe('top types', () => {
+    it('classifies any replaced by unknown as unrelated', () => {
+      const changes = diff(
+        `export declare const value: any;`,
+        `export declare const value: unknown;`,
+      )
+
+      expect(impactOf(changes)).toBe('unrelated')
+    })
+
+    it('classifies a parameter changed from unknown to any as breaking', () => {
+      const changes = diff(
+        `export declare function f(value: unknown): void;`,
+        `export declare function f(value: any): void;`,
+      )
+
+      expect(
+        determineOverallRelease(classifyChanges(changes, semverDefaultPolicy)),
+      ).toBe('major')
+    })
+
+    it('keeps any and unknown apart in mapped types', () => {
+      const changes = diff(
+        `export type Loose<T> = { [K in keyof T]: any };`,
+        `export type Loose<T> = { [K in keyof T]: unknown };`,
+      )
+
+      expect(impactOf(changes)).toBe('unrelated')
+    })
+  })
+
+  describe('conditional types', () => {
+    it('classifies a widened branch of a conditional type', () => {
+      const changes = diff(
+        `export type Kind<T> = T extends string ? 'text' : 'other';`,
+        `export type Kind<T> = T extends string ? 'text' | 'empty' : 'other';`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('classifies a changed condition that moves values between branches as unrelated', () => {
+      const changes = diff(
+        `export type Kind<T> = T extends string ? 'text' : 'other';`,
+        `export type Kind<T> = T extends string | number ? 'text' : 'other';`,
+      )
+
+      expect(impactOf(changes)).toBe('unrelated')
+    })
+
+    it('evaluates distributive conditional utility types', () => {
+      const changes = diffWithLib(
+        `export type Defined<T> = Exclude<T, string>;`,
+        `export type Defined<T> = Exclude<T, 'a'>;`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('infers types from function signatures', () => {
+      const changes = diffWithLib(
+        `export type Result<T> = T extends (...args: any[]) => infer R ? R : never;`,
+        `export type Result<T> = T extends (...args: any[]) => infer R ? R | undefined : never;`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+  })
+
+  describe('mapped types', () => {
+    it('classifies optional mapped properties as widening', () => {
+      const changes = diff(
+        `export type Draft<T> = { [K in keyof T]: T[K] };`,
+        `export type Draft<T> = { [K in keyof T]?: T[K] };`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('classifies readonly mapped properties as widening', () => {
+      const changes = diff(
+        `export type View<T> = { [K in keyof T]: T[K] };`,
+        `export type View<T> = { readonly [K in keyof T]: T[K] };`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('classifies removed readonly modifiers as narrowing', () => {
+      const changes = diffWithLib(
+        `export type Draft<T> = Readonly<T>;`,
+        `export type Draft<T> = { -readonly [K in keyof T]: T[K] };`,
+      )
+
+      expect(impactOf(changes)).toBe('narrowing')
+    })
+
+    it('compares readonly properties of instantiated mapped types', () => {
+      const changes = diffWithLib(
+        `export type Point = { x: number; y: number };`,
+        `export type Point = Readonly<{ x: number; y: number }>;`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('expands mapped types over finite key sets', () => {
+      const changes = diff(
+        `export type Flags<K extends string> = { [P in K]: boolean };`,
+        `export type Flags<K extends string> = { [P in K]: boolean | undefined };`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('classifies Partial replaced by Required as narrowing', () => {
+      const changes = diffWithLib(
+        `export type Options<T> = Partial<T>;`,
+        `export type Options<T> = Required<T>;`,
+      )
+
+      expect(impactOf(changes)).toBe('narrowing')
+    })
+
+    it('compares instantiated lib mapped types by their properties', () => {
+      const changes = diffWithLib(
+        `export declare function configure(options: Partial<{ debug: boolean }>): void;`,
+        `export declare function configure(options: { debug?: boolean; verbose?: boolean }): void;`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+  })
+
+  describe('template literal types', () => {
+    it('classifies a shorter template prefix as widening', () => {
+      const changes = diff(
+        'export type EventName = `on-${string}`;',
+        'export type EventName = `on${string}`;',
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('classifies a number hole replaced by a string hole as widening', () => {
+      const changes = diff(
+        'export type Id = `id-${number}`;',
+        'export type Id = `id-${string}`;',
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('classifies a capitalized hole as narrowing', () => {
+      const changes = diffWithLib(
+        'export type Handler = `on${string}`;',
+        'export type Handler = `on${Capitalize<string>}`;',
+      )
+
+      expect(impactOf(changes)).toBe('narrowing')
+    })
+
+    it('classifies a template replaced by one of its strings as narrowing', () => {
+      const changes = diff(
+        "export type Key = `${'a' | 'b'}-x`;",
+        "export type Key = 'a-x';",
+      )
+
+      expect(impactOf(changes)).toBe('narrowing')
+    })
+
+    it('classifies changes to generic templates per instantiation', () => {
+      const changes = diffWithLib(
+        'export type Handler<T extends string> = `on${T}`;',
+        'export type Handler<T extends string> = `on${Capitalize<T>}`;',
+      )
+
+      expect(impactOf(changes)).toBe('unrelated')
+    })
+
+    it('evaluates string mappings of literals without lib files', () => {
+      expect(
+        diff(
+          'export type Key = "ABC";',
+          'export type Key = Uppercase<"abc">;',
+        ),
+      ).toHaveLength(0)
+      expect(
+        diff(
+          'export declare function f(key: "Abc"): void;',
+          'export declare function f(key: Capitalize<"abc">): void;',
+        ),
+      ).toHaveLength(0)
+    })
+
+    it('classifies string mappings of wider unions as widening', () => {
+      const changes = diff(
+        'export declare const key: "ABC";',
+        'export declare const key: Uppercase<"abc" | "x">;',
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+  })
+
+  describe('signatures', () => {
+    function releaseTypeOf(changes: ReturnType<typeof diffModules>) {
+      return determineOverallRelease(
+        classifyChanges(changes, semverDefaultPolicy, { nested: true }),
+      )
+    }
+
+    it('classifies a removed optional parameter as breaking', () => {
+      const changes = diff(
+        `export declare function f(a: string, b?: number): void;`,
+        `export declare function f(a: string): void;`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+      expect(releaseTypeOf(changes)).toBe('major')
+    })
+
+    it('classifies a parameter made required as breaking', () => {
+      const changes = diff(
+        `export declare function f(a?: string): void;`,
+        `export declare function f(a: string): void;`,
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+      expect(releaseTypeOf(changes)).toBe('major')
+    })
+
+    it('classifies a parameter made optional as compatible', () => {
+      const changes = diff(
+        `export declare function f(a: string): void;`,
+        `export declare function f(a?: string): void;`,
+      )
+
+      expect(impactOf(changes)).toBe('narrowing')
+      expect(releaseTypeOf(changes)).toBe('minor')
+    })
+
+    it('compares the parameter lists of methods without a type checker', () => {
+      const changes = diffModules(
+        parseModuleWithoutTypes(
+          'export interface Api { load(id: string, force?: boolean): void }',
+        ),
+        parseModuleWithoutTypes(
+          'export interface Api { load(id: string): void }',
+        ),
+      )
+
+      expect(changes[0]!.nestedChanges[0]!.descriptor.impact).toBe('widening')
+      expect(releaseTypeOf(changes)).toBe('major')
+    })
+  })
+
+  describe('without a type checker', () => {
+    it('compares template literal types as written', () => {
+      const changes = diffModules(
+        parseModuleWithoutTypes('export type Route = `/api/${string}`;'),
+        parseModuleWithoutTypes('export type Route = `/${string}`;'),
+      )
+
+      expect(impactOf(changes)).toBe('widening')
+    })
+
+    it('compares unions of literals and templates as written', () => {
+      const changes = diffModules(
+        parseModuleWithoutTypes("export type Size = 'small' | `${number}px`;"),
+        parseModuleWithoutTypes("export type Size = 'small';"),
+      )
+
+      expect(impactOf(changes)).toBe('narrowing')
+    })
+
+    it('leaves types it cannot parse undetermined', () => {
+      const changes = diffModules(
+        parseModuleWithoutTypes('export type Box = Wrapper<string>;'),
+        parseModuleWithoutTypes('export type Box = Wrapper<number>;'),
+      )
+
+      expect(impactOf(changes)).toBe('undetermined')
+    })
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Tests for variance-aware type change classification.
+ *
+ * Tests that type changes carry the polarity of the position they were
+ * found in, and that the impact is judged for that position alone.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffModules } from '../../../src/ast/differ'
+import { parseModule as parseModuleWithoutTypes } from '../../../src/ast/parser'
+import {
+  classifyChanges,
+  determineOverallRelease,
+} from '../../../src/ast/rule-builder'
+import { semverDefaultPolicy } from '../../../src/ast/builtin-policies'
+import { diff } from './helpers'
+
+describe('AST Differ - Variance', () => {
+  describe('function signatures', () => {
+    it('marks a widened parameter type as contravariant', () => {
+      const changes = diff(
+        `export declare function process(value: number): void;`,
+        `export declare function process(value: number | string): void;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      const change = changes[0]!
+      expect(change.descriptor.impact).toBe('widening')
+      expect(change.context.polarity).toBe('contravariant')
+      expect(change.descriptor.tags.has('in-input-position')).toBe(true)
+      expect(change.descriptor.tags.has('in-output-position')).toBe(false)
+    })
+
+    it('marks a widened return type as covariant', () => {
+      const changes = diff(
+        `export declare function load(): string;`,
+        `export declare function load(): string | undefined;`,
+      )
+
+      expect(changes).toHaveLength(1)
+      const change = changes[0]!
+      expect(change.descriptor.impact).toBe('widening')
+      expect(change.context.polarity).toBe('covariant')
+      expect(change.descriptor.tags.has('in-output-position')).toBe(true)
+    })
+
+    it('judges the impact by the changed parameter alone', () => {
+      const changes = diff(
+        `export declare function process(value: number | string): void;`,
+        `export declare function process(value: number): void;`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('narrowing')
+      expect(changes[0]!.context.polarity).toBe('contravariant')
+    })
+
+    it('marks a changed callback parameter as invariant', () => {
+      const changes = diff(
+        `export declare function subscribe(listener: (value: number) => void): void;`,
+        `export declare function subscribe(listener: (value: number | string) => void): void;`,
+      )
+
+      expect(changes[0]!.context.polarity).toBe('invariant')
+      expect(changes[0]!.descriptor.tags.has('in-input-position')).toBe(true)
+      expect(changes[0]!.descriptor.tags.has('in-output-position')).toBe(true)
+    })
+
+    it('reports the most breaking of several changed positions', () => {
+      const changes = diff(
+        `export declare function convert(value: number): string;`,
+        `export declare function convert(value: number | string): string | number;`,
+      )
+
+      expect(changes[0]!.descriptor.impact).toBe('widening')
+      expect(changes[0]!.context.polarity).toBe('covariant')
+    })
+
+    it('keeps a change safe when every changed position is', () => {
+      const changes = diff(
+        `export declare function f(a: string): string | undefined;`,
+        `export declare function f(a: string | number): string;`,
+      )
+
+      expect(
+        determineOverallRelease(classifyChanges(changes, semverDefaultPolicy)),
+      ).toBe('minor')
+    })
+
+    it('marks return type changes of overloads as covariant', () => {
+      const changes = diff(
+        `export declare function get(key: string): string;
+export declare function get(key: number): number;`,
+        `export declare function get(key: string): string | undefined;
+export declare function get(key: number): number;`,
+      )
+
+      expect(changes[0]!.context.polarity).toBe('covariant')
+      expect(changes[0]!.descriptor.tags.has('in-output-position')).toBe(true)
+    })
+  })
+
+  describe('properties', () => {
+    it('marks a mutable property as invariant', () => {
+      const changes = diff(
+        `export interface Config { timeout: number; }`,
+        `export interface Config { timeout: number | string; }`,
+      )
+
+      const property = changes[0]!.nestedChanges[0]!
+      expect(property.context.polarity).toBe('invariant')
+    })
+
+    it('marks a readonly property as covariant', () => {
+      const changes = diff(
+        `export interface Config { readonly timeout: number; }`,
+        `export interface Config { readonly timeout: number | string; }`,
+      )
+
+      const property = changes[0]!.nestedChanges[0]!
+      expect(property.context.polarity).toBe('covariant')
+      expect(property.descriptor.tags.has('in-output-position')).toBe(true)
+    })
+  })
+
+  describe('other declarations', () => {
+    it('marks a type alias as invariant', () => {
+      const changes = diffModules(
+        parseModuleWithoutTypes(`export type Id = string;`),
+        parseModuleWithoutTypes(`export type Id = string | number;`),
+      )
+
+      expect(changes[0]!.context.polarity).toBe('invariant')
+    })
+
+    it('marks an exported variable as covariant', () => {
+      const changes = diff(
+        `export declare const version: string;`,
+        `export declare const version: string | number;`,
+      )
+
+      expect(changes[0]!.context.polarity).toBe('covariant')
+    })
+
+    it('leaves changes without a type position unmarked', () => {
+      const changes = diff(
+        `export interface Config { timeout: number; }`,
+        `export interface Config { readonly timeout: number; }`,
+      )
+
+      const property = changes[0]!.nestedChanges[0]!
+      expect(property.context.polarity).toBeUndefined()
+    })
+  })
+})
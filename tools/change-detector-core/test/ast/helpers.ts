@@ -0,0 +1,39 @@
+/**
+ * Shared test helpers for policy tests.
+ */
+
+import type {
+  ApiChange,
+  ChangeDescriptor,
+  ChangeContext,
+  NodeKind,
+} from '../../src/ast/types'
+
+/** Helper to create a minimal ApiChange for testing */
+export function makeChange(
+  descriptor: Partial<ChangeDescriptor>,
+  options: {
+    path?: string
+    nodeKind?: NodeKind
+    context?: Partial<ChangeContext>
+  } = {},
+): ApiChange {
+  return {
+    descriptor: {
+      target: 'export',
+      action: 'modified',
+      tags: new Set(),
+      ...descriptor,
+    },
+    path: options.path ?? 'Test',
+    nodeKind: options.nodeKind ?? 'interface',
+    nestedChanges: [],
+    context: {
+      isNested: false,
+      depth: 0,
+      ancestors: [],
+      ...options.context,
+    },
+    explanation: 'Test change',
+  }
+}
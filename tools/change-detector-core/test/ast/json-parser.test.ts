@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest'
+import schemaFile from '../../schemas/report-v1.schema.json'
+import { parseModule } from '../../src/ast/parser'
+import { diffModules } from '../../src/ast/differ'
+import {
+  classifyChanges,
+  createPolicy,
+  rule,
+  type Policy,
+} from '../../src/ast/rule-builder'
+import { semverDefaultPolicy } from '../../src/ast/builtin-policies'
+import type { ClassifiedChange } from '../../src/ast/types'
+import {
+  ASTReportJSONError,
+  astReportJSONSchema,
+  createASTComparisonReport,
+  formatASTReportAsJSON,
+  formatASTReportAsMarkdown,
+  parseASTReportJSON,
+  validateASTReportJSON,
+  type ASTComparisonReport,
+} from '../../src/ast/reporter'
+
+function createReport(
+  oldSource: string,
+  newSource: string,
+  policy: Policy = semverDefaultPolicy,
+): ASTComparisonReport {
+  const changes = diffModules(parseModule(oldSource), parseModule(newSource))
+  const classified: ClassifiedChange[] = classifyChanges(changes, policy, {
+    trace: true,
+  }).map((result) => ({
+    ...result.change,
+    releaseType: result.releaseType,
+    matchedRule: result.matchedRule,
+    suppression: result.suppression,
+    trace: result.trace,
+  }))
+  return createASTComparisonReport(classified, policy.name)
+}
+
+const noRemovalsPolicy = createPolicy('no-removals', 'major')
+  .addRule(
+    rule('export-removal')
+      .action('removed')
+      .rationale('Removals need an RFC')
+      .returns('forbidden'),
+  )
+  .build()
+
+const oldSource = `
+export interface User { id: number; name: string; }
+/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): string;
+export declare function save(): void;
+`
+
+const newSource = `
+export interface User { id: string; email: string; }
+/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): number;
+export declare function find(id: string): User;
+`
+
+describe('JSON report parser', () => {
+  describe('astReportJSONSchema', () => {
+    it('matches the published schema file', () => {
+      expect(schemaFile).toEqual(astReportJSONSchema)
+    })
+  })
+
+  describe('validateASTReportJSON', () => {
+    it('accepts reports of the JSON reporter', () => {
+      const json = JSON.parse(
+        JSON.stringify(
+          formatASTReportAsJSON(createReport(oldSource, newSource), {
+            includeTrace: true,
+          }),
+        ),
+      ) as unknown
+
+      expect(validateASTReportJSON(json)).toEqual({ valid: true, errors: [] })
+    })
+
+    it('rejects values that are not objects', () => {
+      expect(validateASTReportJSON([]).errors).toEqual([
+        { path: '', message: 'Report must be an object' },
+      ])
+    })
+
+    it('rejects reports without a schema version', () => {
+      const json = formatASTReportAsJSON(createReport(oldSource, newSource))
+      const { schemaVersion: _, ...unversioned } = json
+
+      const result = validateASTReportJSON(unversioned)
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]!.path).toBe('schemaVersion')
+    })
+
+    it('rejects reports of other schema versions', () => {
+      const json = formatASTReportAsJSON(createReport(oldSource, newSource))
+
+      const result = validateASTReportJSON({ ...json, schemaVersion: 2 })
+
+      expect(result.errors).toEqual([
+        {
+          path: 'schemaVersion',
+          message: 'Unsupported version 2; expected 1',
+        },
+      ])
+    })
+
+    it('reports the paths of invalid fields', () => {
+      const json = formatASTReportAsJSON(createReport(oldSource, newSource))
+      const change = json.changes.major[0]!
+
+      const result = validateASTReportJSON({
+        ...json,
+        stats: { ...json.stats, total: -1 },
+        changes: {
+          ...json.changes,
+          major: [
+            {
+              ...change,
+              releaseType: 'huge',
+              nestedChanges: [{ ...change, tags: ['unknown-tag'] }],
+            },
+          ],
+        },
+      })
+
+      expect(result.errors.map((error) => error.path)).toEqual([
+        'stats.total',
+        'changes.major[0].releaseType',
+        'changes.major[0].nestedChanges[0].tags[0]',
+      ])
+    })
+
+    it('ignores unknown fields', () => {
+      const json = formatASTReportAsJSON(createReport(oldSource, newSource))
+
+      expect(validateASTReportJSON({ ...json, generatedBy: 'ci' }).valid).toBe(
+        true,
+      )
+    })
+  })
+
+  describe('parseASTReportJSON', () => {
+    it('round-trips reports of the JSON reporter', () => {
+      const json = formatASTReportAsJSON(createReport(oldSource, newSource), {
+        includeTrace: true,
+      })
+
+      const report = parseASTReportJSON(JSON.stringify(json))
+
+      expect(
+        JSON.parse(
+          JSON.stringify(formatASTReportAsJSON(report, { includeTrace: true })),
+        ),
+      ).toEqual(JSON.parse(JSON.stringify(json)))
+    })
+
+    it('restores the policy name, stats and classifications', () => {
+      const original = createReport(oldSource, newSource, noRemovalsPolicy)
+
+      const report = parseASTReportJSON(formatASTReportAsJSON(original))
+
+      expect(report.policyName).toBe('no-removals')
+      expect(report.releaseType).toBe('forbidden')
+      expect(report.stats).toEqual(original.stats)
+      const removal = report.byReleaseType.forbidden[0]!
+      expect(removal.path).toBe('save')
+      expect(removal.matchedRule).toEqual({
+        name: 'export-removal',
+        description: 'Removals need an RFC',
+      })
+      expect(removal.descriptor.tags).toBeInstanceOf(Set)
+    })
+
+    it('restores nested changes with their context', () => {
+      const report = parseASTReportJSON(
+        formatASTReportAsJSON(createReport(oldSource, newSource)),
+      )
+
+      const user = report.changes.find((change) => change.path === 'User')!
+      expect(user.nestedChanges.length).toBeGreaterThan(0)
+      for (const nested of user.nestedChanges) {
+        expect(nested.context).toEqual({
+          isNested: true,
+          depth: 1,
+          ancestors: ['User'],
+        })
+      }
+    })
+
+    it('re-renders reports with other reporters', () => {
+      const original = createReport(oldSource, newSource)
+
+      const report = parseASTReportJSON(formatASTReportAsJSON(original))
+
+      expect(formatASTReportAsMarkdown(report)).toBe(
+        formatASTReportAsMarkdown(original),
+      )
+    })
+
+    it('merges the changes of several reports', () => {
+      const first = parseASTReportJSON(
+        formatASTReportAsJSON(
+          createReport(
+            'export declare function a(): void;',
+            'export declare function a(): void; export declare function b(): void;',
+          ),
+        ),
+      )
+      const second = parseASTReportJSON(
+        formatASTReportAsJSON(
+          createReport('export declare function c(): void;', ''),
+        ),
+      )
+
+      const merged = createASTComparisonReport([
+        ...first.changes,
+        ...second.changes,
+      ])
+
+      expect(merged.releaseType).toBe('major')
+      expect(merged.stats).toMatchObject({ total: 2, major: 1, minor: 1 })
+    })
+
+    it('throws for text that is not JSON', () => {
+      expect(() => parseASTReportJSON('{ releaseType: ')).toThrow(
+        /Report is not valid JSON/,
+      )
+    })
+
+    it('throws with the validation errors of invalid reports', () => {
+      let error: unknown
+      try {
+        parseASTReportJSON('{ "schemaVersion": 1, "releaseType": "major" }')
+      } catch (caught) {
+        error = caught
+      }
+
+      expect(error).toBeInstanceOf(ASTReportJSONError)
+      const { errors, message } = error as ASTReportJSONError
+      expect(errors.map((e) => e.path)).toEqual(['stats', 'changes'])
+      expect(message).toBe(
+        'Invalid report: stats: Stats must be an object; changes: Changes must be an object',
+      )
+    })
+  })
+})
@@ -7,6 +7,8 @@
  * - basic-parsing.test.ts - Core parseModule and parseModuleWithTypes tests
  * - advanced-features.test.ts - Advanced TypeScript features (constructors,
  *   index signatures, getters/setters, abstract classes, etc.)
+ * - multi-file.test.ts - parseModulesWithTypes across multiple declaration files
+ * - re-exports.test.ts - Export lists, aliases, export =, and re-exports
  *
  * This file re-exports all tests for backward compatibility.
  */
@@ -14,3 +16,5 @@
 // Re-export all tests from split modules
 export * from './parser/basic-parsing.test'
 export * from './parser/advanced-features.test'
+export * from './parser/multi-file.test'
+export * from './parser/re-exports.test'
@@ -3,7 +3,8 @@
  *
  * Tests edge cases and advanced TypeScript features including
  * constructors, index signatures, call/construct signatures,
- * getters/setters, abstract classes, and default exports.
+ * getters/setters, abstract classes, default exports, ambient
+ * declarations, unique symbols and enum member values.
  */
 
 import { describe, it, expect } from 'vitest'
@@ -282,4 +283,95 @@ export default class App {}
       expect(hasExport || result.nodes.size > 0).toBe(true)
     })
   })
+
+  describe('ambient declarations', () => {
+    it('parses a global augmentation as an export', () => {
+      const source = `
+export {};
+declare global {
+  interface Window { appVersion: string }
+}
+`
+      const result = parseModule(source)
+
+      const global = result.exports.get('global')!
+      expect(global.kind).toBe('global-augmentation')
+      expect(global.typeInfo.signature).toBe('declare global')
+      expect(global.children.get('Window')?.path).toBe('global.Window')
+    })
+
+    it('merges the members of repeated global augmentations', () => {
+      const source = `
+export {};
+declare global {
+  interface Window { appVersion: string }
+  var buildId: string;
+}
+declare global {
+  interface Window { appName: string }
+  function track(event: string): void;
+}
+`
+      const result = parseModule(source)
+
+      const global = result.exports.get('global')!
+      expect([...global.children.keys()]).toEqual([
+        'Window',
+        'buildId',
+        'track',
+      ])
+      expect([...global.children.get('Window')!.children.keys()]).toEqual([
+        'appVersion',
+        'appName',
+      ])
+      expect(result.nodes.get('global.buildId')?.kind).toBe('variable')
+    })
+
+    it('parses an ambient module by its quoted name', () => {
+      const source = `
+declare module 'my-lib' {
+  export function load(): void;
+}
+`
+      const result = parseModule(source)
+
+      const lib = result.exports.get('"my-lib"')!
+      expect(lib.kind).toBe('ambient-module')
+      expect(lib.typeInfo.signature).toBe('declare module "my-lib"')
+      expect(lib.children.get('load')?.kind).toBe('function')
+    })
+  })
+
+  describe('unique symbols', () => {
+    it('parses a unique symbol constant', () => {
+      const result = parseModule('export declare const token: unique symbol;')
+
+      expect(result.exports.get('token')?.kind).toBe('unique-symbol')
+    })
+
+    it('parses a symbol constant as a variable', () => {
+      const result = parseModule('export declare const token: symbol;')
+
+      expect(result.exports.get('token')?.kind).toBe('variable')
+    })
+  })
+
+  describe('enum member values', () => {
+    it('numbers members without initializers after the preceding member', () => {
+      const result = parseModule('export enum Level { Low, High = 10, Max }')
+
+      const level = result.exports.get('Level')!
+      const values = [...level.children.values()].map(
+        (member) => member.typeInfo.signature,
+      )
+      expect(values).toEqual(['0', '10', '11'])
+    })
+
+    it('marks members of a const enum as const', () => {
+      const result = parseModule('export const enum Color { Red, Green }')
+
+      const color = result.exports.get('Color')!
+      expect(color.children.get('Red')?.modifiers.has('const')).toBe(true)
+    })
+  })
 })
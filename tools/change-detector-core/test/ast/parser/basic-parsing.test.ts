@@ -160,12 +160,17 @@ export declare function greet(name: string): string;`
       const result = parseModule(source, { extractMetadata: true })
 
       const greet = result.exports.get('greet')!
-      // Metadata extraction is best-effort - verify it exists or is undefined
-      if (greet.metadata) {
-        expect(greet.metadata.deprecated).toBe(true)
-        expect(greet.metadata.deprecationMessage).toBe('Use newGreet instead')
-      }
-      // If metadata wasn't extracted, that's okay - the core parsing still works
+      expect(greet.metadata?.deprecated).toBe(true)
+      expect(greet.metadata?.deprecationMessage).toBe('Use newGreet instead')
+    })
+
+    it('extracts TSDoc metadata of exported variables', () => {
+      const source = `/** @experimental */
+export declare const version: string;`
+      const result = parseModule(source, { extractMetadata: true })
+
+      const version = result.exports.get('version')!
+      expect(version.metadata?.experimental).toBe(true)
     })
 
     it('parses generic functions', () => {
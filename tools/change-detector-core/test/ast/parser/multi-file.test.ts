@@ -0,0 +1,150 @@
+/**
+ * Multi-file parsing tests for AST Parser.
+ *
+ * Tests parseModulesWithTypes, which analyzes a set of declaration
+ * files as one program with real TypeScript lib files.
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as ts from 'typescript'
+import { parseModulesWithTypes } from '../../../src/ast/parser'
+import { diffModules } from '../../../src/ast/differ'
+
+describe('AST Parser - Multi-File Analysis', () => {
+  it('analyzes only the exports of the entry point', () => {
+    const result = parseModulesWithTypes(
+      new Map([
+        [
+          'index.d.ts',
+          `import { User } from './user';
+export declare function getUser(): User;`,
+        ],
+        ['user.d.ts', `export interface User { id: number; }`],
+      ]),
+      ts,
+      { entryPoint: 'index.d.ts' },
+    )
+
+    expect(result.errors).toHaveLength(0)
+    expect(result.filename).toBe('index.d.ts')
+    expect([...result.exports.keys()]).toEqual(['getUser'])
+  })
+
+  it('resolves types imported from sibling files', () => {
+    const result = parseModulesWithTypes(
+      new Map([
+        [
+          'index.d.ts',
+          `import type { User } from './models/user';
+export declare const current: User;`,
+        ],
+        ['models/user.d.ts', `export interface User { id: number; }`],
+      ]),
+      ts,
+      { entryPoint: 'index.d.ts' },
+    )
+
+    const sourceFile = result.program.getSourceFile('/index.d.ts')!
+    const diagnostics = result.program.getSemanticDiagnostics(sourceFile)
+    expect(diagnostics).toHaveLength(0)
+
+    const symbol = result.symbols.get('current')!
+    const type = result.checker.getTypeOfSymbolAtLocation(
+      symbol,
+      symbol.getDeclarations()![0]!,
+    )
+    expect(type.flags & ts.TypeFlags.Any).toBe(0)
+    expect(result.checker.typeToString(type)).toBe('User')
+  })
+
+  it('normalizes file names and entry point paths', () => {
+    const result = parseModulesWithTypes(
+      new Map([
+        ['./src/index.d.ts', `export type { Id } from '../shared/id';`],
+        ['shared\\id.d.ts', `export type Id = string;`],
+      ]),
+      ts,
+      { entryPoint: 'src/index.d.ts' },
+    )
+
+    expect(result.errors).toHaveLength(0)
+    expect(result.symbols.has('Id')).toBe(true)
+  })
+
+  it('loads the TypeScript standard library', () => {
+    const result = parseModulesWithTypes(
+      new Map([
+        [
+          'index.d.ts',
+          `export declare function load(): Promise<Record<string, Array<number>>>;`,
+        ],
+      ]),
+      ts,
+      { entryPoint: 'index.d.ts' },
+    )
+
+    const diagnostics = result.program.getSemanticDiagnostics()
+    expect(diagnostics).toHaveLength(0)
+    expect(result.exports.get('load')!.typeInfo.signature).toBe(
+      '() => Promise<Record<string, number[]>>',
+    )
+  })
+
+  it('uses provided lib file contents instead of the installed ones', () => {
+    const libFiles = new Map<string, string>()
+    const defaultLib = ts.getDefaultLibFileName({
+      target: ts.ScriptTarget.Latest,
+    })
+    libFiles.set(defaultLib, `interface Box<T> { value: T }`)
+
+    const result = parseModulesWithTypes(
+      new Map([['index.d.ts', `export declare const box: Box<string>;`]]),
+      ts,
+      { entryPoint: 'index.d.ts', libFiles },
+    )
+
+    expect(result.exports.get('box')!.typeInfo.signature).toBe('Box<string>')
+  })
+
+  it('reports a missing entry point', () => {
+    const result = parseModulesWithTypes(
+      new Map([['index.d.ts', `export declare const x: number;`]]),
+      ts,
+      { entryPoint: 'main.d.ts' },
+    )
+
+    expect(result.errors).toContain('Entry point not found: main.d.ts')
+    expect(result.exports.size).toBe(0)
+  })
+
+  it('detects changes in types defined in sibling files', () => {
+    const user = `export interface User { id: number; }`
+    const oldAnalysis = parseModulesWithTypes(
+      new Map([
+        [
+          'index.d.ts',
+          `import { User } from './user';
+export declare function getUsers(): Promise<User[]>;`,
+        ],
+        ['user.d.ts', user],
+      ]),
+      ts,
+      { entryPoint: 'index.d.ts' },
+    )
+    const newAnalysis = parseModulesWithTypes(
+      new Map([
+        [
+          'index.d.ts',
+          `import { User } from './user';
+export declare function getUsers(): Promise<Array<User>>;`,
+        ],
+        ['user.d.ts', user],
+      ]),
+      ts,
+      { entryPoint: 'index.d.ts' },
+    )
+
+    // Both spellings resolve to the same type once lib files are loaded
+    expect(diffModules(oldAnalysis, newAnalysis)).toHaveLength(0)
+  })
+})
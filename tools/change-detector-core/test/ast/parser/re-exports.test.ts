@@ -0,0 +1,405 @@
+/**
+ * Re-export tests for AST Parser.
+ *
+ * Tests exports that refer to declarations by name: export lists,
+ * aliases, `export default Foo`, `export =`, and re-exports from
+ * other modules (`export { x } from`, `export *`, `export * as ns`).
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as ts from 'typescript'
+import { parseModule, parseModulesWithTypes } from '../../../src/ast/parser'
+import { diffModules } from '../../../src/ast/differ'
+
+describe('AST Parser - Re-exports', () => {
+  describe('local export lists', () => {
+    it('exports declarations listed in export {}', () => {
+      const result = parseModule(`
+declare function helper(): void;
+declare const internal: number;
+export { helper };
+`)
+
+      expect(result.errors).toHaveLength(0)
+      expect([...result.exports.keys()]).toEqual(['helper'])
+      expect(result.exports.get('helper')!.kind).toBe('function')
+    })
+
+    it('exports aliased declarations under the exported name', () => {
+      const result = parseModule(`
+interface Options { verbose: boolean; }
+export { Options as Config };
+`)
+
+      const config = result.exports.get('Config')!
+      expect(config.kind).toBe('interface')
+      expect(config.path).toBe('Config')
+      expect(config.localName).toBe('Options')
+      expect(result.exports.has('Options')).toBe(false)
+      expect(result.nodes.has('Config.verbose')).toBe(true)
+    })
+
+    it('marks the declaration referenced by export default', () => {
+      const result = parseModule(`
+declare function main(): void;
+export default main;
+`)
+
+      const main = result.exports.get('main')!
+      expect(main.kind).toBe('function')
+      expect(main.modifiers.has('default-export')).toBe(true)
+    })
+
+    it('exports the declaration referenced by export =', () => {
+      const result = parseModule(`
+declare namespace lib {
+  function run(): void;
+}
+export = lib;
+`)
+
+      const assigned = result.exports.get('export=')!
+      expect(assigned.kind).toBe('namespace')
+      expect(assigned.localName).toBe('lib')
+      expect(assigned.children.has('run')).toBe(true)
+    })
+
+    it('records re-exports of unresolved modules by name', () => {
+      const result = parseModule(
+        `export { Client as HttpClient } from './client';`,
+      )
+
+      expect(result.errors).toHaveLength(0)
+      const client = result.exports.get('HttpClient')!
+      expect(client.localName).toBe('Client')
+      expect(client.typeInfo.signature).toBe(`import('./client').Client`)
+    })
+
+    it('gives re-exports of unresolved modules their own kind', () => {
+      const result = parseModule(`export { Client } from './client';`)
+
+      expect(result.exports.get('Client')!.kind).toBe('unresolved-export')
+    })
+
+    it('records unresolved re-exports named default as default exports', () => {
+      const result = parseModule(
+        `export { Client as default } from './client';`,
+      )
+
+      expect([...result.exports.keys()]).toEqual(['Client'])
+      const client = result.exports.get('Client')!
+      expect(client.modifiers.has('default-export')).toBe(true)
+      expect(client.modifiers.has('exported')).toBe(false)
+    })
+
+    it('does not determine the impact of a declaration becoming resolvable', () => {
+      const changes = diffModules(
+        parseModule(`export { Client } from './client';`),
+        parseModule(`export declare class Client {}`),
+      )
+
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.descriptor.aspect).toBe('kind-changed')
+      expect(changes[0]!.descriptor.impact).toBe('undetermined')
+    })
+
+    it('records namespace re-exports of unresolved modules', () => {
+      const result = parseModule(`export * as utils from './utils';`)
+
+      const utils = result.exports.get('utils')!
+      expect(utils.kind).toBe('namespace')
+      expect(utils.children.size).toBe(0)
+      expect(utils.typeInfo.signature).toBe(`typeof import('./utils')`)
+    })
+
+    it('records star re-exports of unresolved modules by module name', () => {
+      const result = parseModule(`export * from './models';`)
+
+      expect([...result.exports.keys()]).toEqual(['* from "./models"'])
+    })
+
+    it('detects removals of unresolved star re-exports', () => {
+      const changes = diffModules(
+        parseModule(`export * from './models';
+export * as utils from './utils';`),
+        parseModule(``),
+      )
+
+      expect(
+        changes.map(({ path, descriptor }) => [path, descriptor.action]),
+      ).toEqual([
+        ['* from "./models"', 'removed'],
+        ['utils', 'removed'],
+      ])
+    })
+  })
+
+  describe('re-exports across files', () => {
+    it('follows named re-exports into the source module', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `export { User, type Role as UserRole } from './user';`,
+          ],
+          [
+            'user.d.ts',
+            `export interface User { id: number; }
+export type Role = 'admin' | 'guest';`,
+          ],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect(result.errors).toHaveLength(0)
+      const user = result.exports.get('User')!
+      expect(user.kind).toBe('interface')
+      expect(user.sourceFile).toBe('/user.d.ts')
+      expect(user.children.has('id')).toBe(true)
+
+      const role = result.exports.get('UserRole')!
+      expect(role.kind).toBe('type-alias')
+      expect(role.localName).toBe('Role')
+    })
+
+    it('exports re-exports named default as the default export', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `export { User as default, default as createUser } from './user';`,
+          ],
+          [
+            'user.d.ts',
+            `export interface User { id: number; }
+export default function create(): User;`,
+          ],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect([...result.exports.keys()]).toEqual(['User', 'createUser'])
+      const user = result.exports.get('User')!
+      expect(user.modifiers.has('default-export')).toBe(true)
+      expect(user.modifiers.has('exported')).toBe(false)
+      expect(user.localName).toBeUndefined()
+
+      const createUser = result.exports.get('createUser')!
+      expect(createUser.kind).toBe('function')
+      expect(createUser.modifiers.has('exported')).toBe(true)
+      expect(createUser.modifiers.has('default-export')).toBe(false)
+    })
+
+    it('does not re-export default re-exports through export *', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          ['index.d.ts', `export * from './models';`],
+          [
+            'models.d.ts',
+            `import { User } from './user';
+export default User;
+export declare const version: string;`,
+          ],
+          ['user.d.ts', `export interface User { id: number; }`],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect([...result.exports.keys()]).toEqual(['version'])
+    })
+
+    it('re-exports declarations that are also the default export through export *', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          ['index.d.ts', `export * from './a';`],
+          [
+            'a.d.ts',
+            `declare interface Foo {}
+export { Foo };
+export default Foo;`,
+          ],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect([...result.exports.keys()]).toEqual(['Foo'])
+      const foo = result.exports.get('Foo')!
+      expect(foo.modifiers.has('exported')).toBe(true)
+      expect(foo.modifiers.has('default-export')).toBe(false)
+    })
+
+    it('follows imports that are exported from an export list', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `import { User } from './user';
+export { User };`,
+          ],
+          ['user.d.ts', `export interface User { id: number; }`],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect(result.exports.get('User')!.kind).toBe('interface')
+    })
+
+    it('adds imported declarations to the nodes but not the exports', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `import { User as Account } from './user';
+import { Missing } from 'external-package';
+export declare function load(): Account;`,
+          ],
+          ['user.d.ts', `export interface User { id: number; }`],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect(result.errors).toHaveLength(0)
+      expect([...result.exports.keys()]).toEqual(['load'])
+      const account = result.nodes.get('Account')!
+      expect(account.kind).toBe('interface')
+      expect(account.modifiers.has('exported')).toBe(false)
+      expect(result.nodes.has('Account.id')).toBe(true)
+      expect(result.nodes.has('Missing')).toBe(false)
+    })
+
+    it('follows export * through several modules', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `export * from './models';
+export declare const version: string;`,
+          ],
+          ['models/index.d.ts', `export * from './user';`],
+          [
+            'models/user.d.ts',
+            `export interface User { id: number; }
+export default function createUser(): User;`,
+          ],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect(result.errors).toHaveLength(0)
+      expect([...result.exports.keys()].sort()).toEqual(['User', 'version'])
+      expect(result.exports.get('User')!.sourceFile).toBe('/models/user.d.ts')
+    })
+
+    it('prefers explicit exports over export *', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          [
+            'index.d.ts',
+            `export * from './a';
+export declare const value: string;`,
+          ],
+          ['a.d.ts', `export declare const value: number;`],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect(result.exports.get('value')!.sourceFile).toBeUndefined()
+    })
+
+    it('does not re-export global augmentations through export *', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          ['index.d.ts', `export * from './globals';`],
+          [
+            'globals.d.ts',
+            `export declare const version: string;
+declare global { var appVersion: string; }`,
+          ],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect([...result.exports.keys()]).toEqual(['version'])
+    })
+
+    it('exports a namespace for export * as', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          ['index.d.ts', `export * as utils from './utils';`],
+          [
+            'utils.d.ts',
+            `export declare function format(value: string): string;`,
+          ],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      const utils = result.exports.get('utils')!
+      expect(utils.kind).toBe('namespace')
+      expect(utils.children.get('format')!.path).toBe('utils.format')
+      expect(result.nodes.has('utils.format')).toBe(true)
+    })
+
+    it('terminates on circular re-exports', () => {
+      const result = parseModulesWithTypes(
+        new Map([
+          ['a.d.ts', `export * from './b'; export declare const a: number;`],
+          ['b.d.ts', `export * from './a'; export declare const b: number;`],
+        ]),
+        ts,
+        { entryPoint: 'a.d.ts' },
+      )
+
+      expect([...result.exports.keys()].sort()).toEqual(['a', 'b'])
+      expect(result.errors).toHaveLength(0)
+    })
+
+    it('reports modules that cannot be resolved', () => {
+      const result = parseModulesWithTypes(
+        new Map([['index.d.ts', `export * from './missing';`]]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      expect(result.errors).toContain(`Cannot resolve module './missing'`)
+      expect([...result.exports.keys()]).toEqual(['* from "./missing"'])
+    })
+
+    it('detects removals of re-exported declarations', () => {
+      const user = `export interface User { id: number; }
+export interface Admin { level: number; }`
+      const oldAnalysis = parseModulesWithTypes(
+        new Map([
+          ['index.d.ts', `export { User, Admin as Superuser } from './user';`],
+          ['user.d.ts', user],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+      const newAnalysis = parseModulesWithTypes(
+        new Map([
+          ['index.d.ts', `export { User } from './user';`],
+          ['user.d.ts', user],
+        ]),
+        ts,
+        { entryPoint: 'index.d.ts' },
+      )
+
+      const changes = diffModules(oldAnalysis, newAnalysis)
+      expect(changes).toHaveLength(1)
+      expect(changes[0]!.path).toBe('Superuser')
+      expect(changes[0]!.descriptor.action).toBe('removed')
+      expect(changes[0]!.context.localName).toBe('Admin')
+    })
+  })
+})
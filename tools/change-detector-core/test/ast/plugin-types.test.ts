@@ -38,6 +38,11 @@ import {
   textASTReporter,
   markdownASTReporter,
   jsonASTReporter,
+  sarifASTReporter,
+  htmlASTReporter,
+  junitASTReporter,
+  checkstyleASTReporter,
+  changelogASTReporter,
 } from '../../src/ast/plugin-types'
 
 describe('AST Plugin Types', () => {
@@ -67,6 +72,8 @@ describe('AST Plugin Types', () => {
         expect(isASTAwareReporterDefinition(textASTReporter)).toBe(true)
         expect(isASTAwareReporterDefinition(markdownASTReporter)).toBe(true)
         expect(isASTAwareReporterDefinition(jsonASTReporter)).toBe(true)
+        expect(isASTAwareReporterDefinition(sarifASTReporter)).toBe(true)
+        expect(isASTAwareReporterDefinition(htmlASTReporter)).toBe(true)
       })
 
       it('returns false for non-AST reporter definitions', () => {
@@ -291,6 +298,89 @@ describe('AST Plugin Types', () => {
         expect(parsed.changes).toBeDefined()
       })
     })
+
+    describe('sarifASTReporter', () => {
+      it('has correct metadata', () => {
+        expect(sarifASTReporter.id).toBe('ast-sarif')
+        expect(sarifASTReporter.supportsAST).toBe(true)
+        expect(sarifASTReporter.format).toBe('json')
+      })
+
+      it('creates a working reporter', () => {
+        const reporter = sarifASTReporter.createReporter()
+        const parsed = JSON.parse(reporter.formatAST(testReport)) as {
+          version: string
+          runs: Array<{ results: unknown[] }>
+        }
+
+        expect(parsed.version).toBe('2.1.0')
+        expect(parsed.runs).toHaveLength(1)
+        expect(parsed.runs[0]!.results.length).toBeGreaterThan(0)
+      })
+    })
+
+    describe('htmlASTReporter', () => {
+      it('has correct metadata', () => {
+        expect(htmlASTReporter.id).toBe('ast-html')
+        expect(htmlASTReporter.supportsAST).toBe(true)
+        expect(htmlASTReporter.format).toBe('html')
+      })
+
+      it('creates a working reporter', () => {
+        const reporter = htmlASTReporter.createReporter()
+        const output = reporter.formatAST(testReport)
+
+        expect(output).toMatch(/^<!DOCTYPE html>/)
+        expect(output).toContain('<h1>API Change Report</h1>')
+      })
+    })
+
+    describe('junitASTReporter', () => {
+      it('has correct metadata', () => {
+        expect(junitASTReporter.id).toBe('ast-junit')
+        expect(junitASTReporter.supportsAST).toBe(true)
+        expect(junitASTReporter.format).toBe('custom')
+      })
+
+      it('creates a working reporter', () => {
+        const reporter = junitASTReporter.createReporter()
+        const output = reporter.formatAST(testReport)
+
+        expect(output).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+        expect(output).toContain('<testcase ')
+      })
+    })
+
+    describe('checkstyleASTReporter', () => {
+      it('has correct metadata', () => {
+        expect(checkstyleASTReporter.id).toBe('ast-checkstyle')
+        expect(checkstyleASTReporter.supportsAST).toBe(true)
+        expect(checkstyleASTReporter.format).toBe('custom')
+      })
+
+      it('creates a working reporter', () => {
+        const reporter = checkstyleASTReporter.createReporter()
+        const output = reporter.formatAST(testReport)
+
+        expect(output).toContain('<checkstyle version="4.3">')
+        expect(output).toContain('<error ')
+      })
+    })
+
+    describe('changelogASTReporter', () => {
+      it('has correct metadata', () => {
+        expect(changelogASTReporter.id).toBe('ast-changelog')
+        expect(changelogASTReporter.supportsAST).toBe(true)
+        expect(changelogASTReporter.format).toBe('markdown')
+      })
+
+      it('creates a working reporter', () => {
+        const reporter = changelogASTReporter.createReporter()
+        const output = reporter.formatAST(testReport)
+
+        expect(output).toContain('### Changed')
+      })
+    })
   })
 })
 
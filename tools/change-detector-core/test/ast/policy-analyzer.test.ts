@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest'
+import { analyzePolicy } from '../../src/ast/policy-analyzer'
+import {
+  semverDefaultPolicy,
+  semverReadOnlyPolicy,
+  semverWriteOnlyPolicy,
+} from '../../src/ast/builtin-policies'
+import { createPolicy, rule } from '../../src/ast/rule-builder'
+import { createProgressivePolicy } from '../../src/dsl'
+
+describe('Policy Analyzer', () => {
+  describe('unreachable rules', () => {
+    it('reports rules shadowed by a broader earlier rule', () => {
+      const policy = createPolicy('shadowed', 'major')
+        .addRule(rule('member-removal').action('removed').returns('major'))
+        .addRule(
+          rule('optional-member-removal')
+            .action('removed')
+            .target('property')
+            .hasTag('was-optional')
+            .returns('minor'),
+        )
+        .build()
+
+      const analysis = analyzePolicy(policy)
+
+      expect(analysis.unreachableRules).toEqual([
+        {
+          index: 1,
+          name: 'optional-member-removal',
+          releaseType: 'minor',
+          reason: 'shadowed',
+          shadowedBy: [
+            { index: 0, name: 'member-removal', releaseType: 'major' },
+          ],
+        },
+      ])
+    })
+
+    it('reports rules shadowed by several earlier rules together', () => {
+      const policy = createPolicy('split', 'none')
+        .addRule(
+          rule('widening').aspect('type').impact('widening').returns('minor'),
+        )
+        .addRule(
+          rule('not-widening')
+            .aspect('type')
+            .impact('narrowing', 'equivalent', 'unrelated', 'undetermined')
+            .returns('major'),
+        )
+        .addRule(rule('any-type-change').aspect('type').returns('patch'))
+        .build()
+
+      const [unreachable] = analyzePolicy(policy).unreachableRules
+
+      expect(unreachable!.name).toBe('any-type-change')
+      expect(unreachable!.shadowedBy.map((r) => r.name)).toEqual([
+        'widening',
+        'not-widening',
+      ])
+    })
+
+    it('does not report rules that fire for some tag combination', () => {
+      const policy = createPolicy('tags', 'major')
+        .addRule(rule('optional').hasTag('now-optional').returns('minor'))
+        .addRule(
+          rule('default')
+            .hasAnyTag('now-optional', 'has-default')
+            .returns('patch'),
+        )
+        .build()
+
+      expect(analyzePolicy(policy).unreachableRules).toHaveLength(0)
+    })
+
+    it('reports rules whose conditions contradict each other', () => {
+      const policy = createPolicy('contradictory', 'major')
+        .addRule(
+          rule('added-type').action('added').aspect('type').returns('minor'),
+        )
+        .addRule(
+          rule('tag-and-not-tag')
+            .hasTag('now-optional')
+            .notTag('now-optional')
+            .returns('minor'),
+        )
+        .build()
+
+      const analysis = analyzePolicy(policy)
+
+      expect(analysis.unreachableRules.map((r) => [r.name, r.reason])).toEqual([
+        ['added-type', 'contradictory'],
+        ['tag-and-not-tag', 'contradictory'],
+      ])
+      expect(analysis.fallThrough).toEqual([{}])
+    })
+
+    it('finds no unreachable rules in the built-in policies', () => {
+      for (const policy of [
+        semverDefaultPolicy,
+        semverReadOnlyPolicy,
+        semverWriteOnlyPolicy,
+      ]) {
+        expect(analyzePolicy(policy).unreachableRules).toEqual([])
+      }
+    })
+  })
+
+  describe('overlaps', () => {
+    it('reports overlapping rules with conflicting release types', () => {
+      const policy = createPolicy('overlapping', 'major')
+        .addRule(rule('exports').target('export').returns('major'))
+        .addRule(rule('additions').action('added').returns('minor'))
+        .addRule(rule('removals').action('removed').returns('major'))
+        .build()
+
+      const analysis = analyzePolicy(policy)
+
+      expect(
+        analysis.overlaps.map(({ first, second }) => [first.name, second.name]),
+      ).toEqual([['exports', 'additions']])
+      expect(analysis.unreachableRules).toHaveLength(0)
+    })
+
+    it('does not report disjoint rules', () => {
+      const policy = createPolicy('disjoint', 'major')
+        .addRule(rule('nested').action('added').nested(true).returns('minor'))
+        .addRule(
+          rule('top-level').action('added').nested(false).returns('major'),
+        )
+        .addRule(rule('optional').hasAnyTag('now-optional').returns('patch'))
+        .addRule(rule('required').notTag('now-optional').returns('none'))
+        .build()
+
+      const overlaps = analyzePolicy(policy).overlaps
+
+      expect(
+        overlaps.map(({ first, second }) => [first.name, second.name]),
+      ).toEqual([
+        ['nested', 'optional'],
+        ['top-level', 'optional'],
+        ['nested', 'required'],
+        ['top-level', 'required'],
+      ])
+    })
+  })
+
+  describe('fall-through combinations', () => {
+    it('reports combinations no rule matches', () => {
+      const policy = createPolicy('partial', 'major')
+        .addRule(rule('additions').action('added').returns('minor'))
+        .addRule(
+          rule('widening').aspect('type').impact('widening').returns('minor'),
+        )
+        .build()
+
+      const { fallThrough } = analyzePolicy(policy)
+
+      expect(fallThrough).toContainEqual({ action: ['removed'] })
+      expect(fallThrough).toContainEqual({
+        action: ['modified'],
+        aspect: ['type'],
+        impact: ['narrowing', 'equivalent', 'unrelated', 'undetermined'],
+      })
+      expect(fallThrough).not.toContainEqual({ action: ['added'] })
+    })
+
+    it('reports nothing for policies with a catch-all rule', () => {
+      const policy = createPolicy('complete', 'major')
+        .addRule(rule('additions').action('added').returns('minor'))
+        .addRule(rule('everything').returns('major'))
+        .build()
+
+      expect(analyzePolicy(policy).fallThrough).toEqual([])
+    })
+
+    it('reports the whole space for policies without rules', () => {
+      expect(
+        analyzePolicy(createPolicy('empty', 'major').build()).fallThrough,
+      ).toEqual([{}])
+    })
+  })
+
+  describe('policy kinds', () => {
+    it('leaves rules with custom matchers out of the analysis', () => {
+      const policy = createPolicy('custom', 'major')
+        .addRule(
+          rule('responses')
+            .when((change) => change.path.endsWith('Response'))
+            .returns('minor'),
+        )
+        .addRule(rule('everything').returns('major'))
+        .build()
+
+      const analysis = analyzePolicy(policy)
+
+      expect(analysis.unanalyzedRules).toEqual([
+        { index: 0, name: 'responses', releaseType: 'minor' },
+      ])
+      expect(analysis.unreachableRules).toHaveLength(0)
+    })
+
+    it('analyzes DSL policies of dimensional rules', () => {
+      const policy = createProgressivePolicy()
+        .dimensional('removals')
+        .action('removed')
+        .returns('major')
+        .dimensional('export-removals')
+        .action('removed')
+        .target('export')
+        .returns('major')
+        .build('dsl', 'none')
+
+      const analysis = analyzePolicy(policy)
+
+      expect(analysis.policyName).toBe('dsl')
+      expect(analysis.unreachableRules.map((r) => r.name)).toEqual([
+        'export-removals',
+      ])
+      expect(analysis.overlaps).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extendPolicy,
+  layerPolicies,
+  scopePolicy,
+} from '../../src/ast/policy-composition'
+import {
+  semverDefaultPolicy,
+  semverReadOnlyPolicy,
+} from '../../src/ast/builtin-policies'
+import { classifyChange, createPolicy, rule } from '../../src/ast/rule-builder'
+import { makeChange } from './helpers'
+
+const enumMemberAdded = makeChange(
+  { target: 'enum-member', action: 'added' },
+  {
+    nodeKind: 'enum-member',
+    path: 'Level.High',
+    context: { isNested: true, depth: 1, ancestors: ['Level'] },
+  },
+)
+
+const strictEnums = createPolicy('strict-enums', 'none')
+  .addRule(
+    rule('enum-member-added')
+      .target('enum-member')
+      .action('added')
+      .returns('major'),
+  )
+  .build()
+
+describe('Policy Composition', () => {
+  describe('extendPolicy', () => {
+    it('evaluates overrides before the base rules', () => {
+      const policy = extendPolicy(semverDefaultPolicy, {
+        name: 'my-library',
+        overrides: strictEnums.rules,
+      })
+
+      expect(
+        classifyChange(enumMemberAdded, semverDefaultPolicy).releaseType,
+      ).toBe('minor')
+      const result = classifyChange(enumMemberAdded, policy)
+      expect(result.releaseType).toBe('major')
+      expect(result.matchedRule).toEqual({
+        name: 'enum-member-added',
+        description: undefined,
+        source: 'my-library',
+      })
+    })
+
+    it('records the base policy as the source of inherited rules', () => {
+      const policy = extendPolicy(semverDefaultPolicy, { name: 'my-library' })
+
+      const result = classifyChange(makeChange({ action: 'removed' }), policy)
+      expect(result.matchedRule?.name).toBe('export-removal')
+      expect(result.matchedRule?.source).toBe('semver-default')
+      expect(policy.rules).toHaveLength(semverDefaultPolicy.rules.length)
+      expect(policy.defaultReleaseType).toBe('major')
+    })
+
+    it('removes rules by name', () => {
+      const policy = extendPolicy(semverDefaultPolicy, {
+        remove: ['export-removal'],
+        defaultReleaseType: 'patch',
+      })
+
+      expect(policy.name).toBe('semver-default')
+      expect(policy.rules.map((r) => r.name)).not.toContain('export-removal')
+      const result = classifyChange(makeChange({ action: 'removed' }), policy)
+      expect(result.matchedRule?.name).not.toBe('export-removal')
+    })
+
+    it('throws when removing a rule the base policy does not have', () => {
+      expect(() =>
+        extendPolicy(semverDefaultPolicy, { remove: ['no-such-rule'] }),
+      ).toThrow(/no-such-rule/)
+    })
+
+    it('does not modify the base policy', () => {
+      const count = semverDefaultPolicy.rules.length
+      extendPolicy(semverDefaultPolicy, {
+        overrides: strictEnums.rules,
+        remove: ['rename'],
+      })
+
+      expect(semverDefaultPolicy.rules).toHaveLength(count)
+      expect(semverDefaultPolicy.rules[0]!.source).toBeUndefined()
+    })
+  })
+
+  describe('layerPolicies', () => {
+    it('evaluates layers in order of precedence', () => {
+      const policy = layerPolicies('layered', [
+        { policy: semverDefaultPolicy },
+        { policy: strictEnums, precedence: 1 },
+      ])
+
+      expect(policy.rules[0]!.name).toBe('enum-member-added')
+      expect(policy.rules[0]!.source).toBe('strict-enums')
+      expect(classifyChange(enumMemberAdded, policy).matchedRule?.source).toBe(
+        'strict-enums',
+      )
+    })
+
+    it('keeps the given order for layers of equal precedence', () => {
+      const policy = layerPolicies('layered', [
+        strictEnums,
+        semverDefaultPolicy,
+      ])
+
+      expect(policy.rules.map((r) => r.source)).toEqual([
+        'strict-enums',
+        ...semverDefaultPolicy.rules.map(() => 'semver-default'),
+      ])
+    })
+
+    it('uses the default release type of the lowest layer', () => {
+      expect(
+        layerPolicies('layered', [semverDefaultPolicy, strictEnums])
+          .defaultReleaseType,
+      ).toBe('none')
+      expect(
+        layerPolicies('layered', [strictEnums], 'minor').defaultReleaseType,
+      ).toBe('minor')
+    })
+
+    it('keeps the sources of composed layers', () => {
+      const extended = extendPolicy(semverDefaultPolicy, { name: 'extended' })
+      const policy = layerPolicies('layered', [strictEnums, extended])
+
+      expect(policy.rules[1]!.source).toBe('semver-default')
+    })
+
+    it('throws without layers or default release type', () => {
+      expect(() => layerPolicies('empty', [])).toThrow()
+      expect(layerPolicies('empty', [], 'none').rules).toHaveLength(0)
+    })
+  })
+
+  describe('scopePolicy', () => {
+    const madeRequired = {
+      target: 'property',
+      aspect: 'optionality',
+      impact: 'narrowing',
+      tags: new Set(['was-optional', 'now-required']),
+    } as const
+    const responseMadeRequired = makeChange(madeRequired, {
+      path: 'UserResponse',
+    })
+    const requestMadeRequired = makeChange(madeRequired, {
+      path: 'UserRequest',
+    })
+
+    it('applies rules only to changes in scope', () => {
+      const policy = layerPolicies('api', [
+        scopePolicy(semverReadOnlyPolicy, { paths: ['*Response'] }),
+        semverDefaultPolicy,
+      ])
+
+      const response = classifyChange(responseMadeRequired, policy)
+      expect(response.releaseType).toBe('minor')
+      expect(response.matchedRule?.source).toBe('semver-read-only')
+
+      const request = classifyChange(requestMadeRequired, policy)
+      expect(request.releaseType).toBe('major')
+      expect(request.matchedRule?.source).toBe('semver-default')
+    })
+
+    it('matches paths of ancestors', () => {
+      const scoped = scopePolicy(semverReadOnlyPolicy, { paths: ['Api'] })
+      const nested = makeChange(
+        { aspect: 'type', impact: 'narrowing' },
+        { path: 'Api.User', context: { ancestors: ['Api'] } },
+      )
+
+      expect(classifyChange(nested, scoped).matchedRule).toBeDefined()
+    })
+
+    it('distinguishes single and multiple path segments', () => {
+      const single = scopePolicy(semverDefaultPolicy, { paths: ['Api.*'] })
+      const multiple = scopePolicy(semverDefaultPolicy, { paths: ['Api.**'] })
+      const deep = makeChange({ action: 'removed' }, { path: 'Api.Users.get' })
+
+      expect(classifyChange(deep, single).matchedRule).toBeUndefined()
+      expect(classifyChange(deep, multiple).matchedRule).toBeDefined()
+    })
+
+    it('scopes by node kind', () => {
+      const scoped = scopePolicy(semverDefaultPolicy, {
+        nodeKinds: ['function'],
+      })
+
+      expect(
+        classifyChange(makeChange({ action: 'removed' }), scoped).matchedRule,
+      ).toBeUndefined()
+      expect(
+        classifyChange(
+          makeChange({ action: 'removed' }, { nodeKind: 'function' }),
+          scoped,
+        ).matchedRule?.name,
+      ).toBe('export-removal')
+    })
+
+    it('drops the declarative conditions of scoped rules', () => {
+      const scoped = scopePolicy(strictEnums, { nodeKinds: ['enum'] })
+
+      expect(strictEnums.rules[0]!.conditions).toBeDefined()
+      expect(scoped.rules[0]!.conditions).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest'
+import {
+  formatCoverageReportAsMarkdown,
+  measurePolicyCoverage,
+} from '../../src/ast/policy-coverage'
+import { semverDefaultPolicy } from '../../src/ast/builtin-policies'
+import { extendPolicy } from '../../src/ast/policy-composition'
+import { createPolicy, rule } from '../../src/ast/rule-builder'
+import { makeChange } from './helpers'
+
+const policy = createPolicy('partial', 'major')
+  .addRule(rule('removals').action('removed').returns('major'))
+  .addRule(rule('additions').action('added').returns('minor'))
+  .addRule(rule('deprecations').aspect('deprecation').returns('patch'))
+  .build()
+
+const changeSets = [
+  {
+    label: '1.0.0..1.1.0',
+    changes: [
+      makeChange({ action: 'added' }, { path: 'Foo' }),
+      makeChange({ action: 'added' }, { path: 'Bar' }),
+    ],
+  },
+  {
+    label: '1.1.0..2.0.0',
+    changes: [
+      makeChange({ action: 'removed' }, { path: 'Foo' }),
+      makeChange(
+        {
+          target: 'property',
+          aspect: 'type',
+          impact: 'narrowing',
+          tags: new Set(['was-optional']),
+        },
+        { path: 'Bar.baz' },
+      ),
+    ],
+  },
+]
+
+describe('Policy Coverage', () => {
+  describe('measurePolicyCoverage', () => {
+    it('counts hits per rule across change sets', () => {
+      const report = measurePolicyCoverage(policy, changeSets)
+
+      expect(report.policyName).toBe('partial')
+      expect(report.changeSets).toEqual(['1.0.0..1.1.0', '1.1.0..2.0.0'])
+      expect(report.totalChanges).toBe(4)
+      expect(report.rules).toEqual([
+        {
+          index: 0,
+          name: 'removals',
+          releaseType: 'major',
+          hits: 1,
+          changeSets: ['1.1.0..2.0.0'],
+        },
+        {
+          index: 1,
+          name: 'additions',
+          releaseType: 'minor',
+          hits: 2,
+          changeSets: ['1.0.0..1.1.0'],
+        },
+        {
+          index: 2,
+          name: 'deprecations',
+          releaseType: 'patch',
+          hits: 0,
+          changeSets: [],
+        },
+      ])
+      expect(report.unusedRules).toEqual([
+        { index: 2, name: 'deprecations', releaseType: 'patch' },
+      ])
+    })
+
+    it('lists changes that fall through to the default', () => {
+      const report = measurePolicyCoverage(policy, changeSets)
+
+      expect(report.defaultReleaseType).toBe('major')
+      expect(report.uncoveredChanges).toEqual([
+        {
+          changeSet: '1.1.0..2.0.0',
+          path: 'Bar.baz',
+          nodeKind: 'interface',
+          target: 'property',
+          action: 'modified',
+          aspect: 'type',
+          impact: 'narrowing',
+          tags: ['was-optional'],
+          explanation: 'Test change',
+        },
+      ])
+    })
+
+    it('credits only the first matching rule', () => {
+      const report = measurePolicyCoverage(
+        extendPolicy(policy, {
+          overrides: [rule('everything').returns('none')],
+        }),
+        changeSets,
+      )
+
+      expect(report.rules[0]!.hits).toBe(4)
+      expect(report.rules[0]!.source).toBe('partial')
+      expect(report.unusedRules).toEqual([
+        {
+          index: 1,
+          name: 'removals',
+          releaseType: 'major',
+          source: 'partial',
+        },
+        {
+          index: 2,
+          name: 'additions',
+          releaseType: 'minor',
+          source: 'partial',
+        },
+        {
+          index: 3,
+          name: 'deprecations',
+          releaseType: 'patch',
+          source: 'partial',
+        },
+      ])
+      expect(report.uncoveredChanges).toHaveLength(0)
+    })
+
+    it('tells apart unused rules of the same name', () => {
+      const report = measurePolicyCoverage(
+        extendPolicy(policy, {
+          name: 'extended',
+          overrides: [
+            rule('deprecations').aspect('deprecation').returns('none'),
+          ],
+        }),
+        changeSets,
+      )
+
+      expect(report.unusedRules).toEqual([
+        {
+          index: 0,
+          name: 'deprecations',
+          releaseType: 'none',
+          source: 'extended',
+        },
+        {
+          index: 3,
+          name: 'deprecations',
+          releaseType: 'patch',
+          source: 'partial',
+        },
+      ])
+    })
+
+    it('produces a report that survives JSON serialization', () => {
+      const report = measurePolicyCoverage(semverDefaultPolicy, changeSets)
+
+      expect(JSON.parse(JSON.stringify(report))).toEqual(report)
+    })
+  })
+
+  describe('formatCoverageReportAsMarkdown', () => {
+    it('formats rule hits, unused rules and uncovered changes', () => {
+      const markdown = formatCoverageReportAsMarkdown(
+        measurePolicyCoverage(policy, changeSets),
+      )
+
+      expect(markdown).toContain('## Policy Coverage: partial')
+      expect(markdown).toContain('**Rules Used:** 2 of 3')
+      expect(markdown).toContain('| `additions` | minor | 2 | 1 |')
+      expect(markdown).toContain('### :warning: Unused Rules (1)')
+      expect(markdown).toContain('- `deprecations` (rule 3)')
+      expect(markdown).toContain(
+        '- `Bar.baz` (interface) — property:modified:type (narrowing) [was-optional] in 1.1.0..2.0.0',
+      )
+    })
+
+    it('omits empty sections', () => {
+      const markdown = formatCoverageReportAsMarkdown(
+        measurePolicyCoverage(policy, []),
+      )
+
+      expect(markdown).toContain('**Uncovered Changes:** 0 of 0')
+      expect(markdown).not.toContain('### :grey_question:')
+    })
+  })
+})
@@ -0,0 +1,288 @@
+import { describe, it, expect } from 'vitest'
+import schemaFile from '../../schemas/policy.schema.json'
+import {
+  PolicyDocumentError,
+  loadPolicy,
+  policyDocumentSchema,
+  serializePolicy,
+  validatePolicyDocument,
+  type PolicyDocument,
+} from '../../src/ast/policy-document'
+import {
+  semverDefaultPolicy,
+  semverReadOnlyPolicy,
+  semverWriteOnlyPolicy,
+} from '../../src/ast/builtin-policies'
+import { classifyChange, createPolicy, rule } from '../../src/ast/rule-builder'
+import { createProgressivePolicy } from '../../src/dsl'
+import type { ApiChange } from '../../src/ast/types'
+import { makeChange } from './helpers'
+
+const sampleChanges: ApiChange[] = [
+  makeChange({ action: 'removed' }),
+  makeChange({ action: 'added' }),
+  makeChange(
+    { target: 'property', action: 'added' },
+    { context: { isNested: true } },
+  ),
+  makeChange({
+    target: 'parameter',
+    action: 'added',
+    tags: new Set(['now-optional']),
+  }),
+  makeChange({ aspect: 'type', impact: 'widening' }),
+  makeChange({ aspect: 'type', impact: 'narrowing' }),
+  makeChange({ aspect: 'deprecation', impact: 'widening' }),
+  makeChange({
+    target: 'enum-member',
+    aspect: 'enum-value',
+    impact: 'unrelated',
+    tags: new Set(['inlined-value']),
+  }),
+  makeChange({ aspect: 'kind-changed', impact: 'equivalent' }),
+]
+
+const document: PolicyDocument = {
+  name: 'library',
+  defaultReleaseType: 'major',
+  rules: [
+    {
+      name: 'namespace-changes',
+      nodeKind: ['namespace'],
+      returns: 'patch',
+      rationale: 'Namespaces are internal',
+    },
+    { name: 'additions', action: ['added'], returns: 'minor' },
+  ],
+}
+
+describe('Policy Documents', () => {
+  describe('policyDocumentSchema', () => {
+    it('matches the published schema file', () => {
+      expect(schemaFile).toEqual(policyDocumentSchema)
+    })
+  })
+
+  describe('validatePolicyDocument', () => {
+    it('accepts a valid document', () => {
+      const result = validatePolicyDocument(document)
+
+      expect(result.valid).toBe(true)
+      expect(result.errors).toHaveLength(0)
+    })
+
+    it('requires a default release type unless extending', () => {
+      const result = validatePolicyDocument({ name: 'p', rules: [] })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]!.path).toBe('defaultReleaseType')
+      expect(
+        validatePolicyDocument({
+          name: 'p',
+          extends: 'semver-default',
+          rules: [],
+        }).valid,
+      ).toBe(true)
+    })
+
+    it('reports unknown dimension values with their path', () => {
+      const result = validatePolicyDocument({
+        name: 'p',
+        defaultReleaseType: 'major',
+        rules: [{ name: 'r', target: ['export', 'module'], returns: 'minor' }],
+      })
+
+      expect(result.valid).toBe(false)
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]!.path).toBe('rules[0].target[1]')
+    })
+
+    it('reports unknown properties and invalid release types', () => {
+      const result = validatePolicyDocument({
+        name: 'p',
+        extends: 'semver-strict',
+        rules: [{ name: 'r', tags: ['now-optional'], returns: 'huge' }],
+      })
+
+      expect(result.errors.map((error) => error.path)).toEqual([
+        'extends',
+        'rules[0].returns',
+        'rules[0].tags',
+      ])
+    })
+
+    it('rejects values that are not objects', () => {
+      expect(validatePolicyDocument([]).valid).toBe(false)
+      expect(validatePolicyDocument(null).valid).toBe(false)
+    })
+  })
+
+  describe('loadPolicy', () => {
+    it('loads a policy from JSON text', () => {
+      const policy = loadPolicy(JSON.stringify(document))
+
+      expect(policy.name).toBe('library')
+      expect(policy.rules.map((r) => r.name)).toEqual([
+        'namespace-changes',
+        'additions',
+      ])
+      expect(policy.rules[0]!.rationale).toBe('Namespaces are internal')
+
+      const namespaceChange = makeChange(
+        { action: 'removed' },
+        { nodeKind: 'namespace' },
+      )
+      expect(classifyChange(namespaceChange, policy).releaseType).toBe('patch')
+      expect(
+        classifyChange(makeChange({ action: 'added' }), policy).releaseType,
+      ).toBe('minor')
+      expect(
+        classifyChange(makeChange({ action: 'removed' }), policy).releaseType,
+      ).toBe('major')
+    })
+
+    it('evaluates document rules before the rules of an extended policy', () => {
+      const policy = loadPolicy({
+        name: 'lenient',
+        extends: 'semver-default',
+        rules: [{ name: 'removals', action: ['removed'], returns: 'minor' }],
+      })
+
+      expect(policy.defaultReleaseType).toBe('major')
+      expect(policy.rules).toHaveLength(semverDefaultPolicy.rules.length + 1)
+      expect(
+        classifyChange(makeChange({ action: 'removed' }), policy).releaseType,
+      ).toBe('minor')
+      expect(
+        classifyChange(
+          makeChange({ aspect: 'type', impact: 'narrowing' }),
+          policy,
+        ).releaseType,
+      ).toBe('major')
+    })
+
+    it('throws for invalid JSON', () => {
+      expect(() => loadPolicy('{ name: ')).toThrow(PolicyDocumentError)
+    })
+
+    it('throws with the validation errors of invalid documents', () => {
+      let error: unknown
+      try {
+        loadPolicy({ name: '', rules: [] } as unknown as PolicyDocument)
+      } catch (e) {
+        error = e
+      }
+
+      expect(error).toBeInstanceOf(PolicyDocumentError)
+      const errors = (error as PolicyDocumentError).errors
+      expect(errors.map((e) => e.path)).toEqual(['name', 'defaultReleaseType'])
+    })
+  })
+
+  describe('serializePolicy', () => {
+    it.each([semverDefaultPolicy, semverReadOnlyPolicy, semverWriteOnlyPolicy])(
+      'round-trips $name',
+      (policy) => {
+        const serialized = serializePolicy(policy)
+        const loaded = loadPolicy(JSON.stringify(serialized))
+
+        expect(serializePolicy(loaded)).toEqual(serialized)
+        for (const change of sampleChanges) {
+          expect(classifyChange(change, loaded)).toEqual(
+            classifyChange(change, policy),
+          )
+        }
+      },
+    )
+
+    it('serializes conditions and rationales of built rules', () => {
+      const policy = createPolicy('custom', 'none')
+        .addRule(
+          rule('optional-params')
+            .target('parameter')
+            .action('added')
+            .hasAnyTag('now-optional', 'has-default')
+            .notTag('is-rest-parameter')
+            .nested(false)
+            .rationale('Callers need not pass them')
+            .returns('minor'),
+        )
+        .build()
+
+      expect(serializePolicy(policy)).toEqual({
+        name: 'custom',
+        defaultReleaseType: 'none',
+        rules: [
+          {
+            name: 'optional-params',
+            target: ['parameter'],
+            action: ['added'],
+            hasAnyTag: ['now-optional', 'has-default'],
+            notTag: ['is-rest-parameter'],
+            nested: false,
+            returns: 'minor',
+            rationale: 'Callers need not pass them',
+          },
+        ],
+      })
+    })
+
+    it('round-trips DSL policies of dimensional rules', () => {
+      const dslPolicy = createProgressivePolicy()
+        .dimensional('export-removal')
+        .action('removed')
+        .target('export')
+        .returns('major')
+        .dimensional('optional-additions')
+        .action('added')
+        .hasTag('now-optional')
+        .nested(true)
+        .returns('minor')
+        .build('dimensional', 'patch', 'Dimensional rules only')
+
+      const serialized = serializePolicy(dslPolicy)
+      expect(serialized.description).toBe('Dimensional rules only')
+      expect(serialized.rules).toEqual([
+        {
+          name: 'export-removal',
+          target: ['export'],
+          action: ['removed'],
+          returns: 'major',
+        },
+        {
+          name: 'optional-additions',
+          action: ['added'],
+          hasTag: ['now-optional'],
+          nested: true,
+          returns: 'minor',
+        },
+      ])
+
+      const loaded = loadPolicy(serialized)
+      expect(serializePolicy(loaded).rules).toEqual(serialized.rules)
+      expect(
+        classifyChange(makeChange({ action: 'removed' }), loaded).releaseType,
+      ).toBe('major')
+    })
+
+    it('throws for rules with custom matchers', () => {
+      const policy = createPolicy('custom', 'major')
+        .addRule(
+          rule('named')
+            .when((change) => change.path === 'Test')
+            .returns('none'),
+        )
+        .build()
+
+      expect(() => serializePolicy(policy)).toThrow(/custom matcher/)
+    })
+
+    it('throws for intent rules', () => {
+      const dslPolicy = createProgressivePolicy()
+        .intent('rename is breaking', 'major')
+        .build('intent', 'none')
+
+      expect(() => serializePolicy(dslPolicy)).toThrow(PolicyDocumentError)
+    })
+  })
+})
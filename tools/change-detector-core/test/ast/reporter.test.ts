@@ -1,8 +1,14 @@
 import { describe, it, expect } from 'vitest'
 import { z } from 'zod'
-import { parseModule } from '../../src/ast/parser'
+import * as ts from 'typescript'
+import { parseModule, parseModuleWithTypes } from '../../src/ast/parser'
 import { diffModules } from '../../src/ast/differ'
-import { classifyChanges } from '../../src/ast/rule-builder'
+import {
+  classifyChanges,
+  createPolicy,
+  rule,
+  type Policy,
+} from '../../src/ast/rule-builder'
 import { semverDefaultPolicy } from '../../src/ast/builtin-policies'
 import type { ClassifiedChange } from '../../src/ast/types'
 import {
@@ -11,6 +17,14 @@ import {
   formatASTReportAsText,
   formatASTReportAsMarkdown,
   formatASTReportAsJSON,
+  formatASTReportAsSARIF,
+  formatASTReportAsHTML,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  formatASTReportAsChangelog,
+  AST_REPORT_SCHEMA_URL,
+  AST_REPORT_SCHEMA_VERSION,
+  type ASTComparisonReport,
 } from '../../src/ast/reporter'
 
 // Zod schema for validating JSON reporter output
@@ -36,6 +50,7 @@ const ASTReportJSONSchema = z.object({
 function createClassifiedChanges(
   oldSource: string,
   newSource: string,
+  policy: Policy = semverDefaultPolicy,
 ): ClassifiedChange[] {
   const oldAnalysis = parseModule(oldSource)
   const newAnalysis = parseModule(newSource)
@@ -44,15 +59,51 @@ function createClassifiedChanges(
   })
 
   // Use the new rule-based policy system
-  const results = classifyChanges(changes, semverDefaultPolicy)
+  const results = classifyChanges(changes, policy, {
+    trace: true,
+  })
 
   // Convert ClassificationResult[] to ClassifiedChange[]
   return results.map((result) => ({
     ...result.change,
     releaseType: result.releaseType,
+    matchedRule: result.matchedRule,
+    suppression: result.suppression,
+    trace: result.trace,
   }))
 }
 
+/**
+ * Creates a report whose nested changes are classified as well, as by
+ * `analyzeChanges()` and `compareDeclarations()`.
+ */
+function createNestedReport(
+  oldSource: string,
+  newSource: string,
+  policy: Policy = semverDefaultPolicy,
+): ASTComparisonReport {
+  const changes = diffModules(
+    parseModuleWithTypes(oldSource, ts),
+    parseModuleWithTypes(newSource, ts),
+    { includeNestedChanges: true },
+  )
+  return createASTComparisonReport(
+    classifyChanges(changes, policy, { nested: true }),
+    policy.name,
+  )
+}
+
+const interfaceSource = `export interface A { x: string; y: number }`
+
+const noRemovalsPolicy = createPolicy('no-removals', 'major')
+  .addRule(
+    rule('export-removal')
+      .action('removed')
+      .rationale('Removals need an RFC')
+      .returns('forbidden'),
+  )
+  .build()
+
 describe('AST Reporter', () => {
   describe('formatSourceLocation', () => {
     it('formats location without file path', () => {
@@ -122,6 +173,35 @@ export interface Product { sku: string; }`,
       expect(report.releaseType).toBe('none')
       expect(report.stats.total).toBe(0)
     })
+
+    it('groups and counts classified nested changes', () => {
+      const report = createNestedReport(
+        interfaceSource,
+        `export interface A { x: string; z?: boolean }`,
+      )
+
+      expect(report.releaseType).toBe('major')
+      expect(report.changes.map((change) => change.path)).toEqual(['A'])
+      expect(report.byReleaseType.major.map((change) => change.path)).toEqual([
+        'A.y',
+      ])
+      expect(report.byReleaseType.minor.map((change) => change.path)).toEqual([
+        'A.z',
+      ])
+      expect(report.stats).toMatchObject({
+        total: 3,
+        major: 1,
+        minor: 1,
+        none: 1,
+      })
+    })
+
+    it('records the name of the policy', () => {
+      expect(createASTComparisonReport([], 'no-removals').policyName).toBe(
+        'no-removals',
+      )
+      expect(createASTComparisonReport([])).not.toHaveProperty('policyName')
+    })
   })
 
   describe('formatASTReportAsText', () => {
@@ -183,6 +263,93 @@ export interface Product { sku: string; }`,
       expect(text).toContain('number')
     })
 
+    it('shows approved breaking changes with their reason', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): number;`,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const text = formatASTReportAsText(report)
+
+      expect(text).toContain('Release Type: MAJOR')
+      expect(text).toContain(
+        'Approved by @breakingChangeApproved: Callers migrated in v3',
+      )
+    })
+
+    it('shows the rule that forbids a change', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const text = formatASTReportAsText(report)
+
+      expect(text).toContain('Release Type: FORBIDDEN')
+      expect(text).toContain(
+        'Forbidden by rule "export-removal": Removals need an RFC',
+      )
+    })
+
+    it('lists forbidden nested changes with their rule', () => {
+      const report = createNestedReport(
+        interfaceSource,
+        `export interface A { x: string }`,
+        createPolicy('no-removals', 'none')
+          .addRule(
+            rule('no-removals')
+              .action('removed')
+              .rationale('Removals need an RFC')
+              .returns('forbidden'),
+          )
+          .build(),
+      )
+
+      const text = formatASTReportAsText(report)
+
+      expect(report.byReleaseType.forbidden.map((c) => c.path)).toEqual(['A.y'])
+      expect(text).toContain('Forbidden Changes (1):')
+      expect(text).toContain(
+        'Forbidden by rule "no-removals": Removals need an RFC',
+      )
+      expect(text).toContain('  Forbidden: 1')
+      expect(text).not.toContain('Breaking Changes')
+    })
+
+    it('explains classifications when traces are included', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const text = formatASTReportAsText(report, { includeTrace: true })
+
+      expect(text).toContain('  Why:')
+      expect(text).toContain(
+        '      #1 export-removal -> MAJOR: matched, target: export (expected export); action: removed (expected removed)',
+      )
+      expect(formatASTReportAsText(report)).not.toContain('Why:')
+    })
+
+    it('lists classified nested changes under their release type', () => {
+      const report = createNestedReport(
+        interfaceSource,
+        `export interface A { x: string }`,
+      )
+
+      const text = formatASTReportAsText(report)
+
+      expect(text).toContain('Breaking Changes (1):')
+      expect(text).toContain('[MAJOR] property: A.y')
+      expect(text).toContain("Member 'y' removed from interface 'A'")
+      expect(text).not.toContain('[NONE]')
+    })
+
     it('includes summary statistics', () => {
       const classified = createClassifiedChanges(
         `export interface User { id: number; }`,
@@ -241,6 +408,56 @@ export interface Product { sku: string; }`,
       expect(md).toContain('After:')
     })
 
+    it('shows changes downgraded by @experimental', () => {
+      const classified = createClassifiedChanges(
+        `/** @experimental */
+export declare function load(): string;`,
+        `/** @experimental */
+export declare function load(): number;`,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const md = formatASTReportAsMarkdown(report)
+
+      expect(md).toContain('### :sparkles: Minor Changes')
+      expect(md).toContain(
+        '- :white_check_mark: Downgraded from MAJOR by @experimental',
+      )
+    })
+
+    it('explains classifications that fell through to the default', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      ).map((change) => ({
+        ...change,
+        trace: { policyName: 'empty', rules: [], usedDefault: true },
+      }))
+
+      const report = createASTComparisonReport(classified)
+      const markdown = formatASTReportAsMarkdown(report, {
+        includeTrace: true,
+      })
+
+      expect(markdown).toContain('  - Why:')
+      expect(markdown).toContain(
+        '    - No rule matched; used the default release type of policy "empty"',
+      )
+    })
+
+    it('lists classified nested changes under their release type', () => {
+      const report = createNestedReport(
+        interfaceSource,
+        `export interface A { x: string }`,
+      )
+
+      const markdown = formatASTReportAsMarkdown(report)
+
+      expect(markdown).toContain(':boom: Breaking Changes (1)')
+      expect(markdown).toContain('**[MAJOR]** `A.y` (property)')
+      expect(markdown).toContain('| Breaking | 1 |')
+    })
+
     it('includes summary table', () => {
       const classified = createClassifiedChanges(
         `export interface User { id: number; }`,
@@ -272,6 +489,38 @@ export interface Product { sku: string; }`,
       expect(md).toContain(':no_entry:')
       expect(md).toContain('not allowed')
     })
+
+    it('shows the rule that forbids a change', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const md = formatASTReportAsMarkdown(
+        createASTComparisonReport(classified),
+      )
+
+      expect(md).toContain(
+        '- :no_entry: Forbidden by rule "export-removal": Removals need an RFC',
+      )
+    })
+
+    it('shows forbidden changes classified by the default release type', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        createPolicy('frozen', 'forbidden').build(),
+      )
+
+      const md = formatASTReportAsMarkdown(
+        createASTComparisonReport(classified),
+      )
+
+      expect(md).toContain(
+        ':no_entry: Forbidden by the default release type of the policy',
+      )
+    })
   })
 
   describe('formatASTReportAsJSON', () => {
@@ -313,6 +562,98 @@ export interface Product { sku: string; }`,
       expect(hasLocation).toBe(true)
     })
 
+    it('includes suppressions', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): number;`,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const json = formatASTReportAsJSON(report)
+
+      expect(json.changes.major[0]!.suppression).toEqual({
+        tag: '@breakingChangeApproved',
+        reason: 'Callers migrated in v3',
+        originalReleaseType: 'major',
+      })
+    })
+
+    it('includes the matched rule with its rationale', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const json = formatASTReportAsJSON(report)
+
+      expect(json.changes.forbidden[0]!.matchedRule).toEqual({
+        name: 'export-removal',
+        description: 'Removals need an RFC',
+      })
+    })
+
+    it('includes the schema and its version', () => {
+      const report = createASTComparisonReport(
+        createClassifiedChanges(`export declare function load(): string;`, ``),
+      )
+
+      const json = formatASTReportAsJSON(report)
+
+      expect(json.$schema).toBe(AST_REPORT_SCHEMA_URL)
+      expect(json.schemaVersion).toBe(AST_REPORT_SCHEMA_VERSION)
+      expect(json).not.toHaveProperty('policyName')
+    })
+
+    it('includes the policy name and rule ids', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;
+export declare function save(): void;`,
+        `export declare function load(): number;`,
+        noRemovalsPolicy,
+      )
+
+      const report = createASTComparisonReport(classified, 'no-removals')
+      const json = formatASTReportAsJSON(report)
+
+      expect(json.policyName).toBe('no-removals')
+      expect(json.changes.forbidden[0]!.ruleId).toBe('export-removal')
+      expect(json.changes.major[0]!.ruleId).toBe('default-release-type')
+    })
+
+    it('includes sorted tags', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `export declare function load(): number;`,
+      )
+
+      const json = formatASTReportAsJSON(createASTComparisonReport(classified))
+      const { tags } = json.changes.major[0]!
+
+      expect(tags.length).toBeGreaterThan(0)
+      expect(tags).toEqual([...classified[0]!.descriptor.tags].sort())
+    })
+
+    it('includes traces when enabled', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const report = createASTComparisonReport(classified)
+      const json = formatASTReportAsJSON(report, { includeTrace: true })
+
+      expect(json.changes.major[0]!.trace?.policyName).toBe(
+        semverDefaultPolicy.name,
+      )
+      expect(json.changes.major[0]!.trace?.usedDefault).toBe(false)
+      expect(
+        formatASTReportAsJSON(report).changes.major[0]!.trace,
+      ).toBeUndefined()
+    })
+
     it('includes signatures', () => {
       const classified = createClassifiedChanges(
         `export declare function getValue(): string;`,
@@ -353,6 +694,20 @@ export interface Product { sku: string; }`,
       expect(allChanges.length).toBeGreaterThan(0)
     })
 
+    it('lists classified nested changes once, under their release type', () => {
+      const report = createNestedReport(
+        interfaceSource,
+        `export interface A { x: string }`,
+      )
+
+      const json = formatASTReportAsJSON(report)
+
+      expect(json.changes.major.map((change) => change.path)).toEqual(['A.y'])
+      expect(json.changes.major[0]!.tags).toContain('is-nested-change')
+      expect(json.changes.none[0]!.nestedChanges).toBeUndefined()
+      expect(json.stats.major).toBe(1)
+    })
+
     it('omits locations when disabled', () => {
       const classified = createClassifiedChanges(
         `export interface User { id: number; }`,
@@ -389,4 +744,704 @@ export interface Product { sku: string; }`,
       expect(parsed.stats.total).toBe(json.stats.total)
     })
   })
+
+  describe('formatASTReportAsSARIF', () => {
+    const files = { oldFilePath: 'old.d.ts', newFilePath: 'new.d.ts' }
+
+    it('creates a SARIF 2.1.0 log with a run of the change detector', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const sarif = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+        { toolVersion: '1.2.3' },
+      )
+
+      expect(sarif.version).toBe('2.1.0')
+      expect(sarif.$schema).toContain('sarif-2.1.0')
+      expect(sarif.runs).toHaveLength(1)
+      expect(sarif.runs[0]!.tool.driver).toMatchObject({
+        name: 'change-detector',
+        version: '1.2.3',
+      })
+    })
+
+    it('maps changes to results of the rules that classified them', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const [run] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+      ).runs
+
+      expect(run!.tool.driver.rules).toEqual([
+        {
+          id: 'export-removal',
+          shortDescription: { text: 'Policy rule "export-removal"' },
+          fullDescription: { text: 'Removals need an RFC' },
+        },
+      ])
+      expect(run!.results).toHaveLength(1)
+      expect(run!.results[0]).toMatchObject({
+        ruleId: 'export-removal',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: "Export 'load' removed" },
+        properties: {
+          path: 'load',
+          releaseType: 'forbidden',
+          target: 'export',
+          action: 'removed',
+        },
+      })
+    })
+
+    it('sets the level from the release type', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;
+export declare function save(): void;`,
+        `export declare function save(): void;
+export declare function reset(): void;`,
+      )
+
+      const [run] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+      ).runs
+      const levels = Object.fromEntries(
+        run!.results.map((result) => [result.properties.path, result.level]),
+      )
+
+      expect(levels).toEqual({ load: 'warning', reset: 'note' })
+    })
+
+    it('uses a default rule for changes no rule matched', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        createPolicy('frozen', 'forbidden').build(),
+      )
+
+      const [run] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+      ).runs
+
+      expect(run!.results[0]!.ruleId).toBe('default-release-type')
+      expect(run!.tool.driver.rules[0]!.id).toBe('default-release-type')
+    })
+
+    it('locates results in the declaration files with 1-based columns', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `
+export declare function load(): number;`,
+      )
+
+      const [result] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+        files,
+      ).runs[0]!.results
+
+      expect(result!.locations).toEqual([
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'new.d.ts' },
+            region: { startLine: 2, startColumn: 8, endLine: 2, endColumn: 40 },
+          },
+        },
+      ])
+      expect(result!.relatedLocations).toEqual([
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'old.d.ts' },
+            region: { startLine: 1, startColumn: 8, endLine: 1, endColumn: 40 },
+          },
+          message: { text: 'Previous declaration' },
+        },
+      ])
+    })
+
+    it('locates removals in the old declaration file', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const [result] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+        files,
+      ).runs[0]!.results
+
+      expect(result!.locations![0]!.physicalLocation.artifactLocation.uri).toBe(
+        'old.d.ts',
+      )
+      expect(result!.relatedLocations).toBeUndefined()
+    })
+
+    it('omits locations without the paths of the declaration files', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const [result] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+      ).runs[0]!.results
+
+      expect(result!.locations).toBeUndefined()
+    })
+
+    it('fingerprints results by change path and descriptor', () => {
+      const fingerprintsOf = (oldSource: string, newSource: string) =>
+        formatASTReportAsSARIF(
+          createASTComparisonReport(
+            createClassifiedChanges(oldSource, newSource),
+          ),
+          files,
+        ).runs[0]!.results.map(
+          (result) => result.partialFingerprints['changeDescriptor/v1'],
+        )
+
+      const [removal] = fingerprintsOf(
+        `export declare function load(): string;`,
+        ``,
+      )
+      const [movedRemoval] = fingerprintsOf(
+        `export declare const version: string;
+
+export declare function load(): string;`,
+        `export declare const version: string;`,
+      )
+      const [otherRemoval] = fingerprintsOf(
+        `export declare function save(): string;`,
+        ``,
+      )
+
+      expect(removal).toMatch(/^[0-9a-f]{16}$/)
+      expect(movedRemoval).toBe(removal)
+      expect(otherRemoval).not.toBe(removal)
+    })
+
+    it('tells apart the fingerprints of overloads', () => {
+      const fingerprints = formatASTReportAsSARIF(
+        createASTComparisonReport(
+          createClassifiedChanges(
+            `export declare function load(id: string): string;
+export declare function load(id: number): string;
+export declare function load(): string;`,
+            `export declare function load(): string;`,
+          ),
+        ),
+      ).runs[0]!.results.map(
+        (result) => result.partialFingerprints['changeDescriptor/v1'],
+      )
+
+      expect(fingerprints).toHaveLength(2)
+      expect(new Set(fingerprints).size).toBe(2)
+    })
+
+    it('includes classified nested changes', () => {
+      const [run] = formatASTReportAsSARIF(
+        createNestedReport(interfaceSource, `export interface A { x: string }`),
+      ).runs
+
+      expect(run!.results).toHaveLength(1)
+      expect(run!.results[0]!.level).toBe('warning')
+      expect(run!.results[0]!.properties.path).toBe('A.y')
+    })
+
+    it('records TSDoc suppressions', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): number;`,
+      )
+
+      const [result] = formatASTReportAsSARIF(
+        createASTComparisonReport(classified),
+      ).runs[0]!.results
+
+      expect(result!.suppressions).toEqual([
+        { kind: 'inSource', justification: 'Callers migrated in v3' },
+      ])
+    })
+
+    it('omits changes without impact unless unchanged items are included', () => {
+      const report = createASTComparisonReport(
+        createClassifiedChanges(
+          `export declare function load(): string;`,
+          ``,
+          createPolicy('lenient', 'none').build(),
+        ),
+      )
+
+      expect(formatASTReportAsSARIF(report).runs[0]!.results).toEqual([])
+      expect(
+        formatASTReportAsSARIF(report, { includeUnchanged: true }).runs[0]!
+          .results[0]!.level,
+      ).toBe('none')
+    })
+  })
+
+  describe('formatASTReportAsHTML', () => {
+    it('creates a standalone document without external assets', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const html = formatASTReportAsHTML(
+        createASTComparisonReport(classified),
+        {
+          title: 'Changes in <pkg>',
+        },
+      )
+
+      expect(html).toMatch(/^<!DOCTYPE html>/)
+      expect(html).toContain('<title>Changes in &lt;pkg&gt;</title>')
+      expect(html).toContain('<style>')
+      expect(html).not.toMatch(/<script|<link|src=|href=/)
+    })
+
+    it('summarizes changes by release type', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `export declare function save(): void;`,
+      )
+
+      const html = formatASTReportAsHTML(createASTComparisonReport(classified))
+
+      expect(html).toContain(
+        '<tr><td><span class="badge badge-major">MAJOR</span></td><td>1</td></tr>',
+      )
+      expect(html).toContain(
+        '<tr><td><span class="badge badge-minor">MINOR</span></td><td>1</td></tr>',
+      )
+      expect(html).toContain('<tr><td>Total</td><td>2</td></tr>')
+      expect(html).toContain('<h2>Breaking Changes (1)</h2>')
+      expect(html).toContain('<h2>Minor Changes (1)</h2>')
+    })
+
+    it('shows the old and new declaration lines side by side', () => {
+      const oldSource = `export declare const version: string;
+export declare function load(): string;`
+      const newSource = `export declare function load(): number;`
+      const classified = createClassifiedChanges(oldSource, newSource)
+
+      const html = formatASTReportAsHTML(
+        createASTComparisonReport(classified),
+        {
+          oldFilePath: 'old.d.ts',
+          newFilePath: 'new.d.ts',
+          oldSource,
+          newSource,
+        },
+      )
+
+      expect(html).toContain(
+        '<div class="side-header">Before &mdash; old.d.ts:2</div>',
+      )
+      expect(html).toContain(
+        '<span class="line-number">2</span>export declare function load(): string;',
+      )
+      expect(html).toContain(
+        '<div class="side-header">After &mdash; new.d.ts:1</div>',
+      )
+      expect(html).toContain(
+        '<span class="line-number">1</span>export declare function load(): number;',
+      )
+    })
+
+    it('shows signatures without the declaration text', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const html = formatASTReportAsHTML(createASTComparisonReport(classified))
+
+      expect(html).toContain('<div class="absent">Not present after</div>')
+      expect(html).toMatch(/<pre><code>[^<]*string[^<]*<\/code><\/pre>/)
+    })
+
+    it('nests changes to members as collapsible elements', () => {
+      const classified = createClassifiedChanges(
+        `export interface User { id: number; name: string; }`,
+        `export interface User { id: string; name: string; }`,
+      )
+
+      const html = formatASTReportAsHTML(createASTComparisonReport(classified))
+
+      expect(html).toContain('<div class="nested">')
+      expect(html).toContain('<span class="path">User.id</span>')
+      expect(html.match(/<details/g)!.length).toBe(
+        html.match(/<\/details>/g)!.length,
+      )
+    })
+
+    it('lists classified nested changes of changes without impact', () => {
+      const html = formatASTReportAsHTML(
+        createNestedReport(interfaceSource, `export interface A { x: string }`),
+      )
+
+      expect(html).toContain('<h2>Breaking Changes (1)</h2>')
+      expect(html).toContain('<span class="path">A.y</span>')
+      expect(html).not.toContain('<span class="path">A</span>')
+      expect(html.match(/<span class="path">A\.y<\/span>/g)).toHaveLength(1)
+    })
+
+    it('escapes declaration text', () => {
+      const source = `export declare function load<T>(value: T): Array<T>;`
+      const classified = createClassifiedChanges(source, ``)
+
+      const html = formatASTReportAsHTML(
+        createASTComparisonReport(classified),
+        { oldSource: source },
+      )
+
+      expect(html).toContain('load&lt;T&gt;(value: T): Array&lt;T&gt;;')
+      expect(html).not.toContain('Array<T>')
+    })
+
+    it('shows the rule that forbids a change', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const html = formatASTReportAsHTML(createASTComparisonReport(classified))
+
+      expect(html).toContain('<h2>Forbidden Changes (1)</h2>')
+      expect(html).toContain(
+        'Forbidden by rule &quot;export-removal&quot;: Removals need an RFC',
+      )
+    })
+
+    it('reports when there are no changes', () => {
+      const html = formatASTReportAsHTML(createASTComparisonReport([]))
+
+      expect(html).toContain('<p>No API changes detected.</p>')
+    })
+  })
+
+  describe('formatASTReportAsJUnit', () => {
+    it('creates a test case for each changed export', () => {
+      const classified = createClassifiedChanges(
+        `export interface User { id: number; name: string; }
+export declare function load(): string;`,
+        `export interface User { id: string; name: number; }
+export declare function load(): string;
+export declare function save(): void;`,
+      )
+
+      const xml = formatASTReportAsJUnit(createASTComparisonReport(classified))
+
+      expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+      expect(xml).toContain(
+        '<testsuite name="API changes" tests="2" failures="1" errors="0">',
+      )
+      expect(xml.match(/<testcase /g)).toHaveLength(2)
+      expect(xml).toContain('<testcase classname="API changes" name="save"/>')
+    })
+
+    it('fails test cases whose changes exceed the allowed release type', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `export declare function save(): void;`,
+      )
+      const report = createASTComparisonReport(classified)
+
+      const xml = formatASTReportAsJUnit(report, { newFilePath: 'index.d.ts' })
+      expect(xml).toContain(
+        '<failure message="1 change(s) exceed the allowed release type MINOR" type="major">[MAJOR] load:',
+      )
+      expect(xml).toContain(
+        '<testcase classname="API changes" name="save" file="index.d.ts"/>',
+      )
+
+      const strict = formatASTReportAsJUnit(report, {
+        allowedReleaseType: 'patch',
+      })
+      expect(strict).toContain('tests="2" failures="2"')
+    })
+
+    it('fails forbidden changes with the rule that forbids them', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const xml = formatASTReportAsJUnit(
+        createASTComparisonReport(classified),
+        {
+          allowedReleaseType: 'major',
+          suiteName: 'api & types',
+        },
+      )
+
+      expect(xml).toContain('<testsuites name="api &amp; types"')
+      expect(xml).toContain(
+        '<failure message="1 forbidden change(s)" type="forbidden">',
+      )
+      expect(xml).toContain(
+        'Forbidden by rule &quot;export-removal&quot;: Removals need an RFC',
+      )
+    })
+
+    it('fails test cases with the nested changes that exceed the allowed release type', () => {
+      const xml = formatASTReportAsJUnit(
+        createNestedReport(interfaceSource, `export interface A { x: string }`),
+      )
+
+      expect(xml).toContain('tests="1" failures="1"')
+      expect(xml).toContain('name="A"')
+      expect(xml).toContain(
+        'message="1 change(s) exceed the allowed release type MINOR"',
+      )
+      expect(xml).toContain(
+        '[MAJOR] A.y: Member &apos;y&apos; removed from interface &apos;A&apos;',
+      )
+    })
+
+    it('creates an empty suite when there are no changes', () => {
+      const xml = formatASTReportAsJUnit(createASTComparisonReport([]))
+
+      expect(xml).toContain('tests="0" failures="0"')
+      expect(xml).not.toContain('<testcase')
+    })
+  })
+
+  describe('formatASTReportAsCheckstyle', () => {
+    it('reports each change at its declaration', () => {
+      const classified = createClassifiedChanges(
+        `export declare const version: string;
+export declare function load(): string;`,
+        `export declare const version: string;
+  export declare function load(): number;
+export declare function save(): void;`,
+      )
+
+      const xml = formatASTReportAsCheckstyle(
+        createASTComparisonReport(classified),
+        { oldFilePath: 'old.d.ts', newFilePath: 'new.d.ts' },
+      )
+
+      expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+      expect(xml).toContain('<checkstyle version="4.3">')
+      expect(xml).toContain('<file name="new.d.ts">')
+      expect(xml).toMatch(
+        /<error line="2" column="10" severity="error" message="\[MAJOR\] load: [^"]*" source="change-detector\.[^"]+"\/>/,
+      )
+      expect(xml).toMatch(
+        /<error line="3" column="8" severity="warning" message="\[MINOR\] save: [^"]*"/,
+      )
+    })
+
+    it('reports removals at the old declaration', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+      )
+
+      const xml = formatASTReportAsCheckstyle(
+        createASTComparisonReport(classified),
+        { oldFilePath: 'old.d.ts', newFilePath: 'new.d.ts' },
+      )
+
+      expect(xml).toContain('<file name="old.d.ts">')
+      expect(xml).not.toContain('<file name="new.d.ts">')
+      expect(xml).toContain('source="change-detector.export-removal"')
+    })
+
+    it('uses the allowed release type for the severity', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `export declare function load(): string;
+export declare function save(): void;`,
+      )
+      const report = createASTComparisonReport(classified)
+
+      expect(formatASTReportAsCheckstyle(report)).toContain(
+        'severity="warning"',
+      )
+      expect(
+        formatASTReportAsCheckstyle(report, { allowedReleaseType: 'patch' }),
+      ).toContain('severity="error"')
+    })
+
+    it('reports forbidden changes as errors with their rule', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        ``,
+        noRemovalsPolicy,
+      )
+
+      const xml = formatASTReportAsCheckstyle(
+        createASTComparisonReport(classified),
+        { allowedReleaseType: 'major' },
+      )
+
+      expect(xml).toContain('<file name="unknown">')
+      expect(xml).toContain('severity="error"')
+      expect(xml).toContain(
+        'Forbidden by rule &quot;export-removal&quot;: Removals need an RFC',
+      )
+      expect(xml).not.toContain('line=')
+    })
+
+    it('reports classified nested changes', () => {
+      const xml = formatASTReportAsCheckstyle(
+        createNestedReport(interfaceSource, `export interface A { x: string }`),
+        { oldFilePath: 'old.d.ts', newFilePath: 'new.d.ts' },
+      )
+
+      expect(xml).toContain('<file name="old.d.ts">')
+      expect(xml).toContain('severity="error"')
+      expect(xml).toContain('A.y')
+    })
+  })
+
+  describe('formatASTReportAsChangelog', () => {
+    it('groups changes into Keep a Changelog sections', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;
+export declare function parse(): string;
+export declare function legacy(): void;`,
+        `export declare function load(): number;
+/** @deprecated Use load instead */
+export declare function legacy(): void;
+export declare function save(): void;`,
+      )
+
+      const changelog = formatASTReportAsChangelog(
+        createASTComparisonReport(classified),
+      )
+
+      expect(changelog).toBe(
+        [
+          '### Added',
+          '',
+          "- `save`: Export 'save' added",
+          '',
+          '### Changed',
+          '',
+          "- **Breaking:** `load`: Changed type of 'load' from '(): string' to '(): number'",
+          '',
+          '### Deprecated',
+          '',
+          "- `legacy`: Marked 'legacy' as @deprecated: Use load instead",
+          '',
+          '### Removed',
+          '',
+          "- **Breaking:** `parse`: Export 'parse' removed",
+          '',
+        ].join('\n'),
+      )
+    })
+
+    it('includes the release heading with a version', () => {
+      const classified = createClassifiedChanges(
+        ``,
+        `export declare function save(): void;`,
+      )
+
+      const changelog = formatASTReportAsChangelog(
+        createASTComparisonReport(classified),
+        { version: '1.2.0', date: '2026-01-31' },
+      )
+
+      expect(changelog).toMatch(/^## \[1\.2\.0\] - 2026-01-31\n\n### Added\n/)
+    })
+
+    it('links entries to the declaration lines', () => {
+      const classified = createClassifiedChanges(
+        `export declare function load(): string;`,
+        `export declare const version: string;
+export declare function save(): void;`,
+      )
+
+      const changelog = formatASTReportAsChangelog(
+        createASTComparisonReport(classified),
+        {
+          oldFilePath: 'index.d.ts',
+          newFilePath: 'index.d.ts',
+          linkTemplate: 'https://example.com/v2/{file}#L{line}-L{endLine}',
+          oldLinkTemplate: 'https://example.com/v1/{file}#L{line}',
+        },
+      )
+
+      expect(changelog).toContain(
+        "- `save`: Export 'save' added ([index.d.ts:2](https://example.com/v2/index.d.ts#L2-L2))",
+      )
+      expect(changelog).toContain(
+        "- **Breaking:** `load`: Export 'load' removed ([index.d.ts:1](https://example.com/v1/index.d.ts#L1))",
+      )
+    })
+
+    it('renders custom templates', () => {
+      const classified = createClassifiedChanges(
+        ``,
+        `export declare function save(): void;`,
+      )
+
+      const changelog = formatASTReportAsChangelog(
+        createASTComparisonReport(classified),
+        {
+          version: '1.2.0',
+          templates: {
+            heading: '# v{version}',
+            section: '**{section}:**',
+            entry: '* {name} ({kind} {path}, {releaseType}){unknown}',
+          },
+        },
+      )
+
+      expect(changelog).toBe(
+        [
+          '# v1.2.0',
+          '',
+          '**Added:**',
+          '',
+          '* save (function save, minor){unknown}',
+          '',
+        ].join('\n'),
+      )
+    })
+
+    it('lists classified nested changes', () => {
+      const changelog = formatASTReportAsChangelog(
+        createNestedReport(
+          interfaceSource,
+          `export interface A { x: string; z?: boolean }`,
+        ),
+      )
+
+      expect(changelog).toBe(
+        [
+          '### Added',
+          '',
+          "- `A.z`: Member 'z' added to interface 'A'",
+          '',
+          '### Removed',
+          '',
+          "- **Breaking:** `A.y`: Member 'y' removed from interface 'A'",
+          '',
+        ].join('\n'),
+      )
+    })
+
+    it('returns an empty string without changes', () => {
+      expect(
+        formatASTReportAsChangelog(createASTComparisonReport([]), {
+          version: '1.0.0',
+        }),
+      ).toBe('')
+    })
+  })
 })
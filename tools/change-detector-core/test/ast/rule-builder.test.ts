@@ -5,7 +5,9 @@ import {
   classifyChange,
   classifyChanges,
   determineOverallRelease,
+  isClassifiedChange,
   type Policy,
+  type ClassificationResult,
 } from '../../src/ast/rule-builder'
 import type {
   ApiChange,
@@ -13,6 +15,8 @@ import type {
   ChangeContext,
   NodeKind,
 } from '../../src/ast/types'
+import { parseModule } from '../../src/ast/parser'
+import { diffModules } from '../../src/ast/differ'
 
 /** Helper to create a minimal ApiChange for testing */
 function makeChange(
@@ -357,6 +361,249 @@ describe('Rule Builder', () => {
     })
   })
 
+  describe('TSDoc suppressions', () => {
+    const policy: Policy = createPolicy('test', 'none')
+      .addRule(rule('removal').action('removed').returns('major'))
+      .addRule(rule('type-change').aspect('type').returns('major'))
+      .addRule(rule('addition').action('added').returns('minor'))
+      .build()
+
+    function classify(oldSource: string, newSource: string) {
+      const changes = diffModules(
+        parseModule(oldSource),
+        parseModule(newSource),
+      )
+      return classifyChanges(changes, policy)
+    }
+
+    it('records approved breaking changes without changing the release type', () => {
+      const [result] = classify(
+        `export declare function load(): string;`,
+        `/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): number;`,
+      )
+
+      expect(result!.releaseType).toBe('major')
+      expect(result!.suppression).toEqual({
+        tag: '@breakingChangeApproved',
+        reason: 'Callers migrated in v3',
+        originalReleaseType: 'major',
+      })
+    })
+
+    it('ignores approvals the old declaration already had', () => {
+      const [result] = classify(
+        `/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): string;`,
+        `/** @breakingChangeApproved Callers migrated in v3 */
+export declare function load(): number;`,
+      )
+
+      expect(result!.releaseType).toBe('major')
+      expect(result!.suppression).toBeUndefined()
+    })
+
+    it('reads approvals of removed symbols from the old declaration', () => {
+      const [result] = classify(
+        `/** @breakingChangeApproved */
+export declare function load(): string;`,
+        ``,
+      )
+
+      expect(result!.releaseType).toBe('major')
+      expect(result!.suppression?.tag).toBe('@breakingChangeApproved')
+      expect(result!.suppression?.reason).toBeUndefined()
+    })
+
+    it('downgrades breaking changes to experimental symbols to minor', () => {
+      const [result] = classify(
+        `/** @experimental */
+export declare function load(): string;`,
+        `export declare function load(): number;`,
+      )
+
+      expect(result!.releaseType).toBe('minor')
+      expect(result!.matchedRule?.name).toBe('type-change')
+      expect(result!.suppression).toEqual({
+        tag: '@experimental',
+        originalReleaseType: 'major',
+      })
+    })
+
+    it('downgrades nested changes to members of experimental classes', () => {
+      const changes = diffModules(
+        parseModule(`/** @experimental */
+export declare class Loader {
+  load(): string;
+}`),
+        parseModule(`/** @experimental */
+export declare class Loader {
+  load(): number;
+}`),
+      )
+
+      const [result] = classifyChanges(changes, policy, { nested: true })
+      const [member] = result!.nestedChanges.filter(isClassifiedChange)
+      expect(member!.path).toBe('Loader.load')
+      expect(member!.releaseType).toBe('minor')
+      expect(member!.suppression).toEqual({
+        tag: '@experimental',
+        originalReleaseType: 'major',
+      })
+    })
+
+    it('does not downgrade symbols that only became experimental', () => {
+      const [result] = classify(
+        `export declare function load(): string;`,
+        `/** @experimental */
+export declare function load(): number;`,
+      )
+
+      expect(result!.releaseType).toBe('major')
+      expect(result!.suppression).toBeUndefined()
+    })
+
+    it('does not suppress non-breaking changes', () => {
+      const [result] = classify(
+        ``,
+        `/** @breakingChangeApproved */
+export declare function load(): string;`,
+      )
+
+      expect(result!.releaseType).toBe('minor')
+      expect(result!.suppression).toBeUndefined()
+    })
+
+    it('never suppresses forbidden changes', () => {
+      const strictPolicy = createPolicy('strict', 'none')
+        .addRule(rule('removal').action('removed').returns('forbidden'))
+        .build()
+      const changes = diffModules(
+        parseModule(`/** @experimental */
+export declare function load(): string;`),
+        parseModule(``),
+      )
+
+      const [result] = classifyChanges(changes, strictPolicy)
+      expect(result!.releaseType).toBe('forbidden')
+      expect(result!.suppression).toBeUndefined()
+    })
+  })
+
+  describe('classification trace', () => {
+    const policy = createPolicy('test', 'none')
+      .addRule(rule('removal').action('removed').returns('major'))
+      .addRule(
+        rule('nested-narrowing')
+          .aspect('type')
+          .impact('narrowing')
+          .nested(true)
+          .returns('major'),
+      )
+      .addRule(
+        rule('narrowing').aspect('type').impact('narrowing').returns('minor'),
+      )
+      .addRule(rule('deprecation').aspect('deprecation').returns('patch'))
+      .build()
+    const narrowing = makeChange({
+      target: 'property',
+      aspect: 'type',
+      impact: 'narrowing',
+      tags: new Set(['was-optional']),
+    })
+
+    it('is not recorded by default', () => {
+      expect(classifyChange(narrowing, policy).trace).toBeUndefined()
+    })
+
+    it('records the rules evaluated up to the first match', () => {
+      const { trace } = classifyChange(narrowing, policy, { trace: true })
+
+      expect(trace?.policyName).toBe('test')
+      expect(trace?.usedDefault).toBe(false)
+      expect(trace?.rules.map((r) => [r.name, r.matched])).toEqual([
+        ['removal', false],
+        ['nested-narrowing', false],
+        ['narrowing', true],
+      ])
+    })
+
+    it('records the outcome of every condition of each rule', () => {
+      const { trace } = classifyChange(narrowing, policy, { trace: true })
+
+      expect(trace?.rules[0]!.conditions).toEqual([
+        {
+          dimension: 'action',
+          matched: false,
+          expected: ['removed'],
+          actual: 'modified',
+        },
+      ])
+      expect(trace?.rules[1]!.conditions).toEqual([
+        {
+          dimension: 'aspect',
+          matched: true,
+          expected: ['type'],
+          actual: 'type',
+        },
+        {
+          dimension: 'impact',
+          matched: true,
+          expected: ['narrowing'],
+          actual: 'narrowing',
+        },
+        { dimension: 'nested', matched: false, expected: true, actual: false },
+      ])
+    })
+
+    it('records tag conditions with the change tags', () => {
+      const tagPolicy = createPolicy('tags', 'none')
+        .addRule(rule('no-optional').notTag('was-optional').returns('major'))
+        .build()
+      const { trace } = classifyChange(narrowing, tagPolicy, { trace: true })
+
+      expect(trace?.rules[0]!.conditions).toEqual([
+        {
+          dimension: 'notTag',
+          matched: false,
+          expected: ['was-optional'],
+          actual: ['was-optional'],
+        },
+      ])
+      expect(trace?.usedDefault).toBe(true)
+    })
+
+    it('records rules with custom matchers as a whole', () => {
+      const customPolicy = createPolicy('custom', 'none')
+        .addRule(
+          rule('custom')
+            .action('modified')
+            .when((change) => change.path === 'Other')
+            .returns('major'),
+        )
+        .build()
+      const { trace } = classifyChange(narrowing, customPolicy, {
+        trace: true,
+      })
+
+      expect(trace?.rules[0]!.conditions).toEqual([
+        { dimension: 'custom', matched: false },
+      ])
+    })
+
+    it('is passed on by classifyChanges', () => {
+      const results = classifyChanges(
+        [makeChange({ action: 'removed' }), makeChange({ action: 'renamed' })],
+        policy,
+        { trace: true },
+      )
+
+      expect(results[0]!.trace?.rules).toHaveLength(1)
+      expect(results[1]!.trace?.rules).toHaveLength(4)
+      expect(results[1]!.trace?.usedDefault).toBe(true)
+    })
+  })
+
   describe('classifyChanges()', () => {
     const policy = createPolicy('test', 'none')
       .addRule(rule('removal').action('removed').returns('major'))
@@ -377,6 +624,29 @@ describe('Rule Builder', () => {
       expect(results[1]!.releaseType).toBe('minor')
       expect(results[2]!.releaseType).toBe('none')
     })
+
+    it('classifies nested changes with the nested option', () => {
+      const change: ApiChange = {
+        ...makeChange({ action: 'modified' }),
+        nestedChanges: [
+          makeChange(
+            { target: 'property', action: 'removed' },
+            { isNested: true },
+          ),
+        ],
+      }
+
+      expect(
+        classifyChanges([change], policy)[0]!.nestedChanges[0],
+      ).not.toHaveProperty('releaseType')
+
+      const [result] = classifyChanges([change], policy, { nested: true })
+      const [nested] = result!.nestedChanges as ClassificationResult[]
+      expect(result!.releaseType).toBe('none')
+      expect(nested!.releaseType).toBe('major')
+      expect(nested!.descriptor.tags.has('is-nested-change')).toBe(true)
+      expect(determineOverallRelease([result!])).toBe('major')
+    })
   })
 
   describe('determineOverallRelease()', () => {
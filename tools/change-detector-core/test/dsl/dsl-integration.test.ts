@@ -12,12 +12,59 @@ import {
   isValidIntentExpression,
   suggestIntentCorrections,
   createProgressivePolicy,
+  compilePolicy,
   type IntentRule,
   type PatternRule,
   type DimensionalRule,
   type IntentExpression,
   type PatternTemplate,
 } from '../../src/dsl'
+import { serializePolicy } from '../../src/ast/policy-document'
+import { classifyChanges } from '../../src/ast/rule-builder'
+import { parseModule } from '../../src/ast/parser'
+import { diffModules, flattenChanges } from '../../src/ast/differ'
+import type { ReleaseType } from '../../src/types'
+
+/** Compiles an intent expression to a dimensional rule */
+function compileIntent(expression: string, returns: ReleaseType) {
+  const parsed = parseIntent({
+    type: 'intent',
+    expression: expression as IntentExpression,
+    returns,
+  })
+  expect(parsed.success).toBe(true)
+  return compilePattern(parsed.pattern!)
+}
+
+/** Diffs two sources, including nested changes */
+function diffSources(oldSource: string, newSource: string) {
+  return flattenChanges(
+    diffModules(parseModule(oldSource), parseModule(newSource), {
+      includeNestedChanges: true,
+    }),
+  )
+}
+
+/** Classifies the changes, including nested ones, with one compiled intent */
+function classifyWithIntent(
+  expression: string,
+  oldSource: string,
+  newSource: string,
+) {
+  const compiled = compileIntent(expression, 'minor')
+  expect(compiled.errors).toBeUndefined()
+  const policy = compilePolicy({
+    name: 'intent',
+    rules: [compiled.dimensional!],
+    defaultReleaseType: 'none',
+  })
+  return Object.fromEntries(
+    classifyChanges(diffSources(oldSource, newSource), policy).map((result) => [
+      result.path,
+      result.releaseType,
+    ]),
+  )
+}
 
 describe('DSL Integration Tests', () => {
   describe('Full Round-Trip Transformations', () => {
@@ -153,6 +200,237 @@ describe('DSL Integration Tests', () => {
     })
   })
 
+  describe('Compiled Conditions', () => {
+    const oldSource = `export interface Options { name: string }
+export declare function load(path: string): void;
+export declare const version: string;`
+    const newSource = `export interface Options { name: string | number }
+export declare function load(path: string | number): void;
+export declare const version: string | number;`
+
+    it('should classify changes by the nesting of the condition', () => {
+      expect(
+        classifyWithIntent(
+          'type change is minor when top-level',
+          oldSource,
+          newSource,
+        ),
+      ).toEqual({
+        Options: 'none',
+        'Options.name': 'none',
+        load: 'minor',
+        version: 'minor',
+      })
+    })
+
+    it('should classify changes by the targets of the condition', () => {
+      expect(
+        classifyWithIntent(
+          'type change is minor for enum members or properties',
+          oldSource,
+          newSource,
+        ),
+      ).toEqual({
+        Options: 'none',
+        'Options.name': 'minor',
+        load: 'none',
+        version: 'none',
+      })
+    })
+
+    it('should classify changes by the negated condition of "unless"', () => {
+      expect(
+        classifyWithIntent(
+          'type change is minor unless nested or in-output-position',
+          oldSource,
+          newSource,
+        ),
+      ).toEqual({
+        Options: 'none',
+        'Options.name': 'none',
+        load: 'minor',
+        version: 'none',
+      })
+    })
+
+    it('should compile negated nesting', () => {
+      const result = compileIntent(
+        'removal is breaking when not nested',
+        'major',
+      )
+      expect(result.dimensional).toMatchObject({
+        action: ['removed'],
+        target: ['export'],
+        nested: false,
+      })
+    })
+
+    it('should match changes by the modifiers of the condition', () => {
+      const { matcher, nested } = compileIntent(
+        'property removal is breaking when nested and not deprecated',
+        'major',
+      ).dimensional!
+      const changes = diffSources(
+        `export interface Options {
+  name: string
+  /** @deprecated Use name instead */
+  title: string
+}`,
+        'export interface Options {}',
+      )
+
+      expect(nested).toBe(true)
+      expect(changes.map((change) => [change.path, matcher!(change)])).toEqual([
+        ['Options', true],
+        ['Options.name', true],
+        ['Options.title', false],
+      ])
+    })
+
+    it('should classify removals with compiled policies', () => {
+      const classifyRemovals = (expression: string) =>
+        Object.fromEntries(
+          classifyChanges(
+            diffSources(
+              `export interface Options {
+  name: string
+  /** @deprecated Use name instead */
+  title: string
+}
+export declare function load(): void;`,
+              'export interface Options {}',
+            ),
+            compilePolicy(
+              createProgressivePolicy()
+                .intent(expression as IntentExpression, 'major')
+                .build('removals', 'none'),
+            ),
+          ).map((result) => [result.path, result.releaseType]),
+        )
+
+      expect(
+        classifyRemovals(
+          'property removal is breaking when nested and not deprecated',
+        ),
+      ).toEqual({
+        Options: 'none',
+        'Options.name': 'major',
+        'Options.title': 'none',
+        load: 'none',
+      })
+      expect(classifyRemovals('property removal is breaking')).toEqual({
+        Options: 'none',
+        'Options.name': 'major',
+        'Options.title': 'major',
+        load: 'none',
+      })
+    })
+
+    it('should classify changes by conditions combined with "or"', () => {
+      expect(
+        classifyWithIntent(
+          'type change is minor for enum members or optional properties',
+          `export interface Options { name: string; title?: string }
+export declare function load(path: string): void;`,
+          `export interface Options { name: string | number; title?: string | number }
+export declare function load(path: string | number): void;`,
+        ),
+      ).toMatchObject({
+        'Options.name': 'none',
+        'Options.title': 'minor',
+        load: 'none',
+      })
+    })
+
+    it('should match additions unless required', () => {
+      const { matcher } = compileIntent(
+        'safe addition unless required',
+        'none',
+      ).dimensional!
+      const changes = diffSources(
+        'export interface Options {}',
+        'export interface Options { name: string; title?: string }',
+      )
+
+      expect(changes.map((change) => [change.path, matcher!(change)])).toEqual([
+        ['Options', true],
+        ['Options.name', false],
+        ['Options.title', true],
+      ])
+    })
+
+    it('should match removals unless deprecated', () => {
+      const { matcher } = compileIntent(
+        'breaking removal unless deprecated',
+        'major',
+      ).dimensional!
+      const changes = diffSources(
+        `export declare function load(): void;
+/** @deprecated Use load instead */
+export declare function read(): void;`,
+        '',
+      )
+
+      expect(changes.map((change) => [change.path, matcher!(change)])).toEqual([
+        ['load', true],
+        ['read', false],
+      ])
+    })
+
+    it('should compile policies of intent rules', () => {
+      const policy = compilePolicy(
+        createProgressivePolicy()
+          .intent(
+            'type change is minor for enum members or optional properties',
+            'minor',
+          )
+          .build('members', 'none'),
+      )
+      const changes = diffSources(
+        'export interface Options { name: string; title?: string }',
+        'export interface Options { name: string | number; title?: string | number }',
+      )
+
+      expect(
+        classifyChanges(changes, policy).map((result) => [
+          result.path,
+          result.releaseType,
+        ]),
+      ).toEqual([
+        ['Options', 'none'],
+        ['Options.name', 'none'],
+        ['Options.title', 'minor'],
+      ])
+      expect(() =>
+        compilePolicy({
+          name: 'invalid',
+          rules: [
+            {
+              type: 'intent',
+              expression: 'removal when unknown' as IntentExpression,
+              returns: 'major',
+            },
+          ],
+          defaultReleaseType: 'none',
+        }),
+      ).toThrow(/^Rule 1 cannot be parsed: /)
+    })
+
+    it('should not serialize rules whose conditions compile to a matcher', () => {
+      const compiled = compileIntent(
+        'breaking removal unless deprecated',
+        'major',
+      )
+      expect(() =>
+        serializePolicy({
+          name: 'intent',
+          rules: [compiled.dimensional!],
+          defaultReleaseType: 'none',
+        }),
+      ).toThrow(/custom matcher/)
+    })
+  })
+
   describe('Pattern Compilation Edge Cases', () => {
     it('should handle patterns with multiple variables', () => {
       const pattern: PatternRule = {
@@ -476,7 +476,7 @@ describe('Transformation End-to-End Tests', () => {
       expect(result.success || result.warnings).toBeDefined()
       
       if (result.dimensional) {
-        expect(result.dimensional.nested).toBe(true)
+        expect(result.dimensional.nested).toBeUndefined()
         if (result.dimensional.action) {
           expect(result.dimensional.action).toContain('removed')
         }
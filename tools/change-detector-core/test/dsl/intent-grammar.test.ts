@@ -0,0 +1,239 @@
+/**
+ * Unit tests for intent-grammar.ts
+ *
+ * Tests parsing intent expressions into syntax trees, including boolean
+ * composition of conditions, qualifiers and error positions.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  formatIntentCondition,
+  parseIntentSyntax,
+} from '../../src/dsl/intent-grammar'
+import {
+  parseIntent,
+  suggestIntentCorrections,
+} from '../../src/dsl/intent-parser'
+import type { IntentSyntaxTree } from '../../src/dsl/dsl-types'
+
+/**
+ * Helper to parse an expression that must be valid
+ */
+function parseTree(expression: string): IntentSyntaxTree {
+  const result = parseIntentSyntax(expression)
+  if (!result.success) {
+    throw new Error(result.errors[0]!.message)
+  }
+  return result.tree
+}
+
+describe('parseIntentSyntax', () => {
+  describe('statements', () => {
+    it('parses a leading verdict', () => {
+      expect(parseTree('breaking removal').statement).toEqual({
+        change: 'removal',
+        verdict: 'breaking',
+        span: { start: 0, end: 16 },
+      })
+    })
+
+    it('parses a target and a trailing verdict', () => {
+      expect(parseTree('property removal is breaking').statement).toEqual({
+        change: 'removal',
+        target: 'property',
+        verdict: 'breaking',
+        span: { start: 0, end: 28 },
+      })
+    })
+
+    it('parses release types as verdicts', () => {
+      const statement = parseTree('enum member addition is minor').statement
+
+      expect(statement.target).toBe('enum-member')
+      expect(statement.verdict).toBe('minor')
+    })
+
+    it('parses optionality modifiers', () => {
+      expect(
+        parseTree('required addition is breaking').statement,
+      ).toMatchObject({ change: 'addition', modifier: 'required' })
+      expect(parseTree('making optional is breaking').statement.change).toBe(
+        'making-optional',
+      )
+    })
+  })
+
+  describe('conditions', () => {
+    it('parses and/not conditions', () => {
+      const tree = parseTree(
+        'property removal is breaking when nested and not deprecated',
+      )
+
+      expect(tree.clauses).toHaveLength(1)
+      expect(tree.clauses[0]!.keyword).toBe('when')
+      expect(tree.clauses[0]!.condition).toMatchObject({
+        kind: 'and',
+        operands: [
+          {
+            kind: 'qualifier',
+            qualifier: { dimension: 'nested', value: true },
+          },
+          {
+            kind: 'not',
+            operand: {
+              kind: 'qualifier',
+              qualifier: { dimension: 'modifier', value: 'deprecated' },
+            },
+          },
+        ],
+      })
+    })
+
+    it('parses plural qualifiers and adjacent qualifiers in "for" clauses', () => {
+      const tree = parseTree(
+        'type change is minor for enum members or optional properties',
+      )
+
+      expect(tree.statement.change).toBe('type-change')
+      expect(tree.clauses[0]!.keyword).toBe('for')
+      expect(tree.clauses[0]!.condition).toMatchObject({
+        kind: 'or',
+        operands: [
+          {
+            kind: 'qualifier',
+            text: 'enum members',
+            qualifier: { dimension: 'target', value: 'enum-member' },
+          },
+          {
+            kind: 'and',
+            operands: [
+              { qualifier: { dimension: 'modifier', value: 'optional' } },
+              { qualifier: { dimension: 'target', value: 'property' } },
+            ],
+          },
+        ],
+      })
+    })
+
+    it('binds "and" tighter than "or" and honours parentheses', () => {
+      const flat = parseTree(
+        'breaking removal when nested or public and classes',
+      )
+      const grouped = parseTree(
+        'breaking removal when (nested or public) and classes',
+      )
+
+      expect(flat.clauses[0]!.condition.kind).toBe('or')
+      expect(grouped.clauses[0]!.condition.kind).toBe('and')
+      expect(formatIntentCondition(grouped.clauses[0]!.condition)).toBe(
+        '(nested or public) and classes',
+      )
+    })
+
+    it('parses node kinds and change tags', () => {
+      const tree = parseTree(
+        'breaking removal when interfaces and not now-optional',
+      )
+
+      expect(formatIntentCondition(tree.clauses[0]!.condition)).toBe(
+        'interfaces and not now-optional',
+      )
+      expect(tree.clauses[0]!.condition).toMatchObject({
+        operands: [
+          { qualifier: { dimension: 'nodeKind', value: 'interface' } },
+          {
+            operand: { qualifier: { dimension: 'tag', value: 'now-optional' } },
+          },
+        ],
+      })
+    })
+
+    it('parses release tags as change tags', () => {
+      const tree = parseTree('type change is minor for alpha or beta')
+
+      expect(tree.clauses[0]!.condition).toMatchObject({
+        operands: [
+          { qualifier: { dimension: 'tag', value: 'is-alpha' } },
+          { qualifier: { dimension: 'tag', value: 'is-beta' } },
+        ],
+      })
+      expect(
+        parseTree('breaking removal unless internal').clauses[0]!.condition,
+      ).toMatchObject({ qualifier: { dimension: 'tag', value: 'is-internal' } })
+    })
+
+    it('parses several clauses', () => {
+      const tree = parseTree('breaking removal when nested unless deprecated')
+
+      expect(tree.clauses.map((clause) => clause.keyword)).toEqual([
+        'when',
+        'unless',
+      ])
+    })
+  })
+
+  describe('errors', () => {
+    it.each([
+      ['breaking removal when nested and', 'after "and"', 29],
+      ['breaking removal when (nested', 'Expected ")"', 29],
+      ['breaking removal when nestd', 'Unknown condition "nestd"', 22],
+      ['property removal is braking', 'Expected a verdict', 20],
+      ['breaking removal is major', 'Verdict given twice', 17],
+      ['required rename is breaking', 'cannot qualify a rename', 0],
+      ['breaking removal  when nested', 'Unexpected whitespace', 16],
+    ])('reports %j at its position', (expression, message, start) => {
+      const result = parseIntentSyntax(expression)
+
+      expect(result.success).toBe(false)
+      if (result.success) return
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]!.message).toContain(message)
+      expect(result.errors[0]!.message).toContain(`at column ${start + 1}`)
+      expect(result.errors[0]!.start).toBe(start)
+    })
+  })
+})
+
+describe('parseIntent with composed expressions', () => {
+  it('uses the statement target and the formatted condition', () => {
+    const result = parseIntent({
+      type: 'intent',
+      expression: 'property removal is breaking when nested and not deprecated',
+      returns: 'major',
+    })
+
+    expect(result.success).toBe(true)
+    expect(result.pattern?.template).toBe('{pattern} when {condition}')
+    expect(result.pattern?.variables).toEqual([
+      { name: 'pattern', value: 'removed {target}', type: 'pattern' },
+      { name: 'target', value: 'property', type: 'target' },
+      {
+        name: 'condition',
+        value: 'nested and not deprecated',
+        type: 'condition',
+      },
+    ])
+  })
+
+  it('reports syntax errors alongside the unknown expression', () => {
+    const result = parseIntent({
+      type: 'intent',
+      expression: 'property removal is breaking when nestd',
+      returns: 'major',
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.errors?.[0]).toContain('Unknown intent expression')
+    expect(result.errors?.[1]).toBe('Unknown condition "nestd" at column 35')
+    expect(result.syntaxErrors?.[0]?.start).toBe(34)
+  })
+
+  it('suggests corrections for composed expressions', () => {
+    expect(
+      suggestIntentCorrections('property removal is braking when nested'),
+    ).toContain('property removal is breaking when nested')
+    expect(
+      suggestIntentCorrections('type change is minor for enum membrs'),
+    ).toContain('type change is minor for enum members')
+  })
+})
@@ -215,6 +215,17 @@ describe('parseIntent', () => {
       ])
     })
 
+    it('should parse "move is breaking" to moved {target} template', () => {
+      const result = expectSuccessfulParse(
+        'move is breaking',
+        'moved {target}',
+        'major',
+      )
+      expect(result.pattern?.variables).toEqual([
+        { name: 'target', value: 'export', type: 'target' },
+      ])
+    })
+
     it('should parse "reorder is breaking" to reordered {target} template', () => {
       const result = expectSuccessfulParse(
         'reorder is breaking',
@@ -234,7 +245,7 @@ describe('parseIntent', () => {
       )
       expect(result.success).toBe(true)
       expect(result.pattern?.template).toBe('{pattern} when {condition}')
-      expect(result.pattern?.variables).toHaveLength(2)
+      expect(result.pattern?.variables).toHaveLength(3)
 
       const patternVar = result.pattern?.variables.find(
         (v) => v.name === 'pattern',
@@ -797,6 +808,7 @@ describe('intent parser integration', () => {
       'making required is breaking',
       'deprecation is patch',
       'rename is breaking',
+      'move is breaking',
       'reorder is breaking',
     ]
 
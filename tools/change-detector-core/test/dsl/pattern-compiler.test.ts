@@ -108,6 +108,14 @@ describe('compilePattern', () => {
       expect(result.dimensional?.action).toEqual(['renamed'])
     })
 
+    it('should extract "moved" action from template', () => {
+      const result = compilePattern(
+        createPatternRule('moved {target}', [targetVar('export')], 'major'),
+      )
+      expect(result.success).toBe(true)
+      expect(result.dimensional?.action).toEqual(['moved'])
+    })
+
     it('should extract "reordered" action from template', () => {
       const result = compilePattern(
         createPatternRule(
@@ -371,7 +379,7 @@ describe('compilePattern', () => {
     })
   })
 
-  describe('conditional patterns (nested flag)', () => {
+  describe('conditional patterns', () => {
     it('should set nested=true for "when" conditional', () => {
       const result = compilePattern(
         createPatternRule(
@@ -384,19 +392,143 @@ describe('compilePattern', () => {
       expect(result.dimensional?.nested).toBe(true)
     })
 
-    it('should not set nested for "unless" conditional', () => {
-      // Note: Current implementation only sets nested for "when"
+    it('should negate the condition of "unless" conditional', () => {
       const result = compilePattern(
         createPatternRule(
           '{pattern} unless {condition}',
-          [patternVar('removed {target}'), conditionVar('deprecated')],
+          [patternVar('removed {target}'), conditionVar('nested or inherited')],
+          'major',
+        ),
+      )
+      expect(result.success).toBe(true)
+      expect(result.dimensional?.nested).toBe(false)
+      expect(result.dimensional?.notTags).toEqual(['inherited-member'])
+    })
+
+    it('should compile targets and node kinds combined with "or"', () => {
+      const result = compilePattern(
+        createPatternRule(
+          '{pattern} when {condition}',
+          [
+            patternVar('removed {target}'),
+            conditionVar('(classes or interfaces) and not inherited'),
+          ],
+          'major',
+        ),
+      )
+      expect(result.success).toBe(true)
+      expect(result.dimensional?.nodeKind).toEqual(['class', 'interface'])
+      expect(result.dimensional?.notTags).toEqual(['inherited-member'])
+      expect(result.dimensional?.nested).toBeUndefined()
+    })
+
+    it('should restrict the target of the pattern', () => {
+      const restricted = compilePattern(
+        createPatternRule(
+          'removed {target} when {condition}',
+          [targetVar('property'), conditionVar('properties or methods')],
+          'major',
+        ),
+      )
+      const excluded = compilePattern(
+        createPatternRule(
+          'removed {target} when {condition}',
+          [targetVar('property'), conditionVar('parameters')],
+          'major',
+        ),
+      )
+
+      expect(restricted.dimensional?.target).toEqual(['property'])
+      expect(excluded.success).toBe(false)
+      expect(excluded.errors).toEqual([
+        'Cannot compile condition "parameters": "parameters" excludes every other target of the rule',
+      ])
+    })
+
+    it('should not read words of the condition as the pattern', () => {
+      const result = compilePattern(
+        createPatternRule(
+          'removed {target} when {condition}',
+          [targetVar('property'), conditionVar('not inherited')],
+          'major',
+        ),
+      )
+      expect(result.dimensional?.aspect).toBeUndefined()
+    })
+
+    it.each([
+      'not deprecated',
+      'enum members or optional properties',
+      'nested or internal',
+      'not properties',
+    ])('should compile the condition "%s" to a matcher', (condition) => {
+      const result = compilePattern(
+        createPatternRule(
+          '{pattern} when {condition}',
+          [patternVar('removed {target}'), conditionVar(condition)],
           'major',
         ),
       )
       expect(result.success).toBe(true)
-      // Unless doesn't set nested (based on source code logic)
+      expect(result.dimensional?.matcher).toBeTypeOf('function')
       expect(result.dimensional?.nested).toBeUndefined()
     })
+
+    it('should keep the dimensions of a condition with a matcher', () => {
+      const result = compilePattern(
+        createPatternRule(
+          'removed {target} when {condition}',
+          [targetVar('property'), conditionVar('nested and not deprecated')],
+          'major',
+        ),
+      )
+      expect(result.success).toBe(true)
+      expect(result.dimensional?.target).toEqual(['property'])
+      expect(result.dimensional?.nested).toBe(true)
+      expect(result.dimensional?.matcher).toBeTypeOf('function')
+    })
+
+    it('should not set a matcher for conditions the dimensions express', () => {
+      const result = compilePattern(
+        createPatternRule(
+          '{pattern} when {condition}',
+          [patternVar('removed {target}'), conditionVar('nested')],
+          'major',
+        ),
+      )
+      expect(result.dimensional).not.toHaveProperty('matcher')
+    })
+
+    it('should reject contradicting conditions', () => {
+      const result = compilePattern(
+        createPatternRule(
+          '{pattern} when {condition}',
+          [
+            patternVar('removed {target}'),
+            conditionVar('nested and top-level'),
+          ],
+          'major',
+        ),
+      )
+      expect(result.success).toBe(false)
+      expect(result.errors).toEqual([
+        'Cannot compile condition "nested and top-level": "top-level" contradicts another condition on nesting',
+      ])
+    })
+
+    it('should reject conditions outside the intent grammar', () => {
+      const result = compilePattern(
+        createPatternRule(
+          '{pattern} when {condition}',
+          [patternVar('removed {target}'), conditionVar('version >= 2.0')],
+          'major',
+        ),
+      )
+      expect(result.success).toBe(false)
+      expect(result.errors).toEqual([
+        'Invalid condition "version >= 2.0": Unknown condition "version" at column 1',
+      ])
+    })
   })
 
   describe('metadata preservation', () => {
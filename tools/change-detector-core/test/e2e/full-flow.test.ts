@@ -114,6 +114,32 @@ describe('E2E: Full Flow Integration', () => {
       expect(result.releaseType).toBe('none')
       expect(result.changes).toHaveLength(0)
     })
+
+    it('should classify nested member changes when asked to', () => {
+      const source = `export interface A { x: string; y: number }`
+      const removal = `export interface A { x: string }`
+
+      expect(analyzeChanges(source, removal, ts).releaseType).toBe('none')
+      expect(
+        analyzeChanges(source, removal, ts, { nested: true }).releaseType,
+      ).toBe('major')
+      expect(
+        analyzeChanges(
+          source,
+          `export interface A { x: string; y: number; z?: boolean }`,
+          ts,
+          { nested: true },
+        ).releaseType,
+      ).toBe('minor')
+      expect(
+        analyzeChanges(
+          `export interface B { run(id: string): void }`,
+          `export interface B { run(id: number): void }`,
+          ts,
+          { nested: true },
+        ).releaseType,
+      ).toBe('major')
+    })
   })
 
   describe('Step-by-step flow', () => {
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest'
+import * as ts from 'typescript'
+import {
+  PolicyTestError,
+  assertPolicyCases,
+  runPolicyCases,
+  snapshotPolicyCases,
+  type PolicyTestCase,
+} from '../src/policy-testing'
+import { semverDefaultPolicy } from '../src/ast/builtin-policies'
+import { createPolicy, rule } from '../src/ast/rule-builder'
+
+const cases: PolicyTestCase[] = [
+  {
+    name: 'export removal',
+    old: 'export declare function greet(): void;',
+    new: '',
+    expected: 'major',
+  },
+  {
+    name: 'export addition',
+    old: '',
+    new: 'export declare function greet(): void;',
+    expected: 'minor',
+  },
+]
+
+describe('runPolicyCases', () => {
+  it('classifies each case with the policy', () => {
+    const results = runPolicyCases(semverDefaultPolicy, ts, cases)
+
+    expect(
+      results.map(({ name, passed, actual }) => [name, passed, actual]),
+    ).toEqual([
+      ['export removal', true, 'major'],
+      ['export addition', true, 'minor'],
+    ])
+    expect(results[0]!.results[0]!.matchedRule?.name).toBe('export-removal')
+  })
+
+  it('names unnamed cases by their position', () => {
+    const [result] = runPolicyCases(semverDefaultPolicy, ts, [
+      { old: '', new: '', expected: 'none' },
+    ])
+
+    expect(result!.name).toBe('case 1')
+    expect(result!.passed).toBe(true)
+  })
+
+  it('classifies the changes of members with the nested option', () => {
+    const removal: PolicyTestCase = {
+      name: 'optional property removal',
+      old: 'export interface Foo { bar?: string }',
+      new: 'export interface Foo {}',
+      expected: 'major',
+    }
+
+    expect(runPolicyCases(semverDefaultPolicy, ts, [removal])[0]!.actual).toBe(
+      'none',
+    )
+    const [result] = runPolicyCases(semverDefaultPolicy, ts, [removal], {
+      nested: true,
+    })
+
+    expect(result!.passed).toBe(true)
+    expect(result!.actual).toBe('major')
+    expect(result!.analysis.releaseType).toBe('major')
+    expect(
+      result!.results.map(({ path, releaseType }) => [path, releaseType]),
+    ).toContainEqual(['Foo.bar', 'major'])
+  })
+})
+
+describe('assertPolicyCases', () => {
+  const lenient = createPolicy('lenient', 'none')
+    .addRule(rule('additions').action('added').returns('minor'))
+    .build()
+
+  it('passes when every case has the expected release type', () => {
+    expect(() =>
+      assertPolicyCases(semverDefaultPolicy, ts, cases),
+    ).not.toThrow()
+  })
+
+  it('describes failed cases with their changes and matched rules', () => {
+    let error: unknown
+    try {
+      assertPolicyCases(lenient, ts, cases)
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(PolicyTestError)
+    const { message, failures } = error as PolicyTestError
+    expect(failures.map((failure) => failure.name)).toEqual(['export removal'])
+    expect(message).toBe(
+      [
+        'Policy "lenient": 1 of 2 case(s) failed',
+        '',
+        '✗ export removal',
+        '  expected: major',
+        '  actual:   none',
+        '  old:',
+        '    export declare function greet(): void;',
+        '  new:',
+        '    (empty)',
+        '  changes:',
+        "    - [none] greet: Export 'greet' removed (default release type)",
+      ].join('\n'),
+    )
+  })
+})
+
+describe('snapshotPolicyCases', () => {
+  it('lists the release type and classified changes of each case', () => {
+    expect(
+      snapshotPolicyCases(semverDefaultPolicy, ts, [
+        ...cases,
+        {
+          name: 'unchanged',
+          old: 'export type A = string;',
+          new: 'export type A = string;',
+        },
+      ]),
+    ).toBe(
+      [
+        'Policy "semver-default"',
+        '',
+        'export removal: major',
+        `  - [major] greet: Export 'greet' removed (rule "export-removal")`,
+        '',
+        'export addition: minor',
+        `  - [minor] greet: Export 'greet' added (rule "export-addition")`,
+        '',
+        'unchanged: none',
+        '  (no changes detected)',
+        '',
+      ].join('\n'),
+    )
+  })
+})
@@ -49,6 +49,43 @@ describe('tsdoc-utils', () => {
       })
     })
 
+    describe('deprecation version', () => {
+      it.each([
+        ['Since 2.1.0, use bar() instead', '2.1.0'],
+        ['2.1.0: Use bar() instead', '2.1.0'],
+        ['Deprecated since v2.1.', '2.1'],
+        ['As of version 3, use bar()', undefined],
+        ['As of version v3, use bar()', '3'],
+        ['Deprecated in 1.4', '1.4'],
+        ['Use bar() instead. This will be removed in v2.0.', undefined],
+        ['Use bar() in 2 places', undefined],
+      ])('extracts the version from "%s"', (message, version) => {
+        const result = extractTSDocMetadata(`/** @deprecated ${message} */`)
+        expect(result.deprecatedSince).toBe(version)
+      })
+
+      it('reads the version from a @since tag if the message names none', () => {
+        const result = extractTSDocMetadata(`/**
+ * @deprecated Use bar() instead
+ * @since 2.1.0
+ */`)
+        expect(result.deprecatedSince).toBe('2.1.0')
+      })
+
+      it('prefers the version in the message over a @since tag', () => {
+        const result = extractTSDocMetadata(`/**
+ * @deprecated Since 2.2.0, use bar() instead
+ * @since 2.1.0
+ */`)
+        expect(result.deprecatedSince).toBe('2.2.0')
+      })
+
+      it('ignores @since tags of symbols that are not deprecated', () => {
+        const result = extractTSDocMetadata('/** @since 2.1.0 */')
+        expect(result.deprecatedSince).toBeUndefined()
+      })
+    })
+
     describe('@default tag', () => {
       it('extracts string default value', () => {
         const result = extractTSDocMetadata('/** @default "hello" */')
@@ -172,6 +209,55 @@ describe('tsdoc-utils', () => {
       })
     })
 
+    describe('@breakingChangeApproved tag', () => {
+      it('extracts the approval reason', () => {
+        const result = extractTSDocMetadata(
+          '/** @breakingChangeApproved Renamed for consistency */',
+        )
+        expect(result.isBreakingChangeApproved).toBe(true)
+        expect(result.breakingChangeReason).toBe('Renamed for consistency')
+      })
+
+      it('extracts an approval without a reason', () => {
+        const result = extractTSDocMetadata('/** @breakingChangeApproved */')
+        expect(result.isBreakingChangeApproved).toBe(true)
+        expect(result.breakingChangeReason).toBeUndefined()
+      })
+
+      it('returns false when no @breakingChangeApproved tag', () => {
+        const result = extractTSDocMetadata('/** Just a description */')
+        expect(result.isBreakingChangeApproved).toBe(false)
+      })
+    })
+
+    describe('@experimental tag', () => {
+      it('extracts @experimental', () => {
+        const result = extractTSDocMetadata(`/**
+ * A new API.
+ * @experimental
+ */`)
+        expect(result.isExperimental).toBe(true)
+      })
+
+      it('returns false when no @experimental tag', () => {
+        const result = extractTSDocMetadata('/** @beta */')
+        expect(result.isExperimental).toBe(false)
+      })
+    })
+
+    describe('release tags', () => {
+      it.each([
+        ['/** @public */', 'public'],
+        ['/** @beta */', 'beta'],
+        ['/** @alpha */', 'alpha'],
+        ['/** @internal */', 'internal'],
+        ['/** @beta @internal */', 'internal'],
+        ['/** Just a description */', undefined],
+      ])('extracts the release tag of %j', (comment, releaseTag) => {
+        expect(extractTSDocMetadata(comment).releaseTag).toBe(releaseTag)
+      })
+    })
+
     describe('@enumType tag', () => {
       it('extracts @enumType open', () => {
         const result = extractTSDocMetadata('/** @enumType open */')
@@ -7,8 +7,14 @@
 import { execSync } from 'child_process'
 import * as fs from 'fs'
 import * as path from 'path'
-import { compareDeclarations } from '@api-extractor-tools/change-detector'
-import type { ASTComparisonReport } from '@api-extractor-tools/change-detector'
+import {
+  compareDeclarations,
+  loadPolicy,
+} from '@api-extractor-tools/change-detector'
+import type {
+  ASTComparisonReport,
+  Policy,
+} from '@api-extractor-tools/change-detector'
 import type { AnalysisResult, ResolvedPluginConfig } from './types'
 
 /**
@@ -226,6 +232,31 @@ export function getFileAtRef(
   }
 }
 
+/**
+ * Loads the policy document configured as `policyPath`, if any.
+ *
+ * @param cwd - The package root directory
+ * @param config - Plugin configuration
+ * @returns The policy, or undefined to use the default semver policy
+ * @throws Error if the policy document cannot be read or is invalid
+ */
+function loadConfiguredPolicy(
+  cwd: string,
+  config: ResolvedPluginConfig,
+): Policy | undefined {
+  if (!config.policyPath) {
+    return undefined
+  }
+
+  const policyFile = path.resolve(cwd, config.policyPath)
+  try {
+    return loadPolicy(fs.readFileSync(policyFile, 'utf-8'))
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    throw new Error(`Could not load API policy ${policyFile}: ${message}`)
+  }
+}
+
 /**
  * Analyzes API changes between the baseline and current state.
  *
@@ -233,6 +264,7 @@ export function getFileAtRef(
  * @param config - Plugin configuration
  * @param lastRelease - Information about the last release
  * @returns Analysis result with comparison report and recommended bump
+ * @throws Error if the configured policy cannot be loaded
  *
  * @example
  * ```ts
@@ -247,6 +279,11 @@ export function analyzeAPIChanges(
   config: ResolvedPluginConfig,
   lastRelease?: { gitTag: string; version: string },
 ): AnalysisResult {
+  // A policy that cannot be loaded is a configuration error, not an analysis
+  // failure: reporting it as one would turn forbidden enforcement off in
+  // advisory and override mode
+  const policy = loadConfiguredPolicy(cwd, config)
+
   // Find the declaration file
   const declarationFile = findDeclarationFile(cwd, config)
 
@@ -295,6 +332,7 @@ export function analyzeAPIChanges(
     const result = compareDeclarations({
       oldFile: baselineFile,
       newFile: declarationFile,
+      policy,
     })
 
     return {
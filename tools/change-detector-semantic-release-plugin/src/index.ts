@@ -50,6 +50,7 @@
 export type {
   PluginMode,
   SemanticReleaseType,
+  NotesFormat,
   PluginConfig,
   ResolvedPluginConfig,
   AnalysisResult,
@@ -4,18 +4,22 @@
  * @packageDocumentation
  */
 
+import * as path from 'path'
+import { formatASTReportAsChangelog } from '@api-extractor-tools/change-detector'
 import type {
   ASTComparisonReport,
+  ChangelogReporterOptions,
   ClassifiedChange,
 } from '@api-extractor-tools/change-detector'
 import type {
   PluginConfig,
+  ResolvedPluginConfig,
   SemanticReleaseContext,
   AnalysisResult,
 } from './types'
 import { resolveConfig } from './types'
 import { getCachedAnalysis } from './plugin'
-import { analyzeAPIChanges } from './analyzer'
+import { analyzeAPIChanges, findDeclarationFile } from './analyzer'
 
 /**
  * Generates release notes with API change details.
@@ -62,7 +66,13 @@ export function generateNotes(
     return ''
   }
 
-  const notes = formatAPIChangesAsMarkdown(analysis.report)
+  const notes =
+    config.notesFormat === 'changelog'
+      ? formatASTReportAsChangelog(
+          analysis.report,
+          getChangelogOptions(config, context),
+        )
+      : formatAPIChangesAsMarkdown(analysis.report)
   if (notes) {
     logger.log('Added API changes to release notes')
   }
@@ -70,6 +80,45 @@ export function generateNotes(
   return notes
 }
 
+/**
+ * Gets the options of the changelog notes format: the templates, and links
+ * to the declaration file at the tags of the next and last releases.
+ */
+function getChangelogOptions(
+  config: ResolvedPluginConfig,
+  context: SemanticReleaseContext,
+): ChangelogReporterOptions {
+  const options: ChangelogReporterOptions = {}
+  if (config.changelogTemplates) {
+    options.templates = config.changelogTemplates
+  }
+
+  const declarationFile = findDeclarationFile(context.cwd, config)
+  if (!config.declarationLinkTemplate || !declarationFile) {
+    return options
+  }
+
+  // Links use forward slashes regardless of the platform
+  const file = path
+    .relative(context.cwd, declarationFile)
+    .split(path.sep)
+    .join('/')
+  const linkTemplate = config.declarationLinkTemplate
+  return {
+    ...options,
+    oldFilePath: file,
+    newFilePath: file,
+    linkTemplate: linkTemplate.replace(
+      /\{gitTag\}/g,
+      context.nextRelease?.gitTag ?? 'HEAD',
+    ),
+    oldLinkTemplate: linkTemplate.replace(
+      /\{gitTag\}/g,
+      context.lastRelease?.gitTag ?? 'HEAD',
+    ),
+  }
+}
+
 /**
  * Formats API changes as markdown for release notes.
  *
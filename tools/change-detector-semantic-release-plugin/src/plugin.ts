@@ -4,6 +4,7 @@
  * @packageDocumentation
  */
 
+import { formatForbiddenRule } from '@api-extractor-tools/change-detector'
 import type {
   PluginConfig,
   ResolvedPluginConfig,
@@ -141,6 +142,9 @@ export function analyzeCommits(
 
   // In override mode, return the detected bump
   if (config.mode === 'override') {
+    if (analysis.recommendedBump === 'forbidden') {
+      throw new Error(formatForbiddenError(analysis))
+    }
     const semanticType = releaseTypeToSemanticType(analysis.recommendedBump)
     if (semanticType) {
       logger.success(`Using API-detected release type: ${semanticType}`)
@@ -157,11 +161,13 @@ export function analyzeCommits(
  * Verifies the release before publishing.
  *
  * This hook validates that the proposed version bump matches (or exceeds)
- * what the API changes require.
+ * what the API changes require. Changes the policy forbids fail the release
+ * in every mode.
  *
  * @param pluginConfig - Plugin configuration
  * @param context - semantic-release context
- * @throws Error if validation fails in validate mode
+ * @throws Error if the policy forbids a change, or if validation fails in
+ * validate mode
  *
  * @alpha
  */
@@ -178,6 +184,11 @@ export function verifyRelease(
     return
   }
 
+  // Forbidden changes block the release regardless of mode
+  if (analysis.recommendedBump === 'forbidden') {
+    throw new Error(formatForbiddenError(analysis))
+  }
+
   // Skip if no next release determined
   if (!nextRelease) {
     return
@@ -343,6 +354,40 @@ function formatValidationError(
   return lines.join('\n')
 }
 
+/**
+ * Formats an error message listing the changes the policy forbids.
+ */
+function formatForbiddenError(analysis: AnalysisResult): string {
+  const forbiddenChanges = analysis.report?.byReleaseType.forbidden ?? []
+  const lines: string[] = [
+    '',
+    '╔══════════════════════════════════════════════════════════════════╗',
+    '║              FORBIDDEN API CHANGES                               ║',
+    '╚══════════════════════════════════════════════════════════════════╝',
+    '',
+    'The API policy forbids some of the changes. Forbidden changes block the release in every mode.',
+    '',
+  ]
+
+  if (forbiddenChanges.length > 0) {
+    lines.push('Forbidden changes:')
+    for (const change of forbiddenChanges) {
+      lines.push(`  • ${change.explanation}`)
+      lines.push(`    ${formatForbiddenRule(change)!}`)
+    }
+    lines.push('')
+  }
+
+  lines.push(
+    'To fix this:',
+    '  1. Revert or rework the forbidden changes',
+    '  2. Or change the policy rules that forbid them',
+    '',
+  )
+
+  return lines.join('\n')
+}
+
 /**
  * Logs changes to the console.
  */
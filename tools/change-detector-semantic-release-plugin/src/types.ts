@@ -6,6 +6,7 @@
 
 import type {
   ASTComparisonReport,
+  ChangelogTemplates,
   ReleaseType,
 } from '@api-extractor-tools/change-detector'
 
@@ -28,6 +29,16 @@ export type PluginMode = 'validate' | 'override' | 'advisory'
  */
 export type SemanticReleaseType = 'major' | 'minor' | 'patch'
 
+/**
+ * Format of the API changes in the release notes.
+ *
+ * - `summary`: Breaking changes, added and modified exports, and their counts (default)
+ * - `changelog`: Added, Changed, Deprecated and Removed sections following Keep a Changelog
+ *
+ * @alpha
+ */
+export type NotesFormat = 'summary' | 'changelog'
+
 /**
  * Configuration options for the plugin.
  *
@@ -72,6 +83,26 @@ export interface PluginConfig {
    */
   includeAPIChangesInNotes?: boolean
 
+  /**
+   * Format of the API changes in the release notes.
+   * @defaultValue `"summary"`
+   */
+  notesFormat?: NotesFormat
+
+  /**
+   * Templates for the sections and entries of the `changelog` notes format.
+   */
+  changelogTemplates?: ChangelogTemplates
+
+  /**
+   * Template of links from `changelog` notes to the lines of declarations,
+   * e.g. `"https://github.com/org/repo/blob/{gitTag}/{file}#L{line}"`.
+   * `{file}` is the declaration file relative to the package root, and
+   * `{gitTag}` the tag of the release the declaration is in: the next
+   * release, or the last one for removed declarations.
+   */
+  declarationLinkTemplate?: string
+
   /**
    * Whether to fail the release when there's a version bump mismatch.
    * Only applies when mode is 'validate'.
@@ -84,6 +115,13 @@ export interface PluginConfig {
    * If not provided, will use the latest release tag or 'main'.
    */
   baseRef?: string
+
+  /**
+   * Path to a JSON policy document to classify changes with.
+   * Can be relative to the package root or absolute.
+   * If not provided, the default semver policy is used.
+   */
+  policyPath?: string
 }
 
 /**
@@ -100,10 +138,18 @@ export interface ResolvedPluginConfig {
   apiExtractorConfig: string | null
   /** Whether to include API change details in the release notes */
   includeAPIChangesInNotes: boolean
+  /** Format of the API changes in the release notes */
+  notesFormat: NotesFormat
+  /** Templates for the `changelog` notes format */
+  changelogTemplates: ChangelogTemplates | null
+  /** Template of links from `changelog` notes to the lines of declarations */
+  declarationLinkTemplate: string | null
   /** Whether to fail the release when there's a version bump mismatch */
   failOnMismatch: boolean
   /** Git ref to use as the baseline for comparison */
   baseRef: string | null
+  /** Path to a JSON policy document to classify changes with */
+  policyPath: string | null
 }
 
 /**
@@ -275,7 +321,11 @@ export function resolveConfig(config: PluginConfig = {}): ResolvedPluginConfig {
     declarationPath: config.declarationPath ?? null,
     apiExtractorConfig: config.apiExtractorConfig ?? null,
     includeAPIChangesInNotes: config.includeAPIChangesInNotes ?? true,
+    notesFormat: config.notesFormat ?? 'summary',
+    changelogTemplates: config.changelogTemplates ?? null,
+    declarationLinkTemplate: config.declarationLinkTemplate ?? null,
     failOnMismatch: config.failOnMismatch ?? true,
     baseRef: config.baseRef ?? null,
+    policyPath: config.policyPath ?? null,
   }
 }
@@ -459,6 +459,135 @@ describe('Integration: Complete Plugin Lifecycle', () => {
     })
   })
 
+  describe('forbidden changes', () => {
+    /**
+     * Sets up a package whose policy forbids removals, with an export
+     * removed since v1.0.0 unless other declarations are given.
+     */
+    async function setupForbiddenRemoval(
+      oldDeclarations = 'export declare function foo(): void;',
+      newDeclarations = '',
+    ): Promise<SemanticReleaseContext> {
+      project.files = {
+        'package.json': JSON.stringify({
+          name: '@test/pkg',
+          version: '1.0.0',
+          types: 'dist/index.d.ts',
+        }),
+        'api-policy.json': JSON.stringify({
+          name: 'no-removals',
+          extends: 'semver-default',
+          rules: [
+            {
+              name: 'export-removal',
+              action: ['removed'],
+              rationale: 'Removals need an RFC',
+              returns: 'forbidden',
+            },
+          ],
+        }),
+        dist: {
+          'index.d.ts': oldDeclarations,
+        },
+      }
+      await project.write()
+      initGitRepo(project.baseDir)
+      createGitTag(project.baseDir, 'v1.0.0')
+
+      fs.writeFileSync(
+        path.join(project.baseDir, 'dist/index.d.ts'),
+        newDeclarations,
+      )
+
+      return createMockContext(project.baseDir, {
+        lastRelease: {
+          version: '1.0.0',
+          gitTag: 'v1.0.0',
+          gitHead: 'abc123',
+        },
+        nextRelease: {
+          type: 'major',
+          version: '2.0.0',
+          gitTag: 'v2.0.0',
+          notes: '',
+        },
+      })
+    }
+
+    it('fails the release with the rule rationale in validate mode', async () => {
+      const context = await setupForbiddenRemoval()
+      const config = { policyPath: 'api-policy.json' }
+
+      verifyConditions(config, context)
+      analyzeCommits(config, context)
+
+      expect(() => verifyRelease(config, context)).toThrow(
+        /FORBIDDEN API CHANGES[\s\S]*Export 'foo' removed\n {4}Forbidden by rule "export-removal": Removals need an RFC/,
+      )
+    })
+
+    it('fails the release in advisory mode', async () => {
+      const context = await setupForbiddenRemoval()
+      const config = {
+        mode: 'advisory' as const,
+        policyPath: 'api-policy.json',
+      }
+
+      verifyConditions(config, context)
+      analyzeCommits(config, context)
+
+      expect(() => verifyRelease(config, context)).toThrow(
+        /FORBIDDEN API CHANGES/,
+      )
+    })
+
+    it('fails the release in override mode', async () => {
+      const context = await setupForbiddenRemoval()
+      const config = {
+        mode: 'override' as const,
+        policyPath: 'api-policy.json',
+      }
+
+      verifyConditions(config, context)
+
+      expect(() => analyzeCommits(config, context)).toThrow(
+        /Removals need an RFC/,
+      )
+    })
+
+    it('fails the release for forbidden changes to members', async () => {
+      const context = await setupForbiddenRemoval(
+        'export interface A { x: string; y: number }',
+        'export interface A { x: string }',
+      )
+      const config = {
+        mode: 'advisory' as const,
+        policyPath: 'api-policy.json',
+      }
+
+      verifyConditions(config, context)
+      analyzeCommits(config, context)
+
+      expect(() => verifyRelease(config, context)).toThrow(
+        /FORBIDDEN API CHANGES[\s\S]*Member 'y' removed from interface 'A'\n {4}Forbidden by rule "export-removal": Removals need an RFC/,
+      )
+    })
+
+    it.each(['validate', 'advisory', 'override'] as const)(
+      'throws for a policy that cannot be loaded in %s mode',
+      async (mode) => {
+        const context = await setupForbiddenRemoval()
+        const config = { mode, policyPath: 'missing-policy.json' }
+
+        verifyConditions(config, context)
+
+        expect(() => analyzeCommits(config, context)).toThrow(
+          /Could not load API policy .*missing-policy\.json/,
+        )
+      },
+    )
+  })
+
   describe('edge cases', () => {
     it('handles new package with no baseline', async () => {
       project.files = {
@@ -564,6 +693,62 @@ describe('Integration: Complete Plugin Lifecycle', () => {
       expect(notes).toBe('')
     })
 
+    it('formats notes as a changelog with links to the declarations', async () => {
+      project.files = {
+        'package.json': JSON.stringify({
+          name: '@test/pkg',
+          version: '1.0.0',
+          types: 'dist/index.d.ts',
+        }),
+        dist: {
+          'index.d.ts':
+            'export declare function foo(): void;\nexport declare function baz(): void;',
+        },
+      }
+      await project.write()
+      initGitRepo(project.baseDir)
+      createGitTag(project.baseDir, 'v1.0.0')
+
+      // Change: Remove baz and add bar
+      fs.writeFileSync(
+        path.join(project.baseDir, 'dist/index.d.ts'),
+        'export declare function foo(): void;\nexport declare function bar(): string;',
+      )
+
+      const context = createMockContext(project.baseDir, {
+        lastRelease: {
+          version: '1.0.0',
+          gitTag: 'v1.0.0',
+          gitHead: 'abc123',
+        },
+        nextRelease: {
+          type: 'major',
+          version: '2.0.0',
+          gitTag: 'v2.0.0',
+          notes: '',
+        },
+      })
+
+      const notes = generateNotes(
+        {
+          notesFormat: 'changelog',
+          declarationLinkTemplate:
+            'https://example.com/blob/{gitTag}/{file}#L{line}',
+        },
+        context,
+      )
+
+      expect(notes).not.toContain('## API Changes')
+      expect(notes).toContain('### Added')
+      expect(notes).toContain(
+        '([dist/index.d.ts:2](https://example.com/blob/v2.0.0/dist/index.d.ts#L2))',
+      )
+      expect(notes).toContain('### Removed')
+      expect(notes).toContain(
+        '([dist/index.d.ts:2](https://example.com/blob/v1.0.0/dist/index.d.ts#L2))',
+      )
+    })
+
     it('handles custom baseRef configuration', async () => {
       // Setup: Initial version
       project.files = {
@@ -263,6 +263,7 @@ describe('resolveConfig', () => {
     expect(config.declarationPath).toBeNull()
     expect(config.includeAPIChangesInNotes).toBe(true)
     expect(config.failOnMismatch).toBe(true)
+    expect(config.policyPath).toBeNull()
   })
 
   it('preserves provided values', () => {
@@ -271,11 +272,13 @@ describe('resolveConfig', () => {
       declarationPath: './dist/types.d.ts',
       includeAPIChangesInNotes: false,
       failOnMismatch: false,
+      policyPath: './api-policy.json',
     })
 
     expect(config.mode).toBe('override')
     expect(config.declarationPath).toBe('./dist/types.d.ts')
     expect(config.includeAPIChangesInNotes).toBe(false)
     expect(config.failOnMismatch).toBe(false)
+    expect(config.policyPath).toBe('./api-policy.json')
   })
 })
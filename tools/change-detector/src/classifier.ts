@@ -15,4 +15,6 @@ export {
   createPolicy,
   RuleBuilder,
   PolicyBuilder,
+  // Policy documents
+  loadPolicy,
 } from '@api-extractor-tools/change-detector-core'
@@ -1,16 +1,38 @@
 #!/usr/bin/env node
+import * as fs from 'fs'
 import {
   compareDeclarations,
+  loadPolicy,
   formatASTReportAsText,
   formatASTReportAsMarkdown,
   formatASTReportAsJSON,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  type ReleaseType,
 } from './index'
 
+const RELEASE_TYPES: readonly ReleaseType[] = [
+  'forbidden',
+  'major',
+  'minor',
+  'patch',
+  'none',
+]
+
+function isReleaseType(value: string): value is ReleaseType {
+  return (RELEASE_TYPES as readonly string[]).includes(value)
+}
+
 interface CliOptions {
   oldFile: string | null
   newFile: string | null
   json: boolean
   markdown: boolean
+  junit: boolean
+  checkstyle: boolean
+  allowed: string | null
+  why: boolean
+  policyFile: string | null
   help: boolean
   version: boolean
 }
@@ -21,6 +43,11 @@ function parseArgs(args: string[]): CliOptions {
     newFile: null,
     json: false,
     markdown: false,
+    junit: false,
+    checkstyle: false,
+    allowed: null,
+    why: false,
+    policyFile: null,
     help: false,
     version: false,
   }
@@ -38,6 +65,16 @@ function parseArgs(args: string[]): CliOptions {
       options.json = true
     } else if (arg === '--markdown' || arg === '--md') {
       options.markdown = true
+    } else if (arg === '--junit') {
+      options.junit = true
+    } else if (arg === '--checkstyle') {
+      options.checkstyle = true
+    } else if (arg === '--allowed') {
+      options.allowed = args[++i] ?? ''
+    } else if (arg === '--why') {
+      options.why = true
+    } else if (arg === '--policy') {
+      options.policyFile = args[++i] ?? ''
     } else if (!arg.startsWith('-')) {
       positionalArgs.push(arg)
     }
@@ -71,6 +108,14 @@ ARGUMENTS:
 OPTIONS:
   --json        Output as JSON
   --markdown    Output as markdown
+  --junit       Output as JUnit XML, with a test case for each changed export
+  --checkstyle  Output as checkstyle XML, with an error for each change
+  --allowed <releaseType>
+                The release type changes may have without failing JUnit
+                test cases or being checkstyle errors (default: minor)
+  --why         Explain which policy rules matched each change
+  --policy <file>
+                Classify changes with the policy in a JSON policy document
   --help, -h    Show this help message
   --version, -V Show version number
 
@@ -78,6 +123,14 @@ EXAMPLES:
   change-detector dist/v1/index.d.ts dist/v2/index.d.ts
   change-detector old.d.ts new.d.ts --json
   change-detector old.d.ts new.d.ts --markdown > CHANGELOG.md
+  change-detector old.d.ts new.d.ts --junit --allowed patch > api.junit.xml
+  change-detector old.d.ts new.d.ts --why
+  change-detector old.d.ts new.d.ts --policy api-policy.json
+
+EXIT CODES:
+  0    The comparison succeeded
+  1    The comparison failed, e.g. a file could not be read
+  2    The policy forbids some of the changes
 `)
 }
 
@@ -106,24 +159,68 @@ function main(): void {
     return
   }
 
+  if (options.policyFile === '') {
+    console.error('Error: --policy requires the path of a policy document.')
+    process.exitCode = 1
+    return
+  }
+
+  let allowedReleaseType: ReleaseType | undefined
+  if (options.allowed !== null) {
+    if (!isReleaseType(options.allowed)) {
+      console.error(
+        `Error: --allowed requires one of ${RELEASE_TYPES.join(', ')}.`,
+      )
+      process.exitCode = 1
+      return
+    }
+    allowedReleaseType = options.allowed
+  }
+
   try {
+    const policy = options.policyFile
+      ? loadPolicy(fs.readFileSync(options.policyFile, 'utf-8'))
+      : undefined
     const result = compareDeclarations({
       oldFile: options.oldFile,
       newFile: options.newFile,
+      policy,
+      trace: options.why,
     })
+    const reportOptions = { includeTrace: options.why }
 
     // Output in requested format
     if (options.json) {
-      console.log(JSON.stringify(formatASTReportAsJSON(result.report), null, 2))
+      console.log(
+        JSON.stringify(
+          formatASTReportAsJSON(result.report, reportOptions),
+          null,
+          2,
+        ),
+      )
+    } else if (options.junit || options.checkstyle) {
+      // Key the XML reports to the declaration files being compared
+      const xmlOptions = {
+        ...reportOptions,
+        oldFilePath: options.oldFile,
+        newFilePath: options.newFile,
+        allowedReleaseType,
+      }
+      console.log(
+        options.junit
+          ? formatASTReportAsJUnit(result.report, xmlOptions)
+          : formatASTReportAsCheckstyle(result.report, xmlOptions),
+      )
     } else if (options.markdown) {
-      console.log(formatASTReportAsMarkdown(result.report))
+      console.log(formatASTReportAsMarkdown(result.report, reportOptions))
     } else {
-      console.log(formatASTReportAsText(result.report))
+      console.log(formatASTReportAsText(result.report, reportOptions))
     }
 
-    // Exit with code based on release type
-    // This allows CI integration: exit 0 for patch/none, non-zero for major/minor
-    // (Can be used to gate releases or trigger workflows)
+    // Forbidden changes fail CI with a code distinct from errors
+    if (result.releaseType === 'forbidden') {
+      process.exitCode = 2
+    }
   } catch (error) {
     console.error('Error comparing declaration files:')
     console.error(error instanceof Error ? error.message : String(error))
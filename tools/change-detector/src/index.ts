@@ -57,7 +57,7 @@ export type {
 } from './types'
 
 // Parser exports
-export { parseDeclarationFile } from './parser'
+export { parseDeclarationFile, parseDeclarationDirectory } from './parser'
 
 // Comparator exports
 export { compareFiles, compareDeclarationFiles } from './comparator'
@@ -75,17 +75,28 @@ export {
   createPolicy,
   RuleBuilder,
   PolicyBuilder,
+  loadPolicy,
 } from './classifier'
 
 // Reporter exports (re-exported from core)
 export {
   createASTComparisonReport,
   formatSourceLocation,
+  formatForbiddenRule,
   formatASTReportAsText,
   formatASTReportAsMarkdown,
   formatASTReportAsJSON,
+  parseASTReportJSON,
+  ASTReportJSONError,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  formatASTReportAsChangelog,
   type ASTReporterOptions,
   type ASTChangeJSON,
+  type JUnitReporterOptions,
+  type CheckstyleReporterOptions,
+  type ChangelogTemplates,
+  type ChangelogReporterOptions,
 } from './reporter'
 
 // Parameter analysis exports (re-exported from core)
@@ -152,7 +163,12 @@ export interface CompareDeclarationsResult extends ComparisonResult {
 export function compareDeclarations(
   options: CompareOptions,
 ): CompareDeclarationsResult {
-  const { oldFile, newFile, policy = semverDefaultPolicy } = options
+  const {
+    oldFile,
+    newFile,
+    policy = semverDefaultPolicy,
+    trace = false,
+  } = options
 
   // Parse both files with type information
   const oldParsed = parseDeclarationFile(oldFile)
@@ -169,13 +185,13 @@ export function compareDeclarations(
   }
 
   // Classify changes
-  const results = classifyChanges(changes, policy)
+  const results = classifyChanges(changes, policy, { trace })
 
   // Determine overall release type
   const releaseType = determineOverallRelease(results)
 
   // Create formatted report
-  const report = createASTComparisonReport(results)
+  const report = createASTComparisonReport(results, policy.name)
 
   return {
     releaseType,
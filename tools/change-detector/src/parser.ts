@@ -1,7 +1,9 @@
 import * as fs from 'fs'
+import * as path from 'path'
 import * as ts from 'typescript'
 import {
   parseModuleWithTypes,
+  parseModulesWithTypes,
   type ModuleAnalysisWithTypes,
   type ParseOptions,
 } from '@api-extractor-tools/change-detector-core'
@@ -35,3 +37,64 @@ export function parseDeclarationFile(
   // Note: filePath takes precedence over options.filename
   return parseModuleWithTypes(content, ts, { ...options, filename: filePath })
 }
+
+/**
+ * Recursively collects declaration files below a directory.
+ */
+function collectDeclarationFiles(
+  directory: string,
+  rootDirectory: string,
+  files: Map<string, string>,
+): void {
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name)
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules') {
+        collectDeclarationFiles(entryPath, rootDirectory, files)
+      }
+    } else if (/\.d\.[cm]?ts$/.test(entry.name)) {
+      const relativePath = path
+        .relative(rootDirectory, entryPath)
+        .split(path.sep)
+        .join('/')
+      files.set(relativePath, fs.readFileSync(entryPath, 'utf-8'))
+    }
+  }
+}
+
+/**
+ * Parses every declaration file in a directory as one program and extracts
+ * the exported symbols of the entry point.
+ *
+ * Relative imports between the declaration files are resolved, and the
+ * TypeScript standard library is loaded, so types defined in sibling files
+ * or in `lib.*.d.ts` are available for type resolution.
+ *
+ * @param directory - Directory containing the declaration files
+ * @param entryPoint - Entry point, relative to the directory (e.g., 'index.d.ts')
+ * @param options - Optional parse options
+ * @returns Module analysis of the entry point with TypeScript type information
+ *
+ * @alpha
+ */
+export function parseDeclarationDirectory(
+  directory: string,
+  entryPoint: string,
+  options?: Omit<ParseOptions, 'filename'>,
+): ModuleAnalysisWithTypes {
+  const files = new Map<string, string>()
+
+  if (!fs.existsSync(directory)) {
+    const result = parseModuleWithTypes('', ts, {
+      ...options,
+      filename: path.join(directory, entryPoint),
+    })
+    result.errors.push(`Directory not found: ${directory}`)
+    return result
+  }
+
+  collectDeclarationFiles(directory, directory, files)
+
+  const entryKey = path.normalize(entryPoint).split(path.sep).join('/')
+  return parseModulesWithTypes(files, ts, { ...options, entryPoint: entryKey })
+}
@@ -6,9 +6,19 @@
 export {
   createASTComparisonReport,
   formatSourceLocation,
+  formatForbiddenRule,
   formatASTReportAsText,
   formatASTReportAsMarkdown,
   formatASTReportAsJSON,
+  parseASTReportJSON,
+  ASTReportJSONError,
+  formatASTReportAsJUnit,
+  formatASTReportAsCheckstyle,
+  formatASTReportAsChangelog,
   type ASTReporterOptions,
   type ASTChangeJSON,
+  type JUnitReporterOptions,
+  type CheckstyleReporterOptions,
+  type ChangelogTemplates,
+  type ChangelogReporterOptions,
 } from '@api-extractor-tools/change-detector-core'
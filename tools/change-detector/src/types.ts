@@ -61,6 +61,8 @@ export interface CompareOptions {
   newFile: string
   /** Optional policy for classification (defaults to semverDefaultPolicy) */
   policy?: import('@api-extractor-tools/change-detector-core').Policy
+  /** Whether to record why each change was classified (see `ClassifyOptions`) */
+  trace?: boolean
 }
 
 /**
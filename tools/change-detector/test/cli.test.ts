@@ -3,6 +3,7 @@ import { Project } from 'fixturify-project'
 import * as path from 'path'
 import { execSync } from 'child_process'
 import { z } from 'zod'
+import { parseASTReportJSON, type ASTReportJSON } from '@'
 
 /**
  * Zod schema for validating CLI JSON output (AST-based format).
@@ -252,6 +253,231 @@ describe('CLI', () => {
       expect(result.exitCode).toBe(0)
       expect(result.stdout).toContain('#')
     })
+
+    it('outputs JUnit XML with --junit flag', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': 'export declare const foo: number;',
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--junit',
+      ])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain('<testsuites ')
+      expect(result.stdout).toContain('failures="1"')
+      expect(result.stdout).toContain(
+        `file="${path.join(project.baseDir, 'new.d.ts')}"`,
+      )
+    })
+
+    it('outputs checkstyle XML with --checkstyle flag', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts':
+          'export declare const foo: string;\nexport declare const bar: string;',
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--checkstyle',
+      ])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain(
+        `<file name="${path.join(project.baseDir, 'new.d.ts')}">`,
+      )
+      expect(result.stdout).toContain('line="2"')
+      expect(result.stdout).toContain('severity="warning"')
+    })
+
+    it('uses the --allowed release type for XML output', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts':
+          'export declare const foo: string;\nexport declare const bar: string;',
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--checkstyle',
+        '--allowed',
+        'patch',
+      ])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain('severity="error"')
+    })
+
+    it('fails on an invalid --allowed release type', () => {
+      const result = runCli(['old.d.ts', 'new.d.ts', '--junit', '--allowed'])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain('--allowed')
+    })
+  })
+
+  describe('--why flag', () => {
+    it('explains the classification of each change', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': 'export declare const bar: string;',
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--why',
+      ])
+
+      expect(result.exitCode).toBe(0)
+      expect(result.stdout).toContain('Why:')
+      expect(result.stdout).toContain('matched')
+    })
+
+    it('includes traces in JSON output', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': 'export declare const bar: string;',
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--json',
+        '--why',
+      ])
+
+      expect(result.exitCode).toBe(0)
+      const parsed = JSON.parse(result.stdout) as {
+        changes: Record<string, Array<{ trace?: { rules: unknown[] } }>>
+      }
+      const changes = Object.values(parsed.changes).flat()
+      expect(changes.length).toBeGreaterThan(0)
+      for (const change of changes) {
+        expect(change.trace?.rules.length).toBeGreaterThan(0)
+      }
+    })
+  })
+
+  describe('--policy option', () => {
+    const policyDocument = JSON.stringify({
+      name: 'no-removals',
+      extends: 'semver-default',
+      rules: [
+        {
+          name: 'export-removal',
+          action: ['removed'],
+          rationale: 'Removals need an RFC',
+          returns: 'forbidden',
+        },
+      ],
+    })
+
+    it('classifies changes with the policy document', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': 'export declare const bar: string;',
+        'policy.json': policyDocument,
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--json',
+        '--policy',
+        path.join(project.baseDir, 'policy.json'),
+      ])
+
+      const parsed = parseCliOutput(result.stdout)
+      expect(parsed.releaseType).toBe('forbidden')
+      expect(parsed.stats.forbidden).toBe(1)
+      expect(parsed.stats.minor).toBe(1)
+    })
+
+    it('outputs a versioned report with the policy name and rule ids', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': 'export declare const bar: string;',
+        'policy.json': policyDocument,
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--json',
+        '--policy',
+        path.join(project.baseDir, 'policy.json'),
+      ])
+
+      const report = parseASTReportJSON(result.stdout)
+      expect(report.policyName).toBe('no-removals')
+      expect(report.byReleaseType.forbidden[0]!.matchedRule?.name).toBe(
+        'export-removal',
+      )
+      const json = JSON.parse(result.stdout) as ASTReportJSON
+      expect(json.schemaVersion).toBe(1)
+      expect(json.changes.forbidden[0]!.ruleId).toBe('export-removal')
+    })
+
+    it('shows the rationale of the rule that forbids a change', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': '',
+        'policy.json': policyDocument,
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--policy',
+        path.join(project.baseDir, 'policy.json'),
+      ])
+
+      expect(result.stdout).toContain('FORBIDDEN')
+      expect(result.stdout).toContain(
+        'Forbidden by rule "export-removal": Removals need an RFC',
+      )
+    })
+
+    it('fails on an invalid policy document', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': 'export declare const foo: string;',
+        'policy.json': '{ "name": "broken" }',
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--policy',
+        path.join(project.baseDir, 'policy.json'),
+      ])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain('rules')
+    })
+
+    it('fails without the path of the policy document', () => {
+      const result = runCli(['old.d.ts', 'new.d.ts', '--policy'])
+
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain('--policy')
+    })
   })
 
   describe('change detection', () => {
@@ -357,6 +583,29 @@ export declare function bar(): void;`,
 
       expect(result.exitCode).toBe(1)
     })
+
+    it('returns 2 when the policy forbids a change', async () => {
+      project.files = {
+        'old.d.ts': 'export declare const foo: string;',
+        'new.d.ts': '',
+        'policy.json': JSON.stringify({
+          name: 'frozen',
+          defaultReleaseType: 'forbidden',
+          rules: [],
+        }),
+      }
+      await project.write()
+
+      const result = runCli([
+        path.join(project.baseDir, 'old.d.ts'),
+        path.join(project.baseDir, 'new.d.ts'),
+        '--policy',
+        path.join(project.baseDir, 'policy.json'),
+      ])
+
+      expect(result.exitCode).toBe(2)
+      expect(result.stdout).toContain('FORBIDDEN')
+    })
   })
 
   describe('complex scenarios', () => {
@@ -12,7 +12,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { Project } from 'fixturify-project'
 import * as path from 'path'
-import { parseDeclarationFile } from '@'
+import { parseDeclarationFile, parseDeclarationDirectory } from '@'
 
 describe('parseDeclarationFile (file-based API)', () => {
   let project: Project
@@ -161,3 +161,42 @@ export interface User { id: number; }
     })
   })
 })
+
+describe('parseDeclarationDirectory (file-based API)', () => {
+  let project: Project
+
+  beforeEach(() => {
+    project = new Project('test-pkg')
+  })
+
+  afterEach(() => {
+    project.dispose()
+  })
+
+  it('resolves types from sibling declaration files', async () => {
+    project.files = {
+      'index.d.ts': `
+import { User } from './models/user';
+export declare function getUser(): Promise<User>;
+`,
+      models: {
+        'user.d.ts': `export interface User { id: number; }`,
+      },
+    }
+    await project.write()
+
+    const result = parseDeclarationDirectory(project.baseDir, 'index.d.ts')
+
+    expect(result.errors).toHaveLength(0)
+    expect([...result.exports.keys()]).toEqual(['getUser'])
+    expect(result.exports.get('getUser')!.typeInfo.signature).toBe(
+      '() => Promise<User>',
+    )
+  })
+
+  it('handles missing directories gracefully', () => {
+    const result = parseDeclarationDirectory('/nonexistent/dir', 'index.d.ts')
+    expect(result.errors.length).toBeGreaterThan(0)
+    expect(result.exports.size).toBe(0)
+  })
+})
@@ -7,7 +7,14 @@
 import { execSync } from 'node:child_process'
 import * as fs from 'node:fs'
 import * as path from 'node:path'
-import { compareDeclarations } from '@api-extractor-tools/change-detector'
+import {
+  compareDeclarations,
+  formatASTReportAsChangelog,
+} from '@api-extractor-tools/change-detector'
+import type {
+  ChangelogReporterOptions,
+  Policy,
+} from '@api-extractor-tools/change-detector'
 import type {
   AnalyzeOptions,
   PackageAnalysisResult,
@@ -191,6 +198,7 @@ export function getFileAtRef(
  * @param pkg - The package to analyze
  * @param baseRef - The git ref to compare against
  * @param cwd - The workspace root directory
+ * @param policy - Policy to classify changes with (defaults to semverDefaultPolicy)
  * @returns Analysis result for the package
  *
  * @alpha
@@ -199,6 +207,7 @@ export function analyzePackage(
   pkg: PackageInfo,
   baseRef: string,
   cwd: string,
+  policy?: Policy,
 ): PackageAnalysisResult {
   // If no declaration file, skip
   if (!pkg.declarationFile) {
@@ -243,6 +252,7 @@ export function analyzePackage(
     const result = compareDeclarations({
       oldFile: baselineFile,
       newFile: pkg.declarationFile,
+      policy,
     })
 
     return {
@@ -308,7 +318,7 @@ export function analyzeWorkspace(
 
   // Analyze each package
   const results: PackageAnalysisResult[] = packages.map((pkg) =>
-    analyzePackage(pkg, baselineRef, cwd),
+    analyzePackage(pkg, baselineRef, cwd, options.policy),
   )
 
   // Filter results
@@ -416,3 +426,46 @@ export function generateChangeDescription(
 
   return lines.join('\n').trim()
 }
+
+/**
+ * Generates a changeset summary listing all changes in Keep a Changelog
+ * sections.
+ *
+ * @remarks
+ * Changesets adds summaries to CHANGELOG.md as list items, so sections are
+ * bold labels rather than headings unless `options.templates` says otherwise.
+ *
+ * @param result - The analysis result for a package
+ * @param options - Changelog options, e.g. templates and link templates
+ * @param cwd - The workspace root, which links to declarations are relative to
+ * @returns The changelog sections of the changes
+ *
+ * @alpha
+ */
+export function generateChangelogDescription(
+  result: PackageAnalysisResult,
+  options: ChangelogReporterOptions = {},
+  cwd: string = process.cwd(),
+): string {
+  if (!result.report) {
+    if (result.recommendedBump === 'minor') {
+      return 'Initial release of package'
+    }
+    return ''
+  }
+
+  // Links use forward slashes regardless of the platform
+  const file = result.package.declarationFile
+    ? path
+        .relative(cwd, result.package.declarationFile)
+        .split(path.sep)
+        .join('/')
+    : undefined
+
+  return formatASTReportAsChangelog(result.report, {
+    oldFilePath: file,
+    newFilePath: file,
+    ...options,
+    templates: { section: '**{section}:**', ...options.templates },
+  }).trim()
+}
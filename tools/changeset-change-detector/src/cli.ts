@@ -14,6 +14,7 @@ interface CliOptions {
   yes: boolean
   strict: boolean
   summary?: string
+  changelog: boolean
   help: boolean
   version: boolean
 }
@@ -23,6 +24,7 @@ function parseArgs(args: string[]): CliOptions {
     command: null,
     yes: false,
     strict: false,
+    changelog: false,
     help: false,
     version: false,
   }
@@ -38,6 +40,8 @@ function parseArgs(args: string[]): CliOptions {
       options.yes = true
     } else if (arg === '--strict') {
       options.strict = true
+    } else if (arg === '--changelog') {
+      options.changelog = true
     } else if (arg === '--base' || arg === '-b') {
       const nextArg = args[i + 1]
       if (nextArg && !nextArg.startsWith('-')) {
@@ -79,6 +83,8 @@ OPTIONS:
   --yes, -y             Skip confirmation prompts (for CI)
   --strict              Fail validation on warnings (not just errors)
   --summary, -s <text>  Custom summary for generated changeset
+  --changelog           List all changes in the generated changeset in
+                        Keep a Changelog sections
   --help, -h            Show this help message
   --version, -V         Show version number
 
@@ -89,6 +95,9 @@ EXAMPLES:
   # Generate without prompts (for CI)
   changeset-change-detector generate --yes
 
+  # Generate a changeset listing all changes as Added/Changed/Removed
+  changeset-change-detector generate --changelog
+
   # Validate changesets in CI
   changeset-change-detector validate --base main
 
@@ -114,6 +123,7 @@ async function runGenerate(options: CliOptions): Promise<number> {
     baseRef: options.baseRef,
     yes: options.yes,
     summary: options.summary,
+    summaryFormat: options.changelog ? 'changelog' : 'summary',
   })
 
   if (result.error) {
@@ -13,6 +13,7 @@ import {
   analyzeWorkspace,
   formatChangeSummary,
   generateChangeDescription,
+  generateChangelogDescription,
 } from './analyzer'
 import type {
   ChangesetBumpType,
@@ -28,6 +29,7 @@ import { releaseTypeToBumpType } from './types'
  *
  * @param analysis - The workspace analysis result
  * @param customSummary - Optional custom summary to use instead of auto-generated
+ * @param options - Format of the auto-generated summary
  * @returns A pending changeset, or null if no changes detected
  *
  * @alpha
@@ -35,6 +37,7 @@ import { releaseTypeToBumpType } from './types'
 export function createChangesetFromAnalysis(
   analysis: WorkspaceAnalysisResult,
   customSummary?: string,
+  options: Pick<GenerateOptions, 'cwd' | 'summaryFormat' | 'changelog'> = {},
 ): PendingChangeset | null {
   const { packagesWithChanges } = analysis
 
@@ -68,7 +71,10 @@ export function createChangesetFromAnalysis(
     const summaryParts: string[] = []
 
     for (const result of packagesWithChanges) {
-      const description = generateChangeDescription(result)
+      const description =
+        options.summaryFormat === 'changelog'
+          ? generateChangelogDescription(result, options.changelog, options.cwd)
+          : generateChangeDescription(result)
       if (description) {
         summaryParts.push(description)
       } else {
@@ -201,6 +207,7 @@ export async function generateChangeset(
     analysis = analyzeWorkspace({
       cwd,
       baseRef: options.baseRef,
+      policy: options.policy,
     })
   } catch (err) {
     return {
@@ -228,7 +235,11 @@ export async function generateChangeset(
   }
 
   // Create changeset
-  const changeset = createChangesetFromAnalysis(analysis, options.summary)
+  const changeset = createChangesetFromAnalysis(analysis, options.summary, {
+    cwd,
+    summaryFormat: options.summaryFormat,
+    changelog: options.changelog,
+  })
   if (!changeset) {
     return {
       success: true,
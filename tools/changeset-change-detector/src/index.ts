@@ -30,6 +30,7 @@
 // Type exports
 export type {
   ChangesetBumpType,
+  SummaryFormat,
   PackageInfo,
   PackageAnalysisResult,
   WorkspaceAnalysisResult,
@@ -54,6 +55,7 @@ export {
   analyzeWorkspace,
   formatChangeSummary,
   generateChangeDescription,
+  generateChangelogDescription,
 } from './analyzer'
 
 // Generator exports
@@ -69,6 +71,7 @@ export {
   readPendingChangesets,
   aggregateChangesetBumps,
   validateChangesets,
+  validateForbiddenChanges,
   formatValidationResult,
 } from './validator'
 
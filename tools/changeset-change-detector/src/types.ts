@@ -6,6 +6,8 @@
 
 import type {
   ASTComparisonReport,
+  ChangelogReporterOptions,
+  Policy,
   ReleaseType,
 } from '@api-extractor-tools/change-detector'
 
@@ -17,6 +19,16 @@ import type {
  */
 export type ChangesetBumpType = 'major' | 'minor' | 'patch'
 
+/**
+ * Format of auto-generated changeset summaries.
+ *
+ * - `summary`: Up to five breaking changes and five other changes (default)
+ * - `changelog`: All changes in Added, Changed, Deprecated and Removed sections following Keep a Changelog
+ *
+ * @alpha
+ */
+export type SummaryFormat = 'summary' | 'changelog'
+
 /**
  * Information about a package in the workspace.
  *
@@ -155,6 +167,8 @@ export interface AnalyzeOptions {
   baseRef?: string
   /** Root directory of the workspace */
   cwd?: string
+  /** Policy to classify changes with (defaults to semverDefaultPolicy) */
+  policy?: Policy
 }
 
 /**
@@ -167,6 +181,13 @@ export interface GenerateOptions extends AnalyzeOptions {
   yes?: boolean
   /** Custom summary for the changeset (overrides auto-generated) */
   summary?: string
+  /** Format of the auto-generated summary (defaults to 'summary') */
+  summaryFormat?: SummaryFormat
+  /**
+   * Options for `changelog` summaries, e.g. templates and link templates.
+   * Declaration files in links are relative to the workspace root.
+   */
+  changelog?: ChangelogReporterOptions
 }
 
 /**
@@ -7,10 +7,12 @@
 import * as fs from 'node:fs'
 import * as path from 'node:path'
 import readChangesets from '@changesets/read'
+import { formatForbiddenRule } from '@api-extractor-tools/change-detector'
 import type { NewChangeset, VersionType } from '@changesets/types'
 import { analyzeWorkspace } from './analyzer'
 import type {
   ChangesetBumpType,
+  PackageAnalysisResult,
   ValidateOptions,
   ValidationIssue,
   ValidationResult,
@@ -76,6 +78,44 @@ export function aggregateChangesetBumps(
   return bumps
 }
 
+/**
+ * Reports an error for each change a package's policy forbids, with the
+ * rationale of the rule that forbids it. Forbidden changes must be reverted
+ * or addressed before release, whatever bump a changeset declares.
+ *
+ * @param result - The analysis result of a package
+ * @returns One error per forbidden change, or none if the package has none
+ *
+ * @alpha
+ */
+export function validateForbiddenChanges(
+  result: PackageAnalysisResult,
+): ValidationIssue[] {
+  if (result.recommendedBump !== 'forbidden') {
+    return []
+  }
+
+  const packageName = result.package.name
+  const forbidden = result.report?.byReleaseType.forbidden ?? []
+  if (forbidden.length === 0) {
+    return [
+      {
+        severity: 'error',
+        packageName,
+        message: 'Package has forbidden API changes',
+        recommendedBump: 'forbidden',
+      },
+    ]
+  }
+
+  return forbidden.map((change) => ({
+    severity: 'error',
+    packageName,
+    message: `${change.explanation}. ${formatForbiddenRule(change)!}`,
+    recommendedBump: 'forbidden',
+  }))
+}
+
 /**
  * Validates changesets against detected API changes.
  *
@@ -115,6 +155,7 @@ export async function validateChangesets(
     analysis = analyzeWorkspace({
       cwd,
       baseRef: options.baseRef,
+      policy: options.policy,
     })
   } catch (err) {
     return {
@@ -133,9 +174,15 @@ export async function validateChangesets(
     }
   }
 
+  // Forbidden changes fail validation regardless of the declared bump
+  for (const result of analysis.packages) {
+    issues.push(...validateForbiddenChanges(result))
+  }
+
   // Build map of detected changes per package
   const detectedChanges = new Map<string, { bump: ChangesetBumpType | null }>()
   for (const result of analysis.packages) {
+    if (result.recommendedBump === 'forbidden') continue
     const bump = releaseTypeToBumpType(result.recommendedBump)
     detectedChanges.set(result.package.name, { bump })
   }
@@ -143,6 +190,7 @@ export async function validateChangesets(
   // Check for packages with changes but no changesets
   const packagesMissingChangesets: string[] = []
   for (const result of analysis.packagesWithChanges) {
+    if (result.recommendedBump === 'forbidden') continue
     const bump = releaseTypeToBumpType(result.recommendedBump)
     if (bump && !changesetBumps.has(result.package.name)) {
       packagesMissingChangesets.push(result.package.name)
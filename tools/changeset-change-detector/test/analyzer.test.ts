@@ -15,6 +15,7 @@ import {
   discoverPackages,
   formatChangeSummary,
   generateChangeDescription,
+  generateChangelogDescription,
   type PackageAnalysisResult,
 } from '@'
 
@@ -378,3 +379,122 @@ describe('generateChangeDescription', () => {
     expect(description).toContain('...and 5 more')
   })
 })
+
+describe('generateChangelogDescription', () => {
+  function createResult(changes: ClassifiedChange[]): PackageAnalysisResult {
+    return {
+      package: {
+        name: '@test/pkg',
+        path: '/test',
+        version: '1.0.0',
+        declarationFile: '/test/dist/index.d.ts',
+      },
+      report: { ...createEmptyReport(), releaseType: 'major', changes },
+      recommendedBump: 'major',
+    }
+  }
+
+  it('lists all changes in Keep a Changelog sections', () => {
+    const result = createResult([
+      createChange(
+        'foo',
+        'major',
+        'removed',
+        'Function foo was removed',
+        'function foo(): void',
+        undefined,
+      ),
+      createChange(
+        'baz',
+        'minor',
+        'added',
+        'Function baz was added',
+        undefined,
+        'function baz(): void',
+      ),
+    ])
+
+    expect(generateChangelogDescription(result)).toBe(
+      [
+        '**Added:**',
+        '',
+        '- `baz`: Function baz was added',
+        '',
+        '**Removed:**',
+        '',
+        '- **Breaking:** `foo`: Function foo was removed',
+      ].join('\n'),
+    )
+  })
+
+  it('lists the classified nested changes of members', () => {
+    const result = createResult([
+      {
+        ...createChange('A', 'major', 'modified', "Type of 'A' changed"),
+        releaseType: 'none',
+        nestedChanges: [
+          createChange(
+            'A.y',
+            'major',
+            'removed',
+            "Member 'y' removed from interface 'A'",
+          ),
+        ],
+      },
+    ])
+
+    expect(generateChangelogDescription(result)).toBe(
+      [
+        '**Removed:**',
+        '',
+        "- **Breaking:** `A.y`: Member 'y' removed from interface 'A'",
+      ].join('\n'),
+    )
+  })
+
+  it('links to declarations relative to the workspace root', () => {
+    const change = createChange(
+      'baz',
+      'minor',
+      'added',
+      'Function baz was added',
+      undefined,
+      'function baz(): void',
+    )
+    change.newLocation = {
+      start: { line: 3, column: 0, offset: 40 },
+      end: { line: 3, column: 36, offset: 76 },
+    }
+
+    const description = generateChangelogDescription(
+      createResult([change]),
+      {
+        linkTemplate: 'https://example.com/blob/main/{file}#L{line}',
+        templates: { section: '### {section}' },
+      },
+      '/test',
+    )
+
+    expect(description).toContain('### Added')
+    expect(description).toContain(
+      '([dist/index.d.ts:3](https://example.com/blob/main/dist/index.d.ts#L3))',
+    )
+  })
+
+  it('generates description for new package', () => {
+    const result: PackageAnalysisResult = {
+      package: {
+        name: '@test/pkg',
+        path: '/test',
+        version: '1.0.0',
+        declarationFile: '/test/dist/index.d.ts',
+      },
+      report: null,
+      recommendedBump: 'minor',
+    }
+
+    expect(generateChangelogDescription(result)).toBe(
+      'Initial release of package',
+    )
+  })
+})
@@ -232,6 +232,22 @@ describe('CLI', () => {
 
       expect(result.stdout).toContain('Analyzing')
     })
+
+    it('accepts --changelog flag with generate', async () => {
+      project.files = {
+        'package.json': JSON.stringify({
+          name: 'test-workspace',
+          private: true,
+        }),
+      }
+      await project.write()
+
+      const result = runCli(['generate', '--changelog'], {
+        cwd: project.baseDir,
+      })
+
+      expect(result.stdout).toContain('Analyzing')
+    })
   })
 
   describe('validate command', () => {
@@ -350,6 +366,7 @@ describe('CLI', () => {
       expect(result.stdout).toContain('--strict')
       expect(result.stdout).toContain('--summary')
       expect(result.stdout).toContain('-s')
+      expect(result.stdout).toContain('--changelog')
       expect(result.stdout).toContain('--help')
       expect(result.stdout).toContain('-h')
       expect(result.stdout).toContain('--version')
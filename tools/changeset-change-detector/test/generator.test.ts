@@ -158,6 +158,60 @@ describe('createChangesetFromAnalysis', () => {
     expect(changeset?.summary).toContain('Function foo was removed')
   })
 
+  it('lists changes in Keep a Changelog sections with the changelog format', () => {
+    const removal = createChange(
+      'foo',
+      'major',
+      'removed',
+      'Function foo was removed',
+      'function foo(): void',
+      undefined,
+    )
+    const analysis: WorkspaceAnalysisResult = {
+      packages: [],
+      baselineRef: 'main',
+      packagesWithChanges: [
+        {
+          package: {
+            name: '@test/pkg-a',
+            path: '/test/pkg-a',
+            version: '1.0.0',
+            declarationFile: '/test/pkg-a/dist/index.d.ts',
+          },
+          report: {
+            releaseType: 'major',
+            changes: [removal],
+            byReleaseType: {
+              forbidden: [],
+              major: [removal],
+              minor: [],
+              patch: [],
+              none: [],
+            },
+            stats: {
+              forbidden: 0,
+              major: 1,
+              minor: 0,
+              patch: 0,
+              none: 0,
+              total: 1,
+            },
+          },
+          recommendedBump: 'major',
+        },
+      ],
+      packagesWithErrors: [],
+    }
+
+    const changeset = createChangesetFromAnalysis(analysis, undefined, {
+      summaryFormat: 'changelog',
+    })
+
+    expect(changeset?.summary).toBe(
+      '**Removed:**\n\n- **Breaking:** `foo`: Function foo was removed',
+    )
+  })
+
   it('returns null when no changes detected', () => {
     const analysis: WorkspaceAnalysisResult = {
       packages: [],
@@ -4,12 +4,74 @@
 
 import { describe, it, expect } from 'vitest'
 import type { NewChangeset } from '@changesets/types'
+import {
+  createASTComparisonReport,
+  type ChangeDescriptor,
+  type ClassifiedChange,
+} from '@api-extractor-tools/change-detector'
 import {
   aggregateChangesetBumps,
   formatValidationResult,
+  validateForbiddenChanges,
+  type PackageAnalysisResult,
   type ValidationResult,
 } from '@'
 
+// Helper to create a forbidden change
+function createForbiddenChange(
+  path: string,
+  matchedRule?: ClassifiedChange['matchedRule'],
+): ClassifiedChange {
+  return {
+    path,
+    nodeKind: 'function',
+    releaseType: 'forbidden',
+    descriptor: {
+      target: 'export',
+      action: 'removed',
+      tags: new Set(),
+    } as ChangeDescriptor,
+    explanation: `Export '${path}' removed`,
+    nestedChanges: [],
+    context: { isNested: false, depth: 0, ancestors: [] },
+    matchedRule,
+  }
+}
+
+// Helper to create the analysis result of a package with forbidden changes
+function createForbiddenResult(
+  forbidden: ClassifiedChange[],
+): PackageAnalysisResult {
+  return {
+    package: {
+      name: '@test/pkg',
+      path: '/test',
+      version: '1.0.0',
+      declarationFile: '/test/dist/index.d.ts',
+    },
+    report: {
+      releaseType: 'forbidden',
+      changes: forbidden,
+      byReleaseType: {
+        forbidden,
+        major: [],
+        minor: [],
+        patch: [],
+        none: [],
+      },
+      stats: {
+        forbidden: forbidden.length,
+        major: 0,
+        minor: 0,
+        patch: 0,
+        none: 0,
+        total: forbidden.length,
+      },
+    },
+    recommendedBump: 'forbidden',
+  }
+}
+
 describe('aggregateChangesetBumps', () => {
   it('aggregates bumps from single changeset', () => {
     const changesets: NewChangeset[] = [
@@ -59,6 +121,87 @@ describe('aggregateChangesetBumps', () => {
   })
 })
 
+describe('validateForbiddenChanges', () => {
+  it('reports each forbidden change with the rationale of its rule', () => {
+    const issues = validateForbiddenChanges(
+      createForbiddenResult([
+        createForbiddenChange('foo', {
+          name: 'export-removal',
+          description: 'Removals need an RFC',
+        }),
+        createForbiddenChange('bar'),
+      ]),
+    )
+
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        packageName: '@test/pkg',
+        message:
+          'Export \'foo\' removed. Forbidden by rule "export-removal": Removals need an RFC',
+        recommendedBump: 'forbidden',
+      },
+      {
+        severity: 'error',
+        packageName: '@test/pkg',
+        message:
+          "Export 'bar' removed. Forbidden by the default release type of the policy",
+        recommendedBump: 'forbidden',
+      },
+    ])
+  })
+
+  it('reports forbidden nested changes', () => {
+    const removal: ClassifiedChange = {
+      ...createForbiddenChange('A.y', {
+        name: 'no-removals',
+        description: 'Removals need an RFC',
+      }),
+      nodeKind: 'property',
+      explanation: "Member 'y' removed from interface 'A'",
+    }
+    const result = createForbiddenResult([])
+    result.report = createASTComparisonReport([
+      {
+        ...createForbiddenChange('A'),
+        releaseType: 'none',
+        nestedChanges: [removal],
+      },
+    ])
+
+    expect(validateForbiddenChanges(result)).toEqual([
+      {
+        severity: 'error',
+        packageName: '@test/pkg',
+        message:
+          "Member 'y' removed from interface 'A'. Forbidden by rule \"no-removals\": Removals need an RFC",
+        recommendedBump: 'forbidden',
+      },
+    ])
+  })
+
+  it('reports forbidden packages without a report', () => {
+    const result = createForbiddenResult([])
+    result.report = null
+
+    expect(validateForbiddenChanges(result)).toEqual([
+      {
+        severity: 'error',
+        packageName: '@test/pkg',
+        message: 'Package has forbidden API changes',
+        recommendedBump: 'forbidden',
+      },
+    ])
+  })
+
+  it('reports nothing for packages without forbidden changes', () => {
+    const result = createForbiddenResult([])
+    result.recommendedBump = 'major'
+
+    expect(validateForbiddenChanges(result)).toEqual([])
+  })
+})
+
 describe('formatValidationResult', () => {
   it('formats passing result', () => {
     const result: ValidationResult = {